@@ -1,250 +1,444 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, useSyncExternalStore } from 'react';
 import UploadForm from './components/UploadForm';
 import ProjectList from './components/ProjectList';
 import PluginSelector from './components/PluginSelector';
-import ResultsGrid from './components/ResultsGrid';
+import ResultsWorkspace from './components/ResultsWorkspace';
+import ResultsHistory from './components/ResultsHistory';
+import AnnotationList from './components/AnnotationList';
+import CommandPalette from './components/CommandPalette';
 import SymbolManager from './components/SymbolManager';
 import Dashboard from './components/Dashboard';
 import ProcessInvestigation from './components/ProcessInvestigation';
 import RegistryBrowser from './components/RegistryBrowser';
+import ContractDiagnostics from './components/ContractDiagnostics';
+import AuthGate from './components/AuthGate';
+import ServerRegistry from './components/ServerRegistry';
+import JobTray from './components/JobTray';
+import NotificationCenter from './components/NotificationCenter';
+import ToastStack from './components/ToastStack';
 import { InvestigationProvider, useInvestigation } from './context/InvestigationContext';
 import './App.css';
 import { 
   getPlugins, 
   runAnalysis,
   runBatchAnalysis,
-  checkPluginStatus, 
-  checkAllStatus,
-  getPluginResults,
-  getProjects
+  cancelAnalysis,
+  subscribePluginStatus,
+  loadPluginResults,
+  getProjectsFromAllServers,
+  negotiateApiVersion,
+  isCancelledError,
+  logout
 } from './api/vtfApi';
-import type { PluginInfo, ProjectInfo } from './api/vtfApi';
+import type { PluginInfo, PluginResultsSource, ServerProjectsResult } from './api/vtfApi';
+import { MOCK_BACKEND, setMockBackend } from './api/client';
+import { getSessionSnapshot, subscribeSession } from './api/session';
+import { addServer, getActiveServer, getServersSnapshot, setActiveServer, subscribeServers } from './api/servers';
+import { getCompletedBatchPlugins, trackAnalysisJobs } from './api/jobs';
+import type { BackgroundJob } from './api/jobs';
+import { getLocationSnapshot, getRouteProjectId, navigate, subscribeLocation } from './router';
+import { closeTab, getTabId, openResultsTabs } from './workspace';
+import type { ResultsTab } from './workspace';
+import {
+  getLastRoute,
+  getRestoredRoute,
+  getWorkspaceResetCount,
+  rememberRoute,
+  resetProjectLayout,
+  restoreWorkspaceTabs,
+  subscribeWorkspaceReset,
+} from './workspaceSession';
+import { reportError } from './notifications';
+import { useI18n } from './hooks/useI18n';
+import { useTheme } from './hooks/useTheme';
+import { moveListFocus } from './a11y';
+import { THEME_PREFERENCES } from './theme';
+import type { ThemePreference } from './theme';
+import { LOCALES, t } from './i18n/i18n';
+import type { Locale } from './i18n/i18n';
+
+type AppState = 'project-selection' | 'upload' | 'plugin-selection' | 'processing' | 'not-started' | 'loading' | 'results' | 'symbols' | 'error' | 'dashboard' | 'investigation' | 'registry' | 'servers' | 'history';
+
+/** Načtené výsledky záložek jednoho projektu (klíč = ID záložky) */
+interface LoadedResults {
+  projectId: string;
+  sources: Record<string, PluginResultsSource>;
+}
 
-type AppState = 'project-selection' | 'upload' | 'plugin-selection' | 'processing' | 'results' | 'symbols' | 'error' | 'dashboard' | 'investigation' | 'registry';
+const NO_RESULTS: Record<string, PluginResultsSource> = {};
 
-interface BatchProgress {
-  plugin: string;
-  status: 'running' | 'completed' | 'failed' | 'not_started';
-  error?: string;
+/** Stav pluginu otevřeného ve výsledcích, dokud se nenačtou data */
+interface RunState {
+  key: string;
+  status: 'running' | 'not_started';
 }
 
 function App() {
   return (
-    <InvestigationProvider>
-      <AppContent />
-    </InvestigationProvider>
+    <AuthGate>
+      <InvestigationProvider>
+        <AppContent />
+      </InvestigationProvider>
+    </AuthGate>
   );
 }
 
 function AppContent() {
   const { setAnalysisId: setInvestigationAnalysisId } = useInvestigation();
-  const [appState, setAppState] = useState<AppState>('project-selection');
-  const [projects, setProjects] = useState<ProjectInfo[]>([]);
-  const [analysisId, setAnalysisIdRaw] = useState<string | null>(null);
+  // Efekty a callbacky překládají přes modulové t - přepnutí jazyka je nemá spouštět znovu
+  const { locale, setLocale } = useI18n();
+  const { preference: themePreference, setPreference: setThemePreference } = useTheme();
+  const location = useSyncExternalStore(subscribeLocation, getLocationSnapshot);
+  const { route } = location;
+  const [projects, setProjects] = useState<ServerProjectsResult>({ projects: [], failures: [] });
   const [plugins, setPlugins] = useState<PluginInfo[]>([]);
-  const [selectedPlugin, setSelectedPlugin] = useState<string | null>(null);
-  const [selectedPlugins, setSelectedPlugins] = useState<string[]>([]);
-  const [results, setResults] = useState<any[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  // Výsledky a chyba patří ke konkrétní route - po navigaci jinam (i tlačítkem Zpět) se nezobrazí
+  const [loadedResults, setLoadedResults] = useState<LoadedResults | null>(null);
+  const [runState, setRunState] = useState<RunState | null>(null);
+  // Chyba, kvůli které view nemá co zobrazit (výsledky se nenačetly, plugin selhal) - ostatní chyby jdou do oznámení
+  const [failure, setFailure] = useState<{ routeKey: string; message: string; retryable: boolean } | null>(null);
+  // Zvýšení znovu spustí načítání výsledků po chybě
+  const [resultsAttempt, setResultsAttempt] = useState(0);
   const [isLoadingProjects, setIsLoadingProjects] = useState(false);
-  const [batchProgress, setBatchProgress] = useState<BatchProgress[]>([]);
-  const [isBatchMode, setIsBatchMode] = useState(false);
+  const [backendApiVersion, setBackendApiVersion] = useState<string | null>(null);
+  // Pluginy, u kterých čekáme na potvrzení zrušení ze status streamu
+  const [cancellingPlugins, setCancellingPlugins] = useState<string[]>([]);
+  // Naposledy spuštěné analýzy - upozornění, že běží na pozadí
+  const [startedRun, setStartedRun] = useState<{ analysisId: string; plugins: string[] } | null>(null);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const { session } = useSyncExternalStore(subscribeSession, getSessionSnapshot);
+  const { servers, active: activeServer } = useSyncExternalStore(subscribeServers, getServersSnapshot);
+  // Reset rozložení namountuje view projektu znovu s výchozím stavem
+  const layoutResetCount = useSyncExternalStore(subscribeWorkspaceReset, getWorkspaceResetCount);
+  // Požadavky vázané na aktuální projekt - při přepnutí projektu se zruší
+  const projectAbortRef = useRef(new AbortController());
+
+  const routeKey = JSON.stringify(route);
+  const routeProjectId = getRouteProjectId(route);
+  // Projekt z odkazu patří serveru v URL (bez parametru výchozímu serveru)
+  const routeServerUrl = routeProjectId
+    ? location.server ?? servers.find(s => s.builtin)?.url ?? activeServer.url
+    : null;
+  const isSwitchingServer = routeServerUrl !== null && routeServerUrl !== activeServer.url;
+  const analysisId = isSwitchingServer ? null : routeProjectId;
+  const selectedPlugin = route.view === 'results' ? route.plugin : null;
+  const resultsKey = analysisId && selectedPlugin ? getTabId(analysisId, selectedPlugin) : null;
+  const routeFailure = failure?.routeKey === routeKey ? failure : null;
+  const error = routeFailure?.message ?? null;
+  const projectResults = loadedResults && loadedResults.projectId === analysisId ? loadedResults.sources : NO_RESULTS;
+  const currentResults = resultsKey ? projectResults[resultsKey] ?? null : null;
+  const hasResults = currentResults !== null;
+  // Odkaz s ?batch= otevře všechny pluginy batch běhu jako záložky
+  const batchKey = route.view === 'results' && route.batch ? [route.plugin, ...route.batch].join(',') : null;
+  const currentRun = runState && runState.key === resultsKey ? runState : null;
+
+  // Zobrazené view - odvozené z URL, chyba a průběh analýzy mají přednost
+  const appState = ((): AppState => {
+    if (error) return 'error';
+    if (isSwitchingServer) return 'loading';
+    switch (route.view) {
+      case 'projects': return 'project-selection';
+      case 'plugins': return 'plugin-selection';
+      case 'results':
+        if (currentResults) return 'results';
+        if (currentRun?.status === 'running') return 'processing';
+        return currentRun?.status === 'not_started' ? 'not-started' : 'loading';
+      default: return route.view;
+    }
+  })();
+
+  // Odkaz na projekt z jiného serveru - přepneme se na jeho server, neznámý přidáme jen po potvrzení
+  useEffect(() => {
+    if (!isSwitchingServer || !routeServerUrl || getActiveServer().url === routeServerUrl) return;
+    // Odkaz už mezitím opustil projekt (odmítnuté přidání serveru)
+    if (getRouteProjectId(getLocationSnapshot().route) === null) return;
+    const known = getServersSnapshot().servers.find(s => s.url === routeServerUrl);
+    if (known) {
+      setActiveServer(known.id);
+      setPlugins([]);
+      return;
+    }
+    if (confirm(t('app.confirmUnknownServer', { url: routeServerUrl }))) {
+      setActiveServer(addServer('', routeServerUrl).id);
+      setPlugins([]);
+    } else {
+      navigate({ view: 'projects' }, { replace: true });
+    }
+  }, [isSwitchingServer, routeServerUrl]);
 
   // Sync analysisId with InvestigationContext
-  const setAnalysisId = useCallback((id: string | null) => {
-    setAnalysisIdRaw(id);
-    setInvestigationAnalysisId(id);
-  }, [setInvestigationAnalysisId]);
+  useEffect(() => {
+    projectAbortRef.current.abort();
+    projectAbortRef.current = new AbortController();
+    setInvestigationAnalysisId(analysisId);
+  }, [analysisId, setInvestigationAnalysisId]);
 
-  // Načtení projektů při startu
+  // Uložené záložky výsledků projektu (po reloadu nebo znovuotevření)
   useEffect(() => {
-    if (appState === 'project-selection') {
-      loadProjects();
-    }
-  }, [appState]);
+    if (analysisId) restoreWorkspaceTabs(analysisId);
+  }, [analysisId]);
+
+  // Poslední view projektu se pamatuje pro příští otevření
+  useEffect(() => {
+    if (analysisId) rememberRoute(route);
+  }, [analysisId, route]);
 
-  const loadProjects = async () => {
+  // Ctrl+K (Cmd+K na macOS) otevře a zavře paletu příkazů odkudkoli
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setIsPaletteOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Kontrola verze API backendu při startu (nesoulad se zobrazí v ContractDiagnostics)
+  useEffect(() => {
+    const controller = new AbortController();
+    const checkVersion = () => {
+      negotiateApiVersion(controller.signal)
+        .then(result => setBackendApiVersion(result.server?.api_version ?? null))
+        .catch(err => reportError(t('app.error.apiVersion'), err, checkVersion, 'api-version'));
+    };
+    checkVersion();
+    return () => controller.abort();
+  }, [activeServer.url]);
+
+  // Stabilní reference - retry v oznámení volá stejnou funkci
+  const loadProjects = useCallback(async () => {
     setIsLoadingProjects(true);
     try {
-      const projectsData = await getProjects();
+      const projectsData = await getProjectsFromAllServers();
       setProjects(projectsData);
     } catch (err) {
-      console.error('Chyba při načítání projektů:', err);
-      // Necháme seznam prázdný, ale nezobrazíme chybu
-      setProjects([]);
+      setProjects({ projects: [], failures: [] });
+      reportError(t('app.error.loadProjects'), err, loadProjects, 'projects');
     } finally {
       setIsLoadingProjects(false);
     }
-  };
-
-  // Načtení pluginů po uploadu
-  useEffect(() => {
-    if (appState === 'plugin-selection' && plugins.length === 0) {
-      loadPlugins();
-    }
-  }, [appState]);
+  }, []);
 
-  const loadPlugins = async () => {
+  const loadPlugins = useCallback(async () => {
     try {
       const pluginsData = await getPlugins();
       setPlugins(pluginsData.plugins);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Chyba při načítání pluginů');
-      setAppState('error');
+      reportError(t('app.error.loadPlugins'), err, loadPlugins, 'plugins');
     }
-  };
+  }, []);
 
-  // Polling pro kontrolu stavu analýzy (single plugin)
+  // Načtení projektů při startu
   useEffect(() => {
-    if (appState !== 'processing' || !analysisId) return;
+    if (route.view === 'projects') {
+      loadProjects();
+    }
+  }, [route.view, loadProjects]);
 
-    // Batch mode polling
-    if (isBatchMode && selectedPlugins.length > 0) {
-      const pollInterval = setInterval(async () => {
-        try {
-          const statusResponse = await checkAllStatus(analysisId);
-          const newProgress: BatchProgress[] = selectedPlugins.map(p => {
-            const status = statusResponse.plugins[p] || 'not_started';
-            return { plugin: p, status: status as BatchProgress['status'] };
-          });
-          setBatchProgress(newProgress);
-
-          // Check if all done (completed or failed)
-          const allDone = newProgress.every(p => p.status === 'completed' || p.status === 'failed');
-          if (allDone) {
-            clearInterval(pollInterval);
-            const firstCompleted = newProgress.find(p => p.status === 'completed');
-            if (firstCompleted) {
-              setSelectedPlugin(firstCompleted.plugin);
-              const resultsData = await getPluginResults(analysisId, firstCompleted.plugin);
-              setResults(resultsData);
-              setAppState('results');
-            } else {
-              setError('Všechny pluginy selhaly.');
-              setAppState('error');
-            }
-          }
-        } catch (err) {
-          clearInterval(pollInterval);
-          setError(err instanceof Error ? err.message : 'Chyba při kontrole stavu');
-          setAppState('error');
-        }
-      }, 2000);
-      return () => clearInterval(pollInterval);
+  // Načtení pluginů po otevření projektu
+  useEffect(() => {
+    if (route.view === 'plugins' && analysisId && plugins.length === 0) {
+      loadPlugins();
     }
+  }, [route.view, analysisId, plugins.length, loadPlugins]);
 
-    // Single plugin polling
-    if (!selectedPlugin) return;
-    const pollInterval = setInterval(async () => {
-      try {
-        const statusResponse = await checkPluginStatus(analysisId, selectedPlugin);
-        
-        if (statusResponse.status === 'completed') {
-          clearInterval(pollInterval);
-          const resultsData = await getPluginResults(analysisId, selectedPlugin);
-          setResults(resultsData);
-          setAppState('results');
-        } else if (statusResponse.status === 'failed') {
-          clearInterval(pollInterval);
-          setError(
-            `Plugin ${selectedPlugin.split('.').pop()} selhal: ${statusResponse.error || 'Neznámá chyba'}` 
-          );
-          setAppState('error');
+  useEffect(() => {
+    if (analysisId && batchKey) openResultsTabs(analysisId, batchKey.split(','));
+  }, [analysisId, batchKey]);
+
+  // Výsledky pluginu z URL - dokud plugin běží, zobrazí se průběh (push ze serveru, při nedostupnosti polling).
+  // Už otevřená záložka má výsledky načtené.
+  useEffect(() => {
+    if (!analysisId || !selectedPlugin || !resultsKey || hasResults) return;
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const handleStatusError = (err: unknown) => {
+      controller.abort();
+      if (isCancelledError(err)) return;
+      setFailure({ routeKey, message: err instanceof Error ? err.message : t('app.error.statusCheck'), retryable: true });
+      reportError(t('app.error.loadResults', { plugin: selectedPlugin.split('.').pop()! }), err, retryResults, `results:${resultsKey}`);
+    };
+
+    const unsubscribe = subscribePluginStatus(analysisId, [selectedPlugin], async update => {
+      if (update.status === 'completed') {
+        unsubscribe();
+        try {
+          const source = await loadPluginResults(analysisId, selectedPlugin, signal);
+          openResultsTabs(analysisId, [selectedPlugin]);
+          setLoadedResults(prev => ({
+            projectId: analysisId,
+            sources: { ...(prev?.projectId === analysisId ? prev.sources : {}), [resultsKey]: source },
+          }));
+        } catch (err) {
+          handleStatusError(err);
         }
-      } catch (err) {
-        clearInterval(pollInterval);
-        setError(err instanceof Error ? err.message : 'Chyba při kontrole stavu');
-        setAppState('error');
+      } else if (update.status === 'failed') {
+        unsubscribe();
+        setFailure({
+          routeKey,
+          message: t('app.error.pluginFailed', {
+            plugin: selectedPlugin.split('.').pop()!,
+            error: update.error || t('common.unknownError'),
+          }),
+          retryable: false,
+        });
+      } else if (update.status === 'cancelled') {
+        unsubscribe();
+        setCancellingPlugins([]);
+        navigate({ view: 'plugins', projectId: analysisId }, { replace: true });
+      } else if (update.status === 'running') {
+        setRunState({ key: resultsKey, status: 'running' });
+      } else {
+        // Právě spuštěnou analýzu server nemusí hned hlásit jako běžící - průběh necháme zobrazený
+        setRunState(prev => prev?.key === resultsKey ? prev : { key: resultsKey, status: 'not_started' });
       }
-    }, 2000);
+    }, { signal, onError: handleStatusError });
 
-    return () => clearInterval(pollInterval);
-  }, [appState, analysisId, selectedPlugin, selectedPlugins, isBatchMode]);
+    return () => controller.abort();
+  }, [analysisId, selectedPlugin, resultsKey, routeKey, hasResults, resultsAttempt]);
+
+  // Nový pokus o načtení výsledků - chybové view zmizí a efekt výše proběhne znovu
+  const retryResults = () => {
+    setFailure(null);
+    setResultsAttempt(n => n + 1);
+  };
+
+  // Nový běh pluginu - staré výsledky v záložce neplatí
+  const dropLoadedResults = (tabIds: string[]) => {
+    setLoadedResults(prev => prev && {
+      ...prev,
+      sources: Object.fromEntries(Object.entries(prev.sources).filter(([id]) => !tabIds.includes(id))),
+    });
+  };
 
   const handleUploadSuccess = (id: string) => {
-    setAnalysisId(id);
-    setAppState('plugin-selection');
-    setError(null);
+    navigate({ view: 'plugins', projectId: id });
   };
 
-  const handleProjectSelect = (id: string) => {
-    setAnalysisId(id);
-    setAppState('plugin-selection');
-    setError(null);
+  const handleProjectSelect = (id: string, serverId: string) => {
+    // Projekt z jiného serveru - další požadavky půjdou na jeho server
+    if (serverId !== activeServer.id) {
+      setActiveServer(serverId);
+      setPlugins([]);
+    }
+    navigate(getLastRoute(id));
   };
 
   const handleCreateNewProject = () => {
-    setAppState('upload');
+    navigate({ view: 'upload' });
   };
 
   const handlePluginSelect = async (plugin: string) => {
     if (!analysisId) return;
     
-    setSelectedPlugin(plugin);
-    setIsBatchMode(false);
+    setCancellingPlugins([]);
+    const start = async () => {
+      await runAnalysis(analysisId, plugin, false, projectAbortRef.current.signal);
+      trackAnalysisJobs(analysisId, [plugin]);
+      dropLoadedResults([getTabId(analysisId, plugin)]);
+      setRunState({ key: getTabId(analysisId, plugin), status: 'running' });
+      setStartedRun({ analysisId, plugins: [plugin] });
+    };
     try {
-      await runAnalysis(analysisId, plugin);
-      setAppState('processing');
+      await start();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Chyba při spuštění analýzy');
-      setAppState('error');
+      reportError(t('app.error.runPlugin', { plugin: plugin.split('.').pop()! }), err, start);
     }
   };
 
   const handleBatchRun = async (pluginList: string[]) => {
     if (!analysisId || pluginList.length === 0) return;
 
-    setSelectedPlugins(pluginList);
-    setIsBatchMode(true);
-    setBatchProgress(pluginList.map(p => ({ plugin: p, status: 'not_started' })));
-    
+    const start = async () => {
+      await runBatchAnalysis(analysisId, pluginList, false, projectAbortRef.current.signal);
+      trackAnalysisJobs(analysisId, pluginList);
+      dropLoadedResults(pluginList.map(plugin => getTabId(analysisId, plugin)));
+      setStartedRun({ analysisId, plugins: pluginList });
+    };
     try {
-      await runBatchAnalysis(analysisId, pluginList);
-      setAppState('processing');
+      await start();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Chyba při spuštění batch analýzy');
-      setAppState('error');
+      reportError(t('app.error.runBatch'), err, start);
     }
   };
 
-  const handleViewBatchResult = async (plugin: string) => {
-    if (!analysisId) return;
-    try {
-      setSelectedPlugin(plugin);
-      const resultsData = await getPluginResults(analysisId, plugin);
-      setResults(resultsData);
-      setAppState('results');
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Chyba při načítání výsledků');
-      setAppState('error');
+  const handleCancelPlugins = async (pluginList: string[]) => {
+    if (!analysisId || pluginList.length === 0) return;
+    setCancellingPlugins(prev => [...new Set([...prev, ...pluginList])]);
+
+    const outcomes = await Promise.allSettled(
+      pluginList.map(plugin => cancelAnalysis(analysisId, plugin, projectAbortRef.current.signal))
+    );
+    const failed = pluginList.filter((_, i) => outcomes[i].status === 'rejected');
+    const rejection = outcomes.find(o => o.status === 'rejected');
+    if (rejection && !isCancelledError(rejection.reason)) {
+      setCancellingPlugins(prev => prev.filter(p => !failed.includes(p)));
+      reportError(
+        t('app.error.cancel', { plugins: failed.map(p => p.split('.').pop()).join(', ') }),
+        rejection.reason,
+        () => handleCancelPlugins(failed)
+      );
     }
   };
 
-  const handleError = (errorMessage: string) => {
-    setError(errorMessage);
-    setAppState('error');
+  const handleSelectTab = (plugin: string) => {
+    if (!analysisId) return;
+    navigate({ view: 'results', projectId: analysisId, plugin });
+  };
+
+  // Zavřená záložka s fokusem ho předá sousední záložce, poslední vrátí uživatele k výběru pluginu
+  const handleCloseTab = (tab: ResultsTab) => {
+    const next = closeTab(tab.id);
+    dropLoadedResults([tab.id]);
+    if (tab.plugin !== selectedPlugin) return;
+    navigate(
+      next ? { view: 'results', projectId: tab.projectId, plugin: next.plugin } : { view: 'plugins', projectId: tab.projectId },
+      { replace: true }
+    );
+  };
+
+  // Dokončená úloha z panelu - projekt může patřit jinému serveru
+  const handleOpenJob = (job: BackgroundJob) => {
+    if (job.serverId !== activeServer.id) {
+      if (!servers.some(s => s.id === job.serverId)) return;
+      setActiveServer(job.serverId);
+      setPlugins([]);
+    }
+    if (job.kind === 'symbol') {
+      navigate({ view: 'symbols' });
+    } else if (job.kind === 'pid') {
+      navigate({ view: 'investigation', projectId: job.analysisId!, pid: job.pid });
+    } else {
+      const batch = getCompletedBatchPlugins(job);
+      navigate({
+        view: 'results',
+        projectId: job.analysisId!,
+        plugin: job.plugin!,
+        ...(batch.length > 1 && { batch }),
+      });
+    }
   };
 
   const handleBackToUpload = () => {
-    setAppState('project-selection');
-    setAnalysisId(null);
-    setSelectedPlugin(null);
-    setSelectedPlugins([]);
+    navigate({ view: 'projects' });
+  };
+
+  // Po přepnutí serveru neplatí načtené pluginy
+  const handleActiveServerChange = () => {
     setPlugins([]);
-    setResults([]);
-    setError(null);
-    setIsBatchMode(false);
-    setBatchProgress([]);
+  };
+
+  const handleResetLayout = () => {
+    if (!analysisId || !confirm(t('workspace.resetLayoutConfirm'))) return;
+    resetProjectLayout(analysisId);
   };
 
   const handleBackToPluginSelection = () => {
-    setAppState('plugin-selection');
-    setSelectedPlugin(null);
-    setSelectedPlugins([]);
-    setResults([]);
-    setError(null);
-    setIsBatchMode(false);
-    setBatchProgress([]);
+    if (!analysisId) return;
+    navigate({ view: 'plugins', projectId: analysisId });
   };
 
   return (
@@ -263,78 +457,179 @@ function AppContent() {
           </div>
         </div>
         
-        <nav className="vtf-sidebar-nav">
-          <div 
+        <nav className="vtf-sidebar-nav" aria-label={t('nav.main')} onKeyDown={e => moveListFocus(e)}>
+          <button
+            type="button"
+            data-nav-item
             className={`vtf-sidebar-nav-item ${appState === 'project-selection' || appState === 'upload' ? 'active' : ''}`}
+            aria-current={appState === 'project-selection' || appState === 'upload' ? 'page' : undefined}
             onClick={handleBackToUpload}
           >
-            <span className="vtf-sidebar-nav-icon">📁</span>
-            <span>Projekty</span>
-          </div>
+            <span className="vtf-sidebar-nav-icon" aria-hidden="true">📁</span>
+            <span>{t('nav.projects')}</span>
+          </button>
 
           {analysisId && (
-            <div 
+            <button
+              type="button"
+              data-nav-item
               className={`vtf-sidebar-nav-item ${appState === 'dashboard' ? 'active' : ''}`}
-              onClick={() => { setAppState('dashboard'); setError(null); }}
+              aria-current={appState === 'dashboard' ? 'page' : undefined}
+              onClick={() => navigate({ view: 'dashboard', projectId: analysisId })}
             >
-              <span className="vtf-sidebar-nav-icon">📊</span>
-              <span>Dashboard</span>
-            </div>
+              <span className="vtf-sidebar-nav-icon" aria-hidden="true">📊</span>
+              <span>{t('nav.dashboard')}</span>
+            </button>
           )}
           
           {analysisId && (
-            <div 
-              className={`vtf-sidebar-nav-item ${appState === 'plugin-selection' || appState === 'processing' ? 'active' : ''}`}
+            <button
+              type="button"
+              data-nav-item
+              className={`vtf-sidebar-nav-item ${appState === 'plugin-selection' || appState === 'processing' || appState === 'not-started' ? 'active' : ''}`}
+              aria-current={appState === 'plugin-selection' || appState === 'processing' || appState === 'not-started' ? 'page' : undefined}
               onClick={handleBackToPluginSelection}
             >
-              <span className="vtf-sidebar-nav-icon">🔌</span>
-              <span>Analýza</span>
-            </div>
+              <span className="vtf-sidebar-nav-icon" aria-hidden="true">🔌</span>
+              <span>{t('nav.analysis')}</span>
+            </button>
           )}
           
-          {analysisId && selectedPlugin && (
-            <div 
-              className={`vtf-sidebar-nav-item ${appState === 'results' ? 'active' : ''}`}
+          {analysisId && (
+            <button
+              type="button"
+              data-nav-item
+              className={`vtf-sidebar-nav-item ${appState === 'results' || appState === 'history' ? 'active' : ''}`}
+              aria-current={appState === 'results' || appState === 'history' ? 'page' : undefined}
+              onClick={() => navigate({ view: 'history', projectId: analysisId })}
             >
-              <span className="vtf-sidebar-nav-icon">📋</span>
-              <span>Výsledky</span>
-            </div>
+              <span className="vtf-sidebar-nav-icon" aria-hidden="true">📋</span>
+              <span>{t('nav.results')}</span>
+            </button>
           )}
 
           {analysisId && (
-            <div 
+            <button
+              type="button"
+              data-nav-item
               className={`vtf-sidebar-nav-item ${appState === 'investigation' ? 'active' : ''}`}
-              onClick={() => { setAppState('investigation'); setError(null); }}
+              aria-current={appState === 'investigation' ? 'page' : undefined}
+              onClick={() => navigate(getRestoredRoute(analysisId, 'investigation'))}
             >
-              <span className="vtf-sidebar-nav-icon">🔎</span>
-              <span>Vyšetřování</span>
-            </div>
+              <span className="vtf-sidebar-nav-icon" aria-hidden="true">🔎</span>
+              <span>{t('nav.investigation')}</span>
+            </button>
           )}
 
           {analysisId && (
-            <div 
+            <button
+              type="button"
+              data-nav-item
               className={`vtf-sidebar-nav-item ${appState === 'registry' ? 'active' : ''}`}
-              onClick={() => { setAppState('registry'); setError(null); }}
+              aria-current={appState === 'registry' ? 'page' : undefined}
+              onClick={() => navigate(getRestoredRoute(analysisId, 'registry'))}
             >
-              <span className="vtf-sidebar-nav-icon">🗝️</span>
-              <span>Registry</span>
-            </div>
+              <span className="vtf-sidebar-nav-icon" aria-hidden="true">🗝️</span>
+              <span>{t('nav.registry')}</span>
+            </button>
           )}
           
-          <div 
+          <button
+            type="button"
+            data-nav-item
             className={`vtf-sidebar-nav-item ${appState === 'symbols' ? 'active' : ''}`}
-            onClick={() => {
-              setAppState('symbols');
-              setError(null);
-            }}
+            aria-current={appState === 'symbols' ? 'page' : undefined}
+            onClick={() => navigate({ view: 'symbols' })}
           >
-            <span className="vtf-sidebar-nav-icon">⚙️</span>
-            <span>Správa symbolů</span>
-          </div>
+            <span className="vtf-sidebar-nav-icon" aria-hidden="true">⚙️</span>
+            <span>{t('nav.symbols')}</span>
+          </button>
+
+          <button
+            type="button"
+            data-nav-item
+            className={`vtf-sidebar-nav-item ${appState === 'servers' ? 'active' : ''}`}
+            aria-current={appState === 'servers' ? 'page' : undefined}
+            onClick={() => navigate({ view: 'servers' })}
+          >
+            <span className="vtf-sidebar-nav-icon" aria-hidden="true">🖥️</span>
+            <span>{t('nav.servers')}</span>
+          </button>
         </nav>
+
+        <JobTray onOpenJob={handleOpenJob} />
+        <NotificationCenter />
         
         <div className="vtf-sidebar-footer">
-          <div>Version 2.0.0</div>
+          {session && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.75rem', paddingBottom: '0.75rem', borderBottom: '1px solid var(--color-slate-700)', textAlign: 'left' }}>
+              <span style={{ fontSize: '1.25rem' }}>👤</span>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ color: 'white', fontSize: '0.8125rem', fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {session.user.display_name}
+                </div>
+                <div style={{ fontSize: '0.6875rem' }}>{session.user.username}</div>
+              </div>
+              <button
+                onClick={() => { void logout(); }}
+                title={t('app.logoutTitle')}
+                style={{ background: 'none', border: '1px solid var(--color-slate-600)', borderRadius: 'var(--radius-md)', padding: '0.25rem 0.5rem', color: 'var(--color-slate-300)', fontSize: '0.75rem', cursor: 'pointer' }}
+              >
+                {t('app.logout')}
+              </button>
+            </div>
+          )}
+          {MOCK_BACKEND && (
+            <div style={{ marginBottom: '0.5rem', display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}>
+              <span className="vtf-badge vtf-badge-warning" title={t('app.mockTitle')}>
+                🧪 Mock backend
+              </span>
+              <button
+                onClick={() => setMockBackend(false)}
+                style={{ background: 'none', border: 'none', padding: 0, color: 'inherit', fontSize: '0.6875rem', textDecoration: 'underline', cursor: 'pointer' }}
+              >
+                {t('app.mockDisable')}
+              </button>
+            </div>
+          )}
+          <div
+            style={{ marginBottom: '0.25rem', fontSize: '0.6875rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+            title={activeServer.url}
+          >
+            🖥️ {activeServer.name}
+          </div>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', marginBottom: '0.25rem', fontSize: '0.6875rem' }}>
+            🌐
+            <select
+              value={locale}
+              onChange={e => setLocale(e.target.value as Locale)}
+              aria-label={t('app.language')}
+              style={{ background: 'none', border: '1px solid var(--color-slate-600)', borderRadius: 'var(--radius-md)', padding: '0.125rem 0.25rem', color: 'inherit', fontSize: '0.6875rem' }}
+            >
+              {LOCALES.map(l => (
+                <option key={l.id} value={l.id}>{l.label}</option>
+              ))}
+            </select>
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', marginBottom: '0.25rem', fontSize: '0.6875rem' }}>
+            🌓
+            <select
+              value={themePreference}
+              onChange={e => setThemePreference(e.target.value as ThemePreference)}
+              aria-label={t('theme.label')}
+              style={{ background: 'none', border: '1px solid var(--color-slate-600)', borderRadius: 'var(--radius-md)', padding: '0.125rem 0.25rem', color: 'inherit', fontSize: '0.6875rem' }}
+            >
+              {THEME_PREFERENCES.map(p => (
+                <option key={p} value={p}>{t(`theme.${p}`)}</option>
+              ))}
+            </select>
+          </label>
+          <div>{t('app.version', { version: '2.0.0' })}</div>
+          {backendApiVersion && (
+            <div style={{ marginTop: '0.25rem', fontSize: '0.6875rem' }}>
+              Backend API {backendApiVersion}
+            </div>
+          )}
           <div style={{ marginTop: '0.25rem', fontSize: '0.6875rem' }}>
             Powered by Volatility 3
           </div>
@@ -349,27 +644,47 @@ function AppContent() {
             <div className="vtf-header-title">
               <div>
                 <h1>
-                  {appState === 'upload' && 'Nahrát Memory Dump'}
-                  {appState === 'plugin-selection' && 'Vybrat Plugin'}
-                  {appState === 'processing' && 'Probíhá Analýza'}
-                  {appState === 'results' && `Výsledky: ${selectedPlugin?.split('.').pop()}`}
-                  {appState === 'symbols' && 'Správa Symbolů'}
-                  {appState === 'dashboard' && 'Dashboard'}
-                  {appState === 'investigation' && 'Vyšetřování'}
-                  {appState === 'registry' && 'Prohlížeč Registrů'}
+                  {appState === 'upload' && t('app.title.upload')}
+                  {appState === 'plugin-selection' && t('app.title.plugins')}
+                  {appState === 'processing' && t('app.title.processing')}
+                  {(appState === 'results' || appState === 'not-started' || (appState === 'loading' && selectedPlugin)) &&
+                    t('app.title.results', { plugin: selectedPlugin?.split('.').pop() ?? '' })}
+                  {appState === 'loading' && !selectedPlugin && t('common.loading')}
+                  {appState === 'symbols' && t('app.title.symbols')}
+                  {appState === 'servers' && t('nav.servers')}
+                  {appState === 'dashboard' && t('nav.dashboard')}
+                  {appState === 'history' && t('nav.results')}
+                  {appState === 'investigation' && t('nav.investigation')}
+                  {appState === 'registry' && t('app.title.registry')}
                 </h1>
-                {analysisId && appState !== 'symbols' && (
+                {analysisId && appState !== 'symbols' && appState !== 'servers' && (
                   <p className="vtf-header-subtitle">ID: {analysisId.substring(0, 24)}...</p>
                 )}
               </div>
             </div>
             <div className="vtf-header-actions">
-              {analysisId && appState !== 'symbols' && (
+              <button
+                onClick={() => setIsPaletteOpen(true)}
+                className="vtf-btn vtf-btn-secondary"
+                title={t('app.paletteTitle')}
+              >
+                🔎 {t('app.search')} <kbd style={{ marginLeft: '0.375rem', fontSize: '0.6875rem', color: 'var(--color-slate-500)' }}>Ctrl+K</kbd>
+              </button>
+              {analysisId && appState !== 'symbols' && appState !== 'servers' && (
+                <button
+                  onClick={handleResetLayout}
+                  className="vtf-btn vtf-btn-secondary"
+                  title={t('workspace.resetLayoutHint')}
+                >
+                  ↺ {t('workspace.resetLayout')}
+                </button>
+              )}
+              {analysisId && appState !== 'symbols' && appState !== 'servers' && (
                 <button 
                   onClick={handleBackToUpload} 
                   className="vtf-btn vtf-btn-secondary"
                 >
-                  ← Projekty
+                  ← {t('nav.projects')}
                 </button>
               )}
             </div>
@@ -378,9 +693,13 @@ function AppContent() {
 
         {/* Content Area */}
         <div className="vtf-content">
+          <ContractDiagnostics />
+
           {appState === 'project-selection' && (
             <ProjectList
-              projects={projects}
+              projects={projects.projects}
+              unavailableServers={projects.failures}
+              showServerBadges={servers.length > 1}
               onProjectSelect={handleProjectSelect}
               onCreateNew={handleCreateNewProject}
               isLoading={isLoadingProjects}
@@ -391,7 +710,7 @@ function AppContent() {
             <div className="vtf-content-narrow">
               <UploadForm 
                 onUploadSuccess={handleUploadSuccess}
-                onError={handleError}
+                onError={reportError}
                 onBack={handleBackToUpload}
               />
             </div>
@@ -399,6 +718,37 @@ function AppContent() {
 
           {appState === 'plugin-selection' && (
             <div className="vtf-content-wide">
+              {startedRun && startedRun.analysisId === analysisId && (
+                <div className="vtf-alert vtf-alert-info" style={{ marginBottom: '1.5rem' }} role="status">
+                  <span className="vtf-alert-icon">⏳</span>
+                  <div className="vtf-alert-content">
+                    <div className="vtf-alert-title">
+                      {t('app.started.title', { plugins: startedRun.plugins.map(p => p.split('.').pop()).join(', ') })}
+                    </div>
+                    <div className="vtf-alert-description">
+                      {t('app.started.description')}
+                    </div>
+                    <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.75rem' }}>
+                      {startedRun.plugins.length === 1 && (
+                        <button
+                          onClick={() => navigate({ view: 'results', projectId: startedRun.analysisId, plugin: startedRun.plugins[0] })}
+                          className="vtf-btn vtf-btn-secondary"
+                          style={{ fontSize: '0.8125rem', padding: '0.375rem 0.75rem' }}
+                        >
+                          {t('app.started.follow')}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setStartedRun(null)}
+                        className="vtf-btn vtf-btn-secondary"
+                        style={{ fontSize: '0.8125rem', padding: '0.375rem 0.75rem' }}
+                      >
+                        {t('common.hide')}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
               <PluginSelector
                 plugins={plugins}
                 analysisId={analysisId!}
@@ -412,80 +762,68 @@ function AppContent() {
             <div className="vtf-loading">
               <div className="vtf-spinner"></div>
               <h2 style={{ fontSize: '1.5rem', fontWeight: 600, marginTop: '1rem' }}>
-                Probíhá analýza...
+                {t('app.processing.title')}
               </h2>
-              
-              {isBatchMode ? (
-                <div className="vtf-card" style={{ maxWidth: '600px', width: '100%', padding: '1.5rem', marginTop: '1.5rem' }}>
-                  <p className="text-sm text-gray-500 mb-3">
-                    Batch analýza: {batchProgress.filter(p => p.status === 'completed').length} / {batchProgress.length} dokončeno
-                  </p>
-                  <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
-                    {batchProgress.map(bp => (
-                      <div key={bp.plugin} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '0.75rem', background: 'var(--color-slate-50)', borderRadius: 'var(--radius-md)' }}>
-                        <span style={{ fontSize: '0.875rem', fontWeight: 500 }}>{bp.plugin.split('.').pop()}</span>
-                        <span className={`vtf-status-badge vtf-status-${bp.status === 'completed' ? 'completed' : bp.status === 'running' ? 'running' : bp.status === 'failed' ? 'failed' : 'pending'}`}>
-                          {bp.status === 'completed' ? '✓ Dokončeno' :
-                           bp.status === 'running' ? '● Běží...' :
-                           bp.status === 'failed' ? '✗ Selhalo' : '○ Čeká'}
-                        </span>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              ) : (
-                <div style={{ textAlign: 'center', color: 'var(--color-slate-600)', marginTop: '0.5rem' }}>
-                  <p style={{ fontSize: '1rem', marginBottom: '0.5rem' }}>Plugin: <strong>{selectedPlugin}</strong></p>
-                  <p style={{ fontSize: '0.875rem', color: 'var(--color-slate-500)' }}>
-                    Prosím čekejte, může to trvat několik minut.
-                  </p>
-                </div>
-              )}
+
+              <div style={{ textAlign: 'center', color: 'var(--color-slate-600)', marginTop: '0.5rem' }}>
+                <p style={{ fontSize: '1rem', marginBottom: '0.5rem' }}>{t('app.processing.plugin')} <strong>{selectedPlugin}</strong></p>
+                <p style={{ fontSize: '0.875rem', color: 'var(--color-slate-500)' }}>
+                  {t('app.processing.description')}
+                </p>
+                {selectedPlugin && (
+                  <button
+                    onClick={() => handleCancelPlugins([selectedPlugin])}
+                    disabled={cancellingPlugins.includes(selectedPlugin)}
+                    className="vtf-btn vtf-btn-secondary"
+                    style={{ marginTop: '1.25rem', color: 'var(--color-danger)' }}
+                  >
+                    {cancellingPlugins.includes(selectedPlugin) ? t('app.processing.cancelling') : `⊘ ${t('app.processing.cancel')}`}
+                  </button>
+                )}
+              </div>
             </div>
           )}
 
-          {appState === 'results' && (
-            <div style={{ height: 'calc(100vh - 140px)', display: 'flex', flexDirection: 'column' }}>
-              {/* Batch results switcher in content area */}
-              {isBatchMode && batchProgress.filter(p => p.status === 'completed').length > 1 && (
-                <div style={{ marginBottom: '1rem', display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
-                  <label style={{ fontSize: '0.875rem', fontWeight: 600, color: 'var(--color-slate-700)' }}>
-                    Zobrazit výsledky:
-                  </label>
-                  <select
-                    value={selectedPlugin || ''}
-                    onChange={(e) => handleViewBatchResult(e.target.value)}
-                    style={{ 
-                      padding: '0.5rem 0.75rem', 
-                      borderRadius: 'var(--radius-md)', 
-                      border: '1px solid var(--color-slate-300)',
-                      fontSize: '0.875rem',
-                      background: 'white'
-                    }}
-                  >
-                    {batchProgress
-                      .filter(p => p.status === 'completed')
-                      .map(p => (
-                        <option key={p.plugin} value={p.plugin}>
-                          {p.plugin.split('.').pop()}
-                        </option>
-                      ))
-                    }
-                  </select>
-                  <div style={{ marginLeft: 'auto', display: 'flex', gap: '0.5rem' }}>
-                    <button
-                      onClick={handleBackToPluginSelection}
-                      className="vtf-btn vtf-btn-primary"
-                    >
-                      Spustit jiný plugin
-                    </button>
-                  </div>
+          {appState === 'loading' && (
+            <div className="vtf-loading">
+              <div className="vtf-spinner"></div>
+              <p style={{ color: 'var(--color-slate-500)', marginTop: '1rem' }}>
+                {isSwitchingServer ? t('app.switchingServer', { url: routeServerUrl! }) : t('app.loadingResults')}
+              </p>
+            </div>
+          )}
+
+          {appState === 'not-started' && selectedPlugin && (
+            <div className="vtf-loading">
+              <div className="vtf-card" style={{ maxWidth: '500px', padding: '2rem', textAlign: 'center' }}>
+                <div style={{ fontSize: '2.5rem', marginBottom: '0.75rem' }}>🔌</div>
+                <p style={{ fontSize: '1rem', marginBottom: '0.5rem' }}>
+                  {t('app.notStarted.before')}<strong>{selectedPlugin}</strong>{t('app.notStarted.after')}
+                </p>
+                <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'center', marginTop: '1.25rem' }}>
+                  <button onClick={() => handlePluginSelect(selectedPlugin)} className="vtf-btn vtf-btn-primary">
+                    ▶ {t('common.run')}
+                  </button>
+                  <button onClick={handleBackToPluginSelection} className="vtf-btn vtf-btn-secondary">
+                    {t('app.notStarted.other')}
+                  </button>
                 </div>
-              )}
-              <ResultsGrid 
-                data={results}
-                analysisId={analysisId!}
-                pluginName={selectedPlugin!}
+              </div>
+            </div>
+          )}
+
+          {/* Záložky zůstávají připojené i mimo výsledky, aby si gridy držely filtry a scroll */}
+          {analysisId && (
+            <div style={{ height: 'calc(100vh - 140px)', display: appState === 'results' ? 'flex' : 'none', flexDirection: 'column' }}>
+              <ResultsWorkspace
+                key={layoutResetCount}
+                analysisId={analysisId}
+                activePlugin={appState === 'results' ? selectedPlugin : null}
+                focusRow={route.view === 'results' ? route.row : undefined}
+                sources={projectResults}
+                onSelectTab={handleSelectTab}
+                onCloseTab={handleCloseTab}
+                onOpenPlugins={handleBackToPluginSelection}
                 onBackToUpload={handleBackToUpload}
               />
             </div>
@@ -497,33 +835,65 @@ function AppContent() {
             </div>
           )}
 
+          {appState === 'servers' && (
+            <div className="vtf-content-wide">
+              <ServerRegistry onActiveServerChange={handleActiveServerChange} />
+            </div>
+          )}
+
           {appState === 'dashboard' && analysisId && (
             <div className="vtf-content-wide">
               <Dashboard
                 analysisId={analysisId}
-                onNavigateToInvestigation={() => setAppState('investigation')}
-                onNavigateToRegistry={() => setAppState('registry')}
-                onNavigateToPlugins={() => setAppState('plugin-selection')}
+                onNavigateToInvestigation={() => navigate(getRestoredRoute(analysisId, 'investigation'))}
+                onNavigateToRegistry={() => navigate(getRestoredRoute(analysisId, 'registry'))}
+                onNavigateToPlugins={handleBackToPluginSelection}
+                onNavigateToPlugin={handleSelectTab}
+              />
+            </div>
+          )}
+
+          {appState === 'history' && analysisId && (
+            <div className="vtf-content-wide">
+              <ResultsHistory
+                analysisId={analysisId}
+                onOpenResults={handleSelectTab}
+                onNavigateToPlugins={handleBackToPluginSelection}
+              />
+              <AnnotationList
+                analysisId={analysisId}
+                onOpenAnnotation={(plugin, row) => navigate({ view: 'results', projectId: analysisId, plugin, row })}
               />
             </div>
           )}
 
           {appState === 'investigation' && analysisId && (
             <div style={{ height: 'calc(100vh - 140px)', display: 'flex', flexDirection: 'column' }}>
-              <ProcessInvestigation analysisId={analysisId} />
+              <ProcessInvestigation
+                key={`${analysisId}:${layoutResetCount}`}
+                analysisId={analysisId}
+                pid={route.view === 'investigation' ? route.pid : undefined}
+                onSelectPid={pid => navigate({ view: 'investigation', projectId: analysisId, pid })}
+              />
             </div>
           )}
 
           {appState === 'registry' && analysisId && (
             <div style={{ height: 'calc(100vh - 140px)' }}>
-              <RegistryBrowser analysisId={analysisId} />
+              <RegistryBrowser
+                key={`${analysisId}:${layoutResetCount}`}
+                analysisId={analysisId}
+                hiveOffset={route.view === 'registry' ? route.hive : undefined}
+                keyPath={route.view === 'registry' ? route.keyPath : undefined}
+                onNavigate={(hive, keyPath) => navigate({ view: 'registry', projectId: analysisId, hive, keyPath })}
+              />
             </div>
           )}
 
           {appState === 'error' && (
             <div className="vtf-loading">
               <div style={{ 
-                background: 'white', 
+                background: 'var(--color-surface)', 
                 borderRadius: 'var(--radius-xl)', 
                 padding: '3rem', 
                 maxWidth: '500px',
@@ -533,23 +903,42 @@ function AppContent() {
               }}>
                 <div style={{ fontSize: '4rem', marginBottom: '1rem' }}>⚠️</div>
                 <h2 style={{ fontSize: '1.75rem', fontWeight: 700, color: 'var(--color-danger)', marginBottom: '1rem' }}>
-                  Chyba
+                  {t('common.error')}
                 </h2>
                 <p style={{ color: 'var(--color-slate-700)', marginBottom: '2rem', fontSize: '1rem' }}>
                   {error}
                 </p>
-                <button
-                  onClick={handleBackToUpload}
-                  className="vtf-btn vtf-btn-primary"
-                  style={{ padding: '0.75rem 2rem' }}
-                >
-                  Zpět na projekty
-                </button>
+                <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'center', flexWrap: 'wrap' }}>
+                  {routeFailure?.retryable && (
+                    <button onClick={retryResults} className="vtf-btn vtf-btn-primary">
+                      ↻ {t('common.retry')}
+                    </button>
+                  )}
+                  {analysisId && (
+                    <button onClick={handleBackToPluginSelection} className="vtf-btn vtf-btn-secondary">
+                      {t('app.error.choosePlugin')}
+                    </button>
+                  )}
+                  <button onClick={handleBackToUpload} className="vtf-btn vtf-btn-secondary">
+                    {t('app.error.backToProjects')}
+                  </button>
+                </div>
               </div>
             </div>
           )}
         </div>
       </main>
+
+      {isPaletteOpen && (
+        <CommandPalette
+          analysisId={analysisId}
+          onClose={() => setIsPaletteOpen(false)}
+          onOpenProject={handleProjectSelect}
+          onResetLayout={handleResetLayout}
+        />
+      )}
+
+      <ToastStack />
     </div>
   );
 }
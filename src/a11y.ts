@@ -0,0 +1,79 @@
+// Klávesnicové ovládání vlastních seznamů, stromů a záložek - položky označené atributem
+// data-nav-item se v kontejneru procházejí šipkami, Home a End skočí na první / poslední.
+import type { KeyboardEvent } from 'react';
+
+const NAV_ITEM_SELECTOR = '[data-nav-item]';
+
+export type NavOrientation = 'vertical' | 'horizontal' | 'grid';
+
+/** Položka seznamu - HTML prvek nebo prvek SVG (pruhy timeline) */
+type NavElement = HTMLElement | SVGElement;
+
+/** Položky v kontejneru a index té, na které je fokus (-1 = fokus mimo položky) */
+export function getNavItems(container: Element): { items: NavElement[]; index: number } {
+  const items = Array.from(container.querySelectorAll<NavElement>(NAV_ITEM_SELECTOR));
+  const focused = document.activeElement?.closest<NavElement>(NAV_ITEM_SELECTOR);
+  return { items, index: focused ? items.indexOf(focused) : -1 };
+}
+
+/** Přesune fokus na položku s daným indexem (mimo rozsah = první / poslední) */
+export function focusNavItem(container: Element, index: number) {
+  const { items } = getNavItems(container);
+  items[Math.max(0, Math.min(items.length - 1, index))]?.focus();
+}
+
+// Počet karet v prvním řádku mřížky = počet sloupců
+function countFirstRow(items: NavElement[]): number {
+  const top = items[0].getBoundingClientRect().top;
+  return items.filter(item => item.getBoundingClientRect().top === top).length;
+}
+
+/**
+ * Šipky v onKeyDown kontejneru přesunou fokus na sousední položku. V mřížce karet skáčou
+ * šipky nahoru a dolů o celý řádek. Vrací true, pokud klávesu zpracovala.
+ */
+export function moveListFocus(event: KeyboardEvent<Element>, orientation: NavOrientation = 'vertical'): boolean {
+  // Vnořený seznam už klávesu zpracoval
+  if (event.defaultPrevented) return false;
+  const { items, index } = getNavItems(event.currentTarget);
+  if (index < 0) return false;
+
+  const columns = orientation === 'grid' ? countFirstRow(items) : 1;
+  const vertical = orientation !== 'horizontal';
+  const horizontal = orientation !== 'vertical';
+  let next: number;
+  switch (event.key) {
+    case 'ArrowDown':
+      if (!vertical) return false;
+      next = index + columns;
+      break;
+    case 'ArrowUp':
+      if (!vertical) return false;
+      next = index - columns;
+      break;
+    case 'ArrowRight':
+      if (!horizontal) return false;
+      next = index + 1;
+      break;
+    case 'ArrowLeft':
+      if (!horizontal) return false;
+      next = index - 1;
+      break;
+    case 'Home':
+      next = 0;
+      break;
+    case 'End':
+      next = items.length - 1;
+      break;
+    default:
+      return false;
+  }
+  event.preventDefault();
+  focusNavItem(event.currentTarget, next);
+  return true;
+}
+
+/** Enter nebo mezerník přímo na položce (ne na vnořeném tlačítku) - aktivace jako kliknutím */
+export function isActivationKey(event: KeyboardEvent<Element>): boolean {
+  return event.target === event.currentTarget && (event.key === 'Enter' || event.key === ' ');
+}
@@ -0,0 +1,27 @@
+// Anotace řádků výsledků - štítek a poznámka k řádku pluginu (row_index = pořadí řádku
+// ve výsledcích, u stromových výsledků v průchodu do hloubky). Grid je zobrazuje
+// v připnutém sloupci, přehled výsledků projektu je vypisuje všechny.
+import type { CSSProperties } from 'react';
+import type { Annotation } from './api/vtfApi';
+
+/** Štítky nabízené v menu - stejné jako u sledovaných procesů */
+export const ANNOTATION_TAGS = ['suspicious', 'malware', 'c2', 'interesting', 'benign'];
+
+/** Sloupec gridu se štítkem anotace (není v datech pluginu) */
+export const ANNOTATION_COLUMN = '__annotation';
+
+/** Barva štítku - podezřelé červeně, neškodné zeleně, ostatní žlutě */
+export function annotationTagStyle(tag: string): CSSProperties {
+  if (tag === 'suspicious' || tag === 'malware' || tag === 'c2') {
+    return { background: 'var(--color-danger-50)', color: 'var(--color-danger-600)' };
+  }
+  if (tag === 'benign' || tag === 'cleared') {
+    return { background: 'var(--color-success-50)', color: 'var(--color-success-600)' };
+  }
+  return { background: 'var(--color-warning-50)', color: 'var(--color-warning-600)' };
+}
+
+/** Anotace jednoho pluginu podle row_index */
+export function getPluginAnnotations(annotations: Annotation[] | undefined, plugin: string): Map<number, Annotation> {
+  return new Map((annotations ?? []).filter(a => a.plugin === plugin).map(a => [a.row_index, a]));
+}
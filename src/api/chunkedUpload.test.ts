@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MockInstance } from 'vitest';
+import type { AxiosResponse } from 'axios';
+import { createChunkedUpload } from './chunkedUpload';
+import type { ChunkedUploadProgress } from './chunkedUpload';
+import { apiClient, VtfApiError } from './client';
+import type { UploadResponse } from './vtfApi';
+import { t } from '../i18n/i18n';
+
+const CHUNK = 16 * 1024 * 1024;
+
+// Soubor bez dat - upload z něj jen krájí bloky
+function fakeFile(size: number): File {
+  return {
+    name: 'memory.raw',
+    size,
+    lastModified: 1700000000000,
+    slice: (start: number, end: number) => ({ start, end, size: end - start }),
+  } as unknown as File;
+}
+
+const respond = <T>(data: T) => ({ data, config: {} }) as AxiosResponse<T>;
+
+const completed: UploadResponse = { message: 'ok', analysis_id: 'a1', filename: 'memory.raw', size_bytes: 0, sha256: 'abc' };
+
+// POST na založení session i na dokončení uploadu
+const sessionOrComplete = (uploadId: string) => async (url: unknown) =>
+  respond(String(url).endsWith('/complete') ? completed : { upload_id: uploadId, chunk_size: CHUNK, received_chunks: [] });
+
+// Worker s hashem odpoví hned (jsdom Web Workery nemá)
+class FakeWorker {
+  onmessage: ((e: MessageEvent) => void) | null = null;
+  postMessage() {
+    Promise.resolve().then(() => this.onmessage?.({ data: { type: 'done', sha256: 'abc' } } as MessageEvent));
+  }
+  terminate() {}
+}
+
+function startUpload(size: number) {
+  let settle!: (progress: ChunkedUploadProgress) => void;
+  const finished = new Promise<ChunkedUploadProgress>(resolve => { settle = resolve; });
+  const onComplete = vi.fn();
+  const upload = createChunkedUpload(fakeFile(size), {
+    onProgress: progress => {
+      if (progress.state === 'completed' || progress.state === 'failed') settle(progress);
+    },
+    onComplete,
+  });
+  upload.start();
+  return { upload, finished, onComplete };
+}
+
+const storageKey = (size: number) => `vtf-upload:memory.raw:${size}:1700000000000`;
+
+describe('createChunkedUpload', () => {
+  let post: MockInstance;
+  let put: MockInstance;
+  let get: MockInstance;
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.stubGlobal('Worker', FakeWorker);
+    post = vi.spyOn(apiClient, 'post').mockImplementation(sessionOrComplete('u1'));
+    put = vi.spyOn(apiClient, 'put').mockResolvedValue(respond(null));
+    get = vi.spyOn(apiClient, 'get');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  const chunkCalls = () => put.mock.calls.map(([url, blob]) => [String(url).split('/').pop(), (blob as Blob).size]);
+
+  it('rozdělí soubor na chunky včetně posledního neúplného a dokončí upload s hashem', async () => {
+    const size = 2 * CHUNK + 5;
+    const { finished, onComplete } = startUpload(size);
+
+    expect((await finished).state).toBe('completed');
+    expect(chunkCalls()).toEqual([['0', CHUNK], ['1', CHUNK], ['2', 5]]);
+    expect(post).toHaveBeenCalledWith('/api/v1/uploads/chunked/u1/complete', { sha256: 'abc' }, expect.anything());
+    expect(onComplete).toHaveBeenCalledWith(completed);
+    // Dokončená session se zapomene
+    expect(localStorage.getItem(storageKey(size))).toBeNull();
+  });
+
+  it('soubor přesně na hranici chunku nemá prázdný chunk navíc', async () => {
+    const { finished } = startUpload(CHUNK);
+    await finished;
+    expect(chunkCalls()).toEqual([['0', CHUNK]]);
+  });
+
+  it('naváže na session uloženou v localStorage a pošle jen chybějící chunky', async () => {
+    const size = 3 * CHUNK;
+    localStorage.setItem(storageKey(size), 'u1');
+    get.mockResolvedValue(respond({ upload_id: 'u1', chunk_size: CHUNK, received_chunks: [0, 2] }));
+
+    const { finished } = startUpload(size);
+    expect((await finished).state).toBe('completed');
+    expect(get).toHaveBeenCalledWith('/api/v1/uploads/chunked/u1', expect.anything());
+    expect(post).not.toHaveBeenCalledWith('/api/v1/uploads/chunked', expect.anything(), expect.anything());
+    expect(chunkCalls()).toEqual([['1', CHUNK]]);
+  });
+
+  it('vypršelou session (404) nahradí novou', async () => {
+    const size = CHUNK;
+    localStorage.setItem(storageKey(size), 'expired');
+    get.mockRejectedValue(new VtfApiError({ message: 'not found', endpoint: 'GET', status: 404 }));
+    post.mockImplementation(sessionOrComplete('u2'));
+
+    const { finished } = startUpload(size);
+    expect((await finished).state).toBe('completed');
+    expect(post).toHaveBeenCalledWith('/api/v1/uploads/chunked', expect.anything(), expect.anything());
+    expect(put.mock.calls[0][0]).toBe('/api/v1/uploads/chunked/u2/chunks/0');
+  });
+
+  it('opakuje chunk s exponenciálním backoffem', async () => {
+    vi.useFakeTimers();
+    const retryable = new VtfApiError({ message: '503', endpoint: 'PUT', status: 503, retryable: true });
+    put.mockRejectedValueOnce(retryable).mockRejectedValueOnce(retryable).mockResolvedValue(respond(null));
+
+    const { finished } = startUpload(CHUNK);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(put).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(put).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(put).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(put).toHaveBeenCalledTimes(3);
+    expect((await finished).state).toBe('completed');
+  });
+
+  it('po vyčerpání pokusů nebo u chyby bez opakování upload selže', async () => {
+    vi.useFakeTimers();
+    put.mockRejectedValue(new VtfApiError({ message: 'Server error', endpoint: 'PUT', status: 503, retryable: true }));
+    const first = startUpload(CHUNK);
+    await vi.advanceTimersByTimeAsync(1000 + 2000 + 4000);
+    expect(await first.finished).toMatchObject({ state: 'failed', error: 'Server error' });
+    expect(put).toHaveBeenCalledTimes(4);
+
+    // Neúspěšná session zůstává uložená pro pozdější navázání
+    expect(localStorage.getItem(storageKey(CHUNK))).toBe('u1');
+    localStorage.clear();
+    put.mockClear();
+    put.mockRejectedValue(new VtfApiError({ message: 'Too large', endpoint: 'PUT', status: 413 }));
+    const second = startUpload(CHUNK);
+    expect(await second.finished).toMatchObject({ state: 'failed', error: 'Too large' });
+    expect(put).toHaveBeenCalledTimes(1);
+  });
+
+  it('chybu výpočtu hashe přeloží v hlavním vlákně', async () => {
+    vi.stubGlobal('Worker', class extends FakeWorker {
+      postMessage() {
+        Promise.resolve().then(() => this.onmessage?.({ data: { type: 'error', detail: 'NotReadableError' } } as MessageEvent));
+      }
+    });
+    const { finished } = startUpload(CHUNK);
+    expect(await finished).toMatchObject({ state: 'failed', error: `${t('api.hashFailed')}: NotReadableError` });
+  });
+});
@@ -0,0 +1,242 @@
+import {
+  initChunkedUpload,
+  getChunkedUploadStatus,
+  uploadChunk,
+  completeChunkedUpload,
+  isCancelledError,
+  VtfApiError,
+} from './vtfApi';
+import type { ChunkedUploadSession, UploadResponse } from './vtfApi';
+import type { HashWorkerMessage } from '../workers/sha256Worker';
+import { t } from '../i18n/i18n';
+
+const CHUNK_SIZE = 16 * 1024 * 1024;
+const MAX_CHUNK_ATTEMPTS = 4;
+const SPEED_WINDOW_MS = 10000;
+const SESSION_STORAGE_PREFIX = 'vtf-upload:';
+
+export type ChunkedUploadState = 'uploading' | 'paused' | 'finalizing' | 'completed' | 'failed';
+
+export interface ChunkedUploadProgress {
+  state: ChunkedUploadState;
+  totalBytes: number;
+  uploadedBytes: number;
+  hashedBytes: number;
+  bytesPerSecond: number;
+  etaSeconds: number | null;
+  error?: string;
+}
+
+export interface ChunkedUpload {
+  /** Spustí upload, po pauze nebo chybě naváže na poslední přijatý chunk */
+  start: () => void;
+  pause: () => void;
+  /** Zruší upload včetně výpočtu hashe a zapomene uloženou session */
+  cancel: () => void;
+}
+
+// Soubor identifikujeme podle jména, velikosti a času změny - stejný soubor
+// vybraný po reloadu stránky tak naváže na rozpracovanou session
+function sessionStorageKey(file: File): string {
+  return `${SESSION_STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function cancelledError(): VtfApiError {
+  return new VtfApiError({ message: t('api.uploadPaused'), endpoint: 'upload', cancelled: true });
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    }, { once: true });
+  });
+}
+
+/**
+ * Vytvoří pozastavitelný chunked upload memory dumpu.
+ * SHA-256 se počítá paralelně ve Web Workeru a posílá se při dokončení,
+ * server podle něj ověří integritu složeného souboru.
+ */
+export function createChunkedUpload(
+  file: File,
+  options: {
+    projectName?: string;
+    onProgress: (progress: ChunkedUploadProgress) => void;
+    onComplete: (response: UploadResponse) => void;
+  }
+): ChunkedUpload {
+  const { projectName, onProgress, onComplete } = options;
+  const storageKey = sessionStorageKey(file);
+  const chunkCount = Math.max(1, Math.ceil(file.size / CHUNK_SIZE));
+
+  let session: ChunkedUploadSession | null = null;
+  let receivedChunks = new Set<number>();
+  let controller: AbortController | null = null;
+  let worker: Worker | null = null;
+  let hashPromise: Promise<string> | null = null;
+
+  let progress: ChunkedUploadProgress = {
+    state: 'paused',
+    totalBytes: file.size,
+    uploadedBytes: 0,
+    hashedBytes: 0,
+    bytesPerSecond: 0,
+    etaSeconds: null,
+  };
+  let speedSamples: Array<{ time: number; bytes: number }> = [];
+
+  const update = (patch: Partial<ChunkedUploadProgress>) => {
+    progress = { ...progress, ...patch };
+    onProgress(progress);
+  };
+
+  const chunkBytes = (index: number) =>
+    Math.min(CHUNK_SIZE, file.size - index * CHUNK_SIZE);
+
+  const confirmedBytes = () => {
+    let bytes = 0;
+    receivedChunks.forEach(i => { bytes += chunkBytes(i); });
+    return bytes;
+  };
+
+  const reportUploaded = (uploadedBytes: number) => {
+    const now = Date.now();
+    speedSamples.push({ time: now, bytes: uploadedBytes });
+    speedSamples = speedSamples.filter(s => now - s.time <= SPEED_WINDOW_MS);
+    const oldest = speedSamples[0];
+    const elapsed = (now - oldest.time) / 1000;
+    const bytesPerSecond = elapsed > 0 ? (uploadedBytes - oldest.bytes) / elapsed : 0;
+    update({
+      uploadedBytes,
+      bytesPerSecond,
+      etaSeconds: bytesPerSecond > 0 ? (file.size - uploadedBytes) / bytesPerSecond : null,
+    });
+  };
+
+  const startHashing = (): Promise<string> => {
+    if (hashPromise) return hashPromise;
+    hashPromise = new Promise((resolve, reject) => {
+      worker = new Worker(new URL('../workers/sha256Worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<HashWorkerMessage>) => {
+        const msg = e.data;
+        if (msg.type === 'progress') {
+          update({ hashedBytes: msg.hashedBytes });
+        } else if (msg.type === 'done') {
+          worker?.terminate();
+          worker = null;
+          resolve(msg.sha256);
+        } else {
+          worker?.terminate();
+          worker = null;
+          hashPromise = null;
+          reject(new Error(msg.detail ? `${t('api.hashFailed')}: ${msg.detail}` : t('api.hashFailed')));
+        }
+      };
+      worker.postMessage({ file });
+    });
+    return hashPromise;
+  };
+
+  const waitForHash = (signal: AbortSignal): Promise<string> =>
+    new Promise((resolve, reject) => {
+      startHashing().then(resolve, reject);
+      signal.addEventListener('abort', () => reject(cancelledError()), { once: true });
+    });
+
+  const resolveSession = async (signal: AbortSignal): Promise<ChunkedUploadSession> => {
+    const storedId = localStorage.getItem(storageKey);
+    if (storedId) {
+      try {
+        return await getChunkedUploadStatus(storedId, signal);
+      } catch (err) {
+        // Session na serveru vypršela - založíme novou
+        if (!(err instanceof VtfApiError) || err.status !== 404) throw err;
+        localStorage.removeItem(storageKey);
+      }
+    }
+    const created = await initChunkedUpload({
+      filename: file.name,
+      size_bytes: file.size,
+      chunk_size: CHUNK_SIZE,
+      project_name: projectName,
+    }, signal);
+    localStorage.setItem(storageKey, created.upload_id);
+    return created;
+  };
+
+  const sendChunk = async (uploadId: string, index: number, signal: AbortSignal) => {
+    const start = index * CHUNK_SIZE;
+    const blob = file.slice(start, start + chunkBytes(index));
+    const baseBytes = confirmedBytes();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await uploadChunk(uploadId, index, blob, loaded => reportUploaded(baseBytes + loaded), signal);
+        return;
+      } catch (err) {
+        const retryable = err instanceof VtfApiError && err.retryable;
+        if (!retryable || attempt >= MAX_CHUNK_ATTEMPTS) throw err;
+        // Exponenciální backoff: 1 s, 2 s, 4 s
+        await delay(1000 * 2 ** (attempt - 1), signal);
+      }
+    }
+  };
+
+  const run = async () => {
+    controller?.abort();
+    controller = new AbortController();
+    const { signal } = controller;
+
+    speedSamples = [];
+    update({ state: 'uploading', error: undefined, bytesPerSecond: 0, etaSeconds: null });
+    startHashing().catch(() => { /* chyba se projeví až ve waitForHash */ });
+
+    try {
+      session = await resolveSession(signal);
+      receivedChunks = new Set(session.received_chunks);
+      reportUploaded(confirmedBytes());
+
+      for (let index = 0; index < chunkCount; index++) {
+        if (receivedChunks.has(index)) continue;
+        await sendChunk(session.upload_id, index, signal);
+        receivedChunks.add(index);
+        reportUploaded(confirmedBytes());
+      }
+
+      update({ state: 'finalizing', etaSeconds: null });
+      const sha256 = await waitForHash(signal);
+      const response = await completeChunkedUpload(session.upload_id, sha256, signal);
+      localStorage.removeItem(storageKey);
+      update({ state: 'completed' });
+      onComplete(response);
+    } catch (err) {
+      if (isCancelledError(err)) return;
+      update({
+        state: 'failed',
+        error: err instanceof Error ? err.message : t('api.uploadFailed'),
+      });
+    }
+  };
+
+  return {
+    start: () => {
+      if (progress.state === 'uploading' || progress.state === 'finalizing' || progress.state === 'completed') return;
+      run();
+    },
+    pause: () => {
+      if (progress.state !== 'uploading' && progress.state !== 'finalizing') return;
+      controller?.abort();
+      update({ state: 'paused', bytesPerSecond: 0, etaSeconds: null });
+    },
+    cancel: () => {
+      controller?.abort();
+      worker?.terminate();
+      worker = null;
+      hashPromise = null;
+      localStorage.removeItem(storageKey);
+    },
+  };
+}
@@ -0,0 +1,204 @@
+import axios, { CanceledError } from 'axios';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { endSession, getAccessToken, waitForSession } from './session';
+import { getActiveServer, subscribeServers } from './servers';
+import { t } from '../i18n/i18n';
+
+
+/** Verze kontraktu API, pro kterou je frontend napsaný (viz negotiateApiVersion) */
+export const CLIENT_API_VERSION = '1.0';
+
+/**
+ * Sdílená axios instance pro všechna volání backendu
+ */
+export const apiClient = axios.create({
+  baseURL: getActiveServer().url,
+  headers: { 'X-VTF-API-Version': CLIENT_API_VERSION },
+});
+
+// Server lze přepnout za běhu (viz servers.ts) - nové požadavky jdou na aktivní server
+subscribeServers(() => {
+  apiClient.defaults.baseURL = getActiveServer().url;
+});
+
+// ========== Mock backend ==========
+
+const MOCK_STORAGE_KEY = 'vtf-mock-backend';
+
+// ?mock=1 / ?mock=0 v URL přepne režim trvale pro tento prohlížeč
+function readMockFlag(): boolean {
+  if (import.meta.env.VITE_MOCK_API === 'true') return true;
+  const param = new URLSearchParams(window.location.search).get('mock');
+  if (param === '1') localStorage.setItem(MOCK_STORAGE_KEY, '1');
+  if (param === '0') localStorage.removeItem(MOCK_STORAGE_KEY);
+  return localStorage.getItem(MOCK_STORAGE_KEY) === '1';
+}
+
+/** True pokud frontend běží proti in-browser mock backendu místo FastAPI */
+export const MOCK_BACKEND = readMockFlag();
+
+type MockBackendModule = typeof import('../mocks/mockBackend');
+let mockBackend: MockBackendModule | null = null;
+
+/**
+ * Načtený modul mock backendu (null mimo mock režim nebo před prvním requestem)
+ */
+export function getMockBackend(): MockBackendModule | null {
+  return mockBackend;
+}
+
+/**
+ * Zapne/vypne mock backend a znovu načte stránku
+ */
+export function setMockBackend(enabled: boolean) {
+  if (enabled) localStorage.setItem(MOCK_STORAGE_KEY, '1');
+  else localStorage.removeItem(MOCK_STORAGE_KEY);
+  const url = new URL(window.location.href);
+  url.searchParams.delete('mock');
+  window.location.replace(url);
+}
+
+if (MOCK_BACKEND) {
+  // Mock se načítá líně, aby nebyl součástí hlavního bundlu
+  apiClient.defaults.adapter = async config => {
+    mockBackend ??= await import('../mocks/mockBackend');
+    return mockBackend.mockAdapter(config);
+  };
+}
+
+/**
+ * Jednotná chyba API volání - nese HTTP status, detail z FastAPI a endpoint
+ */
+export class VtfApiError extends Error {
+  readonly status?: number;
+  readonly detail?: string;
+  readonly endpoint: string;
+  readonly retryable: boolean;
+  readonly cancelled: boolean;
+
+  constructor(options: {
+    message: string;
+    endpoint: string;
+    status?: number;
+    detail?: string;
+    retryable?: boolean;
+    cancelled?: boolean;
+  }) {
+    super(options.message);
+    this.name = 'VtfApiError';
+    this.status = options.status;
+    this.detail = options.detail;
+    this.endpoint = options.endpoint;
+    this.retryable = options.retryable ?? false;
+    this.cancelled = options.cancelled ?? false;
+  }
+}
+
+/**
+ * True pokud byl požadavek zrušen přes AbortSignal (nejde o skutečnou chybu)
+ */
+export function isCancelledError(err: unknown): boolean {
+  return err instanceof VtfApiError && err.cancelled;
+}
+
+// FastAPI vrací `detail` buď jako string, nebo jako pole validačních chyb
+function extractDetail(data: unknown): string | undefined {
+  if (!data || typeof data !== 'object' || !('detail' in data)) return undefined;
+  const detail = (data as { detail: unknown }).detail;
+  if (typeof detail === 'string') return detail;
+  if (Array.isArray(detail)) {
+    return detail
+      .map(d => (d && typeof d === 'object' && 'msg' in d ? String(d.msg) : String(d)))
+      .join('; ');
+  }
+  return undefined;
+}
+
+function isRetryableStatus(status?: number): boolean {
+  // Bez odpovědi = síťová chyba, ta se opakovat dá
+  if (status === undefined) return true;
+  return status === 408 || status === 429 || (status >= 500 && status !== 501);
+}
+
+/**
+ * Převede libovolnou chybu z axiosu na VtfApiError
+ */
+export function toVtfApiError(err: unknown): VtfApiError {
+  if (err instanceof VtfApiError) return err;
+
+  if (axios.isAxiosError(err)) {
+    const method = (err.config?.method || 'get').toUpperCase();
+    const endpoint = `${method} ${err.config?.url ?? ''}`;
+
+    if (axios.isCancel(err)) {
+      return new VtfApiError({ message: t('api.cancelled'), endpoint, cancelled: true });
+    }
+
+    const status = err.response?.status;
+    const detail = extractDetail(err.response?.data);
+    const message = detail
+      ?? (status === undefined
+        ? t('api.noResponse')
+        : t('api.httpError', { status: String(status) }));
+
+    return new VtfApiError({
+      message,
+      endpoint,
+      status,
+      detail,
+      retryable: isRetryableStatus(status),
+    });
+  }
+
+  return new VtfApiError({
+    message: err instanceof Error ? err.message : t('common.unknownError'),
+    endpoint: 'unknown',
+  });
+}
+
+// ========== Autentizace ==========
+
+const AUTH_ENDPOINT_PREFIX = '/api/v1/auth/';
+
+// Session patří aktivnímu serveru - ostatní servery v registru (přehled projektů ze všech
+// serverů) jeho token nesmí dostat a jejich 401 nesmí odhlásit aktivní server
+function isActiveServerRequest(config: InternalAxiosRequestConfig): boolean {
+  return (config.baseURL ?? apiClient.defaults.baseURL) === getActiveServer().url;
+}
+
+apiClient.interceptors.request.use(config => {
+  const token = getAccessToken();
+  if (token && isActiveServerRequest(config)) config.headers.set('Authorization', `Bearer ${token}`);
+  return config;
+});
+
+apiClient.interceptors.response.use(
+  response => response,
+  async err => {
+    const config = axios.isAxiosError(err) ? err.config : undefined;
+    // Relogin jen pro aktivní server - 401 z ostatních serverů v registru se jen propíše jako chyba
+    if (
+      !config
+      || err.response?.status !== 401
+      || config.url?.startsWith(AUTH_ENDPOINT_PREFIX)
+      || !isActiveServerRequest(config)
+    ) {
+      return Promise.reject(toVtfApiError(err));
+    }
+
+    // 401 = token vypršel nebo byl odvolán. Request počká na nové přihlášení a zopakuje se,
+    // takže rozpracovaný stav aplikace zůstane zachovaný.
+    const sentToken = config.headers.get('Authorization');
+    const currentToken = getAccessToken();
+    if (!currentToken || sentToken === `Bearer ${currentToken}`) {
+      endSession('expired');
+      try {
+        await waitForSession(config.signal as AbortSignal | undefined);
+      } catch {
+        const cancelled = (config.signal as AbortSignal | undefined)?.aborted;
+        return Promise.reject(toVtfApiError(cancelled ? new CanceledError(undefined, undefined, config) : err));
+      }
+    }
+    return apiClient.request(config);
+  }
+);
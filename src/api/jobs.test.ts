@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PluginStatusUpdate } from './vtfApi';
+
+vi.mock('./vtfApi', async () => ({
+  isCancelledError: (await import('./client')).isCancelledError,
+  subscribePluginStatus: vi.fn(() => vi.fn()),
+  subscribeSymbolJob: vi.fn(() => vi.fn()),
+  cancelAnalysis: vi.fn(),
+  cancelAnalysisForPid: vi.fn(),
+}));
+
+// Modul drží úlohy i předplatná ve stavu modulu - každý test začíná s čerstvou kopií
+async function loadJobs() {
+  const jobs = await import('./jobs');
+  const api = vi.mocked(await import('./vtfApi'));
+  return { jobs, api };
+}
+
+type StatusListener = (update: PluginStatusUpdate) => void;
+
+describe('jobs', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it('úlohy se pamatují v localStorage a po načtení obnoví', async () => {
+    const first = await loadJobs();
+    first.jobs.trackAnalysisJobs('a1', ['windows.pslist.PsList', 'windows.netscan.NetScan']);
+    const tracked = first.jobs.getJobsSnapshot();
+    expect(tracked).toHaveLength(2);
+    expect(tracked[0].batchId).toBeDefined();
+    expect(tracked[0].batchId).toBe(tracked[1].batchId);
+
+    vi.resetModules();
+    const second = await loadJobs();
+    expect(second.jobs.getJobsSnapshot()).toEqual(tracked);
+  });
+
+  it('poškozený záznam v localStorage nahradí prázdný seznam', async () => {
+    localStorage.setItem('vtf-jobs', '{nejde o JSON');
+    const { jobs } = await loadJobs();
+    expect(jobs.getJobsSnapshot()).toEqual([]);
+  });
+
+  it('sleduje stav jen se zobrazeným panelem, jedním předplatným na analýzu a PID', async () => {
+    const { jobs, api } = await loadJobs();
+    jobs.trackAnalysisJobs('a1', ['windows.pslist.PsList', 'windows.netscan.NetScan']);
+    jobs.trackPidJob('a1', 'windows.handles.Handles', 4);
+    expect(api.subscribePluginStatus).not.toHaveBeenCalled();
+
+    const unsubscribeJobs = jobs.subscribeJobs(() => {});
+    expect(api.subscribePluginStatus).toHaveBeenCalledTimes(2);
+    expect(api.subscribePluginStatus).toHaveBeenCalledWith(
+      'a1', ['windows.pslist.PsList', 'windows.netscan.NetScan'], expect.any(Function), expect.objectContaining({ pid: undefined })
+    );
+    expect(api.subscribePluginStatus).toHaveBeenCalledWith(
+      'a1', ['windows.handles.Handles'], expect.any(Function), expect.objectContaining({ pid: 4 })
+    );
+
+    unsubscribeJobs();
+    for (const result of api.subscribePluginStatus.mock.results) expect(result.value).toHaveBeenCalledOnce();
+  });
+
+  it('nový běh pluginu ve sledované skupině přihlásí skupinu znovu', async () => {
+    const { jobs, api } = await loadJobs();
+    jobs.subscribeJobs(() => {});
+    jobs.trackAnalysisJobs('a1', ['windows.pslist.PsList', 'windows.netscan.NetScan']);
+    expect(api.subscribePluginStatus).toHaveBeenCalledTimes(1);
+    const firstUnsubscribe = api.subscribePluginStatus.mock.results[0].value;
+
+    // Stav ohlášený původnímu předplatnému se promítne do úlohy
+    const onStatus = api.subscribePluginStatus.mock.calls[0][2] as StatusListener;
+    onStatus({ analysis_id: 'a1', plugin: 'windows.pslist.PsList', status: 'completed' });
+    const done = jobs.getJobsSnapshot().find(j => j.plugin === 'windows.pslist.PsList')!;
+    expect(done).toMatchObject({ status: 'completed', unseen: true });
+    expect(api.subscribePluginStatus).toHaveBeenCalledTimes(1);
+
+    jobs.trackAnalysisJobs('a1', ['windows.pslist.PsList']);
+    expect(firstUnsubscribe).toHaveBeenCalledOnce();
+    expect(api.subscribePluginStatus).toHaveBeenCalledTimes(2);
+    expect(api.subscribePluginStatus.mock.calls[1][1]).toEqual(['windows.pslist.PsList', 'windows.netscan.NetScan']);
+    // Nový běh nahradil doběhlý záznam
+    expect(jobs.getJobsSnapshot().filter(j => j.plugin === 'windows.pslist.PsList')).toHaveLength(1);
+  });
+
+  it('cancelJob zavolá zrušení podle druhu úlohy a chybu uloží k úloze', async () => {
+    const { jobs, api } = await loadJobs();
+    jobs.trackAnalysisJobs('a1', ['windows.pslist.PsList']);
+    jobs.trackPidJob('a1', 'windows.handles.Handles', 4);
+    const [pidJob, analysisJob] = jobs.getJobsSnapshot();
+
+    api.cancelAnalysisForPid.mockResolvedValue({} as never);
+    await jobs.cancelJob(pidJob.id);
+    expect(api.cancelAnalysisForPid).toHaveBeenCalledWith('a1', 'windows.handles.Handles', 4);
+    // Stav cancelled potvrdí až status stream
+    expect(jobs.getJobsSnapshot()[0]).toMatchObject({ status: 'queued', cancelling: true });
+
+    api.cancelAnalysis.mockRejectedValue(new Error('Plugin už doběhl'));
+    await jobs.cancelJob(analysisJob.id);
+    expect(api.cancelAnalysis).toHaveBeenCalledWith('a1', 'windows.pslist.PsList');
+    expect(jobs.getJobsSnapshot()[1]).toMatchObject({ cancelling: false, error: 'Plugin už doběhl' });
+  });
+
+  it('getCompletedBatchPlugins vrátí úspěšně dokončené pluginy stejného batch běhu', async () => {
+    const { jobs, api } = await loadJobs();
+    jobs.subscribeJobs(() => {});
+    jobs.trackAnalysisJobs('a1', ['windows.pslist.PsList', 'windows.netscan.NetScan', 'windows.malfind.Malfind']);
+    jobs.trackAnalysisJobs('a2', ['windows.pslist.PsList']);
+    const onStatus = api.subscribePluginStatus.mock.calls[0][2] as StatusListener;
+    onStatus({ analysis_id: 'a1', plugin: 'windows.pslist.PsList', status: 'completed' });
+    onStatus({ analysis_id: 'a1', plugin: 'windows.netscan.NetScan', status: 'failed', error: 'boom' });
+    onStatus({ analysis_id: 'a1', plugin: 'windows.malfind.Malfind', status: 'completed' });
+
+    const snapshot = jobs.getJobsSnapshot();
+    const batchJob = snapshot.find(j => j.analysisId === 'a1')!;
+    expect(jobs.getCompletedBatchPlugins(batchJob).sort()).toEqual(['windows.malfind.Malfind', 'windows.pslist.PsList']);
+    expect(jobs.getCompletedBatchPlugins(snapshot.find(j => j.analysisId === 'a2')!)).toEqual([]);
+  });
+});
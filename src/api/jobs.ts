@@ -0,0 +1,260 @@
+// Úlohy běžící na pozadí (analýzy, analýzy pro PID, generování symbolů) pro panel úloh v sidebaru.
+// Seznam se pamatuje v prohlížeči, stav se sleduje jen u úloh aktivního serveru.
+import {
+  cancelAnalysis,
+  cancelAnalysisForPid,
+  isCancelledError,
+  subscribePluginStatus,
+  subscribeSymbolJob,
+} from './vtfApi';
+import type { PluginStatusUpdate, SymbolJob, VtfApiError } from './vtfApi';
+import { getActiveServer, subscribeServers } from './servers';
+import { getSessionSnapshot, subscribeSession } from './session';
+import { t } from '../i18n/i18n';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface BackgroundJob {
+  id: string;
+  kind: 'analysis' | 'pid' | 'symbol';
+  /** Server, na kterém úloha běží */
+  serverId: string;
+  analysisId?: string;
+  plugin?: string;
+  pid?: number;
+  /** Pluginy spuštěné jedním batch během sdílí batchId */
+  batchId?: string;
+  symbolJobId?: string;
+  kernelVersion?: string;
+  status: JobStatus;
+  error?: string;
+  /** Zrušení odesláno, čekáme na potvrzení ze status streamu */
+  cancelling?: boolean;
+  /** Úloha doběhla a uživatel ji ještě neviděl v panelu */
+  unseen?: boolean;
+  createdAt: number;
+  finishedAt?: number;
+}
+
+const JOBS_STORAGE_KEY = 'vtf-jobs';
+const MAX_JOBS = 50;
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+interface Watcher {
+  /** Úlohy skupiny v době přihlášení odběru */
+  jobIds: string[];
+  unsubscribe: () => void;
+}
+
+// Sledování stavu běžících úloh - jedno předplatné na analýzu (a PID), ne na každý plugin
+// batch běhu; klíč viz watchKey
+const watchers = new Map<string, Watcher>();
+
+function loadJobs(): BackgroundJob[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(JOBS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(j => j && typeof j.id === 'string' && typeof j.kind === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+let jobs = loadJobs();
+
+export function isJobActive(job: BackgroundJob): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+function update(next: BackgroundJob[]) {
+  // Nejstarší dokončené úlohy vypadnou, běžící zůstávají vždy
+  const overflow = next.length - MAX_JOBS;
+  if (overflow > 0) {
+    const dropped = new Set(next.filter(j => !isJobActive(j)).slice(-overflow).map(j => j.id));
+    next = next.filter(j => !dropped.has(j.id));
+  }
+  jobs = next;
+  localStorage.setItem(JOBS_STORAGE_KEY, JSON.stringify(jobs));
+  syncWatchers();
+  listeners.forEach(l => l());
+}
+
+function patchJob(jobId: string, patch: Partial<BackgroundJob>) {
+  const current = jobs.find(j => j.id === jobId);
+  if (!current) return;
+  const next = { ...current, ...patch };
+  if (isJobActive(current) && !isJobActive(next)) {
+    next.finishedAt = Date.now();
+    next.unseen = true;
+    next.cancelling = false;
+  }
+  update(jobs.map(j => (j.id === jobId ? next : j)));
+}
+
+function toJobStatus(status: PluginStatusUpdate['status'] | SymbolJob['status']): JobStatus {
+  switch (status) {
+    case 'not_started':
+    case 'pending':
+      return 'queued';
+    case 'processing':
+      return 'running';
+    default:
+      return status;
+  }
+}
+
+function watchKey(job: BackgroundJob): string {
+  return job.kind === 'symbol' ? `symbol:${job.symbolJobId}` : `analysis:${job.analysisId}:${job.pid ?? ''}`;
+}
+
+// Běžící úlohy skupiny v okamžiku události - skupina mezitím mohla část úloh dokončit
+function groupJobs(key: string): BackgroundJob[] {
+  const activeServerId = getActiveServer().id;
+  return jobs.filter(j => isJobActive(j) && j.serverId === activeServerId && watchKey(j) === key);
+}
+
+function watchGroup(key: string, group: BackgroundJob[]): Watcher {
+  const [first] = group;
+  const jobIds = group.map(j => j.id);
+  const onError = (err: VtfApiError) => {
+    // Výpadky spojení přečká polling, smazaný projekt nebo job ale už nedoběhne
+    if (err.status !== 404) return;
+    for (const job of groupJobs(key)) patchJob(job.id, { status: 'failed', error: err.detail || err.message });
+  };
+
+  if (first.kind === 'symbol') {
+    return {
+      jobIds,
+      unsubscribe: subscribeSymbolJob(first.symbolJobId!, symbolJob => {
+        for (const job of groupJobs(key)) patchJob(job.id, { status: toJobStatus(symbolJob.status), error: symbolJob.error });
+      }, { onError }),
+    };
+  }
+  return {
+    jobIds,
+    unsubscribe: subscribePluginStatus(first.analysisId!, group.map(j => j.plugin!), statusUpdate => {
+      const job = groupJobs(key).find(j => j.plugin === statusUpdate.plugin);
+      if (job) patchJob(job.id, { status: toJobStatus(statusUpdate.status), error: statusUpdate.error });
+    }, { pid: first.pid, onError }),
+  };
+}
+
+// Úlohy se sledují, jen dokud je panel úloh zobrazený a úloha patří aktivnímu serveru
+function syncWatchers() {
+  const activeServerId = getActiveServer().id;
+  const groups = new Map<string, BackgroundJob[]>();
+  if (listeners.size > 0) {
+    for (const job of jobs) {
+      if (!isJobActive(job) || job.serverId !== activeServerId) continue;
+      const key = watchKey(job);
+      groups.set(key, [...(groups.get(key) ?? []), job]);
+    }
+  }
+  for (const [key, watcher] of watchers) {
+    const group = groups.get(key);
+    // Doběhlé úlohy ve skupině nevadí; nová úloha (i nový běh stejného pluginu) potřebuje
+    // nové předplatné, které ohlásí její první stav
+    if (!group || group.some(j => !watcher.jobIds.includes(j.id))) {
+      watcher.unsubscribe();
+      watchers.delete(key);
+    }
+  }
+  for (const [key, group] of groups) {
+    if (!watchers.has(key)) watchers.set(key, watchGroup(key, group));
+  }
+}
+
+subscribeServers(syncWatchers);
+
+// Po odhlášení patří úlohy předchozímu uživateli
+subscribeSession(() => {
+  const { session, endReason } = getSessionSnapshot();
+  if (!session && endReason === 'logout' && jobs.length > 0) update([]);
+});
+
+export function getJobsSnapshot(): BackgroundJob[] {
+  return jobs;
+}
+
+export function subscribeJobs(listener: Listener): () => void {
+  listeners.add(listener);
+  syncWatchers();
+  return () => {
+    listeners.delete(listener);
+    syncWatchers();
+  };
+}
+
+function addJobs(added: Omit<BackgroundJob, 'id' | 'serverId' | 'status' | 'createdAt'>[]) {
+  const serverId = getActiveServer().id;
+  const created: BackgroundJob[] = added.map(job => ({
+    ...job,
+    id: crypto.randomUUID(),
+    serverId,
+    status: 'queued',
+    createdAt: Date.now(),
+  }));
+  // Nový běh stejného pluginu nahradí předchozí záznam
+  const isSameRun = (a: BackgroundJob, b: BackgroundJob) =>
+    a.kind === b.kind && a.serverId === b.serverId && a.analysisId === b.analysisId
+    && a.plugin === b.plugin && a.pid === b.pid && a.symbolJobId === b.symbolJobId;
+  update([...created, ...jobs.filter(j => !created.some(c => isSameRun(c, j)))]);
+}
+
+/**
+ * Zařadí spuštěné analýzy do panelu úloh; víc pluginů najednou = jeden batch
+ */
+export function trackAnalysisJobs(analysisId: string, plugins: string[]) {
+  const batchId = plugins.length > 1 ? crypto.randomUUID() : undefined;
+  addJobs(plugins.map(plugin => ({ kind: 'analysis', analysisId, plugin, batchId })));
+}
+
+export function trackPidJob(analysisId: string, plugin: string, pid: number) {
+  addJobs([{ kind: 'pid', analysisId, plugin, pid }]);
+}
+
+export function trackSymbolJob(job: SymbolJob) {
+  addJobs([{ kind: 'symbol', symbolJobId: job.job_id, kernelVersion: job.kernel_version }]);
+}
+
+/**
+ * Zruší běžící analýzu; úloha přejde do stavu cancelled až po potvrzení serverem.
+ * Chyba zrušení se uloží k úloze.
+ */
+export async function cancelJob(jobId: string): Promise<void> {
+  const job = jobs.find(j => j.id === jobId);
+  if (!job || !isJobActive(job) || job.kind === 'symbol') return;
+  patchJob(jobId, { cancelling: true, error: undefined });
+  try {
+    if (job.kind === 'pid') {
+      await cancelAnalysisForPid(job.analysisId!, job.plugin!, job.pid!);
+    } else {
+      await cancelAnalysis(job.analysisId!, job.plugin!);
+    }
+  } catch (err) {
+    if (isCancelledError(err)) return;
+    patchJob(jobId, { cancelling: false, error: err instanceof Error ? err.message : t('jobs.cancelFailed') });
+  }
+}
+
+export function removeJob(jobId: string) {
+  update(jobs.filter(j => j.id !== jobId));
+}
+
+export function clearFinishedJobs() {
+  update(jobs.filter(isJobActive));
+}
+
+export function markJobsSeen() {
+  if (!jobs.some(j => j.unseen)) return;
+  update(jobs.map(j => (j.unseen ? { ...j, unseen: false } : j)));
+}
+
+/** Úspěšně dokončené pluginy ze stejného batch běhu (pro přepínač výsledků) */
+export function getCompletedBatchPlugins(job: BackgroundJob): string[] {
+  if (!job.batchId) return [];
+  return jobs
+    .filter(j => j.batchId === job.batchId && j.status === 'completed')
+    .map(j => j.plugin!);
+}
@@ -0,0 +1,43 @@
+import { VtfApiError } from './client';
+import type { AuthSession } from './session';
+import { t } from '../i18n/i18n';
+
+// Lokální náhrada identity provideru pro vývoj a demo - backend token neověřuje.
+// Nikdy nepoužívat proti produkčnímu backendu.
+
+interface LocalUser {
+  username: string;
+  password: string;
+  display_name: string;
+  roles: string[];
+}
+
+const LOCAL_USERS: LocalUser[] = [
+  { username: 'analyst', password: 'analyst', display_name: 'Analytik (lokální)', roles: ['analyst'] },
+  { username: 'admin', password: 'admin', display_name: 'Administrátor (lokální)', roles: ['analyst', 'admin'] },
+];
+
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+/** Uživatelská jména lokálních účtů (nápověda na přihlašovací obrazovce) */
+export const LOCAL_USERNAMES = LOCAL_USERS.map(u => u.username);
+
+/**
+ * Ověří jméno a heslo proti lokálním účtům a vydá nepodepsaný token
+ */
+export function authenticateLocally(username: string, password: string): AuthSession {
+  const user = LOCAL_USERS.find(u => u.username === username && u.password === password);
+  if (!user) {
+    throw new VtfApiError({
+      message: t('api.invalidCredentials'),
+      endpoint: 'local-identity-provider',
+      status: 401,
+    });
+  }
+  return {
+    access_token: `local.${btoa(user.username)}.${crypto.randomUUID()}`,
+    user: { username: user.username, display_name: user.display_name, roles: user.roles },
+    provider: 'local',
+    expires_at: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+  };
+}
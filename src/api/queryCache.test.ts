@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  clearQueryCache,
+  fetchQuery,
+  getQueryState,
+  invalidateQueries,
+  queryKeys,
+  subscribeQuery,
+} from './queryCache';
+
+// Fetcher, jehož odpovědi test pouští ručně
+function deferredFetcher<T>() {
+  const pending: Array<(value: T) => void> = [];
+  const fetcher = vi.fn(() => new Promise<T>(resolve => pending.push(resolve)));
+  return { fetcher, resolveNext: (value: T) => pending.shift()!(value) };
+}
+
+describe('queryCache', () => {
+  afterEach(() => clearQueryCache());
+
+  it('souběžná volání sdílí jeden request, čerstvá data se vrací z cache', async () => {
+    const fetcher = vi.fn(async () => 42);
+    const [a, b] = await Promise.all([fetchQuery('k', fetcher), fetchQuery('k', fetcher)]);
+    expect([a, b]).toEqual([42, 42]);
+    expect(await fetchQuery('k', fetcher)).toBe(42);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('invalidace prefixem zasáhne vnořené klíče, ne sourozence se stejným začátkem', async () => {
+    const fetcher = vi.fn(async () => 'x');
+    await fetchQuery(queryKeys.pluginResults('a1', 'windows.pslist'), fetcher);
+    await fetchQuery(queryKeys.dashboard('a1'), fetcher);
+    await fetchQuery(queryKeys.dashboard('a10'), fetcher);
+
+    invalidateQueries(queryKeys.analysis('a1'));
+    expect(getQueryState(queryKeys.pluginResults('a1', 'windows.pslist'))?.isStale).toBe(true);
+    expect(getQueryState(queryKeys.dashboard('a1'))?.isStale).toBe(true);
+    expect(getQueryState(queryKeys.dashboard('a10'))?.isStale).toBe(false);
+
+    await fetchQuery(queryKeys.dashboard('a1'), fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(4);
+  });
+
+  it('zobrazený záznam se po invalidaci hned načte znovu', async () => {
+    const fetcher = vi.fn(async () => 'x');
+    await fetchQuery('observed', fetcher);
+    const unsubscribe = subscribeQuery('observed', () => {});
+    invalidateQueries('observed');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    unsubscribe();
+  });
+
+  it('invalidace během requestu načte data po jeho dokončení znovu', async () => {
+    const { fetcher, resolveNext } = deferredFetcher<number>();
+    const unsubscribe = subscribeQuery('k', () => {});
+    const first = fetchQuery('k', fetcher);
+    invalidateQueries('k');
+    resolveNext(1);
+    expect(await first).toBe(1);
+    // Výsledek prvního requestu je stale a rovnou běží druhý
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    resolveNext(2);
+    await vi.waitFor(() => expect(getQueryState('k')?.data).toBe(2));
+    expect(getQueryState('k')?.isStale).toBe(false);
+    unsubscribe();
+  });
+
+  it('chyba ponechá poslední data', async () => {
+    await fetchQuery('k', async () => 'old');
+    invalidateQueries('k');
+    await expect(fetchQuery('k', async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    const state = getQueryState<string>('k');
+    expect(state?.data).toBe('old');
+    expect(state?.error?.message).toBe('boom');
+  });
+
+  it('zrušení volajícím nezruší sdílený request', async () => {
+    const { fetcher, resolveNext } = deferredFetcher<string>();
+    const controller = new AbortController();
+    const cancelled = fetchQuery('k', fetcher, { signal: controller.signal });
+    const other = fetchQuery('k', fetcher);
+    controller.abort();
+    await expect(cancelled).rejects.toMatchObject({ cancelled: true });
+    resolveNext('data');
+    expect(await other).toBe('data');
+  });
+});
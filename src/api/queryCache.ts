@@ -0,0 +1,198 @@
+import { toVtfApiError, VtfApiError } from './client';
+import { t } from '../i18n/i18n';
+
+// Sdílená cache výsledků dotazů na backend.
+// - souběžné požadavky na stejný klíč sdílejí jeden HTTP request
+// - stale data se vrací okamžitě a na pozadí se načtou znovu (stale-while-revalidate)
+// - po spuštění pluginu nebo změně sledovaných PID se dotčené klíče invalidují (viz vtfApi.ts)
+
+export interface QueryState<T> {
+  data?: T;
+  error?: VtfApiError;
+  updatedAt: number;
+  isFetching: boolean;
+  isStale: boolean;
+}
+
+type Fetcher<T> = (signal: AbortSignal) => Promise<T>;
+type Listener = () => void;
+
+interface CacheEntry {
+  state: QueryState<unknown>;
+  fetcher?: Fetcher<unknown>;
+  promise?: Promise<unknown>;
+  controller?: AbortController;
+  /** Invalidace během běžícího requestu - jeho výsledek může být zastaralý */
+  invalidatedWhileFetching: boolean;
+  listeners: Set<Listener>;
+  staleTime: number;
+  lastUsed: number;
+}
+
+/** Výchozí doba, po kterou jsou data čerstvá */
+export const DEFAULT_STALE_TIME_MS = 60_000;
+// Výsledky pluginů můžou mít desítky MB - držíme jen omezený počet záznamů
+const MAX_ENTRIES = 40;
+
+const cache = new Map<string, CacheEntry>();
+
+/**
+ * Klíče dotazů - hierarchické, invalidace prefixem zasáhne i vnořené klíče
+ */
+export const queryKeys = {
+  plugins: () => 'plugins',
+  projects: () => 'projects',
+  analysis: (analysisId: string) => `analysis/${analysisId}`,
+  pluginResults: (analysisId: string, plugin: string) => `analysis/${analysisId}/results/${plugin}`,
+  resultsHistory: (analysisId: string) => `analysis/${analysisId}/results-history`,
+  dashboard: (analysisId: string) => `analysis/${analysisId}/dashboard`,
+  processTree: (analysisId: string) => `analysis/${analysisId}/process-tree`,
+  processTimeline: (analysisId: string) => `analysis/${analysisId}/process-timeline`,
+  registryHives: (analysisId: string) => `analysis/${analysisId}/registry-hives`,
+  annotations: (analysisId: string) => `analysis/${analysisId}/annotations`,
+};
+
+function getEntry(key: string): CacheEntry {
+  let entry = cache.get(key);
+  if (!entry) {
+    entry = {
+      state: { updatedAt: 0, isFetching: false, isStale: true },
+      listeners: new Set(),
+      staleTime: DEFAULT_STALE_TIME_MS,
+      lastUsed: Date.now(),
+      invalidatedWhileFetching: false,
+    };
+    cache.set(key, entry);
+    evictUnused();
+  }
+  entry.lastUsed = Date.now();
+  return entry;
+}
+
+function evictUnused() {
+  if (cache.size <= MAX_ENTRIES) return;
+  const candidates = [...cache.entries()]
+    .filter(([, e]) => e.listeners.size === 0 && !e.promise)
+    .sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+  for (const [key] of candidates) {
+    if (cache.size <= MAX_ENTRIES) break;
+    cache.delete(key);
+  }
+}
+
+function setState(entry: CacheEntry, patch: Partial<QueryState<unknown>>) {
+  // Nový objekt při každé změně - snapshot pro useSyncExternalStore
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach(l => l());
+}
+
+function isFresh(entry: CacheEntry): boolean {
+  const { state } = entry;
+  return state.data !== undefined && !state.isStale && Date.now() - state.updatedAt < entry.staleTime;
+}
+
+function startFetch(entry: CacheEntry): Promise<unknown> {
+  if (entry.promise) return entry.promise;
+  const fetcher = entry.fetcher!;
+  const controller = new AbortController();
+  entry.controller = controller;
+  setState(entry, { isFetching: true });
+
+  const promise = fetcher(controller.signal).then(
+    data => {
+      entry.promise = undefined;
+      const isStale = entry.invalidatedWhileFetching;
+      entry.invalidatedWhileFetching = false;
+      setState(entry, { data, error: undefined, updatedAt: Date.now(), isFetching: false, isStale });
+      if (isStale) refetchIfObserved(entry);
+      return data;
+    },
+    err => {
+      const error = toVtfApiError(err);
+      entry.promise = undefined;
+      entry.invalidatedWhileFetching = false;
+      // Při chybě necháváme poslední platná data, jen přidáme chybu
+      setState(entry, error.cancelled ? { isFetching: false } : { error, isFetching: false });
+      throw error;
+    }
+  );
+  entry.promise = promise;
+  return promise;
+}
+
+function refetchIfObserved(entry: CacheEntry) {
+  if (entry.listeners.size > 0 && entry.fetcher) {
+    startFetch(entry).catch(() => { /* chyba je ve state.error */ });
+  }
+}
+
+// Volající si může svůj požadavek zrušit, sdílený fetch ale doběhne pro ostatní
+function withCallerSignal<T>(promise: Promise<T>, key: string, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    return Promise.reject(new VtfApiError({ message: t('api.cancelled'), endpoint: key, cancelled: true }));
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new VtfApiError({ message: t('api.cancelled'), endpoint: key, cancelled: true }));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Vrátí data z cache, pokud jsou čerstvá, jinak je načte (souběžná volání sdílí jeden request)
+ */
+export function fetchQuery<T>(
+  key: string,
+  fetcher: Fetcher<T>,
+  options: { staleTime?: number; signal?: AbortSignal } = {}
+): Promise<T> {
+  const entry = getEntry(key);
+  entry.fetcher = fetcher as Fetcher<unknown>;
+  if (options.staleTime !== undefined) entry.staleTime = options.staleTime;
+
+  if (isFresh(entry)) return Promise.resolve(entry.state.data as T);
+  return withCallerSignal(startFetch(entry) as Promise<T>, key, options.signal);
+}
+
+/**
+ * Spustí revalidaci na pozadí, pokud data chybí nebo jsou stale; chyby se propíší do stavu
+ */
+export function revalidateQuery<T>(key: string, fetcher: Fetcher<T>, staleTime?: number) {
+  fetchQuery(key, fetcher, { staleTime }).catch(() => { /* chyba je ve state.error */ });
+}
+
+export function getQueryState<T>(key: string): QueryState<T> | undefined {
+  return cache.get(key)?.state as QueryState<T> | undefined;
+}
+
+export function subscribeQuery(key: string, listener: Listener): () => void {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+    evictUnused();
+  };
+}
+
+/**
+ * Označí klíč (a všechny vnořené klíče) jako stale.
+ * Záznamy, které někdo právě zobrazuje, se hned načtou znovu.
+ */
+export function invalidateQueries(keyPrefix: string) {
+  for (const [key, entry] of cache) {
+    if (key !== keyPrefix && !key.startsWith(`${keyPrefix}/`)) continue;
+    if (entry.promise) {
+      // Běžící request mohl začít před změnou - po dokončení se načte znovu
+      entry.invalidatedWhileFetching = true;
+      continue;
+    }
+    setState(entry, { isStale: true });
+    refetchIfObserved(entry);
+  }
+}
+
+export function clearQueryCache() {
+  cache.forEach(entry => entry.controller?.abort());
+  cache.clear();
+}
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { AxiosResponse } from 'axios';
+import {
+  clearContractDiagnostics,
+  ContractMismatchError,
+  getContractDiagnostics,
+  parseData,
+  parseResponse,
+  s,
+} from './schema';
+import type { Schema } from './schema';
+
+interface Node {
+  name: string;
+  children?: Node[];
+}
+
+// Rekurzivní schéma - popis se nesmí číst při vytvoření (viz s.lazy)
+const nodeSchema: Schema<Node> = s.object({
+  name: s.string(),
+  children: s.optional(s.array(s.lazy(() => nodeSchema))),
+});
+
+describe('schema', () => {
+  beforeEach(() => clearContractDiagnostics());
+
+  it('primitiva a literály', () => {
+    expect(s.string().check('a', 'x')).toBeUndefined();
+    expect(s.number().check(Number.NaN, 'x')).toEqual({ path: 'x', expected: 'number', received: 'number' });
+    expect(s.literal('a', 'b').check('c', 'x')?.expected).toBe('"a" | "b"');
+    expect(s.nullable(s.number()).check(null, 'x')).toBeUndefined();
+    expect(s.optional(s.number()).check(undefined, 'x')).toBeUndefined();
+  });
+
+  it('hlásí cestu k první neshodě', () => {
+    const schema = s.object({ items: s.array(s.object({ id: s.number() })) });
+    expect(schema.check({ items: [{ id: 1 }, { id: '2' }] }, '')).toEqual({
+      path: 'items[1].id',
+      expected: 'number',
+      received: 'string',
+    });
+    expect(s.record(s.boolean()).check({ a: true, b: null }, 'flags')).toEqual({
+      path: 'flags.b',
+      expected: 'boolean',
+      received: 'null',
+    });
+    expect(s.tuple(s.string(), s.number()).check(['a'], '')?.expected).toBe('[string, number]');
+  });
+
+  it('pole navíc ignoruje', () => {
+    expect(s.object({ id: s.number() }).check({ id: 1, extra: 'x' }, '')).toBeUndefined();
+  });
+
+  it('rekurzivní schéma', () => {
+    expect(nodeSchema.check({ name: 'a', children: [{ name: 'b', children: [{ name: 'c' }] }] }, '')).toBeUndefined();
+    expect(nodeSchema.check({ name: 'a', children: [{ name: 'b', children: [{ name: 3 }] }] }, '')?.path)
+      .toBe('children[0].children[0].name');
+    expect(s.array(s.lazy(() => s.string())).expected).toBe('array<string>');
+  });
+
+  it('parseData vrátí data, při neshodě vyhodí chybu a zapíše diagnostiku jednou', () => {
+    expect(parseData('SSE test', { name: 'a' }, nodeSchema)).toEqual({ name: 'a' });
+    for (let i = 0; i < 2; i++) {
+      expect(() => parseData('SSE test', { name: 1 }, nodeSchema)).toThrow(ContractMismatchError);
+    }
+    expect(getContractDiagnostics()).toHaveLength(1);
+    expect(getContractDiagnostics()[0]).toMatchObject({ endpoint: 'SSE test', field: 'name', expected: 'string', received: 'number' });
+  });
+
+  it('parseResponse vynechá z endpointu ID a query', () => {
+    const response = {
+      data: { name: null },
+      config: { method: 'get', url: '/api/v1/analysis/0f8fad5b-d9cb-469f-a165-70867728950e/results/5?x=1' },
+    } as unknown as AxiosResponse;
+    expect(() => parseResponse(response, nodeSchema)).toThrow(ContractMismatchError);
+    expect(getContractDiagnostics()[0].endpoint).toBe('GET /api/v1/analysis/{id}/results/{n}');
+  });
+});
@@ -0,0 +1,216 @@
+import type { AxiosResponse } from 'axios';
+import { VtfApiError } from './client';
+import { t } from '../i18n/i18n';
+
+// Minimalistická runtime validace odpovědí backendu.
+// Schémata popisují jen pole, na která frontend spoléhá - pole navíc se ignorují,
+// aby rozšíření backendu nerozbilo starší klienty.
+
+export interface Schema<T> {
+  /** Popis očekávaného typu pro diagnostiku (např. "number", "array<string>") */
+  readonly expected: string;
+  /** Vrátí chybu na první neshodě, jinak undefined */
+  check: (value: unknown, path: string) => SchemaIssue | undefined;
+  /** Jen pro odvození typu, za běhu se nepoužívá */
+  readonly _type?: T;
+}
+
+export interface SchemaIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+// Index signatury (ResultRow, ProcessTreeNode...) ze shape vynecháme
+type Shape<T> = {
+  [K in keyof T as string extends K ? never : number extends K ? never : K]-?: Schema<T[K]>;
+};
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    check: (value, path) => (test(value) ? undefined : { path, expected, received: describe(value) }),
+  };
+}
+
+const joinPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+export const s = {
+  string: () => primitive<string>('string', v => typeof v === 'string'),
+  number: () => primitive<number>('number', v => typeof v === 'number' && !Number.isNaN(v)),
+  boolean: () => primitive<boolean>('boolean', v => typeof v === 'boolean'),
+  unknown: <T = unknown>() => primitive<T>('any', () => true),
+
+  literal: <T extends string>(...values: T[]): Schema<T> =>
+    primitive<T>(values.map(v => `"${v}"`).join(' | '), v => values.includes(v as T)),
+
+  optional: <T>(schema: Schema<T>): Schema<T | undefined> => ({
+    get expected() { return `${schema.expected} | undefined`; },
+    check: (value, path) => (value === undefined ? undefined : schema.check(value, path)),
+  }),
+
+  nullable: <T>(schema: Schema<T>): Schema<T | null> => ({
+    get expected() { return `${schema.expected} | null`; },
+    check: (value, path) => (value === null ? undefined : schema.check(value, path)),
+  }),
+
+  array: <T>(item: Schema<T>): Schema<T[]> => ({
+    get expected() { return `array<${item.expected}>`; },
+    check: (value, path) => {
+      if (!Array.isArray(value)) return { path, expected: `array<${item.expected}>`, received: describe(value) };
+      for (let i = 0; i < value.length; i++) {
+        const issue = item.check(value[i], `${path}[${i}]`);
+        if (issue) return issue;
+      }
+      return undefined;
+    },
+  }),
+
+  tuple: <A, B>(a: Schema<A>, b: Schema<B>): Schema<[A, B]> => ({
+    get expected() { return `[${a.expected}, ${b.expected}]`; },
+    check: (value, path) => {
+      if (!Array.isArray(value) || value.length !== 2) {
+        return { path, expected: `[${a.expected}, ${b.expected}]`, received: describe(value) };
+      }
+      return a.check(value[0], `${path}[0]`) ?? b.check(value[1], `${path}[1]`);
+    },
+  }),
+
+  record: <T>(item: Schema<T>): Schema<Record<string, T>> => ({
+    get expected() { return `record<${item.expected}>`; },
+    check: (value, path) => {
+      if (describe(value) !== 'object') return { path, expected: 'object', received: describe(value) };
+      for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+        const issue = item.check(v, joinPath(path, key));
+        if (issue) return issue;
+      }
+      return undefined;
+    },
+  }),
+
+  object: <T>(shape: Shape<T>): Schema<T> => ({
+    expected: 'object',
+    check: (value, path) => {
+      if (describe(value) !== 'object') return { path, expected: 'object', received: describe(value) };
+      const obj = value as Record<string, unknown>;
+      for (const [key, schema] of Object.entries(shape) as Array<[string, Schema<unknown>]>) {
+        const issue = schema.check(obj[key], joinPath(path, key));
+        if (issue) return issue;
+      }
+      return undefined;
+    },
+  }),
+
+  /**
+   * Pro rekurzivní struktury (process tree).
+   * Kombinátory proto popis skládají až při čtení - schéma v době vytvoření ještě neexistuje.
+   */
+  lazy: <T>(factory: () => Schema<T>): Schema<T> => ({
+    get expected() { return factory().expected; },
+    check: (value, path) => factory().check(value, path),
+  }),
+};
+
+// ========== Contract mismatch diagnostika ==========
+
+/**
+ * Odpověď backendu neodpovídá deklarovanému rozhraní
+ */
+export class ContractMismatchError extends VtfApiError {
+  readonly field: string;
+  readonly expected: string;
+  readonly received: string;
+
+  constructor(endpoint: string, issue: SchemaIssue) {
+    const field = issue.path || '(root)';
+    super({
+      message: t('api.contractMismatch', { endpoint, field, expected: issue.expected, received: issue.received }),
+      endpoint,
+    });
+    this.name = 'ContractMismatchError';
+    this.field = field;
+    this.expected = issue.expected;
+    this.received = issue.received;
+  }
+}
+
+export interface ContractDiagnostic {
+  endpoint: string;
+  message: string;
+  field?: string;
+  expected?: string;
+  received?: string;
+  at: string;
+}
+
+type DiagnosticListener = (diagnostics: ContractDiagnostic[]) => void;
+
+let diagnostics: ContractDiagnostic[] = [];
+const diagnosticListeners = new Set<DiagnosticListener>();
+
+/**
+ * Zapíše problém kontraktu - stejný endpoint+pole se nehlásí opakovaně
+ */
+export function reportContractDiagnostic(diagnostic: Omit<ContractDiagnostic, 'at'>) {
+  const exists = diagnostics.some(d => d.endpoint === diagnostic.endpoint && d.field === diagnostic.field);
+  if (exists) return;
+  diagnostics = [...diagnostics, { ...diagnostic, at: new Date().toISOString() }];
+  diagnosticListeners.forEach(l => l(diagnostics));
+}
+
+export function getContractDiagnostics(): ContractDiagnostic[] {
+  return diagnostics;
+}
+
+export function clearContractDiagnostics() {
+  diagnostics = [];
+  diagnosticListeners.forEach(l => l(diagnostics));
+}
+
+export function subscribeContractDiagnostics(listener: DiagnosticListener): () => void {
+  diagnosticListeners.add(listener);
+  return () => { diagnosticListeners.delete(listener); };
+}
+
+// Endpoint bez konkrétních ID, aby se stejná chyba nehlásila pro každý projekt zvlášť
+function endpointOf(response: AxiosResponse): string {
+  const method = (response.config.method || 'get').toUpperCase();
+  const url = (response.config.url ?? '')
+    .split('?')[0]
+    .replace(/\/[0-9a-f]{8}-[0-9a-f-]{27,}/gi, '/{id}')
+    .replace(/\/\d+(?=\/|$)/g, '/{n}');
+  return `${method} ${url}`;
+}
+
+/**
+ * Ověří data (odpověď, událost ze streamu) proti schématu, při neshodě nahlásí diagnostiku
+ * a vyhodí ContractMismatchError
+ */
+export function parseData<T>(endpoint: string, data: unknown, schema: Schema<T>): T {
+  const issue = schema.check(data, '');
+  if (issue) {
+    const error = new ContractMismatchError(endpoint, issue);
+    reportContractDiagnostic({
+      endpoint,
+      message: error.message,
+      field: error.field,
+      expected: error.expected,
+      received: error.received,
+    });
+    throw error;
+  }
+  return data as T;
+}
+
+/**
+ * Ověří data odpovědi proti schématu, při neshodě nahlásí diagnostiku a vyhodí ContractMismatchError
+ */
+export function parseResponse<T>(response: AxiosResponse, schema: Schema<T>): T {
+  return parseData(endpointOf(response), response.data, schema);
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import * as schemas from './schemas';
+
+// Schémata se skládají při načtení modulu - chyba v nich shodí celou aplikaci už při startu
+describe('schemas', () => {
+  it('modul se načte a všechna schémata mají popis', () => {
+    const entries = Object.entries(schemas);
+    expect(entries.length).toBeGreaterThan(0);
+    for (const [, schema] of entries) {
+      expect(typeof schema.expected).toBe('string');
+      expect(typeof schema.check).toBe('function');
+    }
+  });
+
+  it('strom procesů validuje i zanořené uzly', () => {
+    const tree = {
+      source: 'windows.pstree',
+      tree: [{ PID: 4, ImageFileName: 'System', __children: [{ PID: 88, ImageFileName: 'Registry', __children: [] }] }],
+    };
+    expect(schemas.processTreeResponseSchema.check(tree, '')).toBeUndefined();
+    tree.tree[0].__children[0].PID = '88' as unknown as number;
+    expect(schemas.processTreeResponseSchema.check(tree, '')?.path).toBe('tree[0].__children[0].PID');
+  });
+
+  it('událost plugin_status přijme pid null', () => {
+    const event = { analysis_id: 'a', plugin: 'windows.pslist.PsList', status: 'completed', pid: null };
+    expect(schemas.pluginStatusEventSchema.check(event, '')).toBeUndefined();
+    expect(schemas.pluginStatusEventSchema.check({ ...event, status: 'done' }, '')?.path).toBe('status');
+  });
+});
@@ -0,0 +1,386 @@
+import { s } from './schema';
+import type { Schema } from './schema';
+import type {
+  UploadResponse,
+  ChunkedUploadSession,
+  DetectOSResponse,
+  ProjectInfo,
+  ProjectMetadata,
+  PluginInfo,
+  PluginsResponse,
+  RunAnalysisResponse,
+  StatusResponse,
+  AllStatusResponse,
+  ResultRow,
+  PresetsResponse,
+  BatchAnalysisResponse,
+  CorrelationResponse,
+  SymbolJob,
+  SymbolInfo,
+  ISFUploadResponse,
+  DeleteSymbolResponse,
+  IOCList,
+  IOCScanResponse,
+  AnnotationsResponse,
+  DashboardData,
+  TrackedProcess,
+  TrackedPidsResponse,
+  TrackedPidResponse,
+  ProcessTreeNode,
+  ProcessTreeResponse,
+  ProcessTimelineResponse,
+  RegistryHive,
+  RegistryKeysResponse,
+  InvestigationSummary,
+  ApiVersionInfo,
+  LoginResponse,
+  AuthTicket,
+  PluginResultsSummary,
+  ResultsPage,
+  CancelAnalysisResponse,
+  PluginStatusUpdate,
+} from './vtfApi';
+
+// Runtime schémata k rozhraním ve vtfApi.ts - při změně rozhraní upravit i zde
+
+const optString = s.optional(s.string());
+const optNumber = s.optional(s.number());
+const pluginStatus = s.literal('completed', 'not_started', 'running', 'failed', 'cancelled');
+
+export const uploadResponseSchema: Schema<UploadResponse> = s.object({
+  message: s.string(),
+  analysis_id: s.string(),
+  filename: s.string(),
+  size_bytes: s.number(),
+  sha256: optString,
+});
+
+export const chunkedUploadSessionSchema: Schema<ChunkedUploadSession> = s.object({
+  upload_id: s.string(),
+  chunk_size: s.number(),
+  received_chunks: s.array(s.number()),
+});
+
+export const detectOSResponseSchema: Schema<DetectOSResponse> = s.object({
+  success: s.boolean(),
+  os_type: optString,
+  kernel_version: optString,
+  architecture: optString,
+  banners_output: s.optional(s.array(s.object({ Banner: s.string() }))),
+  error: optString,
+});
+
+const projectInfoSchema: Schema<ProjectInfo> = s.object({
+  analysis_id: s.string(),
+  filename: s.string(),
+  size_bytes: s.number(),
+  uploaded_at: s.string(),
+  project_name: optString,
+  os_type: optString,
+});
+
+export const projectInfoListSchema: Schema<ProjectInfo[]> = s.array(projectInfoSchema);
+
+export const projectMetadataSchema: Schema<ProjectMetadata> = s.object({
+  analysis_id: s.string(),
+  filename: s.string(),
+  size_bytes: s.number(),
+  uploaded_at: s.string(),
+  project_name: optString,
+  os_type: s.optional(s.nullable(s.string())),
+  os_detected: s.optional(s.boolean()),
+  kernel_version: s.optional(s.nullable(s.string())),
+  architecture: s.optional(s.nullable(s.string())),
+  sha256: optString,
+});
+
+const pluginInfoSchema: Schema<PluginInfo> = s.object({
+  name: s.string(),
+  category: s.string(),
+  description: s.string(),
+  supported_os: s.array(s.string()),
+});
+
+export const pluginsResponseSchema: Schema<PluginsResponse> = s.object({
+  plugins: s.array(pluginInfoSchema),
+  filtered_by_os: optString,
+  categories: s.array(s.string()),
+});
+
+export const runAnalysisResponseSchema: Schema<RunAnalysisResponse> = s.object({
+  message: s.string(),
+  analysis_id: s.string(),
+  plugin: s.string(),
+  status: s.literal('running', 'completed'),
+});
+
+export const cancelAnalysisResponseSchema: Schema<CancelAnalysisResponse> = s.object({
+  message: s.string(),
+  analysis_id: s.string(),
+  plugin: s.string(),
+  pid: optNumber,
+  status: pluginStatus,
+});
+
+export const statusResponseSchema: Schema<StatusResponse> = s.object({
+  plugin: s.string(),
+  status: pluginStatus,
+  error: optString,
+  started_at: optString,
+  exit_code: optNumber,
+  failed_at: optString,
+  completed_at: optString,
+});
+
+export const allStatusResponseSchema: Schema<AllStatusResponse> = s.object({
+  analysis_id: s.string(),
+  plugins: s.record(pluginStatus),
+});
+
+// Událost plugin_status ze streamu - u běhů celého pluginu posílá backend pid: null
+export const pluginStatusEventSchema: Schema<Omit<PluginStatusUpdate, 'pid'> & { pid?: number | null }> = s.object({
+  analysis_id: s.string(),
+  plugin: s.string(),
+  pid: s.optional(s.nullable(s.number())),
+  status: pluginStatus,
+  error: optString,
+});
+
+// Řádky výsledků jsou volné objekty - kontrolujeme jen, že jde o pole objektů
+export const resultRowsSchema: Schema<ResultRow[]> = s.array(s.record(s.unknown()));
+
+export const pluginResultsSummarySchema: Schema<PluginResultsSummary> = s.object({
+  total_rows: s.number(),
+  columns: s.array(s.string()),
+});
+
+export const resultsPageSchema: Schema<ResultsPage> = s.object({
+  rows: resultRowsSchema,
+  total_rows: s.number(),
+});
+
+export const presetsResponseSchema: Schema<PresetsResponse> = s.object({
+  presets: s.record(s.object({ description: s.string(), plugins: s.array(s.string()) })),
+  filtered_by_os: optString,
+});
+
+export const batchAnalysisResponseSchema: Schema<BatchAnalysisResponse> = s.object({
+  message: s.string(),
+  analysis_id: s.string(),
+  started: s.array(s.string()),
+  skipped: s.array(s.object({ plugin: s.string(), reason: s.string() })),
+});
+
+export const correlationResponseSchema: Schema<CorrelationResponse> = s.object({
+  pid: s.number(),
+  data: s.record(s.object({
+    plugin: s.string(),
+    count: s.number(),
+    rows: resultRowsSchema,
+  })),
+});
+
+export const symbolJobSchema: Schema<SymbolJob> = s.object({
+  job_id: s.string(),
+  status: s.literal('pending', 'processing', 'completed', 'failed'),
+  vmlinux_hash: optString,
+  kernel_version: optString,
+  created_at: s.string(),
+  completed_at: optString,
+  error: optString,
+  isf_size_bytes: optNumber,
+  duration_seconds: optNumber,
+});
+
+export const symbolInfoListSchema: Schema<SymbolInfo[]> = s.array(s.object({
+  symbol_id: s.string(),
+  kernel_version: optString,
+  size_bytes: s.number(),
+  size_mb: s.number(),
+  created_at: s.string(),
+  file_path: s.string(),
+}));
+
+export const isfUploadResponseSchema: Schema<ISFUploadResponse> = s.object({
+  success: s.boolean(),
+  symbol_id: s.string(),
+  size_mb: s.number(),
+});
+
+export const deleteSymbolResponseSchema: Schema<DeleteSymbolResponse> = s.object({
+  success: s.boolean(),
+  message: s.string(),
+});
+
+export const iocListSchema: Schema<IOCList> = s.object({
+  ips: s.array(s.string()),
+  domains: s.array(s.string()),
+  hashes: s.array(s.string()),
+  filenames: s.array(s.string()),
+  process_names: s.array(s.string()),
+  registry_keys: s.array(s.string()),
+  custom_patterns: s.array(s.string()),
+});
+
+export const iocScanResponseSchema: Schema<IOCScanResponse> = s.object({
+  total_matches: s.number(),
+  matches_by_type: s.record(s.number()),
+  matches: s.array(s.object({
+    ioc_type: s.string(),
+    ioc_value: s.string(),
+    plugin: s.string(),
+    field: s.string(),
+    row_index: s.number(),
+    row_data: s.record(s.unknown()),
+  })),
+});
+
+export const annotationsResponseSchema: Schema<AnnotationsResponse> = s.object({
+  analysis_id: s.string(),
+  annotations: s.array(s.object({
+    plugin: s.string(),
+    row_index: s.number(),
+    tag: s.string(),
+    note: optString,
+    created_at: optString,
+  })),
+  total: s.number(),
+});
+
+export const dashboardDataSchema: Schema<DashboardData> = s.object({
+  analysis_id: s.string(),
+  project_name: s.string(),
+  os_type: optString,
+  kernel_version: optString,
+  dump_size_mb: s.number(),
+  completed_plugins: s.array(s.string()),
+  failed_plugins: s.array(s.string()),
+  summary: s.object({
+    total_processes: optNumber,
+    unique_process_names: optNumber,
+    top_processes: s.optional(s.array(s.tuple(s.string(), s.number()))),
+    total_connections: optNumber,
+    unique_foreign_addresses: optNumber,
+    foreign_addresses: s.optional(s.array(s.string())),
+    malfind_detections: optNumber,
+    suspicious_process_count: optNumber,
+    total_files_in_memory: optNumber,
+    annotations: s.optional(s.object({
+      total: s.number(),
+      by_tag: s.record(s.number()),
+    })),
+  }),
+});
+
+const trackedProcessSchema: Schema<TrackedProcess> = s.object({
+  pid: s.number(),
+  process_name: s.string(),
+  ppid: optNumber,
+  reason: s.string(),
+  tags: s.array(s.string()),
+  source_plugin: s.string(),
+  notes: s.string(),
+  added_at: optString,
+});
+
+export const trackedPidsResponseSchema: Schema<TrackedPidsResponse> = s.object({
+  analysis_id: s.string(),
+  tracked_pids: s.array(trackedProcessSchema),
+  total: s.number(),
+});
+
+export const trackedPidResponseSchema: Schema<TrackedPidResponse> = s.object({
+  message: s.string(),
+  tracked_process: trackedProcessSchema,
+});
+
+const processTreeNodeSchema: Schema<ProcessTreeNode> = s.object({
+  PID: optNumber,
+  Pid: optNumber,
+  PPID: optNumber,
+  PPid: optNumber,
+  ImageFileName: s.optional(s.nullable(s.string())),
+  COMM: optString,
+  Name: optString,
+  CreateTime: s.optional(s.nullable(s.string())),
+  ExitTime: s.optional(s.nullable(s.string())),
+  Threads: s.optional(s.nullable(s.number())),
+  Handles: s.optional(s.nullable(s.number())),
+  SessionId: s.optional(s.nullable(s.number())),
+  Wow64: s.optional(s.nullable(s.boolean())),
+  Path: s.optional(s.nullable(s.string())),
+  Cmd: s.optional(s.nullable(s.string())),
+  Audit: s.optional(s.nullable(s.string())),
+  __children: s.optional(s.array(s.lazy(() => processTreeNodeSchema))),
+  _tracked: s.optional(trackedProcessSchema),
+});
+
+export const processTreeResponseSchema: Schema<ProcessTreeResponse> = s.object({
+  source: s.string(),
+  tree: s.array(processTreeNodeSchema),
+});
+
+export const processTimelineResponseSchema: Schema<ProcessTimelineResponse> = s.object({
+  analysis_id: s.string(),
+  processes: s.array(s.object({
+    pid: s.number(),
+    ppid: s.number(),
+    name: s.string(),
+    create_time: s.nullable(s.string()),
+    exit_time: s.nullable(s.string()),
+    is_tracked: s.boolean(),
+    tracked_info: s.nullable(trackedProcessSchema),
+    has_malfind: s.boolean(),
+  })),
+  total: s.number(),
+  tracked_count: s.number(),
+  malfind_count: s.number(),
+});
+
+export const registryHivesSchema: Schema<{ hives: RegistryHive[] }> = s.object({
+  hives: s.array(s.object({
+    offset: s.number(),
+    file_path: s.string(),
+    short_name: s.string(),
+  })),
+});
+
+export const registryKeysResponseSchema: Schema<RegistryKeysResponse> = s.object({
+  key_path: s.nullable(s.string()),
+  hive_offset: s.nullable(s.number()),
+  keys: s.array(s.unknown()),
+  values: s.array(s.unknown()),
+  total_keys: s.number(),
+  total_values: s.number(),
+});
+
+export const investigationSummarySchema: Schema<InvestigationSummary> = s.object({
+  analysis_id: s.string(),
+  tracked_pids: s.array(trackedProcessSchema),
+  tracked_count: s.number(),
+  completed_plugins: s.array(s.string()),
+  pid_results: s.record(s.unknown()),
+  suggestions: s.array(s.string()),
+});
+
+export const apiVersionInfoSchema: Schema<ApiVersionInfo> = s.object({
+  api_version: s.string(),
+  min_client_version: optString,
+  backend_version: optString,
+});
+
+export const loginResponseSchema: Schema<LoginResponse> = s.object({
+  access_token: s.string(),
+  token_type: s.string(),
+  expires_at: optString,
+  user: s.object({
+    username: s.string(),
+    display_name: s.string(),
+    roles: s.array(s.string()),
+  }),
+});
+
+export const authTicketSchema: Schema<AuthTicket> = s.object({
+  ticket: s.string(),
+  expires_at: s.string(),
+});
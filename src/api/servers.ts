@@ -0,0 +1,102 @@
+// Registr backend serverů (v laboratoři běží jeden analytický server na tým).
+// Seznam i zvolený server se pamatují v prohlížeči, výchozí server je z VITE_API_URL.
+import { t } from '../i18n/i18n';
+
+export interface BackendServer {
+  id: string;
+  name: string;
+  url: string;
+  /** Výchozí server z konfigurace buildu - nejde odebrat */
+  builtin?: boolean;
+}
+
+export interface ServersSnapshot {
+  servers: BackendServer[];
+  active: BackendServer;
+}
+
+const SERVERS_STORAGE_KEY = 'vtf-servers';
+const ACTIVE_STORAGE_KEY = 'vtf-active-server';
+
+const DEFAULT_SERVER: BackendServer = {
+  id: 'default',
+  // Getter - název se řídí aktuálním jazykem
+  get name() {
+    return t('servers.defaultName');
+  },
+  url: import.meta.env.VITE_API_URL || 'http://127.0.0.1:8000',
+  builtin: true,
+};
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+function loadCustomServers(): BackendServer[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SERVERS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(s => s && typeof s.id === 'string' && typeof s.url === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function buildSnapshot(custom: BackendServer[], activeId: string | null): ServersSnapshot {
+  const servers = [DEFAULT_SERVER, ...custom];
+  return { servers, active: servers.find(s => s.id === activeId) ?? DEFAULT_SERVER };
+}
+
+let snapshot = buildSnapshot(loadCustomServers(), localStorage.getItem(ACTIVE_STORAGE_KEY));
+
+function update(custom: BackendServer[], activeId: string) {
+  localStorage.setItem(SERVERS_STORAGE_KEY, JSON.stringify(custom));
+  localStorage.setItem(ACTIVE_STORAGE_KEY, activeId);
+  snapshot = buildSnapshot(custom, activeId);
+  listeners.forEach(l => l());
+}
+
+/**
+ * Normalizuje URL serveru (bez koncového lomítka); vyhodí chybu u neplatné adresy
+ */
+export function normalizeServerUrl(url: string): string {
+  const parsed = new URL(url.trim());
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(t('servers.invalidProtocol'));
+  }
+  return parsed.toString().replace(/\/+$/, '');
+}
+
+export function getServersSnapshot(): ServersSnapshot {
+  return snapshot;
+}
+
+export function getActiveServer(): BackendServer {
+  return snapshot.active;
+}
+
+export function subscribeServers(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function addServer(name: string, url: string): BackendServer {
+  const normalized = normalizeServerUrl(url);
+  const custom = snapshot.servers.filter(s => !s.builtin);
+  if (snapshot.servers.some(s => s.url === normalized)) {
+    throw new Error(t('servers.duplicate'));
+  }
+  const server: BackendServer = { id: crypto.randomUUID(), name: name.trim() || normalized, url: normalized };
+  update([...custom, server], snapshot.active.id);
+  return server;
+}
+
+export function removeServer(serverId: string) {
+  const custom = snapshot.servers.filter(s => !s.builtin && s.id !== serverId);
+  const activeId = snapshot.active.id === serverId ? DEFAULT_SERVER.id : snapshot.active.id;
+  update(custom, activeId);
+}
+
+export function setActiveServer(serverId: string) {
+  if (serverId === snapshot.active.id) return;
+  if (!snapshot.servers.some(s => s.id === serverId)) throw new Error(t('servers.unknown', { id: serverId }));
+  update(snapshot.servers.filter(s => !s.builtin), serverId);
+}
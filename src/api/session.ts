@@ -0,0 +1,101 @@
+// Přihlášený uživatel a jeho token. Čte ho axios klient (Authorization hlavička),
+// mění ho login/logout ve vtfApi.ts a 401 odpověď backendu.
+
+export interface AuthUser {
+  username: string;
+  display_name: string;
+  roles: string[];
+}
+
+export interface AuthSession {
+  access_token: string;
+  user: AuthUser;
+  /** Kdo token vydal - backend, nebo lokální vývojový identity provider */
+  provider: 'backend' | 'local';
+  expires_at?: string;
+}
+
+/** Proč session skončila - po vypršení se rozpracovaný stav aplikace zachová */
+export type SessionEndReason = 'logout' | 'expired';
+
+export interface SessionSnapshot {
+  session: AuthSession | null;
+  endReason: SessionEndReason | null;
+}
+
+const STORAGE_KEY = 'vtf-session';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+function loadSession(): AuthSession | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const session = JSON.parse(raw) as AuthSession;
+    if (session.expires_at && Date.parse(session.expires_at) <= Date.now()) {
+      localStorage.removeItem(STORAGE_KEY);
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+let snapshot: SessionSnapshot = { session: loadSession(), endReason: null };
+
+function update(next: SessionSnapshot) {
+  snapshot = next;
+  if (next.session) localStorage.setItem(STORAGE_KEY, JSON.stringify(next.session));
+  else localStorage.removeItem(STORAGE_KEY);
+  listeners.forEach(l => l());
+}
+
+export function getSessionSnapshot(): SessionSnapshot {
+  return snapshot;
+}
+
+export function getAccessToken(): string | null {
+  return snapshot.session?.access_token ?? null;
+}
+
+export function subscribeSession(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function startSession(session: AuthSession) {
+  update({ session, endReason: null });
+}
+
+export function endSession(reason: SessionEndReason) {
+  if (!snapshot.session && snapshot.endReason === reason) return;
+  update({ session: null, endReason: reason });
+}
+
+/**
+ * Počká na nové přihlášení (po 401). Zamítne se při explicitním odhlášení nebo zrušení signálem.
+ */
+export function waitForSession(signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      unsubscribe();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new Error('aborted'));
+    };
+    const unsubscribe = subscribeSession(() => {
+      if (snapshot.session) {
+        cleanup();
+        resolve();
+      } else if (snapshot.endReason === 'logout') {
+        cleanup();
+        reject(new Error('logged out'));
+      }
+    });
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,12 +1,70 @@
 import axios from 'axios';
-
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://127.0.0.1:8000';
+import { apiClient, CLIENT_API_VERSION, getMockBackend, isCancelledError, MOCK_BACKEND, toVtfApiError, VtfApiError } from './client';
+
+import { parseData, parseResponse, reportContractDiagnostic } from './schema';
+import { clearQueryCache, fetchQuery, invalidateQueries, queryKeys } from './queryCache';
+import {
+  uploadResponseSchema,
+  chunkedUploadSessionSchema,
+  detectOSResponseSchema,
+  pluginsResponseSchema,
+  runAnalysisResponseSchema,
+  batchAnalysisResponseSchema,
+  presetsResponseSchema,
+  statusResponseSchema,
+  allStatusResponseSchema,
+  resultRowsSchema,
+  projectInfoListSchema,
+  projectMetadataSchema,
+  correlationResponseSchema,
+  symbolJobSchema,
+  symbolInfoListSchema,
+  isfUploadResponseSchema,
+  deleteSymbolResponseSchema,
+  iocScanResponseSchema,
+  iocListSchema,
+  annotationsResponseSchema,
+  dashboardDataSchema,
+  trackedPidsResponseSchema,
+  trackedPidResponseSchema,
+  processTreeResponseSchema,
+  processTimelineResponseSchema,
+  registryHivesSchema,
+  registryKeysResponseSchema,
+  investigationSummarySchema,
+  apiVersionInfoSchema,
+  loginResponseSchema,
+  authTicketSchema,
+  pluginResultsSummarySchema,
+  resultsPageSchema,
+  cancelAnalysisResponseSchema,
+  pluginStatusEventSchema,
+} from './schemas';
+import { authenticateLocally } from './localIdentityProvider';
+import { endSession, getSessionSnapshot, startSession } from './session';
+import { getActiveServer, getServersSnapshot, subscribeServers } from './servers';
+import type { BackendServer } from './servers';
+import type { AuthSession, AuthUser } from './session';
+import { t } from '../i18n/i18n';
+
+export { VtfApiError, isCancelledError, CLIENT_API_VERSION } from './client';
+export { ContractMismatchError } from './schema';
+export type { AuthSession, AuthUser } from './session';
+export type { BackendServer } from './servers';
 
 export interface UploadResponse {
   message: string;
   analysis_id: string;
   filename: string;
   size_bytes: number;
+  /** SHA-256 souboru ověřený serverem (jen u chunked uploadu) */
+  sha256?: string;
+}
+
+export interface ChunkedUploadSession {
+  upload_id: string;
+  chunk_size: number;
+  received_chunks: number[];
 }
 
 export interface DetectOSResponse {
@@ -27,6 +85,22 @@ export interface ProjectInfo {
   os_type?: string;
 }
 
+/**
+ * Detail projektu (GET /api/v1/uploads/{id}) - metadata.json na backendu
+ */
+export interface ProjectMetadata {
+  analysis_id: string;
+  filename: string;
+  size_bytes: number;
+  uploaded_at: string;
+  project_name?: string;
+  os_type?: string | null;
+  os_detected?: boolean;
+  kernel_version?: string | null;
+  architecture?: string | null;
+  sha256?: string;
+}
+
 export interface PluginInfo {
   name: string;
   category: string;
@@ -49,20 +123,30 @@ export interface RunAnalysisResponse {
 
 export interface StatusResponse {
   plugin: string;
-  status: 'completed' | 'not_started' | 'running' | 'failed';
+  status: 'completed' | 'not_started' | 'running' | 'failed' | 'cancelled';
   error?: string;
   started_at?: string;
   exit_code?: number;
   failed_at?: string;
+  completed_at?: string;
 }
 
 export interface AllStatusResponse {
   analysis_id: string;
   plugins: {
-    [pluginName: string]: 'completed' | 'not_started' | 'running' | 'failed';
+    [pluginName: string]: 'completed' | 'not_started' | 'running' | 'failed' | 'cancelled';
   };
 }
 
+export interface CancelAnalysisResponse {
+  message: string;
+  analysis_id: string;
+  plugin: string;
+  pid?: number;
+  /** Stav po zrušení - plugin mohl mezitím doběhnout nebo selhat */
+  status: StatusResponse['status'];
+}
+
 export interface ResultRow {
   [key: string]: any;
 }
@@ -95,37 +179,126 @@ export interface CorrelationResponse {
   };
 }
 
+// Nový běh pluginu zneplatní jeho výsledky i data z nich odvozená
+function invalidatePluginQueries(analysisId: string, plugin: string) {
+  invalidateQueries(queryKeys.pluginResults(analysisId, plugin));
+  invalidateQueries(queryKeys.resultsHistory(analysisId));
+  invalidateQueries(queryKeys.dashboard(analysisId));
+  invalidateQueries(queryKeys.processTree(analysisId));
+  invalidateQueries(queryKeys.processTimeline(analysisId));
+}
+
+// Strom i timeline nesou příznak sledovaných PID
+function invalidateTrackedPidQueries(analysisId: string) {
+  invalidateQueries(queryKeys.processTree(analysisId));
+  invalidateQueries(queryKeys.processTimeline(analysisId));
+}
+
+// Souhrn anotací podle štítků je i na dashboardu
+function invalidateAnnotationQueries(analysisId: string) {
+  invalidateQueries(queryKeys.annotations(analysisId));
+  invalidateQueries(queryKeys.dashboard(analysisId));
+}
+
 /**
  * Nahraje soubor na backend a vrátí analysis_id
  */
-export async function uploadFile(file: File, projectName?: string): Promise<UploadResponse> {
+export async function uploadFile(file: File, projectName?: string, signal?: AbortSignal): Promise<UploadResponse> {
   const formData = new FormData();
   formData.append('file', file);
   if (projectName) {
     formData.append('project_name', projectName);
   }
 
-  const response = await axios.post<UploadResponse>(
-    `${API_BASE_URL}/api/v1/upload`,
+  const response = await apiClient.post<UploadResponse>(
+    '/api/v1/upload',
     formData,
     {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
+      signal,
     }
   );
 
-  return response.data;
+  return parseResponse(response, uploadResponseSchema);
+}
+
+/**
+ * Založí chunked upload session (nebo ji server vrátí, pokud už existuje)
+ */
+export async function initChunkedUpload(
+  params: { filename: string; size_bytes: number; chunk_size: number; project_name?: string },
+  signal?: AbortSignal
+): Promise<ChunkedUploadSession> {
+  const response = await apiClient.post<ChunkedUploadSession>(
+    '/api/v1/uploads/chunked',
+    params,
+    { signal }
+  );
+  return parseResponse(response, chunkedUploadSessionSchema);
+}
+
+/**
+ * Zjistí, které chunky už server přijal (pro navázání přerušeného uploadu)
+ */
+export async function getChunkedUploadStatus(uploadId: string, signal?: AbortSignal): Promise<ChunkedUploadSession> {
+  const response = await apiClient.get<ChunkedUploadSession>(
+    `/api/v1/uploads/chunked/${uploadId}`,
+    { signal }
+  );
+  return parseResponse(response, chunkedUploadSessionSchema);
+}
+
+/**
+ * Nahraje jeden chunk souboru
+ */
+export async function uploadChunk(
+  uploadId: string,
+  index: number,
+  chunk: Blob,
+  onProgress?: (loadedBytes: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  await apiClient.put(
+    `/api/v1/uploads/chunked/${uploadId}/chunks/${index}`,
+    chunk,
+    {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+      },
+      onUploadProgress: e => onProgress?.(e.loaded),
+      signal,
+    }
+  );
+}
+
+/**
+ * Dokončí chunked upload - server složí soubor a ověří SHA-256
+ */
+export async function completeChunkedUpload(
+  uploadId: string,
+  sha256: string,
+  signal?: AbortSignal
+): Promise<UploadResponse> {
+  const response = await apiClient.post<UploadResponse>(
+    `/api/v1/uploads/chunked/${uploadId}/complete`,
+    { sha256 },
+    { signal }
+  );
+  return parseResponse(response, uploadResponseSchema);
 }
 
 /**
  * Spustí banners plugin pro detekci OS
  */
-export async function detectOS(analysisId: string): Promise<DetectOSResponse> {
-  const response = await axios.post<DetectOSResponse>(
-    `${API_BASE_URL}/api/v1/detect-os/${analysisId}`
+export async function detectOS(analysisId: string, signal?: AbortSignal): Promise<DetectOSResponse> {
+  const response = await apiClient.post<DetectOSResponse>(
+    `/api/v1/detect-os/${analysisId}`,
+    undefined,
+    { signal }
   );
-  return response.data;
+  return parseResponse(response, detectOSResponseSchema);
 }
 
 /**
@@ -133,7 +306,8 @@ export async function detectOS(analysisId: string): Promise<DetectOSResponse> {
  */
 export async function updateProject(
   analysisId: string, 
-  updates: { projectName?: string; osType?: string }
+  updates: { projectName?: string; osType?: string },
+  signal?: AbortSignal
 ): Promise<void> {
   const payload: { project_name?: string; os_type?: string } = {};
   if (updates.projectName !== undefined) {
@@ -142,33 +316,37 @@ export async function updateProject(
   if (updates.osType !== undefined) {
     payload.os_type = updates.osType;
   }
-  await axios.patch(
-    `${API_BASE_URL}/api/v1/uploads/${analysisId}`,
-    payload
+  await apiClient.patch(
+    `/api/v1/uploads/${analysisId}`,
+    payload,
+    { signal }
   );
 }
 
 /**
  * Získá seznam dostupných pluginů
  */
-export async function getPlugins(): Promise<PluginsResponse> {
-  const response = await axios.get<PluginsResponse>(
-    `${API_BASE_URL}/api/v1/plugins`
+export async function getPlugins(signal?: AbortSignal): Promise<PluginsResponse> {
+  const response = await apiClient.get<PluginsResponse>(
+    '/api/v1/plugins',
+    { signal }
   );
 
-  return response.data;
+  return parseResponse(response, pluginsResponseSchema);
 }
 
 /**
  * Spustí analýzu s vybraným pluginem
  */
-export async function runAnalysis(analysisId: string, plugin: string, force: boolean = false): Promise<RunAnalysisResponse> {
-  const response = await axios.post<RunAnalysisResponse>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/run`,
-    { plugin, force }
+export async function runAnalysis(analysisId: string, plugin: string, force: boolean = false, signal?: AbortSignal): Promise<RunAnalysisResponse> {
+  const response = await apiClient.post<RunAnalysisResponse>(
+    `/api/v1/analysis/${analysisId}/run`,
+    { plugin, force },
+    { signal }
   );
 
-  return response.data;
+  invalidatePluginQueries(analysisId, plugin);
+  return parseResponse(response, runAnalysisResponseSchema);
 }
 
 /**
@@ -177,96 +355,275 @@ export async function runAnalysis(analysisId: string, plugin: string, force: boo
 export async function runBatchAnalysis(
   analysisId: string,
   plugins: string[],
-  force: boolean = false
+  force: boolean = false,
+  signal?: AbortSignal
 ): Promise<BatchAnalysisResponse> {
-  const response = await axios.post<BatchAnalysisResponse>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/run-batch`,
-    { plugins, force }
+  const response = await apiClient.post<BatchAnalysisResponse>(
+    `/api/v1/analysis/${analysisId}/run-batch`,
+    { plugins, force },
+    { signal }
+  );
+  const result = parseResponse(response, batchAnalysisResponseSchema);
+  result.started.forEach(plugin => invalidatePluginQueries(analysisId, plugin));
+  return result;
+}
+
+/**
+ * Zruší běžící analýzu pluginu (backend ukončí Volatility proces a uvolní worker)
+ */
+export async function cancelAnalysis(analysisId: string, plugin: string, signal?: AbortSignal): Promise<CancelAnalysisResponse> {
+  const response = await apiClient.post<CancelAnalysisResponse>(
+    `/api/v1/analysis/${analysisId}/cancel`,
+    { plugin },
+    { signal }
   );
-  return response.data;
+
+  invalidatePluginQueries(analysisId, plugin);
+  return parseResponse(response, cancelAnalysisResponseSchema);
 }
 
 /**
  * Získá dostupné plugin presety
  */
-export async function getPluginPresets(osType?: string): Promise<PresetsResponse> {
+export async function getPluginPresets(osType?: string, signal?: AbortSignal): Promise<PresetsResponse> {
   const params = osType ? `?os_type=${osType}` : '';
-  const response = await axios.get<PresetsResponse>(
-    `${API_BASE_URL}/api/v1/plugins/presets${params}`
+  const response = await apiClient.get<PresetsResponse>(
+    `/api/v1/plugins/presets${params}`,
+    { signal }
   );
-  return response.data;
+  return parseResponse(response, presetsResponseSchema);
 }
 
 /**
  * Zkontroluje stav analýzy pro konkrétní plugin
  */
-export async function checkPluginStatus(analysisId: string, plugin: string): Promise<StatusResponse> {
-  const response = await axios.get<StatusResponse>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/status?plugin=${encodeURIComponent(plugin)}`
+export async function checkPluginStatus(analysisId: string, plugin: string, signal?: AbortSignal): Promise<StatusResponse> {
+  const response = await apiClient.get<StatusResponse>(
+    `/api/v1/analysis/${analysisId}/status?plugin=${encodeURIComponent(plugin)}`,
+    { signal }
   );
 
-  return response.data;
+  return parseResponse(response, statusResponseSchema);
 }
 
 /**
  * Zkontroluje stav všech pluginů pro danou analýzu
  */
-export async function checkAllStatus(analysisId: string): Promise<AllStatusResponse> {
-  const response = await axios.get<AllStatusResponse>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/status`
+export async function checkAllStatus(analysisId: string, signal?: AbortSignal): Promise<AllStatusResponse> {
+  const response = await apiClient.get<AllStatusResponse>(
+    `/api/v1/analysis/${analysisId}/status`,
+    { signal }
   );
 
-  return response.data;
+  return parseResponse(response, allStatusResponseSchema);
 }
 
 /**
  * Stáhne výsledky analýzy pro konkrétní plugin
  */
-export async function getPluginResults(analysisId: string, plugin: string): Promise<ResultRow[]> {
-  const response = await axios.get<ResultRow[]>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/results/${encodeURIComponent(plugin)}`
+export async function getPluginResults(analysisId: string, plugin: string, signal?: AbortSignal): Promise<ResultRow[]> {
+  const response = await apiClient.get<ResultRow[]>(
+    `/api/v1/analysis/${analysisId}/results/${encodeURIComponent(plugin)}`,
+    { signal }
   );
   
-  return response.data;
+  return parseResponse(response, resultRowsSchema);
+}
+
+/**
+ * Výsledky pluginu přes sdílenou query cache. Výstup se mění jen novým během pluginu,
+ * proto se drží, dokud ho spuštění nebo dokončení pluginu neinvaliduje.
+ */
+export function getCachedPluginResults(analysisId: string, plugin: string, signal?: AbortSignal): Promise<ResultRow[]> {
+  return fetchQuery(
+    queryKeys.pluginResults(analysisId, plugin),
+    cacheSignal => getPluginResults(analysisId, plugin, cacheSignal),
+    { staleTime: Infinity, signal }
+  );
+}
+
+// ---------- Stránkované výsledky ----------
+// Handles, filescan nebo vadinfo mají na serverových image miliony řádků - ty se
+// nestahují celé, grid si je po stránkách řadí a filtruje na serveru.
+
+/** Nad tento počet řádků se výsledky načítají po stránkách */
+export const LARGE_RESULT_ROW_THRESHOLD = 50_000;
+
+export interface PluginResultsSummary {
+  total_rows: number;
+  columns: string[];
+}
+
+export interface ResultsSortItem {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface ResultsPageQuery {
+  offset: number;
+  limit: number;
+  sort?: ResultsSortItem[];
+  /** Filter model AG Gridu ({ [sloupec]: { filterType, type, filter, ... } }) */
+  filter?: Record<string, unknown>;
+}
+
+export interface ResultsPage {
+  rows: ResultRow[];
+  /** Počet řádků po aplikaci filtru */
+  total_rows: number;
+}
+
+/** Výsledky pluginu - buď celé v paměti, nebo jen popis pro stránkování na serveru */
+export type PluginResultsSource =
+  | { kind: 'rows'; rows: ResultRow[] }
+  | { kind: 'paged'; summary: PluginResultsSummary };
+
+/**
+ * Počet řádků a sloupce výstupu pluginu. Null = backend stránkování nepodporuje.
+ */
+export async function getPluginResultsSummary(
+  analysisId: string,
+  plugin: string,
+  signal?: AbortSignal
+): Promise<PluginResultsSummary | null> {
+  try {
+    const response = await apiClient.get<PluginResultsSummary>(
+      `/api/v1/analysis/${analysisId}/results/${encodeURIComponent(plugin)}/summary`,
+      { signal }
+    );
+    return parseResponse(response, pluginResultsSummarySchema);
+  } catch (err) {
+    if (err instanceof VtfApiError && err.status === 404) return null;
+    throw err;
+  }
+}
+
+/**
+ * Jedna stránka výsledků seřazená a vyfiltrovaná na serveru
+ */
+export async function getPluginResultsPage(
+  analysisId: string,
+  plugin: string,
+  query: ResultsPageQuery,
+  signal?: AbortSignal
+): Promise<ResultsPage> {
+  const params: Record<string, string | number> = { offset: query.offset, limit: query.limit };
+  if (query.sort?.length) {
+    params.sort = query.sort.map(s => `${s.column}:${s.direction}`).join(',');
+  }
+  if (query.filter && Object.keys(query.filter).length > 0) {
+    params.filter = JSON.stringify(query.filter);
+  }
+  const response = await apiClient.get<ResultsPage>(
+    `/api/v1/analysis/${analysisId}/results/${encodeURIComponent(plugin)}/page`,
+    { params, signal }
+  );
+  return parseResponse(response, resultsPageSchema);
+}
+
+/**
+ * Načte výsledky pro zobrazení - malé výstupy celé (přes cache), velké jen jako stránkovaný zdroj
+ */
+export async function loadPluginResults(
+  analysisId: string,
+  plugin: string,
+  signal?: AbortSignal
+): Promise<PluginResultsSource> {
+  const summary = await getPluginResultsSummary(analysisId, plugin, signal);
+  if (summary && summary.total_rows > LARGE_RESULT_ROW_THRESHOLD) {
+    return { kind: 'paged', summary };
+  }
+  return { kind: 'rows', rows: await getCachedPluginResults(analysisId, plugin, signal) };
+}
+
+// ---------- Historie výsledků ----------
+
+/** Běh pluginu v projektu pro přehled výsledků */
+export interface PluginRunRecord {
+  plugin: string;
+  status: StatusResponse['status'];
+  error?: string;
+  started_at?: string;
+  /** Dokončení nebo selhání běhu */
+  finished_at?: string;
+  /** Počet řádků dokončeného pluginu (null = backend souhrn nepodporuje) */
+  row_count?: number | null;
+}
+
+/**
+ * Všechny pluginy, které v projektu běžely (i selhané a zrušené), s počtem řádků a časy běhu
+ */
+export async function getResultsHistory(analysisId: string, signal?: AbortSignal): Promise<PluginRunRecord[]> {
+  const all = await checkAllStatus(analysisId, signal);
+  const plugins = Object.keys(all.plugins).filter(plugin => all.plugins[plugin] !== 'not_started');
+
+  return Promise.all(plugins.map(async (plugin): Promise<PluginRunRecord> => {
+    const status = await checkPluginStatus(analysisId, plugin, signal);
+    const summary = status.status === 'completed'
+      ? await getPluginResultsSummary(analysisId, plugin, signal)
+      : undefined;
+    return {
+      plugin,
+      status: status.status,
+      error: status.error,
+      started_at: status.started_at,
+      finished_at: status.completed_at ?? status.failed_at,
+      row_count: summary === undefined ? undefined : summary?.total_rows ?? null,
+    };
+  }));
 }
 
 /**
  * Získá seznam všech projektů (nahraných memory dumpů)
  */
-export async function getProjects(): Promise<ProjectInfo[]> {
-  const response = await axios.get<ProjectInfo[]>(
-    `${API_BASE_URL}/api/v1/uploads`
+export async function getProjects(signal?: AbortSignal): Promise<ProjectInfo[]> {
+  const response = await apiClient.get<ProjectInfo[]>(
+    '/api/v1/uploads',
+    { signal }
   );
 
-  return response.data;
+  return parseResponse(response, projectInfoListSchema);
 }
 
 /**
  * Získá detail projektu
  */
-export async function getProjectInfo(analysisId: string): Promise<any> {
-  const response = await axios.get(
-    `${API_BASE_URL}/api/v1/uploads/${analysisId}`
+export async function getProjectInfo(analysisId: string, signal?: AbortSignal): Promise<ProjectMetadata> {
+  const response = await apiClient.get<ProjectMetadata>(
+    `/api/v1/uploads/${analysisId}`,
+    { signal }
   );
 
-  return response.data;
+  return parseResponse(response, projectMetadataSchema);
 }
 
 /**
  * Exportuje výsledky pluginu jako soubor ke stažení
  */
-export function getExportUrl(analysisId: string, plugin: string, format: 'json' | 'csv' = 'json'): string {
-  return `${API_BASE_URL}/api/v1/analysis/${analysisId}/export/${encodeURIComponent(plugin)}?format=${format}`;
+export async function getExportUrl(
+  analysisId: string,
+  plugin: string,
+  format: 'json' | 'csv' = 'json',
+  signal?: AbortSignal
+): Promise<string> {
+  if (MOCK_BACKEND) {
+    return getMockBackend()?.createMockExportUrl(analysisId, plugin, format) ?? '#';
+  }
+  return withAuthTicket(
+    `${getActiveServer().url}/api/v1/analysis/${analysisId}/export/${encodeURIComponent(plugin)}?format=${format}`,
+    signal
+  );
 }
 
 /**
  * Cross-plugin korelace podle PID
  */
-export async function correlateByPid(analysisId: string, pid: number): Promise<CorrelationResponse> {
-  const response = await axios.get<CorrelationResponse>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/correlate/${pid}`
+export async function correlateByPid(analysisId: string, pid: number, signal?: AbortSignal): Promise<CorrelationResponse> {
+  const response = await apiClient.get<CorrelationResponse>(
+    `/api/v1/analysis/${analysisId}/correlate/${pid}`,
+    { signal }
   );
-  return response.data;
+  return parseResponse(response, correlationResponseSchema);
 }
 
 // ========== Symbol Management API ==========
@@ -292,13 +649,25 @@ export interface SymbolInfo {
   file_path: string;
 }
 
+export interface ISFUploadResponse {
+  success: boolean;
+  symbol_id: string;
+  size_mb: number;
+}
+
+export interface DeleteSymbolResponse {
+  success: boolean;
+  message: string;
+}
+
 /**
  * Upload vmlinux file for ISF generation
  */
 export async function uploadVmlinux(
   vmlinuxFile: File,
   systemMapFile?: File,
-  kernelVersion?: string
+  kernelVersion?: string,
+  signal?: AbortSignal
 ): Promise<SymbolJob> {
   const formData = new FormData();
   formData.append('vmlinux', vmlinuxFile);
@@ -309,39 +678,42 @@ export async function uploadVmlinux(
     formData.append('kernel_version', kernelVersion);
   }
 
-  const response = await axios.post<SymbolJob>(
-    `${API_BASE_URL}/api/v1/symbols/upload-vmlinux`,
+  const response = await apiClient.post<SymbolJob>(
+    '/api/v1/symbols/upload-vmlinux',
     formData,
     {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
+      signal,
     }
   );
 
-  return response.data;
+  return parseResponse(response, symbolJobSchema);
 }
 
 /**
  * Check symbol generation job status
  */
-export async function getSymbolJobStatus(jobId: string): Promise<SymbolJob> {
-  const response = await axios.get<SymbolJob>(
-    `${API_BASE_URL}/api/v1/symbols/job/${jobId}`
+export async function getSymbolJobStatus(jobId: string, signal?: AbortSignal): Promise<SymbolJob> {
+  const response = await apiClient.get<SymbolJob>(
+    `/api/v1/symbols/job/${jobId}`,
+    { signal }
   );
 
-  return response.data;
+  return parseResponse(response, symbolJobSchema);
 }
 
 /**
  * List available symbol files
  */
-export async function getSymbols(): Promise<SymbolInfo[]> {
-  const response = await axios.get<SymbolInfo[]>(
-    `${API_BASE_URL}/api/v1/symbols/`
+export async function getSymbols(signal?: AbortSignal): Promise<SymbolInfo[]> {
+  const response = await apiClient.get<SymbolInfo[]>(
+    '/api/v1/symbols/',
+    { signal }
   );
 
-  return response.data;
+  return parseResponse(response, symbolInfoListSchema);
 }
 
 /**
@@ -349,36 +721,39 @@ export async function getSymbols(): Promise<SymbolInfo[]> {
  */
 export async function uploadISF(
   isfFile: File,
-  kernelVersion?: string
-): Promise<{ success: boolean; symbol_id: string; size_mb: number }> {
+  kernelVersion?: string,
+  signal?: AbortSignal
+): Promise<ISFUploadResponse> {
   const formData = new FormData();
   formData.append('isf_file', isfFile);
   if (kernelVersion) {
     formData.append('kernel_version', kernelVersion);
   }
 
-  const response = await axios.post(
-    `${API_BASE_URL}/api/v1/symbols/upload-isf`,
+  const response = await apiClient.post(
+    '/api/v1/symbols/upload-isf',
     formData,
     {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
+      signal,
     }
   );
 
-  return response.data;
+  return parseResponse(response, isfUploadResponseSchema);
 }
 
 /**
  * Delete symbol file
  */
-export async function deleteSymbol(symbolId: string): Promise<{ success: boolean; message: string }> {
-  const response = await axios.delete(
-    `${API_BASE_URL}/api/v1/symbols/${symbolId}`
+export async function deleteSymbol(symbolId: string, signal?: AbortSignal): Promise<DeleteSymbolResponse> {
+  const response = await apiClient.delete(
+    `/api/v1/symbols/${symbolId}`,
+    { signal }
   );
 
-  return response.data;
+  return parseResponse(response, deleteSymbolResponseSchema);
 }
 
 // ========== IOC Scanner API ==========
@@ -408,23 +783,25 @@ export interface IOCScanResponse {
   matches: IOCMatch[];
 }
 
-export async function scanIOCs(analysisId: string, iocList: IOCList): Promise<IOCScanResponse> {
-  const response = await axios.post<IOCScanResponse>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/ioc-scan`,
-    iocList
+export async function scanIOCs(analysisId: string, iocList: IOCList, signal?: AbortSignal): Promise<IOCScanResponse> {
+  const response = await apiClient.post<IOCScanResponse>(
+    `/api/v1/analysis/${analysisId}/ioc-scan`,
+    iocList,
+    { signal }
   );
-  return response.data;
+  return parseResponse(response, iocScanResponseSchema);
 }
 
-export async function saveIOCList(analysisId: string, iocList: IOCList): Promise<void> {
-  await axios.post(`${API_BASE_URL}/api/v1/analysis/${analysisId}/ioc-list`, iocList);
+export async function saveIOCList(analysisId: string, iocList: IOCList, signal?: AbortSignal): Promise<void> {
+  await apiClient.post(`/api/v1/analysis/${analysisId}/ioc-list`, iocList, { signal });
 }
 
-export async function getIOCList(analysisId: string): Promise<IOCList> {
-  const response = await axios.get<IOCList>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/ioc-list`
+export async function getIOCList(analysisId: string, signal?: AbortSignal): Promise<IOCList> {
+  const response = await apiClient.get<IOCList>(
+    `/api/v1/analysis/${analysisId}/ioc-list`,
+    { signal }
   );
-  return response.data;
+  return parseResponse(response, iocListSchema);
 }
 
 // ========== Annotations API ==========
@@ -443,25 +820,30 @@ export interface AnnotationsResponse {
   total: number;
 }
 
-export async function getAnnotations(analysisId: string, plugin?: string): Promise<AnnotationsResponse> {
+export async function getAnnotations(analysisId: string, plugin?: string, signal?: AbortSignal): Promise<AnnotationsResponse> {
   const params = plugin ? `?plugin=${encodeURIComponent(plugin)}` : '';
-  const response = await axios.get<AnnotationsResponse>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/annotations${params}`
+  const response = await apiClient.get<AnnotationsResponse>(
+    `/api/v1/analysis/${analysisId}/annotations${params}`,
+    { signal }
   );
-  return response.data;
+  return parseResponse(response, annotationsResponseSchema);
 }
 
 export async function addAnnotation(
   analysisId: string,
-  annotation: { plugin: string; row_index: number; tag: string; note?: string }
+  annotation: { plugin: string; row_index: number; tag: string; note?: string },
+  signal?: AbortSignal
 ): Promise<void> {
-  await axios.post(`${API_BASE_URL}/api/v1/analysis/${analysisId}/annotations`, annotation);
+  await apiClient.post(`/api/v1/analysis/${analysisId}/annotations`, annotation, { signal });
+  invalidateAnnotationQueries(analysisId);
 }
 
-export async function deleteAnnotation(analysisId: string, plugin: string, rowIndex: number): Promise<void> {
-  await axios.delete(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/annotations?plugin=${encodeURIComponent(plugin)}&row_index=${rowIndex}`
+export async function deleteAnnotation(analysisId: string, plugin: string, rowIndex: number, signal?: AbortSignal): Promise<void> {
+  await apiClient.delete(
+    `/api/v1/analysis/${analysisId}/annotations?plugin=${encodeURIComponent(plugin)}&row_index=${rowIndex}`,
+    { signal }
   );
+  invalidateAnnotationQueries(analysisId);
 }
 
 // ========== Dashboard API ==========
@@ -491,11 +873,12 @@ export interface DashboardData {
   };
 }
 
-export async function getDashboard(analysisId: string): Promise<DashboardData> {
-  const response = await axios.get<DashboardData>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/dashboard`
+export async function getDashboard(analysisId: string, signal?: AbortSignal): Promise<DashboardData> {
+  const response = await apiClient.get<DashboardData>(
+    `/api/v1/analysis/${analysisId}/dashboard`,
+    { signal }
   );
-  return response.data;
+  return parseResponse(response, dashboardDataSchema);
 }
 
 // ========== Investigation / PID Watchlist API ==========
@@ -517,6 +900,11 @@ export interface TrackedPidsResponse {
   total: number;
 }
 
+export interface TrackedPidResponse {
+  message: string;
+  tracked_process: TrackedProcess;
+}
+
 export interface ProcessTreeResponse {
   source: string;
   tree: ProcessTreeNode[];
@@ -527,18 +915,18 @@ export interface ProcessTreeNode {
   Pid?: number;
   PPID?: number;
   PPid?: number;
-  ImageFileName?: string;
+  ImageFileName?: string | null;
   COMM?: string;
   Name?: string;
-  CreateTime?: string;
-  ExitTime?: string;
-  Threads?: number;
-  Handles?: number;
-  SessionId?: number;
-  Wow64?: boolean;
-  Path?: string;
-  Cmd?: string;
-  Audit?: string;
+  CreateTime?: string | null;
+  ExitTime?: string | null;
+  Threads?: number | null;
+  Handles?: number | null;
+  SessionId?: number | null;
+  Wow64?: boolean | null;
+  Path?: string | null;
+  Cmd?: string | null;
+  Audit?: string | null;
   __children?: ProcessTreeNode[];
   _tracked?: TrackedProcess;
   [key: string]: any;
@@ -589,12 +977,13 @@ export interface InvestigationSummary {
 
 // ── Tracked PIDs ──
 
-export async function getTrackedPids(analysisId: string, tag?: string): Promise<TrackedPidsResponse> {
+export async function getTrackedPids(analysisId: string, tag?: string, signal?: AbortSignal): Promise<TrackedPidsResponse> {
   const params = tag ? `?tag=${encodeURIComponent(tag)}` : '';
-  const response = await axios.get<TrackedPidsResponse>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/tracked-pids${params}`
+  const response = await apiClient.get<TrackedPidsResponse>(
+    `/api/v1/analysis/${analysisId}/tracked-pids${params}`,
+    { signal }
   );
-  return response.data;
+  return parseResponse(response, trackedPidsResponseSchema);
 }
 
 export async function trackPid(
@@ -607,115 +996,727 @@ export async function trackPid(
     tags?: string[];
     source_plugin?: string;
     notes?: string;
-  }
-): Promise<{ message: string; tracked_process: TrackedProcess }> {
-  const response = await axios.post(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/tracked-pids`,
-    data
+  },
+  signal?: AbortSignal
+): Promise<TrackedPidResponse> {
+  const response = await apiClient.post(
+    `/api/v1/analysis/${analysisId}/tracked-pids`,
+    data,
+    { signal }
   );
-  return response.data;
+  invalidateTrackedPidQueries(analysisId);
+  return parseResponse(response, trackedPidResponseSchema);
 }
 
 export async function updateTrackedPid(
   analysisId: string,
   pid: number,
-  updates: { reason?: string; tags?: string[]; notes?: string }
-): Promise<{ message: string; tracked_process: TrackedProcess }> {
-  const response = await axios.patch(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/tracked-pids/${pid}`,
-    updates
+  updates: { reason?: string; tags?: string[]; notes?: string },
+  signal?: AbortSignal
+): Promise<TrackedPidResponse> {
+  const response = await apiClient.patch(
+    `/api/v1/analysis/${analysisId}/tracked-pids/${pid}`,
+    updates,
+    { signal }
   );
-  return response.data;
+  invalidateTrackedPidQueries(analysisId);
+  return parseResponse(response, trackedPidResponseSchema);
 }
 
-export async function untrackPid(analysisId: string, pid: number): Promise<void> {
-  await axios.delete(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/tracked-pids/${pid}`
+export async function untrackPid(analysisId: string, pid: number, signal?: AbortSignal): Promise<void> {
+  await apiClient.delete(
+    `/api/v1/analysis/${analysisId}/tracked-pids/${pid}`,
+    { signal }
   );
+  invalidateTrackedPidQueries(analysisId);
 }
 
 // ── Process Tree & Timeline ──
 
-export async function getProcessTree(analysisId: string): Promise<ProcessTreeResponse> {
-  const response = await axios.get<ProcessTreeResponse>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/process-tree`
+export async function getProcessTree(analysisId: string, signal?: AbortSignal): Promise<ProcessTreeResponse> {
+  const response = await apiClient.get<ProcessTreeResponse>(
+    `/api/v1/analysis/${analysisId}/process-tree`,
+    { signal }
   );
-  return response.data;
+  return parseResponse(response, processTreeResponseSchema);
 }
 
-export async function getProcessTimeline(analysisId: string): Promise<ProcessTimelineResponse> {
-  const response = await axios.get<ProcessTimelineResponse>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/process-timeline`
+export async function getProcessTimeline(analysisId: string, signal?: AbortSignal): Promise<ProcessTimelineResponse> {
+  const response = await apiClient.get<ProcessTimelineResponse>(
+    `/api/v1/analysis/${analysisId}/process-timeline`,
+    { signal }
   );
-  return response.data;
+  return parseResponse(response, processTimelineResponseSchema);
 }
 
 // ── Registry Browser ──
 
-export async function getRegistryHives(analysisId: string): Promise<{ hives: RegistryHive[] }> {
-  const response = await axios.get(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/registry/hives`
+export async function getRegistryHives(analysisId: string, signal?: AbortSignal): Promise<{ hives: RegistryHive[] }> {
+  const response = await apiClient.get(
+    `/api/v1/analysis/${analysisId}/registry/hives`,
+    { signal }
   );
-  return response.data;
+  return parseResponse(response, registryHivesSchema);
 }
 
 export async function getRegistryKeys(
   analysisId: string,
   hiveOffset?: number,
-  keyPath?: string
+  keyPath?: string,
+  signal?: AbortSignal
 ): Promise<RegistryKeysResponse> {
   const params = new URLSearchParams();
   if (hiveOffset !== undefined) params.set('hive_offset', String(hiveOffset));
   if (keyPath !== undefined) params.set('key_path', keyPath);
   const qs = params.toString() ? `?${params.toString()}` : '';
-  const response = await axios.get<RegistryKeysResponse>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/registry/keys${qs}`
+  const response = await apiClient.get<RegistryKeysResponse>(
+    `/api/v1/analysis/${analysisId}/registry/keys${qs}`,
+    { signal }
   );
-  return response.data;
+  return parseResponse(response, registryKeysResponseSchema);
 }
 
 // ── Investigation Summary ──
 
-export async function getInvestigationSummary(analysisId: string): Promise<InvestigationSummary> {
-  const response = await axios.get<InvestigationSummary>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/investigation-summary`
+export async function getInvestigationSummary(analysisId: string, signal?: AbortSignal): Promise<InvestigationSummary> {
+  const response = await apiClient.get<InvestigationSummary>(
+    `/api/v1/analysis/${analysisId}/investigation-summary`,
+    { signal }
   );
-  return response.data;
+  return parseResponse(response, investigationSummarySchema);
 }
 
 // ── Per-PID Plugin Execution ──
 
+/** Pluginy, které jde spustit omezené na jeden proces */
+export const PID_PLUGINS = [
+  { key: 'windows.dlllist.DllList', label: 'DLL List', icon: '📚' },
+  { key: 'windows.handles.Handles', label: 'Handles', icon: '🔗' },
+  { key: 'windows.malfind.Malfind', label: 'Malfind', icon: '🔍' },
+  { key: 'windows.envars.Envars', label: 'Env Vars', icon: '🌍' },
+  { key: 'windows.cmdline.CmdLine', label: 'CmdLine', icon: '💻' },
+  { key: 'windows.privileges.Privs', label: 'Privileges', icon: '🔑' },
+  { key: 'windows.vadinfo.VadInfo', label: 'VAD Info', icon: '🧠' },
+  { key: 'windows.memmap.Memmap', label: 'MemMap', icon: '🗺️' },
+  { key: 'windows.ldrmodules.LdrModules', label: 'LdrModules', icon: '📦' },
+  { key: 'windows.getsids.GetSIDs', label: 'SIDs', icon: '🏷️' },
+];
+
 export async function runAnalysisForPid(
   analysisId: string,
   plugin: string,
   pid: number,
-  force: boolean = false
+  force: boolean = false,
+  signal?: AbortSignal
 ): Promise<RunAnalysisResponse> {
-  const response = await axios.post<RunAnalysisResponse>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/run`,
-    { plugin, force, pid }
+  const response = await apiClient.post<RunAnalysisResponse>(
+    `/api/v1/analysis/${analysisId}/run`,
+    { plugin, force, pid },
+    { signal }
+  );
+  return parseResponse(response, runAnalysisResponseSchema);
+}
+
+export async function cancelAnalysisForPid(
+  analysisId: string,
+  plugin: string,
+  pid: number,
+  signal?: AbortSignal
+): Promise<CancelAnalysisResponse> {
+  const response = await apiClient.post<CancelAnalysisResponse>(
+    `/api/v1/analysis/${analysisId}/cancel`,
+    { plugin, pid },
+    { signal }
   );
-  return response.data;
+  return parseResponse(response, cancelAnalysisResponseSchema);
 }
 
 export async function getPluginResultsForPid(
   analysisId: string,
   plugin: string,
-  pid: number
+  pid: number,
+  signal?: AbortSignal
 ): Promise<ResultRow[]> {
-  const response = await axios.get<ResultRow[]>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/results/${encodeURIComponent(plugin)}?pid=${pid}`
+  const response = await apiClient.get<ResultRow[]>(
+    `/api/v1/analysis/${analysisId}/results/${encodeURIComponent(plugin)}?pid=${pid}`,
+    { signal }
   );
-  return response.data;
+  return parseResponse(response, resultRowsSchema);
 }
 
 export async function checkPluginStatusForPid(
   analysisId: string,
   plugin: string,
-  pid: number
+  pid: number,
+  signal?: AbortSignal
 ): Promise<StatusResponse> {
-  const response = await axios.get<StatusResponse>(
-    `${API_BASE_URL}/api/v1/analysis/${analysisId}/status?plugin=${encodeURIComponent(plugin)}&pid=${pid}`
+  const response = await apiClient.get<StatusResponse>(
+    `/api/v1/analysis/${analysisId}/status?plugin=${encodeURIComponent(plugin)}&pid=${pid}`,
+    { signal }
   );
-  return response.data;
+  return parseResponse(response, statusResponseSchema);
+}
+
+// ========== API Version Negotiation ==========
+
+export interface ApiVersionInfo {
+  api_version: string;
+  min_client_version?: string;
+  backend_version?: string;
+}
+
+export interface ApiVersionNegotiation {
+  compatible: boolean;
+  server?: ApiVersionInfo;
+  message?: string;
+}
+
+function parseVersion(version: string): number[] {
+  return version.split('.').map(part => parseInt(part, 10) || 0);
+}
+
+function compareVersions(a: string, b: string): number {
+  const pa = parseVersion(a);
+  const pb = parseVersion(b);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Ověří při startu, že backend mluví stejnou major verzí API jako frontend.
+ * Klient svou verzi posílá v hlavičce X-VTF-API-Version u každého požadavku.
+ */
+export async function negotiateApiVersion(signal?: AbortSignal): Promise<ApiVersionNegotiation> {
+  let server: ApiVersionInfo;
+  try {
+    const response = await apiClient.get<ApiVersionInfo>('/api/v1/version', { signal });
+    server = parseResponse(response, apiVersionInfoSchema);
+  } catch (err) {
+    // Starší backend endpoint nemá - pokračujeme, kontrakt hlídá validace odpovědí
+    if (err instanceof VtfApiError && err.status === 404) {
+      return { compatible: true, message: t('api.version.notReported') };
+    }
+    throw err;
+  }
+
+  let message: string | undefined;
+  if (parseVersion(server.api_version)[0] !== parseVersion(CLIENT_API_VERSION)[0]) {
+    message = t('api.version.mismatch', { server: server.api_version, client: CLIENT_API_VERSION });
+  } else if (server.min_client_version && compareVersions(CLIENT_API_VERSION, server.min_client_version) < 0) {
+    message = t('api.version.tooOld', { required: server.min_client_version, client: CLIENT_API_VERSION });
+  }
+
+  if (message) {
+    reportContractDiagnostic({
+      endpoint: 'GET /api/v1/version',
+      message,
+      field: 'api_version',
+      expected: CLIENT_API_VERSION,
+      received: server.api_version,
+    });
+    return { compatible: false, server, message };
+  }
+  return { compatible: true, server };
+}
+
+// ========== Backend Servers ==========
+
+export interface ServerHealth {
+  status: 'online' | 'incompatible' | 'offline';
+  latency_ms?: number;
+  api_version?: string;
+  backend_version?: string;
+  message?: string;
+}
+
+/** Projekt včetně serveru, na kterém leží */
+export interface ServerProjectInfo extends ProjectInfo {
+  server: BackendServer;
+}
+
+export interface ServerProjectsResult {
+  projects: ServerProjectInfo[];
+  /** Servery, ze kterých se projekty načíst nepodařilo */
+  failures: Array<{ server: BackendServer; error: VtfApiError }>;
+}
+
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+/**
+ * Ověří dostupnost serveru a verzi jeho API. Nejde přes apiClient, aby 401 nespustila přihlášení.
+ */
+export async function checkServerHealth(url: string, signal?: AbortSignal): Promise<ServerHealth> {
+  const started = performance.now();
+  try {
+    const response = await axios.get<ApiVersionInfo>(`${url}/api/v1/version`, {
+      signal,
+      timeout: HEALTH_CHECK_TIMEOUT_MS,
+      // V mock režimu odpovídá mock adapter
+      adapter: apiClient.defaults.adapter,
+    });
+    const latency_ms = Math.round(performance.now() - started);
+    const info = response.data;
+    if (!info || typeof info.api_version !== 'string') {
+      return { status: 'incompatible', latency_ms, message: t('servers.health.noVersionInfo') };
+    }
+    if (parseVersion(info.api_version)[0] !== parseVersion(CLIENT_API_VERSION)[0]) {
+      return {
+        status: 'incompatible',
+        latency_ms,
+        api_version: info.api_version,
+        backend_version: info.backend_version,
+        message: t('api.version.mismatch', { server: info.api_version, client: CLIENT_API_VERSION }),
+      };
+    }
+    return { status: 'online', latency_ms, api_version: info.api_version, backend_version: info.backend_version };
+  } catch (err) {
+    const error = toVtfApiError(err);
+    if (error.cancelled) throw error;
+    const latency_ms = Math.round(performance.now() - started);
+    // Server odpověděl - jen starší verze bez /version nebo vyžaduje přihlášení
+    if (error.status === 404) return { status: 'online', latency_ms, message: t('servers.health.noVersion') };
+    if (error.status === 401 || error.status === 403) {
+      return { status: 'online', latency_ms, message: t('servers.health.authRequired') };
+    }
+    return { status: 'offline', message: error.message };
+  }
+}
+
+/**
+ * Načte projekty ze všech serverů v registru. Nedostupné servery nezablokují ostatní.
+ */
+export async function getProjectsFromAllServers(signal?: AbortSignal): Promise<ServerProjectsResult> {
+  const { servers } = getServersSnapshot();
+  const settled = await Promise.allSettled(servers.map(async server => {
+    const response = await apiClient.get<ProjectInfo[]>('/api/v1/uploads', { baseURL: server.url, signal });
+    return parseResponse(response, projectInfoListSchema).map(project => ({ ...project, server }));
+  }));
+
+  const result: ServerProjectsResult = { projects: [], failures: [] };
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      result.projects.push(...outcome.value);
+    } else {
+      const error = toVtfApiError(outcome.reason);
+      if (error.cancelled) throw error;
+      result.failures.push({ server: servers[i], error });
+    }
+  });
+  return result;
+}
+
+// ========== Authentication ==========
+
+export interface LoginResponse {
+  access_token: string;
+  token_type: string;
+  expires_at?: string;
+  user: AuthUser;
+}
+
+/**
+ * Kdo ověřuje přihlášení - backend (/api/v1/auth/login), nebo lokální vývojový provider.
+ * V mock režimu je výchozí lokální provider.
+ */
+export const AUTH_PROVIDER: AuthSession['provider'] =
+  import.meta.env.VITE_AUTH_PROVIDER === 'local'
+  || (MOCK_BACKEND && import.meta.env.VITE_AUTH_PROVIDER !== 'backend')
+    ? 'local'
+    : 'backend';
+
+/**
+ * Přihlásí uživatele a uloží session - token pak axios klient přidává ke každému požadavku
+ */
+export async function login(username: string, password: string, signal?: AbortSignal): Promise<AuthSession> {
+  let session: AuthSession;
+  if (AUTH_PROVIDER === 'local') {
+    session = authenticateLocally(username, password);
+  } else {
+    const response = await apiClient.post<LoginResponse>(
+      '/api/v1/auth/login',
+      { username, password },
+      { signal }
+    );
+    const data = parseResponse(response, loginResponseSchema);
+    session = {
+      access_token: data.access_token,
+      user: data.user,
+      provider: 'backend',
+      expires_at: data.expires_at,
+    };
+  }
+
+  // Jiný uživatel nesmí vidět data z cache předchozího
+  const previous = getSessionSnapshot().session;
+  if (previous && previous.user.username !== session.user.username) clearQueryCache();
+  startSession(session);
+  return session;
+}
+
+export interface AuthTicket {
+  ticket: string;
+  expires_at: string;
+}
+
+/**
+ * Vydá krátkodobý jednorázový ticket pro URL, kam nejde poslat hlavičku (EventSource, odkaz
+ * ke stažení). Session token do URL nepatří - zůstal by v logu serveru, proxy i historii.
+ */
+export async function createAuthTicket(signal?: AbortSignal): Promise<AuthTicket> {
+  const response = await apiClient.post<AuthTicket>('/api/v1/auth/ticket', undefined, { signal });
+  return parseResponse(response, authTicketSchema);
+}
+
+async function withAuthTicket(url: string, signal?: AbortSignal): Promise<string> {
+  // Lokální provider = backend bez autentizace, ticket by nevydal
+  if (getSessionSnapshot().session?.provider !== 'backend') return url;
+  const { ticket } = await createAuthTicket(signal);
+  return `${url}${url.includes('?') ? '&' : '?'}ticket=${encodeURIComponent(ticket)}`;
+}
+
+/**
+ * Odhlásí uživatele a zahodí data načtená pod jeho účtem
+ */
+export async function logout(): Promise<void> {
+  const session = getSessionSnapshot().session;
+  if (session?.provider === 'backend') {
+    // Odvolání tokenu je best-effort - lokálně se odhlásíme vždy
+    await apiClient.post('/api/v1/auth/logout').catch(() => {});
+  }
+  endSession('logout');
+  clearQueryCache();
+}
+
+// ========== Status Subscription API ==========
+//
+// Backend posílá změny stavů přes Server-Sent Events (GET /api/v1/events):
+//   event: plugin_status  data: PluginStatusUpdate
+//   event: symbol_job     data: SymbolJob
+// Dokud stream není připojený (nebo ho backend nepodporuje), každé předplatné
+// si stav zjišťuje pollingem.
+
+export interface PluginStatusUpdate {
+  analysis_id: string;
+  plugin: string;
+  pid?: number;
+  status: StatusResponse['status'];
+  error?: string;
+}
+
+export interface SubscriptionOptions {
+  /** Při abortu se předplatné automaticky zruší */
+  signal?: AbortSignal;
+  /** Chyba při fallback pollingu */
+  onError?: (error: VtfApiError) => void;
+}
+
+const PLUGIN_STATUS_POLL_INTERVAL_MS = 2000;
+const SYMBOL_JOB_POLL_INTERVAL_MS = 3000;
+const STREAM_RETRY_DELAY_MS = 30000;
+const STREAM_RECONNECT_DELAY_MS = 3000;
+
+interface StreamSubscriber {
+  onEvent: (type: string, data: unknown) => void;
+  onConnectionChange: (connected: boolean) => void;
+}
+
+const streamSubscribers = new Set<StreamSubscriber>();
+let eventSource: EventSource | null = null;
+let streamConnected = false;
+let streamRetryTimer: ReturnType<typeof setTimeout> | null = null;
+// Probíhající získání ticketu pro stream
+let streamOpening: AbortController | null = null;
+
+function setStreamConnected(connected: boolean) {
+  if (streamConnected === connected) return;
+  streamConnected = connected;
+  streamSubscribers.forEach(s => s.onConnectionChange(connected));
+}
+
+function scheduleStreamRetry(delayMs: number) {
+  if (streamSubscribers.size === 0 || streamRetryTimer) return;
+  streamRetryTimer = setTimeout(() => {
+    streamRetryTimer = null;
+    if (streamSubscribers.size > 0) openStatusStream();
+  }, delayMs);
+}
+
+async function openStatusStream() {
+  // Mock backend SSE neumí - subscribe* zůstanou u pollingu
+  if (MOCK_BACKEND || eventSource || streamOpening || typeof EventSource === 'undefined') return;
+
+  const opening = new AbortController();
+  streamOpening = opening;
+  let url: string;
+  try {
+    url = await withAuthTicket(`${getActiveServer().url}/api/v1/events`, opening.signal);
+  } catch {
+    // Bez ticketu zůstanou předplatná u pollingu
+    if (!opening.signal.aborted) {
+      streamOpening = null;
+      scheduleStreamRetry(STREAM_RETRY_DELAY_MS);
+    }
+    return;
+  }
+  if (opening.signal.aborted) return;
+  streamOpening = null;
+
+  const source = new EventSource(url);
+  eventSource = source;
+
+  source.onopen = () => setStreamConnected(true);
+  source.onerror = () => {
+    const wasConnected = streamConnected;
+    setStreamConnected(false);
+    // Ticket je jednorázový - EventSource by se znovu připojil se stejnou URL, proto se
+    // spojení zavře a otevře znovu s novým ticketem
+    source.close();
+    eventSource = null;
+    scheduleStreamRetry(wasConnected ? STREAM_RECONNECT_DELAY_MS : STREAM_RETRY_DELAY_MS);
+  };
+
+  for (const type of ['plugin_status', 'symbol_job']) {
+    source.addEventListener(type, (e: MessageEvent) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(e.data);
+      } catch {
+        return;
+      }
+      streamSubscribers.forEach(s => s.onEvent(type, data));
+    });
+  }
+}
+
+function closeStatusStream() {
+  if (streamRetryTimer) {
+    clearTimeout(streamRetryTimer);
+    streamRetryTimer = null;
+  }
+  streamOpening?.abort();
+  streamOpening = null;
+  eventSource?.close();
+  eventSource = null;
+  setStreamConnected(false);
+}
+
+// Po přepnutí serveru patří stream i data v cache původnímu serveru
+let streamServerUrl = getActiveServer().url;
+subscribeServers(() => {
+  const url = getActiveServer().url;
+  if (url === streamServerUrl) return;
+  streamServerUrl = url;
+  clearQueryCache();
+  if (eventSource || streamOpening || streamRetryTimer) {
+    closeStatusStream();
+    if (streamSubscribers.size > 0) openStatusStream();
+  }
+});
+
+/**
+ * Společná kostra předplatného: připojení ke streamu + polling fallback.
+ * Další dotaz se plánuje až po doběhnutí předchozího, aby se pomalé odpovědi
+ * nepředbíhaly; běžící dotaz se při odhlášení zruší.
+ */
+function createSubscription(
+  poll: (signal: AbortSignal) => Promise<void>,
+  onEvent: (type: string, data: unknown) => void,
+  intervalMs: number,
+  signal?: AbortSignal
+): () => void {
+  if (signal?.aborted) return () => {};
+
+  const controller = new AbortController();
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+  let polling = false;
+  // Dotaz vyžádaný během běžícího (připojení streamu) - proběhne hned po něm
+  let pollAgain = false;
+  let usePolling = false;
+  let closed = false;
+
+  const scheduleNext = () => {
+    if (pollTimer) clearTimeout(pollTimer);
+    pollTimer = usePolling && !closed ? setTimeout(() => { pollTimer = null; runPoll(); }, intervalMs) : null;
+  };
+
+  const runPoll = async () => {
+    if (closed) return;
+    if (polling) {
+      pollAgain = true;
+      return;
+    }
+    polling = true;
+    try {
+      await poll(controller.signal);
+    } finally {
+      polling = false;
+    }
+    if (pollAgain) {
+      pollAgain = false;
+      runPoll();
+    } else {
+      scheduleNext();
+    }
+  };
+
+  const startPolling = () => {
+    usePolling = true;
+    if (!polling && !pollTimer) scheduleNext();
+  };
+  const stopPolling = () => {
+    usePolling = false;
+    if (pollTimer) clearTimeout(pollTimer);
+    pollTimer = null;
+  };
+
+  const subscriber: StreamSubscriber = {
+    onEvent,
+    onConnectionChange: connected => {
+      if (connected) {
+        stopPolling();
+        // Dorovnání událostí zmeškaných během výpadku
+        runPoll();
+      } else {
+        startPolling();
+      }
+    },
+  };
+
+  const unsubscribe = () => {
+    if (closed) return;
+    closed = true;
+    stopPolling();
+    controller.abort();
+    streamSubscribers.delete(subscriber);
+    signal?.removeEventListener('abort', unsubscribe);
+    if (streamSubscribers.size === 0) closeStatusStream();
+  };
+
+  signal?.addEventListener('abort', unsubscribe);
+  streamSubscribers.add(subscriber);
+  openStatusStream();
+
+  // Aktuální stav hned po přihlášení, dál už jen změny
+  if (!streamConnected) usePolling = true;
+  runPoll();
+
+  return unsubscribe;
+}
+
+/**
+ * Přihlásí odběr změn stavu pluginů dané analýzy.
+ * Listener dostává jen změny (první volání nese aktuální stav).
+ * Vrací funkci pro odhlášení.
+ */
+export function subscribePluginStatus(
+  analysisId: string,
+  plugins: string[],
+  listener: (update: PluginStatusUpdate) => void,
+  options: SubscriptionOptions & { pid?: number } = {}
+): () => void {
+  const { pid, signal, onError } = options;
+  const lastStatus = new Map<string, PluginStatusUpdate['status']>();
+  let closed = false;
+
+  const emit = (update: PluginStatusUpdate) => {
+    if (closed || !plugins.includes(update.plugin)) return;
+    const previous = lastStatus.get(update.plugin);
+    if (previous === update.status) return;
+    lastStatus.set(update.plugin, update.status);
+    // Plugin doběhl - výsledky v cache můžou být z předchozího běhu (i když předplatné
+    // zastihne plugin už hotový, třeba po výpadku streamu)
+    if (update.status === 'completed' && pid === undefined) {
+      invalidatePluginQueries(analysisId, update.plugin);
+    }
+    listener(update);
+  };
+
+  const poll = async (signal: AbortSignal) => {
+    try {
+      if (pid !== undefined || plugins.length === 1) {
+        // Detailní stav (včetně chybové hlášky) po jednotlivých pluginech
+        await Promise.all(plugins.map(async plugin => {
+          const status = pid !== undefined
+            ? await checkPluginStatusForPid(analysisId, plugin, pid, signal)
+            : await checkPluginStatus(analysisId, plugin, signal);
+          emit({ analysis_id: analysisId, plugin, pid, status: status.status, error: status.error });
+        }));
+      } else {
+        const all = await checkAllStatus(analysisId, signal);
+        for (const plugin of plugins) {
+          emit({ analysis_id: analysisId, plugin, status: all.plugins[plugin] || 'not_started' });
+        }
+      }
+    } catch (err) {
+      if (!closed && !isCancelledError(err)) onError?.(toVtfApiError(err));
+    }
+  };
+
+  const onEvent = (type: string, data: unknown) => {
+    if (type !== 'plugin_status') return;
+    let event;
+    try {
+      event = parseData('SSE plugin_status', data, pluginStatusEventSchema);
+    } catch {
+      // Neshoda je v diagnostice kontraktu, do stavu jobů se nedostane
+      return;
+    }
+    const update: PluginStatusUpdate = { ...event, pid: event.pid ?? undefined };
+    if (update.analysis_id !== analysisId || update.pid !== pid) return;
+    emit(update);
+  };
+
+  const unsubscribe = createSubscription(poll, onEvent, PLUGIN_STATUS_POLL_INTERVAL_MS, signal);
+  return () => {
+    closed = true;
+    unsubscribe();
+  };
+}
+
+/**
+ * Přihlásí odběr změn stavu jobu pro generování symbolů.
+ * Vrací funkci pro odhlášení.
+ */
+export function subscribeSymbolJob(
+  jobId: string,
+  listener: (job: SymbolJob) => void,
+  options: SubscriptionOptions = {}
+): () => void {
+  const { signal, onError } = options;
+  let lastStatus: SymbolJob['status'] | null = null;
+  let closed = false;
+
+  const emit = (job: SymbolJob) => {
+    if (closed || job.status === lastStatus) return;
+    lastStatus = job.status;
+    listener(job);
+  };
+
+  const poll = async (signal: AbortSignal) => {
+    try {
+      emit(await getSymbolJobStatus(jobId, signal));
+    } catch (err) {
+      if (!closed && !isCancelledError(err)) onError?.(toVtfApiError(err));
+    }
+  };
+
+  const onEvent = (type: string, data: unknown) => {
+    if (type !== 'symbol_job') return;
+    let job;
+    try {
+      job = parseData('SSE symbol_job', data, symbolJobSchema);
+    } catch {
+      return;
+    }
+    if (job.job_id === jobId) emit(job);
+  };
+
+  const unsubscribe = createSubscription(poll, onEvent, SYMBOL_JOB_POLL_INTERVAL_MS, signal);
+  return () => {
+    closed = true;
+    unsubscribe();
+  };
 }
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareDateToFilter,
+  compareDates,
+  compareHex,
+  compareIps,
+  createFilterMatcher,
+  formatHex,
+  inferColumns,
+  parseHex,
+  toBoolean,
+  toNumber,
+} from './columnTypes';
+
+describe('inferColumns', () => {
+  it('odhadne typy z hodnot a názvů sloupců', () => {
+    const rows = [
+      { PID: 4, PPID: 0, Offset: 187649984, ImageFileName: 'System', CreateTime: '2024-01-15T08:00:00', Wow64: 'False', Size: 4096, Threads: 120, LocalAddr: '10.0.0.5', Base: '0x7ffa2c7a0000' },
+      { PID: 88, PPID: 4, Offset: 187650064, ImageFileName: 'Registry', CreateTime: 'N/A', Wow64: 'True', Size: 8192, Threads: 4, LocalAddr: '::1', Base: '0x7ffa2b1c0000' },
+    ];
+    expect(Object.fromEntries(inferColumns(rows).map(c => [c.key, c.type]))).toEqual({
+      PID: 'pid',
+      PPID: 'pid',
+      Offset: 'hex',
+      ImageFileName: 'text',
+      CreateTime: 'datetime',
+      Wow64: 'boolean',
+      Size: 'bytes',
+      Threads: 'number',
+      LocalAddr: 'ip',
+      Base: 'hex',
+    });
+  });
+
+  it('sbírá sloupce ze všech řádků, známé sloupce jdou první a __children není sloupec', () => {
+    const rows = [{ A: 1, __children: [] }, { A: 2, B: 'x' }];
+    expect(inferColumns(rows, ['PID', 'CreateTime'])).toEqual([
+      { key: 'PID', type: 'pid' },
+      { key: 'CreateTime', type: 'datetime' },
+      { key: 'A', type: 'number' },
+      { key: 'B', type: 'text' },
+    ]);
+  });
+
+  it('smíšené hodnoty jsou text', () => {
+    expect(inferColumns([{ X: 1 }, { X: 'abc' }])[0].type).toBe('text');
+  });
+});
+
+describe('převody a řazení', () => {
+  it('hex adresy nad rozsahem Number', () => {
+    expect(parseHex('0xffff8000deadbeef')).toBe(0xffff8000deadbeefn);
+    expect(parseHex(255)).toBe(255n);
+    expect(parseHex('N/A')).toBeNull();
+    expect(formatHex(255)).toBe('0xff');
+    expect(formatHex('-')).toBe('');
+    expect(formatHex('nonsense')).toBe('nonsense');
+    expect(['0xffff800000000010', '0x10', '0xffff800000000002'].sort(compareHex))
+      .toEqual(['0x10', '0xffff800000000002', '0xffff800000000010']);
+    expect(compareHex(null, '0x1')).toBe(-1);
+  });
+
+  it('čísla a příznaky', () => {
+    expect(toNumber('42')).toBe(42);
+    expect(toNumber('-')).toBeNull();
+    expect(toNumber('12a')).toBeNull();
+    expect(toBoolean('TRUE')).toBe(true);
+    expect(toBoolean(false)).toBe(false);
+    expect(toBoolean('yes')).toBeNull();
+  });
+
+  it('časy - prázdné hodnoty jdou na začátek', () => {
+    expect(['2024-01-02T00:00:00', 'N/A', '2024-01-01T00:00:00'].sort(compareDates))
+      .toEqual(['N/A', '2024-01-01T00:00:00', '2024-01-02T00:00:00']);
+    const day = new Date(2024, 0, 15);
+    expect(compareDateToFilter(day, new Date(2024, 0, 15, 23, 59).toISOString())).toBe(0);
+    expect(compareDateToFilter(day, new Date(2024, 0, 16, 0, 1).toISOString())).toBe(1);
+    expect(compareDateToFilter(day, null)).toBe(-1);
+  });
+
+  it('IPv4 podle oktetů, IPv6 za nimi', () => {
+    expect(['10.0.0.10', '::1', '10.0.0.9', '9.255.0.1'].sort(compareIps))
+      .toEqual(['9.255.0.1', '10.0.0.9', '10.0.0.10', '::1']);
+  });
+});
+
+describe('createFilterMatcher', () => {
+  const columns = inferColumns([
+    { PID: 4, Name: 'System', Offset: '0xff', Created: '2024-01-15T08:00:00' },
+  ]);
+  const rows = [
+    { PID: 4, Name: 'System', Offset: '0xFF', Created: '2024-01-15T08:00:00' },
+    { PID: 600, Name: 'svchost.exe', Offset: '0x100', Created: '2024-01-16T08:00:00' },
+    { PID: 700, Name: 'SVCHOST.EXE', Offset: 256, Created: 'N/A' },
+  ];
+  const match = (model: Record<string, unknown>) => rows.filter(createFilterMatcher(model, columns)!).map(r => r.PID);
+
+  it('bez filtru (nebo jen s neznámými sloupci) vrací null', () => {
+    expect(createFilterMatcher(null, columns)).toBeNull();
+    expect(createFilterMatcher({ Missing: { filterType: 'text', type: 'contains', filter: 'x' } }, columns)).toBeNull();
+  });
+
+  it('text bez ohledu na velikost písmen, hex v jednotném tvaru', () => {
+    expect(match({ Name: { filterType: 'text', type: 'startsWith', filter: 'svc' } })).toEqual([600, 700]);
+    expect(match({ Offset: { filterType: 'text', type: 'equals', filter: '0x100' } })).toEqual([600, 700]);
+  });
+
+  it('číselné podmínky s operátorem', () => {
+    expect(match({ PID: { filterType: 'number', type: 'greaterThan', filter: 500 } })).toEqual([600, 700]);
+    expect(match({
+      PID: {
+        filterType: 'number',
+        operator: 'OR',
+        conditions: [{ type: 'equals', filter: 4 }, { type: 'equals', filter: 700 }],
+      },
+    })).toEqual([4, 700]);
+  });
+
+  it('datum podle dne včetně krajů rozsahu', () => {
+    expect(match({ Created: { filterType: 'date', type: 'equals', dateFrom: '2024-01-16 00:00:00' } })).toEqual([600]);
+    expect(match({
+      Created: { filterType: 'date', type: 'inRange', dateFrom: '2024-01-15 00:00:00', dateTo: '2024-01-16 00:00:00' },
+    })).toEqual([4, 600]);
+  });
+
+  it('getValue čte hodnoty mimo řádek', () => {
+    const matcher = createFilterMatcher(
+      { Tag: { filterType: 'text', type: 'equals', filter: 'malware' } },
+      [...columns, { key: 'Tag', type: 'text' }],
+      (row, key) => (key === 'Tag' ? (row.PID === 600 ? 'malware' : undefined) : row[key])
+    )!;
+    expect(rows.filter(matcher).map(r => r.PID)).toEqual([600]);
+  });
+});
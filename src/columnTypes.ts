@@ -0,0 +1,294 @@
+// Typy sloupců výsledků pluginů. Volatility vrací všechno jako čísla a řetězce - typ se
+// odhadne z hodnot napříč řádky (a z názvu sloupce), grid podle něj volí zobrazení,
+// filtr a řazení.
+import type { ResultRow } from './api/vtfApi';
+
+export type ColumnType = 'hex' | 'datetime' | 'boolean' | 'bytes' | 'ip' | 'pid' | 'number' | 'text';
+
+export interface ColumnInfo {
+  key: string;
+  type: ColumnType;
+}
+
+// Vnitřní pole Volatility s potomky u stromových pluginů (pstree) - není to sloupec
+export const CHILDREN_FIELD = '__children';
+
+// Kolik vyplněných hodnot sloupce stačí na odhad typu
+const SAMPLE_SIZE = 500;
+
+// Hodnoty, které Volatility vypisuje místo chybějících dat (N/A, nečitelné, libovolná adresa)
+const PLACEHOLDERS = new Set(['', '-', '*', 'N/A']);
+
+const HEX_RE = /^0x[0-9a-f]+$/i;
+const DATETIME_RE = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+const IPV4_RE = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+const IPV6_FULL_RE = /^([0-9a-f]{1,4}:){7}[0-9a-f]{1,4}$/i;
+const IPV6_SHORT_RE = /^[0-9a-f:.]*::[0-9a-f:.]*(%\w+)?$/i;
+
+// Názvy sloupců - rozhodují tam, kde hodnoty samy nestačí (adresy jako čísla, velikosti)
+const PID_NAME_RE = /^p?pid$/i;
+const ADDRESS_NAME_RE = /offset|address|vpn|\bbase\b|pointer/i;
+const SIZE_NAME_RE = /size|bytes|length/i;
+const TIME_NAME_RE = /time|date|created|exited/i;
+
+function isEmpty(value: unknown): boolean {
+  return value == null || (typeof value === 'string' && PLACEHOLDERS.has(value.trim()));
+}
+
+function isNumeric(value: unknown): boolean {
+  if (typeof value === 'number') return Number.isFinite(value);
+  return typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value.trim());
+}
+
+function isHex(value: unknown): boolean {
+  return typeof value === 'string' && HEX_RE.test(value.trim());
+}
+
+function isDateTime(value: unknown): boolean {
+  return typeof value === 'string' && DATETIME_RE.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+function isBoolean(value: unknown): boolean {
+  return typeof value === 'boolean' || (typeof value === 'string' && /^(true|false)$/i.test(value.trim()));
+}
+
+function isIp(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  const ipv4 = IPV4_RE.exec(value);
+  if (ipv4) return ipv4.slice(1).every(part => Number(part) <= 255);
+  return IPV6_FULL_RE.test(value) || IPV6_SHORT_RE.test(value);
+}
+
+// Typ jen podle názvu - stránkované výsledky nemají na začátku žádné řádky
+function typeFromName(key: string): ColumnType {
+  if (PID_NAME_RE.test(key)) return 'pid';
+  if (ADDRESS_NAME_RE.test(key)) return 'hex';
+  if (TIME_NAME_RE.test(key)) return 'datetime';
+  return 'text';
+}
+
+function inferType(key: string, samples: unknown[]): ColumnType {
+  if (samples.length === 0) return typeFromName(key);
+  const all = (test: (value: unknown) => boolean) => samples.every(test);
+
+  if (all(isBoolean)) return 'boolean';
+  if (all(isHex)) return 'hex';
+  if (all(isNumeric)) {
+    if (PID_NAME_RE.test(key)) return 'pid';
+    if (ADDRESS_NAME_RE.test(key)) return 'hex';
+    if (SIZE_NAME_RE.test(key)) return 'bytes';
+    return 'number';
+  }
+  if (all(isDateTime)) return 'datetime';
+  if (all(isIp)) return 'ip';
+  return 'text';
+}
+
+/**
+ * Sloupce výsledků a jejich typy. Sloupce se sbírají ze všech řádků (některé pluginy
+ * vyplní pole jen u části záznamů), známé sloupce ze summary jdou první.
+ */
+export function inferColumns(rows: ResultRow[], knownKeys: string[] = []): ColumnInfo[] {
+  const samples = new Map<string, unknown[]>();
+  for (const key of knownKeys) samples.set(key, []);
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      let values = samples.get(key);
+      if (!values) {
+        values = [];
+        samples.set(key, values);
+      }
+      if (values.length < SAMPLE_SIZE && !isEmpty(row[key])) values.push(row[key]);
+    }
+  }
+  samples.delete(CHILDREN_FIELD);
+  return Array.from(samples, ([key, values]) => ({ key, type: inferType(key, values) }));
+}
+
+/** Adresa jako BigInt (64bitové adresy se do Number nevejdou), jinak null */
+export function parseHex(value: unknown): bigint | null {
+  if (isEmpty(value)) return null;
+  if (typeof value === 'number') return Number.isInteger(value) ? BigInt(value) : null;
+  if (isHex(value) || isNumeric(value)) {
+    try {
+      return BigInt((value as string).trim());
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/** Adresa v jednotném tvaru 0x… (čísla z JSONu se převedou) */
+export function formatHex(value: unknown): string {
+  const parsed = parseHex(value);
+  return parsed === null ? (isEmpty(value) ? '' : String(value)) : `0x${parsed.toString(16)}`;
+}
+
+export function compareHex(a: unknown, b: unknown): number {
+  const x = parseHex(a);
+  const y = parseHex(b);
+  if (x === null || y === null) return x === y ? 0 : x === null ? -1 : 1;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+export function toNumber(value: unknown): number | null {
+  if (isEmpty(value) || !isNumeric(value)) return null;
+  return Number(value);
+}
+
+export function toBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string' && isBoolean(value)) return value.trim().toLowerCase() === 'true';
+  return null;
+}
+
+/** Čas jako Date; prázdná nebo neplatná hodnota vrátí null */
+export function toDate(value: unknown): Date | null {
+  if (isEmpty(value) || (typeof value !== 'string' && typeof value !== 'number')) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function compareDates(a: unknown, b: unknown): number {
+  const x = toDate(a)?.getTime() ?? -Infinity;
+  const y = toDate(b)?.getTime() ?? -Infinity;
+  return x === y ? 0 : x < y ? -1 : 1;
+}
+
+/**
+ * Porovnání pro datumový filtr AG Grid - filtr zadává den (půlnoc v místním čase),
+ * čas v buňce se porovnává jen podle dne
+ */
+export function compareDateToFilter(filterDateAtMidnight: Date, cellValue: unknown): number {
+  const date = toDate(cellValue);
+  if (!date) return -1;
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  const filter = filterDateAtMidnight.getTime();
+  return day === filter ? 0 : day < filter ? -1 : 1;
+}
+
+// IPv4 se řadí podle čísel oktetů, IPv6 a ostatní textově za nimi
+function ipSortKey(value: unknown): string {
+  if (typeof value !== 'string' || isEmpty(value)) return '';
+  const ipv4 = IPV4_RE.exec(value);
+  if (ipv4) return `4${ipv4.slice(1).map(part => part.padStart(3, '0')).join('.')}`;
+  return `6${value.toLowerCase()}`;
+}
+
+export function compareIps(a: unknown, b: unknown): number {
+  const x = ipSortKey(a);
+  const y = ipSortKey(b);
+  return x === y ? 0 : x < y ? -1 : 1;
+}
+
+// Jedna podmínka modelu filtru AG Grid (textový, číselný, datumový filtr)
+interface FilterCondition {
+  filterType?: string;
+  type?: string | null;
+  filter?: string | number | null;
+  filterTo?: number | null;
+  dateFrom?: string | null;
+  dateTo?: string | null;
+}
+
+interface ColumnFilterModel extends FilterCondition {
+  operator?: 'AND' | 'OR';
+  conditions?: FilterCondition[];
+}
+
+// Hodnota, se kterou pracuje filtr sloupce - stejná jako filtr v gridu (viz ResultsGrid)
+function filterValue(type: ColumnType, value: unknown): unknown {
+  switch (type) {
+    case 'hex': return formatHex(value);
+    case 'boolean': return toBoolean(value);
+    case 'bytes':
+    case 'pid':
+    case 'number': return toNumber(value);
+    default: return value;
+  }
+}
+
+// Datum z modelu filtru ("YYYY-MM-DD hh:mm:ss") jako půlnoc v místním čase
+function parseFilterDate(value: string | null | undefined): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value ?? '');
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+}
+
+function matchesCondition(condition: FilterCondition, value: unknown): boolean {
+  const blank = value == null || value === '';
+  switch (condition.type) {
+    case 'blank': return blank;
+    case 'notBlank': return !blank;
+    // Volby filtru příznaků (viz ResultsGrid) - "empty" je výchozí prázdná volba
+    case 'empty': return true;
+    case 'true': return value === true;
+    case 'false': return value === false;
+  }
+
+  if (condition.filterType === 'number') {
+    if (typeof value !== 'number') return condition.type === 'notEqual';
+    const filter = Number(condition.filter);
+    switch (condition.type) {
+      case 'equals': return value === filter;
+      case 'notEqual': return value !== filter;
+      case 'greaterThan': return value > filter;
+      case 'greaterThanOrEqual': return value >= filter;
+      case 'lessThan': return value < filter;
+      case 'lessThanOrEqual': return value <= filter;
+      case 'inRange': return value > filter && value < Number(condition.filterTo);
+      default: return true;
+    }
+  }
+
+  if (condition.filterType === 'date') {
+    const from = parseFilterDate(condition.dateFrom);
+    if (!from) return true;
+    if (!toDate(value)) return condition.type === 'notEqual';
+    const result = compareDateToFilter(from, value);
+    switch (condition.type) {
+      case 'equals': return result === 0;
+      case 'notEqual': return result !== 0;
+      case 'greaterThan': return result > 0;
+      case 'lessThan': return result < 0;
+      case 'inRange': {
+        const to = parseFilterDate(condition.dateTo);
+        // Rozsah dat je v gridu včetně krajních dnů (inRangeInclusive)
+        return result >= 0 && (!to || compareDateToFilter(to, value) <= 0);
+      }
+      default: return true;
+    }
+  }
+
+  const text = blank ? '' : String(value).toLowerCase();
+  const filter = String(condition.filter ?? '').toLowerCase();
+  switch (condition.type) {
+    case 'equals': return text === filter;
+    case 'notEqual': return text !== filter;
+    case 'startsWith': return text.startsWith(filter);
+    case 'endsWith': return text.endsWith(filter);
+    case 'notContains': return !text.includes(filter);
+    default: return text.includes(filter);
+  }
+}
+
+/**
+ * Predikát pro model filtrů AG Grid - stromové výsledky filtrují řádky samy, aby
+ * zůstali vidět předci shod. Bez aktivního filtru vrací null. getValue čte hodnoty
+ * sloupců, které v řádku nejsou (štítek anotace).
+ */
+export function createFilterMatcher(
+  model: Record<string, unknown> | null,
+  columns: ColumnInfo[],
+  getValue: (row: ResultRow, key: string) => unknown = (row, key) => row[key]
+): ((row: ResultRow) => boolean) | null {
+  const types = new Map(columns.map(c => [c.key, c.type]));
+  const entries = Object.entries(model ?? {}).filter(([key]) => types.has(key)) as [string, ColumnFilterModel][];
+  if (entries.length === 0) return null;
+  return row => entries.every(([key, columnModel]) => {
+    const value = filterValue(types.get(key)!, getValue(row, key));
+    if (!columnModel.conditions) return matchesCondition(columnModel, value);
+    const results = columnModel.conditions.map(condition => matchesCondition({ filterType: columnModel.filterType, ...condition }, value));
+    return columnModel.operator === 'OR' ? results.some(Boolean) : results.every(Boolean);
+  });
+}
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { useCachedQuery } from '../hooks/useCachedQuery';
+import { getAnnotations } from '../api/vtfApi';
+import type { Annotation } from '../api/vtfApi';
+import { queryKeys } from '../api/queryCache';
+import { annotationTagStyle } from '../annotations';
+import { useI18n } from '../hooks/useI18n';
+
+interface AnnotationListProps {
+  analysisId: string;
+  /** Otevře výsledky pluginu a skočí na anotovaný řádek */
+  onOpenAnnotation: (plugin: string, rowIndex: number) => void;
+}
+
+const thStyle = {
+  padding: '0.875rem 1.25rem',
+  textAlign: 'left' as const,
+  fontSize: '0.75rem',
+  fontWeight: 600,
+  color: 'var(--color-slate-700)',
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+};
+
+const tdStyle = {
+  padding: '0.875rem 1.25rem',
+  fontSize: '0.875rem',
+  color: 'var(--color-slate-900)',
+  verticalAlign: 'top' as const,
+};
+
+// Podle pluginu a pořadí řádku ve výsledcích
+function byPluginAndRow(a: Annotation, b: Annotation): number {
+  return a.plugin.localeCompare(b.plugin) || a.row_index - b.row_index;
+}
+
+/**
+ * Všechny anotace projektu (štítky a poznámky k řádkům) - kliknutím skočí na řádek v jeho pluginu
+ */
+export default function AnnotationList({ analysisId, onOpenAnnotation }: AnnotationListProps) {
+  const { data, error, isLoading, isValidating, refetch } = useCachedQuery(
+    queryKeys.annotations(analysisId),
+    signal => getAnnotations(analysisId, undefined, signal)
+  );
+  const { t, formatDateTime } = useI18n();
+  const [tagFilter, setTagFilter] = useState('');
+  const annotations = data ? [...data.annotations].sort(byPluginAndRow) : [];
+  const tags = [...new Set(annotations.map(a => a.tag))].sort();
+  const visible = tagFilter ? annotations.filter(a => a.tag === tagFilter) : annotations;
+
+  return (
+    <div className="vtf-card" style={{ padding: '2rem', marginTop: '1.5rem' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginBottom: '1.5rem', flexWrap: 'wrap' }}>
+        <div style={{ marginRight: 'auto' }}>
+          <h3 style={{ fontSize: '1.25rem', fontWeight: 600, color: 'var(--color-slate-900)' }}>
+            🏷️ {t('annotations.title')}
+          </h3>
+          <p style={{ fontSize: '0.8125rem', color: 'var(--color-slate-600)', marginTop: '0.25rem' }}>
+            {t('annotations.description')}
+          </p>
+        </div>
+        {tags.length > 1 && (
+          <select
+            value={tagFilter}
+            onChange={e => setTagFilter(e.target.value)}
+            aria-label={t('annotations.filter')}
+            style={{
+              padding: '0.375rem 0.625rem', border: '1px solid var(--color-slate-300)', borderRadius: 'var(--radius-md)',
+              fontSize: '0.8125rem', background: 'var(--color-surface)', color: 'var(--color-slate-900)',
+            }}
+          >
+            <option value="">{t('annotations.allTags')}</option>
+            {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+          </select>
+        )}
+        {data && (
+          <span className="vtf-badge vtf-badge-slate" style={{ fontSize: '0.875rem', padding: '0.5rem 1rem' }}>
+            {t('annotations.count', { count: visible.length })}
+          </span>
+        )}
+        <button onClick={refetch} disabled={isValidating} className="vtf-btn vtf-btn-secondary" style={{ padding: '0.375rem 0.75rem', fontSize: '0.8125rem' }}>
+          {isValidating ? t('common.refreshing') : `↻ ${t('common.refresh')}`}
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="vtf-loading" style={{ minHeight: '120px' }}>
+          <div className="vtf-spinner"></div>
+        </div>
+      ) : error && !data ? (
+        <div className="vtf-alert vtf-alert-danger" role="alert">
+          <span className="vtf-alert-icon">⚠️</span>
+          <div className="vtf-alert-content">
+            <div className="vtf-alert-title">{t('annotations.loadFailed')}</div>
+            <div className="vtf-alert-description">{error.message}</div>
+          </div>
+        </div>
+      ) : annotations.length === 0 ? (
+        <p style={{ fontSize: '0.875rem', color: 'var(--color-slate-500)', textAlign: 'center', padding: '1.5rem 0' }}>
+          {t('annotations.empty')}
+        </p>
+      ) : (
+        <div style={{ overflowX: 'auto' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ background: 'var(--color-slate-50)', borderBottom: '2px solid var(--color-slate-200)' }}>
+                <th style={thStyle}>Plugin</th>
+                <th style={thStyle}>{t('annotations.column')}</th>
+                <th style={thStyle}>{t('annotations.note')}</th>
+                <th style={thStyle}>{t('annotations.created')}</th>
+                <th style={thStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(annotation => (
+                <tr
+                  key={`${annotation.plugin}:${annotation.row_index}`}
+                  className="vtf-history-row-openable"
+                  style={{ borderBottom: '1px solid var(--color-slate-200)' }}
+                  onClick={() => onOpenAnnotation(annotation.plugin, annotation.row_index)}
+                >
+                  <td style={tdStyle}>
+                    <div style={{ fontWeight: 600 }}>{annotation.plugin.split('.').pop()}</div>
+                    <div style={{ fontSize: '0.75rem', fontFamily: 'var(--font-mono)', color: 'var(--color-slate-500)' }}>
+                      {t('annotations.row', { row: annotation.row_index + 1 })}
+                    </div>
+                  </td>
+                  <td style={tdStyle}>
+                    <span className="vtf-badge" style={{ ...annotationTagStyle(annotation.tag), fontSize: '0.75rem' }}>
+                      {annotation.tag}
+                    </span>
+                  </td>
+                  <td style={{ ...tdStyle, whiteSpace: 'pre-wrap', color: 'var(--color-slate-700)' }}>
+                    {annotation.note || <span style={{ color: 'var(--color-slate-400)' }}>–</span>}
+                  </td>
+                  <td style={{ ...tdStyle, color: 'var(--color-slate-600)', whiteSpace: 'nowrap' }}>
+                    {annotation.created_at
+                      ? formatDateTime(annotation.created_at, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+                      : <span style={{ color: 'var(--color-slate-400)' }}>–</span>}
+                  </td>
+                  <td style={{ ...tdStyle, textAlign: 'right' }}>
+                    <button
+                      onClick={e => {
+                        e.stopPropagation();
+                        onOpenAnnotation(annotation.plugin, annotation.row_index);
+                      }}
+                      className="vtf-btn vtf-btn-primary"
+                      style={{ padding: '0.375rem 0.875rem', fontSize: '0.8125rem', whiteSpace: 'nowrap' }}
+                    >
+                      {t('common.open')} →
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
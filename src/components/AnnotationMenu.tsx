@@ -0,0 +1,165 @@
+// Kontextové menu řádku výsledků - štítek a poznámka (anotace), otevírá se pravým
+// tlačítkem nebo klávesou menu na buňce gridu
+import { useEffect, useRef, useState } from 'react';
+import type { FormEvent } from 'react';
+import type { Annotation } from '../api/vtfApi';
+import { ANNOTATION_TAGS, annotationTagStyle } from '../annotations';
+import { useI18n } from '../hooks/useI18n';
+
+interface AnnotationMenuProps {
+  /** Pozice kurzoru (souřadnice okna) */
+  x: number;
+  y: number;
+  /** Popis řádku v hlavičce menu */
+  rowLabel: string;
+  annotation?: Annotation;
+  onSave: (tag: string, note: string) => Promise<void>;
+  onDelete: () => Promise<void>;
+  onClose: () => void;
+}
+
+const MENU_WIDTH = 300;
+const MENU_HEIGHT = 320;
+
+export default function AnnotationMenu({ x, y, rowLabel, annotation, onSave, onDelete, onClose }: AnnotationMenuProps) {
+  const { t } = useI18n();
+  const [tag, setTag] = useState(annotation?.tag ?? '');
+  const [note, setNote] = useState(annotation?.note ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const tagInputRef = useRef<HTMLInputElement>(null);
+
+  // Zavření kliknutím mimo menu; fokus se po zavření vrátí do gridu
+  useEffect(() => {
+    const previous = document.activeElement;
+    tagInputRef.current?.focus();
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose();
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      if (previous instanceof HTMLElement) previous.focus();
+    };
+  }, [onClose]);
+
+  const save = async (nextTag: string) => {
+    if (!nextTag.trim() || isSaving) return;
+    setIsSaving(true);
+    try {
+      await onSave(nextTag.trim(), note.trim());
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    save(tag);
+  };
+
+  const handleDelete = async () => {
+    setIsSaving(true);
+    try {
+      await onDelete();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      role="dialog"
+      aria-label={t('annotations.menuTitle', { row: rowLabel })}
+      className="vtf-card"
+      onKeyDown={e => { if (e.key === 'Escape') onClose(); }}
+      style={{
+        position: 'fixed',
+        left: Math.max(8, Math.min(x, window.innerWidth - MENU_WIDTH - 8)),
+        top: Math.max(8, Math.min(y, window.innerHeight - MENU_HEIGHT - 8)),
+        width: MENU_WIDTH,
+        zIndex: 1000,
+        padding: '0.875rem',
+        boxShadow: 'var(--shadow-xl)',
+      }}
+    >
+      <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '0.625rem' }}>
+        <div style={{ fontSize: '0.8125rem', fontWeight: 600, color: 'var(--color-slate-900)' }}>
+          🏷️ {t('annotations.menuTitle', { row: rowLabel })}
+        </div>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.375rem' }}>
+          {ANNOTATION_TAGS.map(preset => (
+            <button
+              key={preset}
+              type="button"
+              onClick={() => save(preset)}
+              disabled={isSaving}
+              aria-pressed={annotation?.tag === preset}
+              title={t('annotations.quickTag', { tag: preset })}
+              style={{
+                ...annotationTagStyle(preset),
+                border: annotation?.tag === preset ? '1px solid currentColor' : '1px solid transparent',
+                borderRadius: 'var(--radius-md)',
+                padding: '0.125rem 0.5rem',
+                fontSize: '0.75rem',
+                fontWeight: 500,
+                cursor: 'pointer',
+              }}
+            >
+              {preset}
+            </button>
+          ))}
+        </div>
+        <input
+          ref={tagInputRef}
+          type="text"
+          value={tag}
+          onChange={e => setTag(e.target.value)}
+          placeholder={t('annotations.tagPlaceholder')}
+          aria-label={t('annotations.tag')}
+          style={{
+            padding: '0.375rem 0.625rem', border: '1px solid var(--color-slate-300)', borderRadius: 'var(--radius-md)',
+            fontSize: '0.8125rem', background: 'var(--color-surface)', color: 'var(--color-slate-900)',
+          }}
+        />
+        <textarea
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          placeholder={t('annotations.notePlaceholder')}
+          aria-label={t('annotations.note')}
+          rows={3}
+          style={{
+            padding: '0.375rem 0.625rem', border: '1px solid var(--color-slate-300)', borderRadius: 'var(--radius-md)',
+            fontSize: '0.8125rem', background: 'var(--color-surface)', color: 'var(--color-slate-900)', resize: 'vertical',
+            fontFamily: 'inherit',
+          }}
+        />
+        <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+          {annotation && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={isSaving}
+              className="vtf-btn vtf-btn-secondary"
+              style={{ padding: '0.375rem 0.625rem', fontSize: '0.75rem', marginRight: 'auto', color: 'var(--color-danger-600)' }}
+            >
+              🗑️ {t('annotations.delete')}
+            </button>
+          )}
+          <button type="button" onClick={onClose} className="vtf-btn vtf-btn-secondary" style={{ padding: '0.375rem 0.625rem', fontSize: '0.75rem' }}>
+            {t('common.cancel')}
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving || !tag.trim()}
+            className="vtf-btn vtf-btn-primary"
+            style={{ padding: '0.375rem 0.625rem', fontSize: '0.75rem' }}
+          >
+            {t('annotations.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
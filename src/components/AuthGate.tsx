@@ -0,0 +1,33 @@
+import { useState, useSyncExternalStore } from 'react';
+import type { ReactNode } from 'react';
+import { getSessionSnapshot, subscribeSession } from '../api/session';
+import LoginScreen from './LoginScreen';
+
+/**
+ * Zobrazí aplikaci jen přihlášenému uživateli.
+ * Při vypršení session zůstane aplikace namountovaná pod přihlašovací obrazovkou,
+ * po odhlášení nebo přihlášení jiného uživatele se její stav zahodí.
+ */
+export default function AuthGate({ children }: { children: ReactNode }) {
+  const { session, endReason } = useSyncExternalStore(subscribeSession, getSessionSnapshot);
+  // Uživatel, kterému patří aktuální stav aplikace
+  const [owner, setOwner] = useState<string | null>(session?.user.username ?? null);
+
+  if (session && session.user.username !== owner) {
+    setOwner(session.user.username);
+  } else if (!session && endReason === 'logout' && owner !== null) {
+    setOwner(null);
+  }
+
+  return (
+    <>
+      {/* Pod dialogem vypršeného přihlášení zůstává aplikace, ale nedá se ovládat ani fokusovat */}
+      {owner !== null && (
+        <div key={owner} inert={!session} style={{ display: 'contents' }}>
+          {children}
+        </div>
+      )}
+      {!session && <LoginScreen expired={endReason === 'expired' && owner !== null} />}
+    </>
+  );
+}
@@ -0,0 +1,404 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+import { useCachedQuery } from '../hooks/useCachedQuery';
+import { useInvestigation } from '../context/InvestigationContext';
+import {
+  getPlugins,
+  getProcessTree,
+  getProjectsFromAllServers,
+  getRegistryHives,
+  isCancelledError,
+  runAnalysisForPid,
+  PID_PLUGINS,
+} from '../api/vtfApi';
+import type { ProcessTreeNode, RegistryHive } from '../api/vtfApi';
+import { queryKeys } from '../api/queryCache';
+import { trackPidJob } from '../api/jobs';
+import { navigate } from '../router';
+import type { Route } from '../router';
+import { getRestoredRoute } from '../workspaceSession';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../i18n/cs';
+
+interface CommandPaletteProps {
+  /** Otevřený projekt - bez něj paleta nabízí jen projekty a globální view */
+  analysisId: string | null;
+  onClose: () => void;
+  /** Projekt může patřit jinému serveru - přepnutí řeší rodič */
+  onOpenProject: (analysisId: string, serverId: string) => void;
+  onResetLayout: () => void;
+}
+
+interface PaletteEntry {
+  id: string;
+  group: MessageKey;
+  icon: string;
+  label: string;
+  detail?: string;
+  /** Další slova, podle kterých jde položku najít (např. anglické názvy akcí) */
+  keywords?: string;
+  run: () => void | Promise<void>;
+}
+
+const MAX_RESULTS = 50;
+
+/**
+ * Fuzzy skóre - znaky dotazu musí v textu jít popořadě; souvislé úseky
+ * a začátky slov mají přednost. Null = neodpovídá.
+ */
+function fuzzyScore(query: string, text: string): number | null {
+  let score = 0;
+  let position = 0;
+  let streak = 0;
+  for (const char of query) {
+    const index = text.indexOf(char, position);
+    if (index < 0) return null;
+    streak = index === position ? streak + 1 : 0;
+    const wordStart = index === 0 || /[\s.\\/_:-]/.test(text[index - 1]);
+    score += 1 + streak * 2 + (wordStart ? 3 : 0) - Math.min(index - position, 5) * 0.2;
+    position = index + 1;
+  }
+  return score;
+}
+
+// Každé slovo dotazu musí sedět na popis položky
+function matchEntry(tokens: string[], entry: PaletteEntry): number | null {
+  const haystack = `${entry.label} ${entry.detail ?? ''} ${entry.keywords ?? ''}`.toLowerCase();
+  let total = 0;
+  for (const token of tokens) {
+    const score = fuzzyScore(token, haystack);
+    if (score === null) return null;
+    total += score;
+  }
+  return total;
+}
+
+function flattenProcesses(nodes: ProcessTreeNode[], into: ProcessTreeNode[] = []): ProcessTreeNode[] {
+  for (const node of nodes) {
+    into.push(node);
+    if (node.__children) flattenProcesses(node.__children, into);
+  }
+  return into;
+}
+
+/**
+ * Najde hive a cestu klíče k zápisu jako HKLM\Software\Microsoft\...\Run.
+ * HKLM\<hive> vede na hive podle názvu souboru, HKCU na ntuser.dat.
+ */
+function resolveRegistryPath(path: string, hives: RegistryHive[]): { hive: RegistryHive; keyPath: string[] } | null {
+  const [root, ...rest] = path.split('\\').filter(Boolean);
+  if (!root) return null;
+  const findHive = (name: string) => hives.find(h => h.short_name.toLowerCase() === name.toLowerCase());
+
+  switch (root.toUpperCase()) {
+    case 'HKCU':
+    case 'HKEY_CURRENT_USER': {
+      const hive = findHive('ntuser.dat');
+      return hive ? { hive, keyPath: rest } : null;
+    }
+    case 'HKLM':
+    case 'HKEY_LOCAL_MACHINE': {
+      const [hiveName, ...keyPath] = rest;
+      const hive = hiveName ? findHive(hiveName) : undefined;
+      return hive ? { hive, keyPath } : null;
+    }
+    default: {
+      const hive = findHive(root);
+      return hive ? { hive, keyPath: rest } : null;
+    }
+  }
+}
+
+/**
+ * Paleta příkazů (Ctrl+K) - fuzzy hledání pluginů, procesů, sledovaných PID,
+ * klíčů v registrech, projektů a akcí
+ */
+export default function CommandPalette({ analysisId, onClose, onOpenProject, onResetLayout }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [runError, setRunError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const { trackedPids } = useInvestigation();
+  const { t } = useI18n();
+
+  const { data: pluginsData } = useCachedQuery(queryKeys.plugins(), signal => getPlugins(signal));
+  const { data: projectsData } = useCachedQuery(queryKeys.projects(), signal => getProjectsFromAllServers(signal));
+  const { data: treeData } = useCachedQuery(
+    analysisId ? queryKeys.processTree(analysisId) : null,
+    signal => getProcessTree(analysisId!, signal)
+  );
+  // Bez hivelistu backend vrátí 404 - registry v paletě pak prostě chybí
+  const { data: hivesData } = useCachedQuery(
+    analysisId ? queryKeys.registryHives(analysisId) : null,
+    signal => getRegistryHives(analysisId!, signal)
+  );
+
+  // Po zavření se fokus vrátí tam, odkud byla paleta otevřena
+  useEffect(() => {
+    const previousFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    inputRef.current?.focus();
+    return () => previousFocus?.focus();
+  }, []);
+
+  const entries = useMemo((): PaletteEntry[] => {
+    const go = (route: Route) => () => navigate(route);
+    const list: PaletteEntry[] = [];
+
+    if (analysisId) {
+      list.push(
+        { id: 'nav:dashboard', group: 'palette.group.navigation', icon: '📊', label: t('nav.dashboard'), run: go({ view: 'dashboard', projectId: analysisId }) },
+        { id: 'nav:plugins', group: 'palette.group.navigation', icon: '🔌', label: t('palette.nav.plugins'), keywords: 'run plugins', run: go({ view: 'plugins', projectId: analysisId }) },
+        { id: 'nav:history', group: 'palette.group.navigation', icon: '📋', label: t('history.title'), keywords: 'results history', run: go({ view: 'history', projectId: analysisId }) },
+        { id: 'nav:investigation', group: 'palette.group.navigation', icon: '🔎', label: t('nav.investigation'), keywords: 'process tree', run: () => navigate(getRestoredRoute(analysisId, 'investigation')) },
+        { id: 'nav:registry', group: 'palette.group.navigation', icon: '🗝️', label: t('nav.registry'), run: () => navigate(getRestoredRoute(analysisId, 'registry')) },
+        { id: 'action:reset-layout', group: 'palette.group.actions', icon: '↺', label: t('workspace.resetLayout'), keywords: 'reset layout', run: onResetLayout },
+      );
+    }
+    list.push(
+      { id: 'nav:projects', group: 'palette.group.navigation', icon: '📁', label: t('nav.projects'), keywords: 'projects', run: go({ view: 'projects' }) },
+      { id: 'nav:upload', group: 'palette.group.navigation', icon: '⬆️', label: t('palette.nav.upload'), keywords: 'upload', run: go({ view: 'upload' }) },
+      { id: 'nav:symbols', group: 'palette.group.navigation', icon: '⚙️', label: t('nav.symbols'), keywords: 'symbols', run: go({ view: 'symbols' }) },
+      { id: 'nav:servers', group: 'palette.group.navigation', icon: '🖥️', label: t('nav.servers'), keywords: 'servers', run: go({ view: 'servers' }) },
+    );
+
+    if (analysisId) {
+      for (const plugin of pluginsData?.plugins ?? []) {
+        list.push({
+          id: `plugin:${plugin.name}`,
+          group: 'palette.group.plugins',
+          icon: '🔌',
+          label: plugin.name.split('.').pop()!,
+          detail: plugin.name,
+          keywords: plugin.description,
+          run: go({ view: 'results', projectId: analysisId, plugin: plugin.name }),
+        });
+      }
+
+      for (const tracked of trackedPids) {
+        list.push({
+          id: `tracked:${tracked.pid}`,
+          group: 'palette.group.tracked',
+          icon: '⭐',
+          label: `PID ${tracked.pid} · ${tracked.process_name || '?'}`,
+          detail: tracked.tags.join(', ') || undefined,
+          keywords: tracked.reason,
+          run: go({ view: 'investigation', projectId: analysisId, pid: tracked.pid }),
+        });
+      }
+
+      for (const node of flattenProcesses(treeData?.tree ?? [])) {
+        const pid = node.PID ?? node.Pid;
+        if (pid === undefined) continue;
+        list.push({
+          id: `process:${pid}`,
+          group: 'palette.group.processes',
+          icon: '⚙️',
+          label: `${node.ImageFileName || node.COMM || node.Name || '?'}`,
+          detail: `PID ${pid}${node.PPID ?? node.PPid ? ` · PPID ${node.PPID ?? node.PPid}` : ''}`,
+          run: go({ view: 'investigation', projectId: analysisId, pid }),
+        });
+      }
+
+      for (const hive of hivesData?.hives ?? []) {
+        list.push({
+          id: `hive:${hive.offset}`,
+          group: 'palette.group.registry',
+          icon: '🗝️',
+          label: `Hive ${hive.short_name}`,
+          detail: hive.file_path,
+          keywords: 'registry',
+          run: go({ view: 'registry', projectId: analysisId, hive: hive.offset }),
+        });
+      }
+    }
+
+    for (const project of projectsData?.projects ?? []) {
+      list.push({
+        id: `project:${project.server.id}:${project.analysis_id}`,
+        group: 'palette.group.projects',
+        icon: '📁',
+        label: project.project_name || project.filename,
+        detail: `${project.filename} · ${project.server.name}`,
+        keywords: project.analysis_id,
+        run: () => onOpenProject(project.analysis_id, project.server.id),
+      });
+    }
+    return list;
+  }, [analysisId, pluginsData, treeData, hivesData, projectsData, trackedPids, onOpenProject, onResetLayout, t]);
+
+  // Akce odvozené přímo z dotazu - PID a cesta klíče v registrech
+  const queryEntries = useMemo((): PaletteEntry[] => {
+    if (!analysisId) return [];
+    const list: PaletteEntry[] = [];
+    const pidMatch = query.match(/\b(\d{1,7})\b/);
+    if (pidMatch) {
+      const pid = Number(pidMatch[1]);
+      const investigate: Route = { view: 'investigation', projectId: analysisId, pid };
+      list.push({
+        id: `query:pid:${pid}`,
+        group: 'palette.group.actions',
+        icon: '🔎',
+        label: t('palette.openPid', { pid: String(pid) }),
+        keywords: `open process ${pid}`,
+        run: () => navigate(investigate),
+      });
+      for (const plugin of PID_PLUGINS) {
+        list.push({
+          id: `query:run:${plugin.key}:${pid}`,
+          group: 'palette.group.actions',
+          icon: plugin.icon,
+          label: t('palette.runForPid', { plugin: plugin.label, pid: String(pid) }),
+          detail: plugin.key,
+          keywords: `run ${pid}`,
+          run: async () => {
+            await runAnalysisForPid(analysisId, plugin.key, pid);
+            trackPidJob(analysisId, plugin.key, pid);
+            navigate(investigate);
+          },
+        });
+      }
+    }
+
+    const registryPath = query.trim().replace(/^(otevřít|open)\s+/i, '');
+    const resolved = registryPath.includes('\\') ? resolveRegistryPath(registryPath, hivesData?.hives ?? []) : null;
+    if (resolved) {
+      list.push({
+        id: 'query:registry',
+        group: 'palette.group.actions',
+        icon: '🗝️',
+        label: t('palette.openPath', { path: registryPath }),
+        detail: `${resolved.hive.short_name} · ${resolved.keyPath.join('\\') || t('palette.registryRoot')}`,
+        keywords: 'open registry',
+        run: () => navigate({
+          view: 'registry',
+          projectId: analysisId,
+          hive: resolved.hive.offset,
+          ...(resolved.keyPath.length > 0 && { keyPath: resolved.keyPath }),
+        }),
+      });
+    }
+    return list;
+  }, [analysisId, query, hivesData, t]);
+
+  const results = useMemo(() => {
+    const tokens = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) return entries.filter(e => e.group === 'palette.group.navigation' || e.group === 'palette.group.tracked');
+    const scored = [...queryEntries, ...entries]
+      // Klíč v registrech se hledá jako celek, ne po slovech
+      .map(entry => ({ entry, score: entry.id === 'query:registry' ? Infinity : matchEntry(tokens, entry) }))
+      .filter((r): r is { entry: PaletteEntry; score: number } => r.score !== null)
+      .sort((a, b) => b.score - a.score)
+      .map(r => r.entry)
+      .slice(0, MAX_RESULTS);
+    // Skupiny v pořadí podle nejlepší shody, uvnitř skupiny podle skóre
+    const groupOrder = [...new Set(scored.map(e => e.group))];
+    return scored.sort((a, b) => groupOrder.indexOf(a.group) - groupOrder.indexOf(b.group));
+  }, [query, entries, queryEntries]);
+
+  const selectedIndex = Math.min(activeIndex, Math.max(results.length - 1, 0));
+
+  // Vybraná položka zůstává při listování šipkami vidět
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${selectedIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const runEntry = async (entry: PaletteEntry) => {
+    setRunError(null);
+    try {
+      await entry.run();
+      onClose();
+    } catch (err) {
+      if (isCancelledError(err)) return;
+      setRunError(err instanceof Error ? err.message : t('palette.actionFailed'));
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex(results.length > 0 ? (selectedIndex + 1) % results.length : 0);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(results.length > 0 ? (selectedIndex - 1 + results.length) % results.length : 0);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      if (results[selectedIndex]) void runEntry(results[selectedIndex]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    } else if (event.key === 'Tab') {
+      // Vstup je jediný prvek dialogu - fokus z něj neuteče do stránky pod ním
+      event.preventDefault();
+    }
+  };
+
+  return (
+    <div className="vtf-palette-backdrop" onMouseDown={onClose}>
+      <div
+        className="vtf-palette"
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('palette.title')}
+        onMouseDown={e => e.stopPropagation()}
+      >
+        <input
+          ref={inputRef}
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder={analysisId
+            ? t('palette.placeholder')
+            : t('palette.placeholderGlobal')}
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="vtf-palette-list"
+          aria-activedescendant={results[selectedIndex] ? `vtf-palette-${selectedIndex}` : undefined}
+          className="vtf-palette-input"
+        />
+        {runError && (
+          <div role="alert" style={{ padding: '0.5rem 1rem', fontSize: '0.8125rem', color: 'var(--color-danger)' }}>
+            {runError}
+          </div>
+        )}
+        <div ref={listRef} id="vtf-palette-list" role="listbox" className="vtf-palette-list">
+          {results.length === 0 && (
+            <div style={{ padding: '1.5rem', textAlign: 'center', fontSize: '0.875rem', color: 'var(--color-slate-500)' }}>
+              {t('palette.empty')}
+            </div>
+          )}
+          {results.map((entry, index) => (
+            <div key={entry.id}>
+              {(index === 0 || results[index - 1].group !== entry.group) && (
+                <div className="vtf-palette-group">{t(entry.group)}</div>
+              )}
+              <div
+                id={`vtf-palette-${index}`}
+                data-index={index}
+                role="option"
+                aria-selected={index === selectedIndex}
+                className={`vtf-palette-item ${index === selectedIndex ? 'active' : ''}`}
+                onMouseMove={() => index !== selectedIndex && setActiveIndex(index)}
+                onClick={() => void runEntry(entry)}
+              >
+                <span aria-hidden="true" style={{ width: '1.25rem', textAlign: 'center', flexShrink: 0 }}>{entry.icon}</span>
+                <span style={{ fontWeight: 500, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{entry.label}</span>
+                {entry.detail && (
+                  <span style={{ marginLeft: 'auto', paddingLeft: '0.75rem', fontSize: '0.75rem', color: 'var(--color-slate-500)', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                    {entry.detail}
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="vtf-palette-footer">
+          {t('palette.footer')}
+        </div>
+      </div>
+    </div>
+  );
+}
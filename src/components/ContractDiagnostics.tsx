@@ -0,0 +1,51 @@
+import { useSyncExternalStore } from 'react';
+import {
+  subscribeContractDiagnostics,
+  getContractDiagnostics,
+  clearContractDiagnostics,
+} from '../api/schema';
+import { useI18n } from '../hooks/useI18n';
+
+/**
+ * Banner s nesoulady mezi odpověďmi backendu a rozhraními ve vtfApi.ts
+ */
+export default function ContractDiagnostics() {
+  const diagnostics = useSyncExternalStore(subscribeContractDiagnostics, getContractDiagnostics);
+  const { t } = useI18n();
+
+  if (diagnostics.length === 0) return null;
+
+  return (
+    <div className="vtf-alert vtf-alert-warning" style={{ marginBottom: '1.5rem' }} role="alert">
+      <span className="vtf-alert-icon">⚠️</span>
+      <div className="vtf-alert-content">
+        <div className="vtf-alert-title">
+          {t('contract.title', { count: diagnostics.length })}
+        </div>
+        <div className="vtf-alert-description">
+          {t('contract.description')}
+        </div>
+        <ul style={{ marginTop: '0.5rem', paddingLeft: '1.25rem', fontSize: '0.8125rem', display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+          {diagnostics.map(d => (
+            <li key={`${d.endpoint}:${d.field ?? ''}`}>
+              <code style={{ fontFamily: 'var(--font-mono)' }}>{d.endpoint}</code>
+              {d.field && (
+                <>
+                  {' '}– {t('contract.field')} <code style={{ fontFamily: 'var(--font-mono)' }}>{d.field}</code>
+                  {d.expected && ` (${t('contract.expected', { expected: d.expected, received: d.received ?? '' })})`}
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+        <button
+          onClick={clearContractDiagnostics}
+          className="vtf-btn vtf-btn-secondary"
+          style={{ marginTop: '0.75rem', fontSize: '0.8125rem', padding: '0.375rem 0.75rem' }}
+        >
+          {t('common.hide')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { getDashboard } from '../api/vtfApi';
+import { queryKeys } from '../api/queryCache';
+import { useCachedQuery } from '../hooks/useCachedQuery';
 import type { DashboardData } from '../api/vtfApi';
 import { useInvestigation } from '../context/InvestigationContext';
+import { reportError } from '../notifications';
+import { useI18n } from '../hooks/useI18n';
+import { isActivationKey } from '../a11y';
 
 interface DashboardProps {
   analysisId: string;
@@ -12,31 +17,33 @@ interface DashboardProps {
 }
 
 export default function Dashboard({ analysisId, onNavigateToInvestigation, onNavigateToRegistry: _onNavigateToRegistry, onNavigateToPlugins: _onNavigateToPlugins, onNavigateToPlugin }: DashboardProps) {
-  const [data, setData] = useState<DashboardData | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { data, error, isLoading: loading, isValidating, refetch } = useCachedQuery<DashboardData>(
+    queryKeys.dashboard(analysisId),
+    signal => getDashboard(analysisId, signal)
+  );
   const { trackedPids } = useInvestigation();
+  const { t, formatNumber } = useI18n();
 
   useEffect(() => {
-    loadDashboard();
-  }, [analysisId]);
-
-  const loadDashboard = async () => {
-    setLoading(true);
-    try {
-      const result = await getDashboard(analysisId);
-      setData(result);
-    } catch {
-      // Dashboard might not have enough data yet
-    } finally {
-      setLoading(false);
-    }
-  };
+    if (error) reportError(t('dashboard.error'), error, refetch, `dashboard:${analysisId}`);
+  }, [error, refetch, analysisId, t]);
 
   if (loading) {
     return (
       <div className="vtf-card" style={{ padding: '3rem', textAlign: 'center' }}>
         <div className="vtf-spinner" />
-        <p style={{ color: 'var(--color-slate-500)', marginTop: '1rem' }}>Načítám dashboard...</p>
+        <p style={{ color: 'var(--color-slate-500)', marginTop: '1rem' }}>{t('dashboard.loading')}</p>
+      </div>
+    );
+  }
+
+  if (!data && error) {
+    return (
+      <div className="vtf-card" style={{ padding: '2rem', textAlign: 'center' }}>
+        <p style={{ color: 'var(--color-danger)', marginBottom: '1rem' }}>{t('dashboard.error')}: {error.message}</p>
+        <button onClick={refetch} disabled={isValidating} className="vtf-btn vtf-btn-secondary">
+          {isValidating ? t('common.loading') : `↻ ${t('common.retry')}`}
+        </button>
       </div>
     );
   }
@@ -44,7 +51,7 @@ export default function Dashboard({ analysisId, onNavigateToInvestigation, onNav
   if (!data) {
     return (
       <div className="vtf-card" style={{ padding: '2rem', textAlign: 'center' }}>
-        <p style={{ color: 'var(--color-slate-500)' }}>Dashboard zatím nemá dostatek dat.</p>
+        <p style={{ color: 'var(--color-slate-500)' }}>{t('dashboard.noData')}</p>
       </div>
     );
   }
@@ -55,15 +62,19 @@ export default function Dashboard({ analysisId, onNavigateToInvestigation, onNav
     <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', padding: '0.5rem' }}>
       {/* Top stats row */}
       <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '0.75rem' }}>
-        <StatCard icon="📄" label="Procesy" value={s.total_processes ?? '—'} sub={`${s.unique_process_names ?? 0} unikátních`} />
-        <StatCard icon="🌐" label="Síťová spojení" value={s.total_connections ?? '—'} sub={`${s.unique_foreign_addresses ?? 0} ext. adres`} />
-        <StatCard icon="🔍" label="Malfind detekce" value={s.malfind_detections ?? '—'} sub={`${s.suspicious_process_count ?? 0} podezřelých PID`}
+        <StatCard icon="📄" label={t('dashboard.stat.processes')} value={s.total_processes ?? '—'}
+          sub={t('dashboard.stat.uniqueNames', { count: s.unique_process_names ?? 0 })} />
+        <StatCard icon="🌐" label={t('dashboard.stat.connections')} value={s.total_connections ?? '—'}
+          sub={t('dashboard.stat.foreignAddresses', { count: s.unique_foreign_addresses ?? 0 })} />
+        <StatCard icon="🔍" label={t('dashboard.stat.malfind')} value={s.malfind_detections ?? '—'}
+          sub={t('dashboard.stat.suspiciousPids', { count: s.suspicious_process_count ?? 0 })}
           color={s.malfind_detections ? 'var(--color-danger)' : undefined} />
-        <StatCard icon="⭐" label="Sledované PID" value={trackedPids.length} sub={`${trackedPids.filter(t => t.tags.includes('suspicious')).length} podezřelých`}
-          color="#f59e0b" />
-        <StatCard icon="📁" label="Soubory v paměti" value={s.total_files_in_memory ?? '—'} />
-        <StatCard icon="🔌" label="Dokončené pluginy" value={data.completed_plugins.length}
-          sub={data.failed_plugins.length > 0 ? `${data.failed_plugins.length} selhalo` : undefined} />
+        <StatCard icon="⭐" label={t('dashboard.stat.tracked')} value={trackedPids.length}
+          sub={t('dashboard.stat.suspicious', { count: trackedPids.filter(tp => tp.tags.includes('suspicious')).length })}
+          color="var(--color-warning)" />
+        <StatCard icon="📁" label={t('dashboard.stat.files')} value={s.total_files_in_memory ?? '—'} />
+        <StatCard icon="🔌" label={t('dashboard.stat.completedPlugins')} value={data.completed_plugins.length}
+          sub={data.failed_plugins.length > 0 ? t('dashboard.stat.failedPlugins', { count: data.failed_plugins.length }) : undefined} />
       </div>
 
       {/* Two-column layout */}
@@ -72,7 +83,7 @@ export default function Dashboard({ analysisId, onNavigateToInvestigation, onNav
         {s.top_processes && s.top_processes.length > 0 && (
           <div className="vtf-card" style={{ padding: '1rem' }}>
             <h4 style={{ fontSize: '0.9375rem', fontWeight: 600, marginBottom: '0.75rem' }}>
-              🏆 Nejčastější procesy
+              🏆 {t('dashboard.topProcesses')}
             </h4>
             <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
               {s.top_processes.map(([name, count]: [string, number]) => (
@@ -90,17 +101,17 @@ export default function Dashboard({ analysisId, onNavigateToInvestigation, onNav
         {/* Tracked PIDs quick view */}
         <div className="vtf-card" style={{ padding: '1rem' }}>
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem' }}>
-            <h4 style={{ fontSize: '0.9375rem', fontWeight: 600 }}>⭐ Sledované procesy</h4>
+            <h4 style={{ fontSize: '0.9375rem', fontWeight: 600 }}>⭐ {t('dashboard.tracked.title')}</h4>
             {onNavigateToInvestigation && (
               <button onClick={onNavigateToInvestigation} className="vtf-btn vtf-btn-primary"
                 style={{ padding: '0.25rem 0.625rem', fontSize: '0.75rem' }}>
-                Otevřít investigaci →
+                {t('dashboard.tracked.open')} →
               </button>
             )}
           </div>
           {trackedPids.length === 0 ? (
             <p style={{ color: 'var(--color-slate-500)', fontSize: '0.8125rem' }}>
-              Zatím žádné sledované procesy. Přejděte do investigačního režimu.
+              {t('dashboard.tracked.empty')}
             </p>
           ) : (
             <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
@@ -117,8 +128,8 @@ export default function Dashboard({ analysisId, onNavigateToInvestigation, onNav
                     <span key={tag} style={{
                       fontSize: '0.5625rem', fontWeight: 600, padding: '0.0625rem 0.375rem',
                       borderRadius: '9999px', textTransform: 'uppercase',
-                      background: tag === 'suspicious' || tag === 'malware' ? '#fef2f2' : '#fefce8',
-                      color: tag === 'suspicious' || tag === 'malware' ? '#dc2626' : '#ca8a04',
+                      background: tag === 'suspicious' || tag === 'malware' ? 'var(--color-danger-50)' : '#fefce8',
+                      color: tag === 'suspicious' || tag === 'malware' ? 'var(--color-danger-600)' : '#ca8a04',
                     }}>
                       {tag}
                     </span>
@@ -132,13 +143,21 @@ export default function Dashboard({ analysisId, onNavigateToInvestigation, onNav
         {/* Completed plugins */}
         <div className="vtf-card" style={{ padding: '1rem' }}>
           <h4 style={{ fontSize: '0.9375rem', fontWeight: 600, marginBottom: '0.75rem' }}>
-            🔌 Dokončené pluginy
+            🔌 {t('dashboard.stat.completedPlugins')}
           </h4>
           <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.375rem' }}>
             {data.completed_plugins.map(p => (
               <span
                 key={p}
+                role={onNavigateToPlugin ? 'button' : undefined}
+                tabIndex={onNavigateToPlugin ? 0 : undefined}
                 onClick={() => onNavigateToPlugin?.(p)}
+                onKeyDown={e => {
+                  if (onNavigateToPlugin && isActivationKey(e)) {
+                    e.preventDefault();
+                    onNavigateToPlugin(p);
+                  }
+                }}
                 style={{
                   fontSize: '0.75rem', padding: '0.25rem 0.625rem',
                   background: 'var(--color-slate-100)', borderRadius: 'var(--radius-md)',
@@ -155,7 +174,7 @@ export default function Dashboard({ analysisId, onNavigateToInvestigation, onNav
             {data.failed_plugins.map(p => (
               <span key={p} style={{
                 fontSize: '0.75rem', padding: '0.25rem 0.625rem',
-                background: '#fef2f2', color: '#dc2626', borderRadius: 'var(--radius-md)',
+                background: 'var(--color-danger-50)', color: 'var(--color-danger-600)', borderRadius: 'var(--radius-md)',
                 fontFamily: 'var(--font-mono)',
               }}>
                 ✗ {p}
@@ -168,7 +187,7 @@ export default function Dashboard({ analysisId, onNavigateToInvestigation, onNav
         {s.foreign_addresses && s.foreign_addresses.length > 0 && (
           <div className="vtf-card" style={{ padding: '1rem' }}>
             <h4 style={{ fontSize: '0.9375rem', fontWeight: 600, marginBottom: '0.75rem' }}>
-              🌐 Externí IP adresy
+              🌐 {t('dashboard.foreignAddresses')}
             </h4>
             <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.25rem', maxHeight: '150px', overflowY: 'auto' }}>
               {s.foreign_addresses.map((addr: string) => (
@@ -191,7 +210,7 @@ export default function Dashboard({ analysisId, onNavigateToInvestigation, onNav
         padding: '0.5rem 0', borderTop: '1px solid var(--color-slate-100)',
       }}>
         <span>📋 {data.project_name}</span>
-        <span>💾 {data.dump_size_mb} MB</span>
+        <span>💾 {formatNumber(data.dump_size_mb)} MB</span>
         {data.os_type && <span>🖥️ {data.os_type}</span>}
         {data.kernel_version && <span>🐧 {data.kernel_version}</span>}
       </div>
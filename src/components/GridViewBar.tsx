@@ -0,0 +1,192 @@
+// Pojmenované pohledy gridu výsledků (viz gridViews.ts) - výběr, uložení, výchozí pohled,
+// sdílení v JSONu a výběr zobrazených sloupců
+import { useRef, useState, useSyncExternalStore } from 'react';
+import type { ChangeEvent, FormEvent } from 'react';
+import {
+  deleteGridView, exportGridViews, getGridViewsSnapshot, getPluginGridViews, importGridViews,
+  saveGridView, setDefaultGridView, subscribeGridViews,
+} from '../gridViews';
+import type { GridViewState } from '../gridViews';
+import { notify, reportError } from '../notifications';
+import { downloadFile } from '../resultExport';
+import { useI18n } from '../hooks/useI18n';
+
+interface GridViewBarProps {
+  pluginName: string;
+  /** Pohled, kterým se grid otevřel (výchozí pohled pluginu) */
+  initialViewId?: string;
+  columns: { colId: string; headerName: string }[];
+  hiddenColumns: string[];
+  /** Aktuální sloupce, řazení a filtry gridu */
+  getCurrentState: () => GridViewState;
+  /** Použije pohled; undefined = výchozí rozložení gridu */
+  onApplyView: (state: GridViewState | undefined) => void;
+  onToggleColumn: (colId: string, visible: boolean) => void;
+}
+
+const smallButtonStyle = { padding: '0.375rem 0.625rem', fontSize: '0.75rem' };
+
+const inputStyle = {
+  padding: '0.375rem 0.625rem',
+  border: '1px solid var(--color-slate-300)',
+  borderRadius: 'var(--radius-md)',
+  fontSize: '0.8125rem',
+  background: 'var(--color-surface)',
+  color: 'var(--color-slate-900)',
+};
+
+export default function GridViewBar({
+  pluginName, initialViewId, columns, hiddenColumns, getCurrentState, onApplyView, onToggleColumn,
+}: GridViewBarProps) {
+  const { t } = useI18n();
+  const allViews = useSyncExternalStore(subscribeGridViews, getGridViewsSnapshot);
+  const { views, defaultViewId } = getPluginGridViews(allViews, pluginName);
+  const [activeViewId, setActiveViewId] = useState(initialViewId ?? '');
+  // Rozepsaný název ukládaného pohledu (null = formulář je zavřený)
+  const [draftName, setDraftName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeView = views.find(v => v.id === activeViewId);
+  const isDefault = activeView !== undefined && activeView.id === defaultViewId;
+  const hidden = new Set(hiddenColumns);
+  const visibleCount = columns.filter(c => !hidden.has(c.colId)).length;
+
+  const handleSelect = (viewId: string) => {
+    setActiveViewId(viewId);
+    onApplyView(views.find(v => v.id === viewId)?.state);
+  };
+
+  const handleSave = (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      const view = saveGridView(pluginName, draftName ?? '', getCurrentState());
+      setActiveViewId(view.id);
+      setDraftName(null);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!activeView || !confirm(t('gridViews.confirmDelete', { name: activeView.name }))) return;
+    deleteGridView(pluginName, activeView.id);
+    setActiveViewId('');
+  };
+
+  const handleExport = () => {
+    downloadFile(new Blob([exportGridViews(pluginName)], { type: 'application/json' }), `${pluginName}-views.json`);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Stejný soubor půjde vybrat znovu
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = importGridViews(await file.text());
+      notify({ level: 'success', title: t('gridViews.imported', { count }) });
+    } catch (err) {
+      reportError(t('gridViews.importFailed'), err);
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+      {draftName === null ? (
+        <>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8125rem', color: 'var(--color-slate-600)' }}>
+            {t('gridViews.label')}
+            <select value={activeView?.id ?? ''} onChange={e => handleSelect(e.target.value)} style={inputStyle}>
+              <option value="">{t('gridViews.defaultLayout')}</option>
+              {views.map(view => (
+                <option key={view.id} value={view.id}>
+                  {view.id === defaultViewId ? `⭐ ${view.name}` : view.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button onClick={() => setDraftName(activeView?.name ?? '')} className="vtf-btn vtf-btn-secondary" style={smallButtonStyle}>
+            💾 {t('gridViews.save')}
+          </button>
+          {activeView && (
+            <>
+              <button
+                onClick={() => setDefaultGridView(pluginName, isDefault ? null : activeView.id)}
+                className="vtf-btn vtf-btn-secondary"
+                style={smallButtonStyle}
+                aria-pressed={isDefault}
+              >
+                {isDefault ? `⭐ ${t('gridViews.unsetDefault')}` : `☆ ${t('gridViews.setDefault')}`}
+              </button>
+              <button onClick={handleDelete} className="vtf-btn vtf-btn-secondary" style={smallButtonStyle}>
+                🗑️ {t('gridViews.delete')}
+              </button>
+            </>
+          )}
+        </>
+      ) : (
+        <form onSubmit={handleSave} style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          <input
+            type="text"
+            value={draftName}
+            onChange={e => { setDraftName(e.target.value); setError(null); }}
+            onKeyDown={e => { if (e.key === 'Escape') setDraftName(null); }}
+            placeholder={t('gridViews.namePlaceholder')}
+            aria-label={t('gridViews.namePlaceholder')}
+            aria-invalid={error !== null}
+            autoFocus
+            style={{ ...inputStyle, width: '260px' }}
+          />
+          <button type="submit" className="vtf-btn vtf-btn-primary" style={smallButtonStyle}>
+            {t('gridViews.save')}
+          </button>
+          <button type="button" onClick={() => { setDraftName(null); setError(null); }} className="vtf-btn vtf-btn-secondary" style={smallButtonStyle}>
+            {t('common.cancel')}
+          </button>
+          {error && <span role="alert" style={{ fontSize: '0.75rem', color: 'var(--color-danger)' }}>{error}</span>}
+        </form>
+      )}
+
+      <details style={{ position: 'relative' }}>
+        <summary className="vtf-btn vtf-btn-secondary" style={{ ...smallButtonStyle, listStyle: 'none' }}>
+          {t('gridViews.columns', { visible: visibleCount, total: columns.length })}
+        </summary>
+        <div
+          className="vtf-card"
+          style={{
+            position: 'absolute', top: 'calc(100% + 0.25rem)', left: 0, zIndex: 20, minWidth: '220px',
+            maxHeight: '320px', overflowY: 'auto', padding: '0.5rem', display: 'flex', flexDirection: 'column', gap: '0.125rem',
+          }}
+        >
+          {columns.map(column => {
+            const visible = !hidden.has(column.colId);
+            return (
+              <label key={column.colId} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8125rem', padding: '0.25rem', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={visible}
+                  // Alespoň jeden sloupec musí zůstat vidět
+                  disabled={visible && visibleCount === 1}
+                  onChange={e => onToggleColumn(column.colId, e.target.checked)}
+                />
+                {column.headerName}
+              </label>
+            );
+          })}
+        </div>
+      </details>
+
+      <div style={{ display: 'flex', gap: '0.5rem', marginLeft: 'auto' }}>
+        <button onClick={handleExport} disabled={views.length === 0} className="vtf-btn vtf-btn-secondary" style={smallButtonStyle}>
+          ⬇️ {t('gridViews.export')}
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className="vtf-btn vtf-btn-secondary" style={smallButtonStyle}>
+          ⬆️ {t('gridViews.import')}
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} hidden />
+      </div>
+    </div>
+  );
+}
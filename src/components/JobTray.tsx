@@ -0,0 +1,191 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import {
+  cancelJob,
+  clearFinishedJobs,
+  getJobsSnapshot,
+  isJobActive,
+  markJobsSeen,
+  removeJob,
+  subscribeJobs,
+} from '../api/jobs';
+import type { BackgroundJob, JobStatus } from '../api/jobs';
+import { getServersSnapshot, subscribeServers } from '../api/servers';
+import { useI18n } from '../hooks/useI18n';
+import { t } from '../i18n/i18n';
+import type { MessageKey } from '../i18n/cs';
+
+interface JobTrayProps {
+  /** Otevření výsledků dokončené úlohy */
+  onOpenJob: (job: BackgroundJob) => void;
+}
+
+const STATUS_LABELS: Record<JobStatus, { icon: string; label: MessageKey; color: string }> = {
+  queued: { icon: '○', label: 'jobs.status.queued', color: 'var(--color-slate-400)' },
+  running: { icon: '●', label: 'jobs.status.running', color: 'var(--color-primary-400)' },
+  completed: { icon: '✓', label: 'jobs.status.completed', color: 'var(--color-success)' },
+  failed: { icon: '✗', label: 'jobs.status.failed', color: 'var(--color-danger)' },
+  cancelled: { icon: '⊘', label: 'jobs.status.cancelled', color: 'var(--color-slate-400)' },
+};
+
+const smallButtonStyle = {
+  background: 'none',
+  border: '1px solid var(--color-slate-600)',
+  borderRadius: 'var(--radius-md)',
+  padding: '0.125rem 0.375rem',
+  color: 'var(--color-slate-300)',
+  fontSize: '0.6875rem',
+  cursor: 'pointer',
+};
+
+function jobTitle(job: BackgroundJob): string {
+  if (job.kind === 'symbol') return t('jobs.symbolTitle');
+  return job.plugin!.split('.').pop()!;
+}
+
+function jobDetail(job: BackgroundJob): string {
+  if (job.kind === 'symbol') return job.kernelVersion ? `kernel ${job.kernelVersion}` : t('jobs.isfFromVmlinux');
+  const project = t('jobs.project', { id: job.analysisId!.substring(0, 8) });
+  return job.kind === 'pid' ? `PID ${job.pid} · ${project}` : project;
+}
+
+/** Skupiny pro zobrazení - pluginy jednoho batch běhu jdou pod společnou hlavičku */
+function groupJobs(jobs: BackgroundJob[]): BackgroundJob[][] {
+  const groups: BackgroundJob[][] = [];
+  for (const job of jobs) {
+    const last = groups[groups.length - 1];
+    if (job.batchId && last?.[0].batchId === job.batchId) {
+      last.push(job);
+    } else {
+      groups.push([job]);
+    }
+  }
+  return groups;
+}
+
+function JobItem({ job, isOtherServer, onOpen }: { job: BackgroundJob; isOtherServer: boolean; onOpen: () => void }) {
+  const { t } = useI18n();
+  const status = STATUS_LABELS[job.status];
+  const canOpen = job.status === 'completed';
+
+  return (
+    <div className={`vtf-job-item ${canOpen ? 'vtf-job-item-openable' : ''}`}>
+      <span style={{ color: status.color, width: '1rem', flexShrink: 0, textAlign: 'center' }} aria-hidden="true">
+        {status.icon}
+      </span>
+      <button
+        onClick={onOpen}
+        disabled={!canOpen}
+        title={canOpen ? t('jobs.openResults') : job.error}
+        style={{ flex: 1, minWidth: 0, background: 'none', border: 'none', padding: 0, textAlign: 'left', color: 'inherit', cursor: canOpen ? 'pointer' : 'default' }}
+      >
+        <div style={{ color: 'white', fontSize: '0.8125rem', fontWeight: job.unseen ? 700 : 500, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {jobTitle(job)}
+        </div>
+        <div style={{ fontSize: '0.6875rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {job.cancelling ? t('jobs.cancelling') : t(status.label)} · {jobDetail(job)}
+          {isOtherServer && ` · ${t('jobs.otherServer')}`}
+        </div>
+        {job.error && job.status !== 'completed' && (
+          <div style={{ fontSize: '0.6875rem', color: 'var(--color-danger)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {job.error}
+          </div>
+        )}
+      </button>
+      {isJobActive(job) && job.kind !== 'symbol' && !isOtherServer && (
+        <button
+          onClick={() => cancelJob(job.id)}
+          disabled={job.cancelling}
+          title={t('jobs.cancelJob')}
+          style={smallButtonStyle}
+        >
+          {t('common.cancel')}
+        </button>
+      )}
+      {!isJobActive(job) && (
+        <button
+          onClick={() => removeJob(job.id)}
+          title={t('jobs.removeFromList')}
+          style={{ ...smallButtonStyle, border: 'none' }}
+        >
+          ✕
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Panel úloh v sidebaru - běžící, čekající i dokončené analýzy a generování symbolů
+ */
+export default function JobTray({ onOpenJob }: JobTrayProps) {
+  const jobs = useSyncExternalStore(subscribeJobs, getJobsSnapshot);
+  const { active: activeServer } = useSyncExternalStore(subscribeServers, getServersSnapshot);
+  const [expanded, setExpanded] = useState(false);
+  const { t } = useI18n();
+
+  const activeCount = jobs.filter(isJobActive).length;
+  const unseenCount = jobs.filter(j => j.unseen).length;
+
+  // Rozbalený panel = uživatel dokončené úlohy vidí
+  useEffect(() => {
+    if (expanded && unseenCount > 0) markJobsSeen();
+  }, [expanded, unseenCount]);
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="vtf-job-tray">
+      <button
+        onClick={() => setExpanded(prev => !prev)}
+        aria-expanded={expanded}
+        style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', width: '100%', background: 'none', border: 'none', padding: '0.5rem 0.25rem', color: 'var(--color-slate-300)', fontSize: '0.8125rem', fontWeight: 600, cursor: 'pointer' }}
+      >
+        <span>{activeCount > 0 ? '⏳' : '📥'}</span>
+        <span style={{ marginRight: 'auto' }}>
+          {t('jobs.title')}{activeCount > 0 && ` (${t('jobs.runningCount', { count: activeCount })})`}
+        </span>
+        {unseenCount > 0 && (
+          <span className="vtf-badge vtf-badge-primary" title={t('jobs.unseen')}>{unseenCount}</span>
+        )}
+        <span aria-hidden="true">{expanded ? '▾' : '▸'}</span>
+      </button>
+
+      {expanded && (
+        <div style={{ maxHeight: '16rem', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+          {groupJobs(jobs).map(group => {
+            const isOtherServer = group[0].serverId !== activeServer.id;
+            const items = group.map(job => (
+              <JobItem key={job.id} job={job} isOtherServer={isOtherServer} onOpen={() => onOpenJob(job)} />
+            ));
+            if (group.length === 1) return items;
+
+            const activeInBatch = group.filter(j => isJobActive(j) && !j.cancelling);
+            return (
+              <div key={group[0].batchId} className="vtf-job-batch">
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.6875rem', padding: '0 0.25rem 0.25rem' }}>
+                  <span style={{ marginRight: 'auto' }}>
+                    {t('jobs.batchProgress', { done: group.filter(j => j.status === 'completed').length, total: group.length })}
+                  </span>
+                  {activeInBatch.length > 0 && !isOtherServer && (
+                    <button onClick={() => activeInBatch.forEach(j => cancelJob(j.id))} style={smallButtonStyle}>
+                      ⊘ {t('jobs.cancelBatch')}
+                    </button>
+                  )}
+                </div>
+                {items}
+              </div>
+            );
+          })}
+          {jobs.some(j => !isJobActive(j)) && (
+            <button
+              onClick={clearFinishedJobs}
+              style={{ background: 'none', border: 'none', padding: '0.25rem', color: 'inherit', fontSize: '0.6875rem', textDecoration: 'underline', cursor: 'pointer', alignSelf: 'flex-end' }}
+            >
+              {t('jobs.clearFinished')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { login, AUTH_PROVIDER, VtfApiError } from '../api/vtfApi';
+import { LOCAL_USERNAMES } from '../api/localIdentityProvider';
+import { useI18n } from '../hooks/useI18n';
+
+interface LoginScreenProps {
+  /** Session vypršela během práce - aplikace pod přihlášením zůstává zachovaná */
+  expired: boolean;
+}
+
+const inputStyle = {
+  display: 'block',
+  width: '100%',
+  padding: '0.75rem 1rem',
+  border: '1px solid var(--color-slate-300)',
+  borderRadius: 'var(--radius-md)',
+  fontSize: '0.9375rem',
+  transition: 'all var(--transition-fast)',
+};
+
+const labelStyle = {
+  display: 'block',
+  fontSize: '0.875rem',
+  fontWeight: 600,
+  marginBottom: '0.5rem',
+  color: 'var(--color-slate-700)',
+};
+
+/**
+ * Přihlašovací obrazovka - při vypršení session se zobrazí přes rozpracovanou aplikaci
+ */
+export default function LoginScreen({ expired }: LoginScreenProps) {
+  const { t } = useI18n();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await login(username.trim(), password);
+    } catch (err) {
+      if (err instanceof VtfApiError && err.status === 404) {
+        setError(t('login.unsupported'));
+      } else {
+        setError(err instanceof VtfApiError && err.status === 401
+          ? t('login.invalidCredentials')
+          : err instanceof Error ? err.message : t('login.failed'));
+      }
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="vtf-login-title"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 1000,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '1rem',
+        background: expired ? 'rgba(15, 23, 42, 0.6)' : 'var(--color-slate-100)',
+      }}
+    >
+      <form onSubmit={handleSubmit} className="vtf-card" style={{ padding: '2rem', width: '100%', maxWidth: '24rem' }}>
+        <div style={{ textAlign: 'center', marginBottom: '1.5rem' }}>
+          <div style={{ fontSize: '2.5rem', marginBottom: '0.5rem' }}>🔍</div>
+          <h2 id="vtf-login-title" style={{ fontSize: '1.5rem', fontWeight: 700, color: 'var(--color-slate-900)' }}>
+            {expired ? t('login.titleExpired') : t('login.title')}
+          </h2>
+          <p style={{ fontSize: '0.875rem', color: 'var(--color-slate-500)', marginTop: '0.25rem' }}>
+            Volatility Task Framework
+          </p>
+        </div>
+
+        {expired && (
+          <div className="vtf-alert vtf-alert-warning" style={{ marginBottom: '1.25rem' }}>
+            <span className="vtf-alert-icon">⏱️</span>
+            <div className="vtf-alert-content">
+              <div className="vtf-alert-description">
+                {t('login.expired')}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="vtf-alert vtf-alert-danger" style={{ marginBottom: '1.25rem' }} role="alert">
+            <span className="vtf-alert-icon">❌</span>
+            <div className="vtf-alert-content">
+              <div className="vtf-alert-description">{error}</div>
+            </div>
+          </div>
+        )}
+
+        <div style={{ marginBottom: '1rem' }}>
+          <label htmlFor="vtf-login-username" style={labelStyle}>{t('login.username')}</label>
+          <input
+            id="vtf-login-username"
+            type="text"
+            autoComplete="username"
+            autoFocus
+            value={username}
+            onChange={e => setUsername(e.target.value)}
+            style={inputStyle}
+            required
+          />
+        </div>
+
+        <div style={{ marginBottom: '1.5rem' }}>
+          <label htmlFor="vtf-login-password" style={labelStyle}>{t('login.password')}</label>
+          <input
+            id="vtf-login-password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            style={inputStyle}
+            required
+          />
+        </div>
+
+        <button
+          type="submit"
+          className="vtf-btn vtf-btn-primary"
+          disabled={isSubmitting || !username.trim() || !password}
+          style={{ width: '100%', justifyContent: 'center' }}
+        >
+          {isSubmitting ? t('login.submitting') : t('login.submit')}
+        </button>
+
+        {AUTH_PROVIDER === 'local' && (
+          <p style={{ marginTop: '1rem', fontSize: '0.75rem', color: 'var(--color-slate-500)', textAlign: 'center' }}>
+            {t('login.localProvider', { accounts: LOCAL_USERNAMES.join(', ') })}
+          </p>
+        )}
+      </form>
+    </div>
+  );
+}
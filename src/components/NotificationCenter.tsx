@@ -0,0 +1,108 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import {
+  clearNotifications,
+  getNotificationsSnapshot,
+  markNotificationsRead,
+  removeNotification,
+  retryNotification,
+  subscribeNotifications,
+} from '../notifications';
+import type { NotificationLevel } from '../notifications';
+import { useI18n } from '../hooks/useI18n';
+
+const LEVEL_STYLES: Record<NotificationLevel, { icon: string; color: string }> = {
+  error: { icon: '✗', color: 'var(--color-danger)' },
+  warning: { icon: '!', color: 'var(--color-warning)' },
+  success: { icon: '✓', color: 'var(--color-success)' },
+  info: { icon: 'i', color: 'var(--color-primary-400)' },
+};
+
+const smallButtonStyle = {
+  background: 'none',
+  border: '1px solid var(--color-slate-600)',
+  borderRadius: 'var(--radius-md)',
+  padding: '0.125rem 0.375rem',
+  color: 'var(--color-slate-300)',
+  fontSize: '0.6875rem',
+  cursor: 'pointer',
+};
+
+/**
+ * Centrum oznámení v sidebaru - historie chyb a výsledků akcí, chyby s retry jde zopakovat
+ */
+export default function NotificationCenter() {
+  const notifications = useSyncExternalStore(subscribeNotifications, getNotificationsSnapshot);
+  const [expanded, setExpanded] = useState(false);
+  const { t, formatTime } = useI18n();
+
+  const unreadCount = notifications.filter(n => !n.read).length;
+  const unreadErrors = notifications.filter(n => !n.read && n.level === 'error').length;
+
+  // Rozbalené centrum = uživatel oznámení viděl
+  useEffect(() => {
+    if (expanded && unreadCount > 0) markNotificationsRead();
+  }, [expanded, unreadCount]);
+
+  if (notifications.length === 0) return null;
+
+  return (
+    <div className="vtf-job-tray">
+      <button
+        onClick={() => setExpanded(prev => !prev)}
+        aria-expanded={expanded}
+        style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', width: '100%', background: 'none', border: 'none', padding: '0.5rem 0.25rem', color: 'var(--color-slate-300)', fontSize: '0.8125rem', fontWeight: 600, cursor: 'pointer' }}
+      >
+        <span>🔔</span>
+        <span style={{ marginRight: 'auto' }}>{t('notifications.title')}</span>
+        {unreadCount > 0 && (
+          <span className={`vtf-badge ${unreadErrors > 0 ? 'vtf-badge-danger' : 'vtf-badge-primary'}`} title={t('notifications.unread')}>
+            {unreadCount}
+          </span>
+        )}
+        <span aria-hidden="true">{expanded ? '▾' : '▸'}</span>
+      </button>
+
+      {expanded && (
+        <div style={{ maxHeight: '16rem', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+          {notifications.map(notification => {
+            const level = LEVEL_STYLES[notification.level];
+            return (
+              <div key={notification.id} className="vtf-job-item" style={{ alignItems: 'flex-start' }}>
+                <span style={{ color: level.color, width: '1rem', flexShrink: 0, textAlign: 'center', fontWeight: 700 }} aria-hidden="true">
+                  {level.icon}
+                </span>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ color: 'white', fontSize: '0.8125rem', fontWeight: 500 }}>{notification.title}</div>
+                  {notification.message && (
+                    <div style={{ fontSize: '0.6875rem', overflowWrap: 'anywhere' }}>{notification.message}</div>
+                  )}
+                  <div style={{ fontSize: '0.6875rem', color: 'var(--color-slate-500)' }}>
+                    {formatTime(notification.createdAt)}
+                  </div>
+                </div>
+                {notification.retry && (
+                  <button onClick={() => { void retryNotification(notification.id); }} title={t('notifications.retry')} style={smallButtonStyle}>
+                    ↻
+                  </button>
+                )}
+                <button
+                  onClick={() => removeNotification(notification.id)}
+                  title={t('common.remove')}
+                  style={{ ...smallButtonStyle, border: 'none' }}
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+          <button
+            onClick={clearNotifications}
+            style={{ background: 'none', border: 'none', padding: '0.25rem', color: 'inherit', fontSize: '0.6875rem', textDecoration: 'underline', cursor: 'pointer', alignSelf: 'flex-end' }}
+          >
+            {t('notifications.clearAll')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
-import { useState, useEffect } from 'react';
-import type { PluginInfo, PresetInfo } from '../api/vtfApi';
+import { useState, useEffect, useCallback } from 'react';
+import type { PluginInfo, PresetInfo, ProjectMetadata } from '../api/vtfApi';
 import { getProjectInfo, getSymbols, getPluginPresets, checkAllStatus } from '../api/vtfApi';
+import { useI18n } from '../hooks/useI18n';
+import { reportError } from '../notifications';
+import { isActivationKey, moveListFocus } from '../a11y';
 
 interface PluginSelectorProps {
   plugins: PluginInfo[];
@@ -17,56 +20,66 @@ export default function PluginSelector({
   onBatchRun,
   isAnalyzing = false 
 }: PluginSelectorProps) {
+  const { t } = useI18n();
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [selectedPlugin, setSelectedPlugin] = useState<string | null>(null);
   const [selectedPlugins, setSelectedPlugins] = useState<Set<string>>(new Set());
-  const [projectMetadata, setProjectMetadata] = useState<any>(null);
+  const [projectMetadata, setProjectMetadata] = useState<ProjectMetadata | null>(null);
   const [hasSymbols, setHasSymbols] = useState(false);
   const [isLoadingMetadata, setIsLoadingMetadata] = useState(true);
   const [presets, setPresets] = useState<{ [name: string]: PresetInfo }>({});
   const [completedPlugins, setCompletedPlugins] = useState<Set<string>>(new Set());
   const [isBatchMode, setIsBatchMode] = useState(false);
+  const [metadataError, setMetadataError] = useState<unknown>(null);
 
-  useEffect(() => {
-    const loadMetadata = async () => {
-      try {
-        const metadata = await getProjectInfo(analysisId);
-        setProjectMetadata(metadata);
-
-        // Load presets for this OS
-        try {
-          const presetsData = await getPluginPresets(metadata.os_type || undefined);
-          setPresets(presetsData.presets);
-        } catch { /* presets are optional */ }
+  // Stabilní reference - retry v oznámení volá stejnou funkci
+  const loadMetadata = useCallback(async () => {
+    setIsLoadingMetadata(true);
+    setMetadataError(null);
+    try {
+      const metadata = await getProjectInfo(analysisId);
+      setProjectMetadata(metadata);
 
-        // Load already completed plugins
-        try {
-          const statusData = await checkAllStatus(analysisId);
-          const completed = new Set<string>();
-          for (const [name, status] of Object.entries(statusData.plugins)) {
-            if (status === 'completed') completed.add(name);
-          }
-          setCompletedPlugins(completed);
-        } catch { /* status checking optional */ }
+      // Load presets for this OS
+      try {
+        const presetsData = await getPluginPresets(metadata.os_type || undefined);
+        setPresets(presetsData.presets);
+      } catch { /* presets are optional */ }
 
-        // Pokud je to Linux, zkontrolujeme dostupnost symbolů
-        if (metadata.os_type === 'linux') {
-          const symbols = await getSymbols();
-          setHasSymbols(symbols.length > 0);
+      // Load already completed plugins
+      try {
+        const statusData = await checkAllStatus(analysisId);
+        const completed = new Set<string>();
+        for (const [name, status] of Object.entries(statusData.plugins)) {
+          if (status === 'completed') completed.add(name);
         }
-      } catch (error) {
-        console.error('Failed to load metadata:', error);
-      } finally {
-        setIsLoadingMetadata(false);
+        setCompletedPlugins(completed);
+      } catch { /* status checking optional */ }
+
+      // Pokud je to Linux, zkontrolujeme dostupnost symbolů
+      if (metadata.os_type === 'linux') {
+        const symbols = await getSymbols();
+        setHasSymbols(symbols.length > 0);
       }
-    };
+    } catch (error) {
+      setMetadataError(error);
+    } finally {
+      setIsLoadingMetadata(false);
+    }
+  }, [analysisId]);
 
+  useEffect(() => {
     loadMetadata();
-  }, [analysisId]);
+  }, [loadMetadata]);
+
+  useEffect(() => {
+    if (metadataError) reportError(t('plugins.error.loadProject'), metadataError, loadMetadata, `project-metadata:${analysisId}`);
+  }, [metadataError, loadMetadata, analysisId, t]);
 
   // Filtrovat pluginy podle detekovaného OS
-  const osFilteredPlugins = projectMetadata?.os_type
-    ? plugins.filter(p => p.supported_os.includes(projectMetadata.os_type))
+  const osType = projectMetadata?.os_type;
+  const osFilteredPlugins = osType
+    ? plugins.filter(p => p.supported_os.includes(osType))
     : plugins;
 
   // Získáme unikátní kategorie z filtrovaných pluginů
@@ -76,19 +89,22 @@ export default function PluginSelector({
   const filteredPlugins = selectedCategory === 'all' 
     ? osFilteredPlugins 
     : osFilteredPlugins.filter(p => p.category === selectedCategory);
+  // Tabulátor vstoupí do seznamu na vybraný plugin (jinak na první), dál se chodí šipkami
+  const tabStopPlugin = filteredPlugins.find(p => isBatchMode ? selectedPlugins.has(p.name) : selectedPlugin === p.name)?.name
+    ?? filteredPlugins[0]?.name;
 
   const handleRunAnalysis = () => {
     if (isBatchMode && selectedPlugins.size > 0) {
       // Varování pokud je Linux bez symbolů
       if (projectMetadata?.os_type === 'linux' && !hasSymbols) {
-        if (!confirm('⚠️ Nemáte nahrané žádné symboly. Analýza pravděpodobně selže.\n\nOpravdu pokračovat?')) {
+        if (!confirm(t('plugins.confirmNoSymbols'))) {
           return;
         }
       }
       onBatchRun(Array.from(selectedPlugins));
     } else if (selectedPlugin) {
       if (projectMetadata?.os_type === 'linux' && !hasSymbols) {
-        if (!confirm('⚠️ Nemáte nahrané žádné symboly. Analýza pravděpodobně selže.\n\nOpravdu pokračovat?')) {
+        if (!confirm(t('plugins.confirmNoSymbols'))) {
           return;
         }
       }
@@ -120,7 +136,7 @@ export default function PluginSelector({
       <div className="vtf-loading" style={{ minHeight: '400px' }}>
         <div className="vtf-spinner"></div>
         <p style={{ color: 'var(--color-slate-600)', marginTop: '1rem' }}>
-          Načítám informace o projektu...
+          {t('plugins.loadingProject')}
         </p>
       </div>
     );
@@ -134,7 +150,7 @@ export default function PluginSelector({
           <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
             <div>
               <h3 style={{ fontSize: '0.9375rem', fontWeight: 600, marginBottom: '0.75rem', color: 'var(--color-slate-700)' }}>
-                Detekovaný operační systém
+                {t('plugins.detectedOs')}
               </h3>
               <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
                 <span className={`vtf-badge ${
@@ -152,7 +168,7 @@ export default function PluginSelector({
             </div>
             {projectMetadata.os_type === 'linux' && (
               <div className={`vtf-badge ${hasSymbols ? 'vtf-badge-success' : 'vtf-badge-warning'}`} style={{ padding: '0.75rem 1rem' }}>
-                {hasSymbols ? '✓ Symboly dostupné' : '⚠️ Chybí symboly'}
+                {hasSymbols ? `✓ ${t('plugins.symbolsAvailable')}` : `⚠️ ${t('plugins.symbolsMissing')}`}
               </div>
             )}
           </div>
@@ -164,10 +180,9 @@ export default function PluginSelector({
         <div className="vtf-alert vtf-alert-warning">
           <span className="vtf-alert-icon">⚠️</span>
           <div className="vtf-alert-content">
-            <div className="vtf-alert-title">Chybí symbol soubory</div>
+            <div className="vtf-alert-title">{t('plugins.noSymbols.title')}</div>
             <div className="vtf-alert-description">
-              Pro analýzu Linux memory dumpů jsou vyžadovány custom symboly (ISF soubory).
-              Bez nich analýza pravděpodobně selže. Nahrajte vmlinux s debug info nebo ISF soubor přes "Správa symbolů".
+              {t('plugins.noSymbols.description')}
             </div>
           </div>
         </div>
@@ -186,11 +201,11 @@ export default function PluginSelector({
               }}
               style={{ width: '18px', height: '18px', cursor: 'pointer' }}
             />
-            <span>Batch režim (vybrat více pluginů)</span>
+            <span>{t('plugins.batchMode')}</span>
           </label>
           {isBatchMode && selectedPlugins.size > 0 && (
             <span className="vtf-badge vtf-badge-primary" style={{ fontSize: '0.875rem' }}>
-              {selectedPlugins.size} {selectedPlugins.size === 1 ? 'plugin' : selectedPlugins.size < 5 ? 'pluginy' : 'pluginů'} vybráno
+              {t('plugins.selectedCount', { count: selectedPlugins.size })}
             </span>
           )}
         </div>
@@ -199,7 +214,7 @@ export default function PluginSelector({
         {Object.keys(presets).length > 0 && (
           <div style={{ paddingTop: '1rem', borderTop: '1px solid var(--color-slate-200)' }}>
             <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: 600, color: 'var(--color-slate-700)', marginBottom: '0.75rem' }}>
-              Rychlé presety:
+              {t('plugins.presets')}
             </label>
             <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
               {Object.entries(presets).map(([name, preset]) => (
@@ -222,7 +237,7 @@ export default function PluginSelector({
       {/* Filtr kategorií */}
       <div className="vtf-card" style={{ padding: '1.5rem' }}>
         <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: 600, color: 'var(--color-slate-700)', marginBottom: '0.75rem' }}>
-          Filtrovat podle kategorie:
+          {t('plugins.filterByCategory')}
         </label>
         <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
           {categories.map(category => (
@@ -238,14 +253,14 @@ export default function PluginSelector({
               }}
               disabled={isAnalyzing}
             >
-              {category === 'all' ? 'Všechny' : category}
+              {category === 'all' ? t('plugins.allCategories') : category}
             </button>
           ))}
         </div>
         {osFilteredPlugins.length < plugins.length && (
           <p style={{ fontSize: '0.8125rem', color: 'var(--color-slate-500)', marginTop: '0.75rem' }}>
-            Zobrazeny pluginy pro: <strong>{projectMetadata?.os_type?.toUpperCase()}</strong> 
-            ({osFilteredPlugins.length} z {plugins.length})
+            {t('plugins.shownFor')} <strong>{projectMetadata?.os_type?.toUpperCase()}</strong>{' '}
+            ({t('plugins.shownCount', { shown: osFilteredPlugins.length, total: plugins.length })})
           </p>
         )}
       </div>
@@ -254,33 +269,50 @@ export default function PluginSelector({
       {filteredPlugins.length === 0 ? (
         <div className="vtf-empty-state">
           <div className="vtf-empty-state-icon">🔌</div>
-          <h3 className="vtf-empty-state-title">Žádné pluginy v této kategorii</h3>
+          <h3 className="vtf-empty-state-title">{t('plugins.empty.title')}</h3>
           <p className="vtf-empty-state-description">
-            Vyberte jinou kategorii nebo zkuste režim "Všechny"
+            {t('plugins.empty.description')}
           </p>
         </div>
       ) : (
-        <div style={{ 
-          display: 'grid', 
-          gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))', 
-          gap: '1rem' 
-        }}>
+        <div
+          role="listbox"
+          aria-label={t('plugins.listLabel')}
+          aria-multiselectable={isBatchMode}
+          onKeyDown={e => moveListFocus(e, 'grid')}
+          style={{ 
+            display: 'grid', 
+            gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))', 
+            gap: '1rem' 
+          }}
+        >
           {filteredPlugins.map(plugin => {
             const isCompleted = completedPlugins.has(plugin.name);
             const isSelected = isBatchMode 
               ? selectedPlugins.has(plugin.name)
               : selectedPlugin === plugin.name;
+            const choose = () => {
+              if (isAnalyzing) return;
+              if (isBatchMode) {
+                togglePluginSelection(plugin.name);
+              } else {
+                setSelectedPlugin(plugin.name);
+              }
+            };
 
             return (
               <div
                 key={plugin.name}
-                onClick={() => {
-                  if (isAnalyzing) return;
-                  if (isBatchMode) {
-                    togglePluginSelection(plugin.name);
-                  } else {
-                    setSelectedPlugin(plugin.name);
-                  }
+                role="option"
+                aria-selected={isSelected}
+                aria-disabled={isAnalyzing}
+                tabIndex={plugin.name === tabStopPlugin ? 0 : -1}
+                data-nav-item
+                onClick={choose}
+                onKeyDown={e => {
+                  if (!isActivationKey(e)) return;
+                  e.preventDefault();
+                  choose();
                 }}
                 className="vtf-card"
                 style={{
@@ -288,7 +320,7 @@ export default function PluginSelector({
                   cursor: isAnalyzing ? 'not-allowed' : 'pointer',
                   opacity: isAnalyzing ? 0.5 : 1,
                   border: isSelected ? '2px solid var(--color-primary-500)' : '1px solid var(--color-slate-200)',
-                  background: isSelected ? 'var(--color-primary-50)' : 'white',
+                  background: isSelected ? 'var(--color-primary-50)' : 'var(--color-surface)',
                   transition: 'all var(--transition-base)'
                 }}
               >
@@ -301,6 +333,8 @@ export default function PluginSelector({
                         onChange={() => togglePluginSelection(plugin.name)}
                         style={{ width: '18px', height: '18px', cursor: 'pointer' }}
                         onClick={(e) => e.stopPropagation()}
+                        tabIndex={-1}
+                        aria-hidden="true"
                       />
                     )}
                     <span className="vtf-badge vtf-badge-primary" style={{ fontSize: '0.6875rem' }}>
@@ -310,7 +344,7 @@ export default function PluginSelector({
                   <div style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
                     {isCompleted && (
                       <span className="vtf-badge vtf-badge-success" style={{ fontSize: '0.6875rem' }}>
-                        ✓ Hotovo
+                        ✓ {t('plugins.done')}
                       </span>
                     )}
                     <span style={{ fontSize: '0.6875rem', color: 'var(--color-slate-500)' }}>
@@ -336,7 +370,7 @@ export default function PluginSelector({
           <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
             <div>
               <h3 style={{ fontSize: '1rem', fontWeight: 600, marginBottom: '0.5rem', color: 'var(--color-slate-900)' }}>
-                {isBatchMode ? `Vybrané pluginy (${selectedPlugins.size}):` : 'Vybraný plugin:'}
+                {isBatchMode ? t('plugins.selectedPlugins', { count: selectedPlugins.size }) : t('plugins.selectedPlugin')}
               </h3>
               {isBatchMode ? (
                 <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.375rem' }}>
@@ -368,10 +402,10 @@ export default function PluginSelector({
                     borderRadius: '50%',
                     animation: 'spin 0.8s linear infinite'
                   }}></div>
-                  Spouštím...
+                  {t('plugins.starting')}
                 </>
               ) : (
-                <>▶️ {isBatchMode ? 'Spustit batch analýzu' : 'Spustit analýzu'}</>
+                <>▶️ {isBatchMode ? t('plugins.runBatch') : t('plugins.run')}</>
               )}
             </button>
           </div>
@@ -1,49 +1,66 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import ProcessTree from './ProcessTree';
 import ProcessTimeline from './ProcessTimeline';
 import { useInvestigation } from '../context/InvestigationContext';
 import {
   correlateByPid,
   runAnalysisForPid,
-  checkPluginStatusForPid,
+  cancelAnalysisForPid,
+  subscribePluginStatus,
   getPluginResultsForPid,
+  isCancelledError,
+  PID_PLUGINS,
 } from '../api/vtfApi';
 import type { CorrelationResponse, ResultRow } from '../api/vtfApi';
+import { trackPidJob } from '../api/jobs';
+import { useI18n } from '../hooks/useI18n';
+import { loadWorkspaceState, saveWorkspaceState } from '../workspaceSession';
+import type { InvestigationTab } from '../workspaceSession';
+import { isActivationKey, moveListFocus } from '../a11y';
 
 interface ProcessInvestigationProps {
   analysisId: string;
+  /** Vybraný proces (z URL) */
+  pid?: number;
+  /** Výběr procesu - rodič přepne URL */
+  onSelectPid: (pid: number) => void;
   onNavigateToResults?: (plugin: string, data: ResultRow[]) => void;
   onNavigateToRegistry?: () => void;
 }
 
-type InvestigationTab = 'tree' | 'timeline' | 'watchlist' | 'detail';
-
 interface PerPidResult {
   plugin: string;
-  status: 'idle' | 'running' | 'completed' | 'failed';
+  status: 'idle' | 'running' | 'completed' | 'failed' | 'cancelled';
   data?: ResultRow[];
   error?: string;
+  /** Zrušení odesláno, čekáme na potvrzení ze status streamu */
+  cancelling?: boolean;
 }
 
-const PID_PLUGINS = [
-  { key: 'windows.dlllist.DllList', label: 'DLL List', icon: '📚' },
-  { key: 'windows.handles.Handles', label: 'Handles', icon: '🔗' },
-  { key: 'windows.malfind.Malfind', label: 'Malfind', icon: '🔍' },
-  { key: 'windows.envars.Envars', label: 'Env Vars', icon: '🌍' },
-  { key: 'windows.cmdline.CmdLine', label: 'CmdLine', icon: '💻' },
-  { key: 'windows.privileges.Privs', label: 'Privileges', icon: '🔑' },
-  { key: 'windows.vadinfo.VadInfo', label: 'VAD Info', icon: '🧠' },
-  { key: 'windows.memmap.Memmap', label: 'MemMap', icon: '🗺️' },
-  { key: 'windows.ldrmodules.LdrModules', label: 'LdrModules', icon: '📦' },
-  { key: 'windows.getsids.GetSIDs', label: 'SIDs', icon: '🏷️' },
-];
+/** Název procesu z korelovaných řádků - při otevření z odkazu ho jinak neznáme */
+function processNameFromCorrelation(correlation: CorrelationResponse): string {
+  for (const entry of Object.values(correlation.data)) {
+    for (const row of entry.rows) {
+      const name = row.ImageFileName ?? row.Process ?? row.Name;
+      if (typeof name === 'string' && name) return name;
+    }
+  }
+  return '';
+}
 
 export default function ProcessInvestigation({
   analysisId,
+  pid,
+  onSelectPid,
   onNavigateToResults,
   onNavigateToRegistry,
 }: ProcessInvestigationProps) {
-  const [activeTab, setActiveTab] = useState<InvestigationTab>('tree');
+  // Záložka z minulé práce na projektu - detail jen pokud je vybraný proces
+  const [restoredTab] = useState(() => {
+    const saved = loadWorkspaceState(analysisId).investigationTab;
+    return saved === 'detail' && pid === undefined ? undefined : saved;
+  });
+  const [activeTab, setActiveTab] = useState<InvestigationTab>(restoredTab ?? 'tree');
   const [selectedPid, setSelectedPid] = useState<number | null>(null);
   const [selectedProcessName, setSelectedProcessName] = useState<string>('');
   const [correlation, setCorrelation] = useState<CorrelationResponse | null>(null);
@@ -51,28 +68,62 @@ export default function ProcessInvestigation({
   const [pidResults, setPidResults] = useState<Record<string, PerPidResult>>({});
   const [activeDetailTab, setActiveDetailTab] = useState<string>('correlation');
   const { trackedPids, addTrackedPid, removeTrackedPid, isTracked } = useInvestigation();
+  const { t } = useI18n();
+  // Požadavky vázané na vybraný PID - při přepnutí procesu se zruší
+  const pidAbortRef = useRef(new AbortController());
+  // Názvy procesů vybraných ve stromu/časové ose (URL nese jen PID)
+  const processNamesRef = useRef(new Map<number, string>());
 
-  const handleSelectProcess = useCallback(async (pid: number, name: string) => {
-    setSelectedPid(pid);
-    setSelectedProcessName(name);
+  // Proces z URL při obnovení záložky - jeho načtení záložku nepřepne, výběr jiného procesu otevře detail
+  const restoredPidRef = useRef(restoredTab !== undefined ? pid : undefined);
+
+  useEffect(() => () => pidAbortRef.current.abort(), []);
+
+  useEffect(() => {
+    saveWorkspaceState(analysisId, { investigationTab: activeTab });
+  }, [analysisId, activeTab]);
+
+  const handleSelectProcess = useCallback((pid: number, name: string) => {
+    processNamesRef.current.set(pid, name);
     setActiveTab('detail');
+    onSelectPid(pid);
+  }, [onSelectPid]);
+
+  // Načtení detailu při změně vybraného PID (klik, odkaz i Zpět v prohlížeči)
+  useEffect(() => {
+    if (pid === undefined) {
+      setSelectedPid(null);
+      return;
+    }
+    pidAbortRef.current.abort();
+    pidAbortRef.current = new AbortController();
+    const { signal } = pidAbortRef.current;
+
+    const knownName = processNamesRef.current.get(pid);
+    setSelectedPid(pid);
+    setSelectedProcessName(knownName ?? '');
+    if (pid !== restoredPidRef.current) setActiveTab('detail');
     setActiveDetailTab('correlation');
     setPidResults({});
 
     // Load correlation
     setIsLoadingCorrelation(true);
-    try {
-      const result = await correlateByPid(analysisId, pid);
-      setCorrelation(result);
-    } catch {
-      setCorrelation(null);
-    } finally {
-      setIsLoadingCorrelation(false);
-    }
-  }, [analysisId]);
+    correlateByPid(analysisId, pid, signal)
+      .then(result => {
+        setCorrelation(result);
+        if (knownName === undefined) setSelectedProcessName(processNameFromCorrelation(result));
+      })
+      .catch(err => {
+        if (!isCancelledError(err)) setCorrelation(null);
+      })
+      .finally(() => {
+        if (!signal.aborted) setIsLoadingCorrelation(false);
+      });
+  }, [analysisId, pid]);
 
   const handleRunForPid = useCallback(async (pluginKey: string) => {
     if (selectedPid === null) return;
+    const { signal } = pidAbortRef.current;
 
     setPidResults(prev => ({
       ...prev,
@@ -80,41 +131,70 @@ export default function ProcessInvestigation({
     }));
 
     try {
-      await runAnalysisForPid(analysisId, pluginKey, selectedPid);
+      await runAnalysisForPid(analysisId, pluginKey, selectedPid, false, signal);
+      trackPidJob(analysisId, pluginKey, selectedPid);
 
-      // Poll for completion
-      const poll = setInterval(async () => {
-        try {
-          const status = await checkPluginStatusForPid(analysisId, pluginKey, selectedPid);
-          if (status.status === 'completed') {
-            clearInterval(poll);
-            const data = await getPluginResultsForPid(analysisId, pluginKey, selectedPid);
+      const setFailed = (error?: string) => setPidResults(prev => ({
+        ...prev,
+        [pluginKey]: { plugin: pluginKey, status: 'failed', error },
+      }));
+
+      // Wait for completion (pushed by server, polling fallback)
+      const unsubscribe = subscribePluginStatus(analysisId, [pluginKey], async update => {
+        if (update.status === 'completed') {
+          unsubscribe();
+          try {
+            const data = await getPluginResultsForPid(analysisId, pluginKey, selectedPid, signal);
             setPidResults(prev => ({
               ...prev,
               [pluginKey]: { plugin: pluginKey, status: 'completed', data },
             }));
-          } else if (status.status === 'failed') {
-            clearInterval(poll);
-            setPidResults(prev => ({
-              ...prev,
-              [pluginKey]: { plugin: pluginKey, status: 'failed', error: status.error },
-            }));
+          } catch (err) {
+            if (!isCancelledError(err)) setFailed(err instanceof Error ? err.message : undefined);
           }
-        } catch {
-          clearInterval(poll);
+        } else if (update.status === 'failed') {
+          unsubscribe();
+          setFailed(update.error);
+        } else if (update.status === 'cancelled') {
+          unsubscribe();
           setPidResults(prev => ({
             ...prev,
-            [pluginKey]: { plugin: pluginKey, status: 'failed', error: 'Status check failed' },
+            [pluginKey]: { plugin: pluginKey, status: 'cancelled' },
           }));
         }
-      }, 2000);
-    } catch (err: any) {
+      }, {
+        pid: selectedPid,
+        signal,
+        onError: err => {
+          unsubscribe();
+          setFailed(err.message || t('app.error.statusCheck'));
+        },
+      });
+    } catch (err) {
+      if (isCancelledError(err)) return;
       setPidResults(prev => ({
         ...prev,
-        [pluginKey]: { plugin: pluginKey, status: 'failed', error: err?.message || 'Failed to start' },
+        [pluginKey]: { plugin: pluginKey, status: 'failed', error: err instanceof Error ? err.message : t('investigation.startFailed') },
       }));
     }
-  }, [analysisId, selectedPid]);
+  }, [analysisId, selectedPid, t]);
+
+  const handleCancelForPid = useCallback(async (pluginKey: string) => {
+    if (selectedPid === null) return;
+    const { signal } = pidAbortRef.current;
+    const setCancelling = (cancelling: boolean, error?: string) => setPidResults(prev => ({
+      ...prev,
+      [pluginKey]: { ...prev[pluginKey], cancelling, error },
+    }));
+
+    setCancelling(true);
+    try {
+      await cancelAnalysisForPid(analysisId, pluginKey, selectedPid, signal);
+    } catch (err) {
+      if (isCancelledError(err)) return;
+      setCancelling(false, err instanceof Error ? err.message : t('jobs.cancelFailed'));
+    }
+  }, [analysisId, selectedPid, t]);
 
   const handleTrackToggle = useCallback(async () => {
     if (selectedPid === null) return;
@@ -133,10 +213,12 @@ export default function ProcessInvestigation({
   // Try loading already-existing per-PID results when switching to a process
   useEffect(() => {
     if (selectedPid === null) return;
+    const { signal } = pidAbortRef.current;
     const loadExisting = async () => {
       for (const p of PID_PLUGINS) {
+        if (signal.aborted) return;
         try {
-          const data = await getPluginResultsForPid(analysisId, p.key, selectedPid);
+          const data = await getPluginResultsForPid(analysisId, p.key, selectedPid, signal);
           if (data && Array.isArray(data) && data.length > 0) {
             setPidResults(prev => ({
               ...prev,
@@ -156,46 +238,59 @@ export default function ProcessInvestigation({
       {/* Tab bar */}
       <div style={{
         display: 'flex', gap: '0', borderBottom: '2px solid var(--color-slate-200)',
-        background: 'white', borderRadius: 'var(--radius-lg) var(--radius-lg) 0 0',
+        background: 'var(--color-surface)', borderRadius: 'var(--radius-lg) var(--radius-lg) 0 0',
       }}>
-        {([
-          { id: 'tree' as const, label: '🌳 Strom procesů', },
-          { id: 'timeline' as const, label: '📅 Časová osa' },
-          { id: 'watchlist' as const, label: `⭐ Sledované (${trackedPids.length})` },
-          ...(selectedPid !== null ? [{
-            id: 'detail' as const,
-            label: `🔍 ${selectedProcessName || 'Proces'} (${selectedPid})`,
-          }] : []),
-        ]).map(tab => (
-          <button
-            key={tab.id}
-            onClick={() => setActiveTab(tab.id)}
-            style={{
-              padding: '0.75rem 1.25rem', fontSize: '0.875rem', fontWeight: 500,
-              border: 'none', borderBottom: activeTab === tab.id ? '2px solid var(--color-primary)' : '2px solid transparent',
-              background: activeTab === tab.id ? 'var(--color-primary-50, #eff6ff)' : 'transparent',
-              color: activeTab === tab.id ? 'var(--color-primary)' : 'var(--color-slate-600)',
-              cursor: 'pointer', marginBottom: '-2px', transition: 'all 0.15s',
-              whiteSpace: 'nowrap',
-            }}
-          >
-            {tab.label}
-          </button>
-        ))}
+        <div role="tablist" aria-label={t('nav.investigation')} onKeyDown={e => moveListFocus(e, 'horizontal')} style={{ display: 'flex' }}>
+          {([
+            { id: 'tree' as const, label: `🌳 ${t('tree.title')}`, },
+            { id: 'timeline' as const, label: `📅 ${t('investigation.tab.timeline')}` },
+            { id: 'watchlist' as const, label: `⭐ ${t('timeline.filter.tracked')} (${trackedPids.length})` },
+            ...(selectedPid !== null ? [{
+              id: 'detail' as const,
+              label: `🔍 ${selectedProcessName || t('investigation.process')} (${selectedPid})`,
+            }] : []),
+          ]).map(tab => (
+            <button
+              key={tab.id}
+              id={`vtf-investigation-tab-${tab.id}`}
+              role="tab"
+              aria-selected={activeTab === tab.id}
+              aria-controls="vtf-investigation-panel"
+              tabIndex={activeTab === tab.id ? 0 : -1}
+              data-nav-item
+              onClick={() => setActiveTab(tab.id)}
+              style={{
+                padding: '0.75rem 1.25rem', fontSize: '0.875rem', fontWeight: 500,
+                border: 'none', borderBottom: activeTab === tab.id ? '2px solid var(--color-primary)' : '2px solid transparent',
+                background: activeTab === tab.id ? 'var(--color-primary-50, #eff6ff)' : 'transparent',
+                color: activeTab === tab.id ? 'var(--color-primary)' : 'var(--color-slate-600)',
+                cursor: 'pointer', marginBottom: '-2px', transition: 'all 0.15s',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
 
         {/* Right-side actions */}
         <div style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: '0.5rem', paddingRight: '0.75rem' }}>
           {onNavigateToRegistry && (
             <button onClick={onNavigateToRegistry} className="vtf-btn vtf-btn-secondary"
               style={{ padding: '0.375rem 0.75rem', fontSize: '0.8125rem' }}>
-              🗝️ Registry
+              🗝️ {t('nav.registry')}
             </button>
           )}
         </div>
       </div>
 
       {/* Content */}
-      <div style={{ flex: 1, minHeight: 0, overflow: 'hidden' }}>
+      <div
+        id="vtf-investigation-panel"
+        role="tabpanel"
+        aria-labelledby={`vtf-investigation-tab-${activeTab}`}
+        style={{ flex: 1, minHeight: 0, overflow: 'hidden' }}
+      >
         {activeTab === 'tree' && (
           <ProcessTree analysisId={analysisId} onSelectProcess={handleSelectProcess} />
         )}
@@ -223,6 +318,7 @@ export default function ProcessInvestigation({
             isTracked={isTracked(selectedPid)}
             onDetailTabChange={setActiveDetailTab}
             onRunPlugin={handleRunForPid}
+            onCancelPlugin={handleCancelForPid}
             onTrackToggle={handleTrackToggle}
             onNavigateToResults={onNavigateToResults}
           />
@@ -244,15 +340,16 @@ function WatchlistView({
   onSelectProcess: (pid: number, name: string) => void;
   onRemove: (pid: number) => Promise<void>;
 }) {
+  const { t, formatDateTime } = useI18n();
   if (trackedPids.length === 0) {
     return (
       <div style={{ padding: '3rem', textAlign: 'center' }}>
         <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>⭐</div>
         <h3 style={{ fontSize: '1.25rem', fontWeight: 600, color: 'var(--color-slate-700)' }}>
-          Žádné sledované procesy
+          {t('investigation.watchlist.empty')}
         </h3>
         <p style={{ color: 'var(--color-slate-500)', marginTop: '0.5rem' }}>
-          Klikněte na ☆ u procesu ve stromu pro přidání do sledovaných.
+          {t('investigation.watchlist.hint')}
         </p>
       </div>
     );
@@ -260,15 +357,28 @@ function WatchlistView({
 
   return (
     <div style={{ padding: '1rem', overflowY: 'auto', height: '100%' }}>
-      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(320px, 1fr))', gap: '0.75rem' }}>
+      <div
+        role="group"
+        aria-label={t('timeline.filter.tracked')}
+        onKeyDown={e => moveListFocus(e, 'grid')}
+        style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(320px, 1fr))', gap: '0.75rem' }}
+      >
         {trackedPids.map(tp => (
           <div
             key={tp.pid}
             className="vtf-card"
+            role="button"
+            tabIndex={0}
+            data-nav-item
             onClick={() => onSelectProcess(tp.pid, tp.process_name)}
+            onKeyDown={e => {
+              if (!isActivationKey(e)) return;
+              e.preventDefault();
+              onSelectProcess(tp.pid, tp.process_name);
+            }}
             style={{
               padding: '1rem', cursor: 'pointer',
-              borderLeft: '4px solid #f59e0b',
+              borderLeft: '4px solid var(--color-warning)',
               transition: 'box-shadow 0.15s',
             }}
             onMouseEnter={e => { (e.currentTarget as HTMLElement).style.boxShadow = 'var(--shadow-lg)'; }}
@@ -291,7 +401,8 @@ function WatchlistView({
                   background: 'transparent', border: 'none', cursor: 'pointer',
                   color: 'var(--color-slate-400)', fontSize: '1rem',
                 }}
-                title="Odebrat ze sledovaných"
+                title={t('tree.untrack')}
+                aria-label={t('tree.untrack')}
               >
                 ✕
               </button>
@@ -301,10 +412,10 @@ function WatchlistView({
                 <span key={tag} style={{
                   fontSize: '0.6875rem', fontWeight: 600, padding: '0.125rem 0.5rem',
                   borderRadius: '9999px', textTransform: 'uppercase',
-                  background: tag === 'suspicious' || tag === 'malware' ? '#fef2f2' :
-                              tag === 'cleared' || tag === 'benign' ? '#f0fdf4' : '#fefce8',
-                  color: tag === 'suspicious' || tag === 'malware' ? '#dc2626' :
-                         tag === 'cleared' || tag === 'benign' ? '#16a34a' : '#ca8a04',
+                  background: tag === 'suspicious' || tag === 'malware' ? 'var(--color-danger-50)' :
+                              tag === 'cleared' || tag === 'benign' ? 'var(--color-success-50)' : 'var(--color-warning-50)',
+                  color: tag === 'suspicious' || tag === 'malware' ? 'var(--color-danger-600)' :
+                         tag === 'cleared' || tag === 'benign' ? 'var(--color-success-600)' : 'var(--color-warning-600)',
                 }}>
                   {tag}
                 </span>
@@ -316,7 +427,7 @@ function WatchlistView({
               </p>
             )}
             <div style={{ fontSize: '0.6875rem', color: 'var(--color-slate-400)', marginTop: '0.375rem' }}>
-              Zdroj: {tp.source_plugin || '—'} • Přidáno: {tp.added_at ? new Date(tp.added_at).toLocaleString('cs-CZ') : '—'}
+              {t('investigation.watchlist.source')}: {tp.source_plugin || '—'} • {t('investigation.watchlist.added')}: {tp.added_at ? formatDateTime(tp.added_at) : '—'}
             </div>
           </div>
         ))}
@@ -338,6 +449,7 @@ function ProcessDetailView({
   isTracked,
   onDetailTabChange,
   onRunPlugin,
+  onCancelPlugin,
   onTrackToggle,
   onNavigateToResults,
 }: {
@@ -350,9 +462,11 @@ function ProcessDetailView({
   isTracked: boolean;
   onDetailTabChange: (tab: string) => void;
   onRunPlugin: (plugin: string) => void;
+  onCancelPlugin: (plugin: string) => void;
   onTrackToggle: () => void;
   onNavigateToResults?: (plugin: string, data: ResultRow[]) => void;
 }) {
+  const { t } = useI18n();
   return (
     <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
       {/* Process header */}
@@ -371,17 +485,17 @@ function ProcessDetailView({
           className={`vtf-btn ${isTracked ? 'vtf-btn-secondary' : 'vtf-btn-primary'}`}
           style={{ padding: '0.5rem 1rem', fontSize: '0.8125rem' }}
         >
-          {isTracked ? '⭐ Sledován' : '☆ Sledovat'}
+          {isTracked ? `⭐ ${t('grid.tracked')}` : `☆ ${t('investigation.track')}`}
         </button>
       </div>
 
       {/* Detail sub-tabs */}
-      <div style={{
+      <div role="tablist" aria-label={t('investigation.detailTabs')} onKeyDown={e => moveListFocus(e, 'horizontal')} style={{
         display: 'flex', gap: '0', overflowX: 'auto',
-        borderBottom: '1px solid var(--color-slate-200)', background: 'white',
+        borderBottom: '1px solid var(--color-slate-200)', background: 'var(--color-surface)',
         flexShrink: 0,
       }}>
-        <DetailTabBtn id="correlation" label="📊 Korelace" active={activeDetailTab} onClick={onDetailTabChange} />
+        <DetailTabBtn id="correlation" label={`📊 ${t('investigation.tab.correlation')}`} active={activeDetailTab} onClick={onDetailTabChange} />
         {PID_PLUGINS.map(p => (
           <DetailTabBtn
             key={p.key}
@@ -396,7 +510,12 @@ function ProcessDetailView({
       </div>
 
       {/* Detail content */}
-      <div style={{ flex: 1, overflowY: 'auto', padding: '1rem' }}>
+      <div
+        id="vtf-detail-panel"
+        role="tabpanel"
+        aria-labelledby={`vtf-detail-tab-${activeDetailTab}`}
+        style={{ flex: 1, overflowY: 'auto', padding: '1rem' }}
+      >
         {activeDetailTab === 'correlation' && (
           <CorrelationView
             correlation={correlation}
@@ -412,6 +531,7 @@ function ProcessDetailView({
               label={p.label}
               result={pidResults[p.key]}
               onRun={() => onRunPlugin(p.key)}
+              onCancel={() => onCancelPlugin(p.key)}
               pid={pid}
               onNavigateToResults={onNavigateToResults}
             />
@@ -432,6 +552,12 @@ function DetailTabBtn({
   const isActive = active === id;
   return (
     <button
+      id={`vtf-detail-tab-${id}`}
+      role="tab"
+      aria-selected={isActive}
+      aria-controls="vtf-detail-panel"
+      tabIndex={isActive ? 0 : -1}
+      data-nav-item
       onClick={() => onClick(id)}
       style={{
         padding: '0.5rem 0.875rem', fontSize: '0.75rem', fontWeight: 500,
@@ -467,11 +593,12 @@ function CorrelationView({
   correlation: CorrelationResponse | null;
   isLoading: boolean;
 }) {
+  const { t } = useI18n();
   if (isLoading) {
     return (
       <div style={{ textAlign: 'center', padding: '2rem' }}>
         <div className="vtf-spinner" />
-        <p style={{ color: 'var(--color-slate-500)', marginTop: '0.75rem' }}>Načítám korelaci...</p>
+        <p style={{ color: 'var(--color-slate-500)', marginTop: '0.75rem' }}>{t('grid.correlationLoading')}</p>
       </div>
     );
   }
@@ -479,7 +606,7 @@ function CorrelationView({
   if (!correlation || Object.keys(correlation.data).length === 0) {
     return (
       <div style={{ textAlign: 'center', padding: '2rem', color: 'var(--color-slate-500)' }}>
-        Žádná korelační data. Spusťte více pluginů pro lepší přehled.
+        {t('investigation.correlation.empty')}
       </div>
     );
   }
@@ -491,7 +618,7 @@ function CorrelationView({
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
             <h4 style={{ fontSize: '0.9375rem', fontWeight: 600, margin: 0 }}>{label}</h4>
             <span style={{ fontSize: '0.75rem', color: 'var(--color-slate-500)' }}>
-              {info.count} {info.count === 1 ? 'záznam' : info.count < 5 ? 'záznamy' : 'záznamů'} • {info.plugin}
+              {t('grid.records', { count: info.count })} • {info.plugin}
             </span>
           </div>
           <div style={{ maxHeight: '200px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
@@ -520,6 +647,7 @@ function PerPidPluginView({
   label,
   result,
   onRun,
+  onCancel,
   pid,
   onNavigateToResults,
 }: {
@@ -527,21 +655,23 @@ function PerPidPluginView({
   label: string;
   result?: PerPidResult;
   onRun: () => void;
+  onCancel: () => void;
   pid: number;
   onNavigateToResults?: (plugin: string, data: ResultRow[]) => void;
 }) {
+  const { t } = useI18n();
   if (!result || result.status === 'idle') {
     return (
       <div style={{ textAlign: 'center', padding: '3rem' }}>
         <div style={{ fontSize: '2.5rem', marginBottom: '1rem' }}>🚀</div>
         <h3 style={{ fontSize: '1.125rem', fontWeight: 600, color: 'var(--color-slate-700)' }}>
-          {label} pro PID {pid}
+          {t('investigation.pid.title', { plugin: label, pid: String(pid) })}
         </h3>
         <p style={{ color: 'var(--color-slate-500)', margin: '0.5rem 0 1.5rem' }}>
-          Výsledky ještě nejsou k dispozici.
+          {t('investigation.pid.notAvailable')}
         </p>
         <button onClick={onRun} className="vtf-btn vtf-btn-primary" style={{ padding: '0.625rem 1.5rem' }}>
-          ▶ Spustit {label}
+          ▶ {t('investigation.pid.run', { plugin: label })}
         </button>
       </div>
     );
@@ -552,8 +682,33 @@ function PerPidPluginView({
       <div style={{ textAlign: 'center', padding: '3rem' }}>
         <div className="vtf-spinner" />
         <p style={{ color: 'var(--color-slate-600)', marginTop: '1rem' }}>
-          Spouštím {label} pro PID {pid}...
+          {t('investigation.pid.running', { plugin: label, pid: String(pid) })}
         </p>
+        <button
+          onClick={onCancel}
+          disabled={result.cancelling}
+          className="vtf-btn vtf-btn-secondary"
+          style={{ marginTop: '1rem', color: 'var(--color-danger)' }}
+        >
+          {result.cancelling ? t('jobs.cancelling') : `⊘ ${t('common.cancel')}`}
+        </button>
+        {result.error && (
+          <p role="alert" style={{ color: 'var(--color-danger)', fontSize: '0.8125rem', marginTop: '0.5rem' }}>
+            {result.error}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  if (result.status === 'cancelled') {
+    return (
+      <div style={{ textAlign: 'center', padding: '2rem' }}>
+        <div style={{ fontSize: '2rem', marginBottom: '0.5rem' }}>⊘</div>
+        <p style={{ color: 'var(--color-slate-600)' }}>{t('investigation.pid.cancelled', { plugin: label, pid: String(pid) })}</p>
+        <button onClick={onRun} className="vtf-btn vtf-btn-secondary" style={{ marginTop: '1rem' }}>
+          ▶ {t('investigation.pid.runAgain')}
+        </button>
       </div>
     );
   }
@@ -562,9 +717,9 @@ function PerPidPluginView({
     return (
       <div style={{ textAlign: 'center', padding: '2rem' }}>
         <div style={{ fontSize: '2rem', marginBottom: '0.5rem' }}>❌</div>
-        <p style={{ color: 'var(--color-danger)' }}>{result.error || 'Plugin selhal.'}</p>
+        <p style={{ color: 'var(--color-danger)' }}>{result.error || t('investigation.pid.failed')}</p>
         <button onClick={onRun} className="vtf-btn vtf-btn-secondary" style={{ marginTop: '1rem' }}>
-          🔄 Zkusit znovu
+          🔄 {t('common.retry')}
         </button>
       </div>
     );
@@ -575,7 +730,7 @@ function PerPidPluginView({
   if (data.length === 0) {
     return (
       <div style={{ textAlign: 'center', padding: '2rem', color: 'var(--color-slate-500)' }}>
-        Plugin nevrátil žádná data pro PID {pid}.
+        {t('investigation.pid.noData', { pid: String(pid) })}
       </div>
     );
   }
@@ -587,7 +742,7 @@ function PerPidPluginView({
     <div>
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem' }}>
         <span style={{ fontSize: '0.875rem', color: 'var(--color-slate-600)' }}>
-          {data.length} {data.length === 1 ? 'záznam' : data.length < 5 ? 'záznamy' : 'záznamů'}
+          {t('grid.records', { count: data.length })}
         </span>
         <div style={{ display: 'flex', gap: '0.5rem' }}>
           {onNavigateToResults && (
@@ -596,12 +751,12 @@ function PerPidPluginView({
               className="vtf-btn vtf-btn-secondary"
               style={{ padding: '0.375rem 0.75rem', fontSize: '0.8125rem' }}
             >
-              📊 Zobrazit v tabulce
+              📊 {t('investigation.pid.showInGrid')}
             </button>
           )}
           <button onClick={onRun} className="vtf-btn vtf-btn-secondary"
             style={{ padding: '0.375rem 0.75rem', fontSize: '0.8125rem' }}>
-            🔄 Obnovit
+            🔄 {t('common.refresh')}
           </button>
         </div>
       </div>
@@ -640,7 +795,7 @@ function PerPidPluginView({
       </div>
       {data.length > 200 && (
         <p style={{ textAlign: 'center', color: 'var(--color-slate-500)', fontSize: '0.8125rem', marginTop: '0.5rem' }}>
-          Zobrazeno 200 z {data.length} záznamů. Klikněte "Zobrazit v tabulce" pro celý dataset.
+          {t('investigation.pid.truncated', { shown: 200, count: data.length })}
         </p>
       )}
     </div>
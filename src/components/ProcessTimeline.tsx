@@ -1,7 +1,11 @@
-import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
+import { useState, useRef, useCallback, useMemo } from 'react';
 import { getProcessTimeline } from '../api/vtfApi';
 import type { ProcessTimelineEntry } from '../api/vtfApi';
+import { queryKeys } from '../api/queryCache';
+import { useCachedQuery } from '../hooks/useCachedQuery';
 import { useInvestigation } from '../context/InvestigationContext';
+import { useI18n } from '../hooks/useI18n';
+import { isActivationKey, moveListFocus } from '../a11y';
 
 interface ProcessTimelineProps {
   analysisId: string;
@@ -9,30 +13,20 @@ interface ProcessTimelineProps {
 }
 
 export default function ProcessTimeline({ analysisId, onSelectProcess }: ProcessTimelineProps) {
-  const [processes, setProcesses] = useState<ProcessTimelineEntry[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [hoveredPid, setHoveredPid] = useState<number | null>(null);
   const [filter, setFilter] = useState<'all' | 'tracked' | 'malfind'>('all');
   const svgRef = useRef<SVGSVGElement>(null);
   const { isTracked: _isTracked } = useInvestigation();
+  const { t, formatTime, formatDateTime } = useI18n();
 
-  useEffect(() => {
-    loadTimeline();
-  }, [analysisId]);
-
-  const loadTimeline = async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      const response = await getProcessTimeline(analysisId);
-      setProcesses(response.processes);
-    } catch (err: any) {
-      setError(err?.response?.data?.detail || 'Nepodařilo se načíst timeline.');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { data: response, error: queryError, isLoading: loading } = useCachedQuery(
+    queryKeys.processTimeline(analysisId),
+    signal => getProcessTimeline(analysisId, signal)
+  );
+  const processes = useMemo<ProcessTimelineEntry[]>(() => response?.processes ?? [], [response]);
+  const error = !response && queryError
+    ? queryError.detail || t('timeline.loadFailed')
+    : null;
 
   const filteredProcesses = useMemo(() => {
     switch (filter) {
@@ -87,22 +81,22 @@ export default function ProcessTimeline({ analysisId, onSelectProcess }: Process
       const t = minTime + i * step;
       return {
         x: timeToX(t),
-        label: new Date(t).toLocaleTimeString('cs-CZ', { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+        label: formatTime(t),
       };
     });
-  }, [minTime, maxTime, timeToX]);
+  }, [minTime, maxTime, timeToX, formatTime]);
 
   const getBarColor = (p: ProcessTimelineEntry) => {
-    if (p.has_malfind) return '#ef4444';
-    if (p.is_tracked) return '#f59e0b';
-    return '#60a5fa';
+    if (p.has_malfind) return 'var(--color-danger)';
+    if (p.is_tracked) return 'var(--color-warning)';
+    return 'var(--color-primary-400)';
   };
 
   if (loading) {
     return (
       <div className="vtf-card" style={{ padding: '3rem', textAlign: 'center' }}>
         <div className="vtf-spinner" />
-        <p style={{ color: 'var(--color-slate-500)', marginTop: '1rem' }}>Načítám timeline...</p>
+        <p style={{ color: 'var(--color-slate-500)', marginTop: '1rem' }}>{t('timeline.loading')}</p>
       </div>
     );
   }
@@ -125,7 +119,7 @@ export default function ProcessTimeline({ analysisId, onSelectProcess }: Process
         borderRadius: 'var(--radius-lg) var(--radius-lg) 0 0',
       }}>
         <span style={{ fontSize: '1.125rem' }}>📅</span>
-        <h3 style={{ fontSize: '0.9375rem', fontWeight: 600, margin: 0 }}>Časová osa procesů</h3>
+        <h3 style={{ fontSize: '0.9375rem', fontWeight: 600, margin: 0 }}>{t('timeline.title')}</h3>
         
         <div style={{ display: 'flex', gap: '0.25rem', marginLeft: '1rem' }}>
           {(['all', 'tracked', 'malfind'] as const).map(f => (
@@ -135,14 +129,14 @@ export default function ProcessTimeline({ analysisId, onSelectProcess }: Process
               style={{
                 padding: '0.25rem 0.625rem', fontSize: '0.75rem', fontWeight: 500,
                 borderRadius: 'var(--radius-md)',
-                border: filter === f ? '1px solid var(--color-primary)' : '1px solid var(--color-slate-300)',
-                background: filter === f ? 'var(--color-primary)' : 'white',
+                border: filter === f ? '1px solid var(--color-primary-600)' : '1px solid var(--color-slate-300)',
+                background: filter === f ? 'var(--color-primary-600)' : 'var(--color-surface)',
                 color: filter === f ? 'white' : 'var(--color-slate-700)',
                 cursor: 'pointer',
               }}
             >
-              {f === 'all' ? `Vše (${processes.length})` : 
-               f === 'tracked' ? `Sledované (${processes.filter(p => p.is_tracked).length})` :
+              {f === 'all' ? `${t('timeline.filter.all')} (${processes.length})` :
+               f === 'tracked' ? `${t('timeline.filter.tracked')} (${processes.filter(p => p.is_tracked).length})` :
                `Malfind (${processes.filter(p => p.has_malfind).length})`}
             </button>
           ))}
@@ -150,17 +144,21 @@ export default function ProcessTimeline({ analysisId, onSelectProcess }: Process
 
         {/* Legend */}
         <div style={{ display: 'flex', gap: '1rem', marginLeft: 'auto', fontSize: '0.75rem', color: 'var(--color-slate-600)' }}>
-          <span><span style={{ display: 'inline-block', width: 10, height: 10, borderRadius: 2, background: '#60a5fa', marginRight: 4 }} />Normální</span>
-          <span><span style={{ display: 'inline-block', width: 10, height: 10, borderRadius: 2, background: '#f59e0b', marginRight: 4 }} />Sledovaný</span>
-          <span><span style={{ display: 'inline-block', width: 10, height: 10, borderRadius: 2, background: '#ef4444', marginRight: 4 }} />Malfind</span>
+          <span><span style={{ display: 'inline-block', width: 10, height: 10, borderRadius: 2, background: 'var(--color-primary-400)', marginRight: 4 }} />{t('timeline.legend.normal')}</span>
+          <span><span style={{ display: 'inline-block', width: 10, height: 10, borderRadius: 2, background: 'var(--color-warning)', marginRight: 4 }} />{t('timeline.legend.tracked')}</span>
+          <span><span style={{ display: 'inline-block', width: 10, height: 10, borderRadius: 2, background: 'var(--color-danger)', marginRight: 4 }} />Malfind</span>
         </div>
       </div>
 
       {/* Timeline SVG */}
       <div style={{ flex: 1, overflowY: 'auto', overflowX: 'auto' }}>
-        <svg ref={svgRef} width={svgWidth} height={svgHeight} style={{ fontFamily: 'var(--font-mono)', minWidth: svgWidth }}>
+        <svg
+          ref={svgRef} width={svgWidth} height={svgHeight} style={{ fontFamily: 'var(--font-mono)', minWidth: svgWidth }}
+          role="list" aria-label={t('timeline.title')}
+          onKeyDown={e => moveListFocus(e)}
+        >
           {/* Background */}
-          <rect width={svgWidth} height={svgHeight} fill="white" />
+          <rect width={svgWidth} height={svgHeight} fill="var(--color-surface)" />
 
           {/* Time axis */}
           <line x1={leftMargin} y1={topMargin - 10} x2={svgWidth - rightMargin} y2={topMargin - 10}
@@ -192,10 +190,22 @@ export default function ProcessTimeline({ analysisId, onSelectProcess }: Process
             return (
               <g
                 key={`${p.pid}-${idx}`}
-                style={{ cursor: 'pointer' }}
+                style={{ cursor: 'pointer', outline: 'none' }}
+                role="listitem"
+                aria-label={`${p.name} (${p.pid})`}
+                tabIndex={idx === 0 ? 0 : -1}
+                data-nav-item
                 onClick={() => onSelectProcess?.(p.pid, p.name)}
+                onKeyDown={e => {
+                  if (isActivationKey(e)) {
+                    e.preventDefault();
+                    onSelectProcess?.(p.pid, p.name);
+                  }
+                }}
                 onMouseEnter={() => setHoveredPid(p.pid)}
                 onMouseLeave={() => setHoveredPid(null)}
+                onFocus={() => setHoveredPid(p.pid)}
+                onBlur={() => setHoveredPid(null)}
               >
                 {/* Hover highlight */}
                 {isHovered && (
@@ -206,7 +216,7 @@ export default function ProcessTimeline({ analysisId, onSelectProcess }: Process
                 <text
                   x={leftMargin - 8} y={y + rowHeight / 2 + 4}
                   textAnchor="end" fontSize="10.5"
-                  fill={p.is_tracked ? '#b45309' : p.has_malfind ? '#dc2626' : 'var(--color-slate-700)'}
+                  fill={p.is_tracked ? 'var(--color-warning-700)' : p.has_malfind ? 'var(--color-danger-600)' : 'var(--color-slate-700)'}
                   fontWeight={p.is_tracked || p.has_malfind || isHovered ? 600 : 400}
                 >
                   {p.name.length > 18 ? p.name.substring(0, 18) + '…' : p.name} ({p.pid})
@@ -224,20 +234,20 @@ export default function ProcessTimeline({ analysisId, onSelectProcess }: Process
 
                 {/* Tracking star */}
                 {p.is_tracked && (
-                  <text x={x1 - 14} y={y + rowHeight / 2 + 4} fontSize="10" fill="#f59e0b">⭐</text>
+                  <text x={x1 - 14} y={y + rowHeight / 2 + 4} fontSize="10" fill="var(--color-warning)">⭐</text>
                 )}
 
                 {/* Tooltip on hover */}
                 {isHovered && (
                   <foreignObject x={Math.min(x1 + barWidth + 8, svgWidth - 220)} y={y - 10} width={210} height={60}>
                     <div style={{
-                      background: 'var(--color-slate-900)', color: 'white', padding: '0.375rem 0.5rem',
+                      background: 'var(--color-slate-900)', color: 'var(--color-slate-50)', padding: '0.375rem 0.5rem',
                       borderRadius: '6px', fontSize: '0.6875rem', lineHeight: 1.4, boxShadow: 'var(--shadow-lg)',
                     }}>
                       <strong>{p.name}</strong> (PID {p.pid}, PPID {p.ppid})<br />
-                      {p.create_time && `Vytvořen: ${new Date(p.create_time).toLocaleString('cs-CZ')}`}
-                      {p.exit_time && <><br />Ukončen: {new Date(p.exit_time).toLocaleString('cs-CZ')}</>}
-                      {p.has_malfind && <><br /><span style={{ color: '#fca5a5' }}>⚠ Malfind detekce</span></>}
+                      {p.create_time && `${t('timeline.created')}: ${formatDateTime(p.create_time)}`}
+                      {p.exit_time && <><br />{t('timeline.exited')}: {formatDateTime(p.exit_time)}</>}
+                      {p.has_malfind && <><br /><span style={{ color: 'var(--color-danger)' }}>⚠ {t('dashboard.stat.malfind')}</span></>}
                     </div>
                   </foreignObject>
                 )}
@@ -1,7 +1,13 @@
-import { useEffect, useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import type { KeyboardEvent } from 'react';
 import { getProcessTree } from '../api/vtfApi';
 import type { ProcessTreeNode } from '../api/vtfApi';
+import { queryKeys } from '../api/queryCache';
+import { useCachedQuery } from '../hooks/useCachedQuery';
 import { useInvestigation } from '../context/InvestigationContext';
+import { useI18n } from '../hooks/useI18n';
+import { loadWorkspaceState, saveWorkspaceState } from '../workspaceSession';
+import { focusNavItem, getNavItems, moveListFocus } from '../a11y';
 
 interface ProcessTreeProps {
   analysisId: string;
@@ -19,45 +25,50 @@ interface FlatTreeRow {
 }
 
 export default function ProcessTree({ analysisId, onSelectProcess }: ProcessTreeProps) {
-  const [treeData, setTreeData] = useState<ProcessTreeNode[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [expandedPids, setExpandedPids] = useState<Set<number>>(new Set());
+  // Rozbalení a hledání z minulé práce na projektu - s ním se první dvě úrovně automaticky nerozbalují
+  const [restored] = useState(() => loadWorkspaceState(analysisId).processTree);
+  const [expandedPids, setExpandedPids] = useState<Set<number>>(() => new Set(restored?.expanded));
+  const [expandedFor, setExpandedFor] = useState<string | null>(restored ? analysisId : null);
   const [selectedPid, setSelectedPid] = useState<number | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [focusedPid, setFocusedPid] = useState<number | null>(null);
+  const [searchTerm, setSearchTerm] = useState(restored?.search ?? '');
   const { isTracked, addTrackedPid, removeTrackedPid } = useInvestigation();
+  const { t, formatTime } = useI18n();
 
-  useEffect(() => {
-    loadTree();
-  }, [analysisId]);
-
-  const loadTree = async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      const response = await getProcessTree(analysisId);
-      setTreeData(response.tree);
-      // Auto-expand first two levels
-      const initialExpanded = new Set<number>();
-      const expandLevel = (nodes: ProcessTreeNode[], depth: number) => {
-        for (const node of nodes) {
-          const pid = node.PID ?? node.Pid ?? 0;
-          if (depth < 2) {
-            initialExpanded.add(pid);
-          }
-          if (node.__children) {
-            expandLevel(node.__children, depth + 1);
-          }
+  const { data: response, error: queryError, isLoading: loading } = useCachedQuery(
+    queryKeys.processTree(analysisId),
+    signal => getProcessTree(analysisId, signal)
+  );
+  const treeData = useMemo(() => response?.tree ?? [], [response]);
+  // Chybu zobrazíme jen pokud nemáme ani starší data z cache
+  const error = !response && queryError
+    ? queryError.detail || t('tree.loadFailed')
+    : null;
+
+  // Auto-expand first two levels - jen při prvním načtení projektu, revalidace rozbalení nemění
+  if (response && expandedFor !== analysisId) {
+    const initialExpanded = new Set<number>();
+    const expandLevel = (nodes: ProcessTreeNode[], depth: number) => {
+      for (const node of nodes) {
+        const pid = node.PID ?? node.Pid ?? 0;
+        if (depth < 2) {
+          initialExpanded.add(pid);
         }
-      };
-      expandLevel(response.tree, 0);
-      setExpandedPids(initialExpanded);
-    } catch (err: any) {
-      setError(err?.response?.data?.detail || 'Nepodařilo se načíst strom procesů.');
-    } finally {
-      setLoading(false);
-    }
-  };
+        if (node.__children) {
+          expandLevel(node.__children, depth + 1);
+        }
+      }
+    };
+    expandLevel(response.tree, 0);
+    setExpandedFor(analysisId);
+    setExpandedPids(initialExpanded);
+  }
+
+  useEffect(() => {
+    // Před automatickým rozbalením by se uložil prázdný strom
+    if (expandedFor !== analysisId) return;
+    saveWorkspaceState(analysisId, { processTree: { search: searchTerm, expanded: [...expandedPids] } });
+  }, [analysisId, expandedFor, expandedPids, searchTerm]);
 
   const toggleExpand = useCallback((pid: number) => {
     setExpandedPids(prev => {
@@ -143,6 +154,35 @@ export default function ProcessTree({ analysisId, onSelectProcess }: ProcessTree
     onSelectProcess?.(pid, name);
   }, [onSelectProcess]);
 
+  // Klávesnice podle vzoru stromu (WAI-ARIA): šipky nahoru/dolů mezi řádky, vpravo rozbalí
+  // nebo přejde na první dítě, vlevo sbalí nebo přejde na rodiče, Enter/mezerník otevře proces
+  const handleTreeKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (moveListFocus(event)) return;
+    // Klávesy na tlačítku sledování si tlačítko řeší samo
+    if ((event.target as HTMLElement).getAttribute('role') !== 'treeitem') return;
+    const { index } = getNavItems(event.currentTarget);
+    const row = flatRows[index];
+    if (!row) return;
+
+    if (event.key === 'Enter' || event.key === ' ') {
+      handleSelect(row.pid, row.name);
+    } else if (event.key === 'ArrowRight') {
+      if (row.hasChildren && !row.isExpanded) toggleExpand(row.pid);
+      else if (row.hasChildren) focusNavItem(event.currentTarget, index + 1);
+    } else if (event.key === 'ArrowLeft') {
+      if (row.hasChildren && row.isExpanded) {
+        toggleExpand(row.pid);
+      } else {
+        let parent = index - 1;
+        while (parent >= 0 && flatRows[parent].depth >= row.depth) parent--;
+        if (parent >= 0) focusNavItem(event.currentTarget, parent);
+      }
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
   const handleTrackToggle = useCallback(async (pid: number, name: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (isTracked(pid)) {
@@ -152,11 +192,17 @@ export default function ProcessTree({ analysisId, onSelectProcess }: ProcessTree
     }
   }, [isTracked, addTrackedPid, removeTrackedPid]);
 
+  // Tabulátorem se vstupuje na naposledy fokusovaný řádek, jinak vybraný proces nebo první řádek.
+  // Hvězdička je v pořadí tabulátoru jen u tohoto řádku.
+  const focusedIndex = flatRows.findIndex(r => r.pid === focusedPid);
+  const selectedIndex = flatRows.findIndex(r => r.pid === selectedPid);
+  const tabStopIndex = focusedIndex >= 0 ? focusedIndex : Math.max(selectedIndex, 0);
+
   if (loading) {
     return (
       <div className="vtf-card" style={{ padding: '3rem', textAlign: 'center' }}>
         <div className="vtf-spinner" />
-        <p style={{ color: 'var(--color-slate-500)', marginTop: '1rem' }}>Načítám strom procesů...</p>
+        <p style={{ color: 'var(--color-slate-500)', marginTop: '1rem' }}>{t('tree.loading')}</p>
       </div>
     );
   }
@@ -167,7 +213,7 @@ export default function ProcessTree({ analysisId, onSelectProcess }: ProcessTree
         <div style={{ fontSize: '2rem', marginBottom: '1rem' }}>⚠️</div>
         <p style={{ color: 'var(--color-danger)' }}>{error}</p>
         <p style={{ color: 'var(--color-slate-500)', fontSize: '0.875rem', marginTop: '0.5rem' }}>
-          Spusťte plugin PsTree, PsList nebo PsScan.
+          {t('tree.hint')}
         </p>
       </div>
     );
@@ -183,11 +229,12 @@ export default function ProcessTree({ analysisId, onSelectProcess }: ProcessTree
       }}>
         <span style={{ fontSize: '1.125rem' }}>🌳</span>
         <h3 style={{ fontSize: '0.9375rem', fontWeight: 600, margin: 0, marginRight: 'auto' }}>
-          Strom procesů
+          {t('tree.title')}
         </h3>
         <input
           type="text"
-          placeholder="Hledat PID nebo jméno..."
+          placeholder={t('tree.search')}
+          aria-label={t('tree.search')}
           value={searchTerm}
           onChange={e => setSearchTerm(e.target.value)}
           style={{
@@ -196,26 +243,40 @@ export default function ProcessTree({ analysisId, onSelectProcess }: ProcessTree
           }}
         />
         <button onClick={expandAll} className="vtf-btn vtf-btn-secondary" style={{ padding: '0.375rem 0.625rem', fontSize: '0.75rem' }}>
-          Rozbalit vše
+          {t('tree.expandAll')}
         </button>
         <button onClick={collapseAll} className="vtf-btn vtf-btn-secondary" style={{ padding: '0.375rem 0.625rem', fontSize: '0.75rem' }}>
-          Sbalit vše
+          {t('tree.collapseAll')}
         </button>
         <span style={{ fontSize: '0.75rem', color: 'var(--color-slate-500)' }}>
-          {flatRows.length} procesů
+          {t('tree.count', { count: flatRows.length })}
         </span>
       </div>
 
       {/* Tree */}
-      <div style={{ flex: 1, overflowY: 'auto', fontFamily: 'var(--font-mono)', fontSize: '0.8125rem' }}>
-        {flatRows.map((row) => {
+      <div
+        role="tree"
+        aria-label={t('tree.title')}
+        onKeyDown={handleTreeKeyDown}
+        style={{ flex: 1, overflowY: 'auto', fontFamily: 'var(--font-mono)', fontSize: '0.8125rem' }}
+      >
+        {flatRows.map((row, index) => {
           const tracked = isTracked(row.pid);
           const hasTrackedInfo = row.node._tracked;
           const isSelected = selectedPid === row.pid;
+          const isTabStop = index === tabStopIndex;
 
           return (
             <div
               key={`${row.pid}-${row.depth}`}
+              role="treeitem"
+              aria-level={row.depth + 1}
+              aria-expanded={row.hasChildren ? row.isExpanded : undefined}
+              aria-selected={isSelected}
+              tabIndex={isTabStop ? 0 : -1}
+              data-nav-item
+              className="vtf-focus-inset"
+              onFocus={e => e.target === e.currentTarget && setFocusedPid(row.pid)}
               onClick={() => handleSelect(row.pid, row.name)}
               style={{
                 display: 'flex',
@@ -226,11 +287,11 @@ export default function ProcessTree({ analysisId, onSelectProcess }: ProcessTree
                 background: isSelected
                   ? 'var(--color-primary-50, #eff6ff)'
                   : tracked
-                    ? 'rgba(250, 204, 21, 0.08)'
+                    ? 'var(--color-tracked-bg)'
                     : 'transparent',
                 borderBottom: '1px solid var(--color-slate-100)',
                 borderLeft: tracked
-                  ? '3px solid #f59e0b'
+                  ? '3px solid var(--color-warning)'
                   : hasTrackedInfo?.tags?.includes('suspicious') || hasTrackedInfo?.tags?.includes('malware')
                     ? '3px solid var(--color-danger)'
                     : '3px solid transparent',
@@ -241,12 +302,13 @@ export default function ProcessTree({ analysisId, onSelectProcess }: ProcessTree
               }}
               onMouseLeave={e => {
                 if (!isSelected) {
-                  (e.currentTarget as HTMLElement).style.background = tracked ? 'rgba(250, 204, 21, 0.08)' : 'transparent';
+                  (e.currentTarget as HTMLElement).style.background = tracked ? 'var(--color-tracked-bg)' : 'transparent';
                 }
               }}
             >
               {/* Expand/collapse toggle */}
               <span
+                aria-hidden="true"
                 onClick={(e) => { e.stopPropagation(); toggleExpand(row.pid); }}
                 style={{
                   width: '1.25rem', textAlign: 'center', flexShrink: 0,
@@ -259,13 +321,13 @@ export default function ProcessTree({ analysisId, onSelectProcess }: ProcessTree
               </span>
 
               {/* Process icon + name */}
-              <span style={{ marginLeft: '0.375rem', flexShrink: 0, fontSize: '0.875rem' }}>
+              <span aria-hidden="true" style={{ marginLeft: '0.375rem', flexShrink: 0, fontSize: '0.875rem' }}>
                 {row.pid === 4 || row.pid === 0 ? '🖥️' : row.name.toLowerCase().includes('svchost') ? '⚙️' : '📄'}
               </span>
               
               <span style={{
                 marginLeft: '0.5rem', fontWeight: isSelected ? 600 : 400,
-                color: tracked ? '#b45309' : 'var(--color-slate-800)',
+                color: tracked ? 'var(--color-warning-700)' : 'var(--color-slate-800)',
                 whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis',
               }}>
                 {row.name}
@@ -286,10 +348,10 @@ export default function ProcessTree({ analysisId, onSelectProcess }: ProcessTree
                 <span key={tag} style={{
                   marginLeft: '0.25rem', fontSize: '0.625rem', fontWeight: 600,
                   padding: '0.125rem 0.375rem', borderRadius: '9999px',
-                  background: tag === 'suspicious' || tag === 'malware' ? '#fef2f2' :
-                              tag === 'cleared' || tag === 'benign' ? '#f0fdf4' : '#fefce8',
-                  color: tag === 'suspicious' || tag === 'malware' ? '#dc2626' :
-                         tag === 'cleared' || tag === 'benign' ? '#16a34a' : '#ca8a04',
+                  background: tag === 'suspicious' || tag === 'malware' ? 'var(--color-danger-50)' :
+                              tag === 'cleared' || tag === 'benign' ? 'var(--color-success-50)' : 'var(--color-warning-50)',
+                  color: tag === 'suspicious' || tag === 'malware' ? 'var(--color-danger-600)' :
+                         tag === 'cleared' || tag === 'benign' ? 'var(--color-success-600)' : 'var(--color-warning-600)',
                   textTransform: 'uppercase',
                 }}>
                   {tag}
@@ -305,16 +367,17 @@ export default function ProcessTree({ analysisId, onSelectProcess }: ProcessTree
                   fontSize: '0.6875rem', color: 'var(--color-slate-400)',
                   marginRight: '0.75rem', flexShrink: 0,
                 }}>
-                  {new Date(row.node.CreateTime).toLocaleString('cs-CZ', {
-                    hour: '2-digit', minute: '2-digit', second: '2-digit',
-                  })}
+                  {formatTime(row.node.CreateTime)}
                 </span>
               )}
 
               {/* Track button */}
               <button
                 onClick={(e) => handleTrackToggle(row.pid, row.name, e)}
-                title={tracked ? 'Odebrat ze sledovaných' : 'Sledovat proces'}
+                title={tracked ? t('tree.untrack') : t('tree.track')}
+                aria-label={tracked ? t('tree.untrack') : t('tree.track')}
+                aria-pressed={tracked}
+                tabIndex={isTabStop ? 0 : -1}
                 style={{
                   background: 'transparent', border: 'none', cursor: 'pointer',
                   fontSize: '1rem', padding: '0.125rem', lineHeight: 1,
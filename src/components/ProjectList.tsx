@@ -1,40 +1,44 @@
-import type { ProjectInfo } from '../api/vtfApi';
+import type { ServerProjectsResult, ServerProjectInfo } from '../api/vtfApi';
+import { useI18n } from '../hooks/useI18n';
+import { isActivationKey, moveListFocus } from '../a11y';
 
 interface ProjectListProps {
-  projects: ProjectInfo[];
-  onProjectSelect: (analysisId: string) => void;
+  projects: ServerProjectInfo[];
+  /** Servery z registru, které projekty nevrátily */
+  unavailableServers?: ServerProjectsResult['failures'];
+  /** Zobrazit u projektu, ze kterého serveru pochází (má smysl jen při více serverech) */
+  showServerBadges?: boolean;
+  onProjectSelect: (analysisId: string, serverId: string) => void;
   onCreateNew: () => void;
   isLoading?: boolean;
 }
 
 export default function ProjectList({ 
   projects, 
+  unavailableServers = [],
+  showServerBadges = false,
   onProjectSelect, 
   onCreateNew,
   isLoading = false 
 }: ProjectListProps) {
+  const { t, formatNumber, formatDateTime } = useI18n();
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 B';
     const k = 1024;
     const sizes = ['B', 'KB', 'MB', 'GB'];
     const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
+    return `${formatNumber(bytes / Math.pow(k, i), { maximumFractionDigits: 2 })} ${sizes[i]}`;
   };
 
-  const formatDate = (dateString: string): string => {
-    try {
-      const date = new Date(dateString);
-      return date.toLocaleString('cs-CZ', {
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit'
-      });
-    } catch {
-      return dateString;
-    }
-  };
+  const formatDate = (dateString: string): string =>
+    formatDateTime(dateString, {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
 
   const getOSIcon = (osType?: string): string => {
     if (osType === 'windows') return '🪟';
@@ -64,7 +68,7 @@ export default function ProjectList({
           Volatility Forensics Platform
         </h1>
         <p style={{ fontSize: '1.125rem', color: 'var(--color-slate-600)', maxWidth: '600px', margin: '0 auto' }}>
-          Profesionální nástroj pro forensickou analýzu memory dumpů
+          {t('projects.tagline')}
         </p>
       </div>
 
@@ -82,21 +86,37 @@ export default function ProjectList({
         }}
       >
         <span style={{ fontSize: '1.5rem' }}>+</span>
-        <span>Vytvořit nový projekt</span>
+        <span>{t('projects.create')}</span>
       </button>
 
+      {!isLoading && unavailableServers.length > 0 && (
+        <div className="vtf-alert vtf-alert-warning" style={{ marginBottom: '1.5rem' }}>
+          <span className="vtf-alert-icon">⚠️</span>
+          <div className="vtf-alert-content">
+            <div className="vtf-alert-title">{t('projects.unavailableServers')}</div>
+            <div className="vtf-alert-description">
+              {unavailableServers.map(({ server, error }) => (
+                <div key={server.id}>
+                  <strong>{server.name}</strong> ({server.url}) – {error.message}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Projects List */}
       {isLoading ? (
         <div className="vtf-loading" style={{ minHeight: '300px' }}>
           <div className="vtf-spinner"></div>
-          <p style={{ color: 'var(--color-slate-600)', marginTop: '1rem' }}>Načítám projekty...</p>
+          <p style={{ color: 'var(--color-slate-600)', marginTop: '1rem' }}>{t('projects.loading')}</p>
         </div>
       ) : projects.length === 0 ? (
         <div className="vtf-empty-state">
           <div className="vtf-empty-state-icon">📁</div>
-          <h3 className="vtf-empty-state-title">Zatím žádné projekty</h3>
+          <h3 className="vtf-empty-state-title">{t('projects.empty.title')}</h3>
           <p className="vtf-empty-state-description">
-            Vytvořte nový projekt nahráním memory dump souboru
+            {t('projects.empty.description')}
           </p>
         </div>
       ) : (
@@ -110,22 +130,35 @@ export default function ProjectList({
             borderBottom: '2px solid var(--color-slate-200)'
           }}>
             <h2 style={{ fontSize: '1.5rem', fontWeight: 600, color: 'var(--color-slate-900)' }}>
-              Moje projekty
+              {t('projects.mine')}
             </h2>
             <span className="vtf-badge vtf-badge-slate" style={{ fontSize: '0.875rem', padding: '0.5rem 1rem' }}>
-              {projects.length} {projects.length === 1 ? 'projekt' : projects.length < 5 ? 'projekty' : 'projektů'}
+              {t('projects.count', { count: projects.length })}
             </span>
           </div>
           
-          <div style={{ 
-            display: 'grid', 
-            gridTemplateColumns: 'repeat(auto-fill, minmax(320px, 1fr))', 
-            gap: '1.5rem' 
-          }}>
+          <div
+            role="group"
+            aria-label={t('projects.mine')}
+            onKeyDown={e => moveListFocus(e, 'grid')}
+            style={{ 
+              display: 'grid', 
+              gridTemplateColumns: 'repeat(auto-fill, minmax(320px, 1fr))', 
+              gap: '1.5rem' 
+            }}
+          >
             {projects.map(project => (
               <div
-                key={project.analysis_id}
-                onClick={() => onProjectSelect(project.analysis_id)}
+                key={`${project.server.id}:${project.analysis_id}`}
+                role="button"
+                tabIndex={0}
+                data-nav-item
+                onClick={() => onProjectSelect(project.analysis_id, project.server.id)}
+                onKeyDown={e => {
+                  if (!isActivationKey(e)) return;
+                  e.preventDefault();
+                  onProjectSelect(project.analysis_id, project.server.id);
+                }}
                 className="vtf-card"
                 style={{ 
                   padding: '1.5rem',
@@ -163,6 +196,15 @@ export default function ProjectList({
                     <span className="vtf-badge vtf-badge-slate" style={{ fontSize: '0.6875rem' }}>
                       {formatFileSize(project.size_bytes)}
                     </span>
+                    {showServerBadges && (
+                      <span
+                        className="vtf-badge vtf-badge-slate"
+                        style={{ fontSize: '0.6875rem', maxWidth: '160px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                        title={project.server.url}
+                      >
+                        🖥️ {project.server.name}
+                      </span>
+                    )}
                   </div>
                 </div>
                 
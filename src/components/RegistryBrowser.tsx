@@ -1,27 +1,47 @@
-import { useEffect, useState, useCallback } from 'react';
-import { getRegistryHives, getRegistryKeys } from '../api/vtfApi';
+import { useEffect, useRef, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+import { getRegistryHives, getRegistryKeys, isCancelledError, VtfApiError } from '../api/vtfApi';
 import type { RegistryHive, RegistryKeysResponse } from '../api/vtfApi';
+import { useI18n } from '../hooks/useI18n';
+import { focusNavItem, isActivationKey, moveListFocus } from '../a11y';
 
 interface RegistryBrowserProps {
   analysisId: string;
+  /** Offset otevřeného hivu (z URL) */
+  hiveOffset?: number;
+  /** Segmenty cesty otevřeného klíče (z URL) */
+  keyPath?: string[];
+  /** Otevření hivu nebo klíče - rodič přepne URL */
+  onNavigate: (hiveOffset?: number, keyPath?: string[]) => void;
 }
 
 interface BreadcrumbItem {
   label: string;
-  keyPath: string | null;
-  hiveOffset: number | null;
+  keyPath: string[];
 }
 
-export default function RegistryBrowser({ analysisId }: RegistryBrowserProps) {
+export default function RegistryBrowser({ analysisId, hiveOffset, keyPath = [], onNavigate }: RegistryBrowserProps) {
   const [hives, setHives] = useState<RegistryHive[]>([]);
-  const [selectedHive, setSelectedHive] = useState<RegistryHive | null>(null);
   const [keysData, setKeysData] = useState<RegistryKeysResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [loadingKeys, setLoadingKeys] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [breadcrumbs, setBreadcrumbs] = useState<BreadcrumbItem[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedKey, setSelectedKey] = useState<any>(null);
+  const { t, formatDateTime } = useI18n();
+  // Po otevření klíče z klávesnice přejde fokus na obsah nového klíče (starý řádek zmizí)
+  const contentRef = useRef<HTMLDivElement>(null);
+  const focusContentRef = useRef(false);
+  // Cesta pro API - klíče v registrech se oddělují zpětným lomítkem
+  const keyPathString = keyPath.join('\\');
+
+  const selectedHive = hives.find(h => h.offset === hiveOffset) ?? null;
+  const breadcrumbs: BreadcrumbItem[] = selectedHive
+    ? [
+        { label: selectedHive.short_name, keyPath: [] },
+        ...keyPath.map((segment, i) => ({ label: segment, keyPath: keyPath.slice(0, i + 1) })),
+      ]
+    : [];
 
   useEffect(() => {
     loadHives();
@@ -33,49 +53,70 @@ export default function RegistryBrowser({ analysisId }: RegistryBrowserProps) {
     try {
       const result = await getRegistryHives(analysisId);
       setHives(result.hives);
-    } catch (err: any) {
-      setError(err?.response?.data?.detail || 'Nepodařilo se načíst registry hivy. Spusťte HiveList plugin.');
+    } catch (err) {
+      setError((err instanceof VtfApiError && err.detail) || t('registry.loadFailed'));
     } finally {
       setLoading(false);
     }
   };
 
-  const handleSelectHive = useCallback(async (hive: RegistryHive) => {
-    setSelectedHive(hive);
+  // Klíče otevřeného hivu se načtou při každé změně cesty (klik, odkaz i Zpět v prohlížeči)
+  useEffect(() => {
+    if (hiveOffset === undefined) return;
+    const controller = new AbortController();
     setSelectedKey(null);
-    setBreadcrumbs([{ label: hive.short_name, keyPath: null, hiveOffset: hive.offset }]);
-    await loadKeys(hive.offset, undefined);
-  }, [analysisId]);
-
-  const loadKeys = async (hiveOffset?: number, keyPath?: string) => {
     setLoadingKeys(true);
-    try {
-      const result = await getRegistryKeys(analysisId, hiveOffset, keyPath);
-      setKeysData(result);
-    } catch {
-      setKeysData(null);
-    } finally {
-      setLoadingKeys(false);
-    }
+    getRegistryKeys(analysisId, hiveOffset, keyPathString || undefined, controller.signal)
+      .then(result => setKeysData(result))
+      .catch(err => {
+        if (!isCancelledError(err)) setKeysData(null);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoadingKeys(false);
+      });
+    return () => controller.abort();
+  }, [analysisId, hiveOffset, keyPathString]);
+
+  const handleSelectHive = (hive: RegistryHive) => {
+    onNavigate(hive.offset);
   };
 
-  const handleNavigateKey = useCallback(async (key: any) => {
+  const handleNavigateKey = (key: any) => {
     const keyName = key.Name || key.name;
     const parentPath = key.Key || key.key || '';
-    const newPath = parentPath ? `${parentPath}\\${keyName}` : keyName;
+    const newPath: string = parentPath ? `${parentPath}\\${keyName}` : keyName;
+    onNavigate(hiveOffset, newPath.split('\\').filter(Boolean));
+  };
 
-    const hiveOffset = selectedHive?.offset;
-    setBreadcrumbs(prev => [...prev, { label: keyName, keyPath: newPath, hiveOffset: hiveOffset ?? null }]);
-    await loadKeys(hiveOffset, newPath);
-    setSelectedKey(null);
-  }, [selectedHive, analysisId]);
+  const handleBreadcrumbClick = (index: number) => {
+    onNavigate(hiveOffset, breadcrumbs[index].keyPath);
+  };
 
-  const handleBreadcrumbClick = useCallback(async (index: number) => {
-    const bc = breadcrumbs[index];
-    setBreadcrumbs(prev => prev.slice(0, index + 1));
-    await loadKeys(bc.hiveOffset ?? undefined, bc.keyPath ?? undefined);
-    setSelectedKey(null);
-  }, [breadcrumbs, analysisId]);
+  useEffect(() => {
+    if (loadingKeys || !focusContentRef.current || !contentRef.current) return;
+    focusContentRef.current = false;
+    focusNavItem(contentRef.current, 0);
+  }, [loadingKeys]);
+
+  // Enter otevře klíč, mezerník ho vybere, Backspace se vrátí o úroveň výš
+  const handleKeyRowKeyDown = (event: KeyboardEvent<HTMLDivElement>, key: RegistryKeysResponse['keys'][number]) => {
+    if (isActivationKey(event)) {
+      event.preventDefault();
+      if (event.key === 'Enter') {
+        focusContentRef.current = true;
+        handleNavigateKey(key);
+      } else {
+        setSelectedKey(key);
+      }
+    }
+  };
+
+  const handleContentKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key !== 'Backspace' || keyPath.length === 0) return;
+    event.preventDefault();
+    focusContentRef.current = true;
+    onNavigate(hiveOffset, keyPath.slice(0, -1));
+  };
 
   // Filter keys and values by search
   const filteredKeys = keysData?.keys.filter(k => {
@@ -95,7 +136,7 @@ export default function RegistryBrowser({ analysisId }: RegistryBrowserProps) {
     return (
       <div className="vtf-card" style={{ padding: '3rem', textAlign: 'center' }}>
         <div className="vtf-spinner" />
-        <p style={{ color: 'var(--color-slate-500)', marginTop: '1rem' }}>Načítám registry hivy...</p>
+        <p style={{ color: 'var(--color-slate-500)', marginTop: '1rem' }}>{t('registry.loading')}</p>
       </div>
     );
   }
@@ -106,7 +147,7 @@ export default function RegistryBrowser({ analysisId }: RegistryBrowserProps) {
         <div style={{ fontSize: '2rem', marginBottom: '1rem' }}>🗝️</div>
         <p style={{ color: 'var(--color-danger)' }}>{error}</p>
         <p style={{ color: 'var(--color-slate-500)', fontSize: '0.875rem', marginTop: '0.5rem' }}>
-          Spusťte pluginy HiveList a PrintKey.
+          {t('registry.hint')}
         </p>
       </div>
     );
@@ -123,19 +164,34 @@ export default function RegistryBrowser({ analysisId }: RegistryBrowserProps) {
           padding: '0.75rem', borderBottom: '1px solid var(--color-slate-200)',
           fontWeight: 600, fontSize: '0.875rem', display: 'flex', alignItems: 'center', gap: '0.5rem',
         }}>
-          🗝️ Registry Hivy
+          🗝️ {t('registry.hives')}
         </div>
-        <div style={{ flex: 1, overflowY: 'auto' }}>
+        <div
+          role="listbox"
+          aria-label={t('registry.hives')}
+          onKeyDown={e => moveListFocus(e)}
+          style={{ flex: 1, overflowY: 'auto' }}
+        >
           {hives.map((hive, idx) => {
             const isSelected = selectedHive?.offset === hive.offset;
             const icon = getHiveIcon(hive.file_path);
             return (
               <div
                 key={idx}
+                role="option"
+                aria-selected={isSelected}
+                tabIndex={isSelected || (!selectedHive && idx === 0) ? 0 : -1}
+                data-nav-item
+                className="vtf-focus-inset"
                 onClick={() => handleSelectHive(hive)}
+                onKeyDown={e => {
+                  if (!isActivationKey(e)) return;
+                  e.preventDefault();
+                  handleSelectHive(hive);
+                }}
                 style={{
                   padding: '0.5rem 0.75rem', cursor: 'pointer', fontSize: '0.8125rem',
-                  background: isSelected ? 'white' : 'transparent',
+                  background: isSelected ? 'var(--color-surface)' : 'transparent',
                   borderLeft: isSelected ? '3px solid var(--color-primary)' : '3px solid transparent',
                   borderBottom: '1px solid var(--color-slate-100)',
                   fontFamily: 'var(--font-mono)',
@@ -145,7 +201,7 @@ export default function RegistryBrowser({ analysisId }: RegistryBrowserProps) {
                 onMouseEnter={e => { if (!isSelected) (e.currentTarget as HTMLElement).style.background = 'var(--color-slate-100)'; }}
                 onMouseLeave={e => { if (!isSelected) (e.currentTarget as HTMLElement).style.background = 'transparent'; }}
               >
-                <span>{icon}</span>
+                <span aria-hidden="true">{icon}</span>
                 <div style={{ overflow: 'hidden' }}>
                   <div style={{ fontWeight: isSelected ? 600 : 400, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
                     {hive.short_name}
@@ -166,23 +222,24 @@ export default function RegistryBrowser({ analysisId }: RegistryBrowserProps) {
           <div style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
             <div style={{ textAlign: 'center', color: 'var(--color-slate-500)' }}>
               <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>🗂️</div>
-              <h3 style={{ fontSize: '1.125rem', fontWeight: 600 }}>Vyberte hive</h3>
-              <p style={{ fontSize: '0.875rem' }}>Klikněte na hive vlevo pro procházení registrů.</p>
+              <h3 style={{ fontSize: '1.125rem', fontWeight: 600 }}>{t('registry.selectHive')}</h3>
+              <p style={{ fontSize: '0.875rem' }}>{t('registry.selectHiveHint')}</p>
             </div>
           </div>
         ) : (
           <>
             {/* Breadcrumbs */}
-            <div style={{
+            <nav aria-label={t('registry.breadcrumbs')} style={{
               display: 'flex', alignItems: 'center', gap: '0.25rem', padding: '0.5rem 0.75rem',
               borderBottom: '1px solid var(--color-slate-200)', background: 'var(--color-slate-50)',
               fontSize: '0.8125rem', flexWrap: 'wrap',
             }}>
               {breadcrumbs.map((bc, i) => (
                 <span key={i} style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
-                  {i > 0 && <span style={{ color: 'var(--color-slate-400)' }}>›</span>}
+                  {i > 0 && <span aria-hidden="true" style={{ color: 'var(--color-slate-400)' }}>›</span>}
                   <button
                     onClick={() => handleBreadcrumbClick(i)}
+                    aria-current={i === breadcrumbs.length - 1 ? 'location' : undefined}
                     style={{
                       background: 'none', border: 'none', cursor: 'pointer',
                       color: i === breadcrumbs.length - 1 ? 'var(--color-slate-800)' : 'var(--color-primary)',
@@ -196,13 +253,14 @@ export default function RegistryBrowser({ analysisId }: RegistryBrowserProps) {
                   </button>
                 </span>
               ))}
-            </div>
+            </nav>
 
             {/* Search */}
             <div style={{ padding: '0.5rem 0.75rem', borderBottom: '1px solid var(--color-slate-200)' }}>
               <input
                 type="text"
-                placeholder="Filtrovat klíče a hodnoty..."
+                placeholder={t('registry.filter')}
+                aria-label={t('registry.filter')}
                 value={searchTerm}
                 onChange={e => setSearchTerm(e.target.value)}
                 style={{
@@ -218,21 +276,36 @@ export default function RegistryBrowser({ analysisId }: RegistryBrowserProps) {
                 <div className="vtf-spinner" />
               </div>
             ) : (
-              <div style={{ flex: 1, overflowY: 'auto', display: 'flex', flexDirection: 'column' }}>
+              <div
+                ref={contentRef}
+                onKeyDown={handleContentKeyDown}
+                style={{ flex: 1, overflowY: 'auto', display: 'flex', flexDirection: 'column' }}
+              >
                 {/* Subkeys */}
                 {filteredKeys.length > 0 && (
-                  <div style={{ borderBottom: '1px solid var(--color-slate-200)' }}>
-                    <div style={{
+                  <div
+                    role="listbox"
+                    aria-labelledby="vtf-registry-keys"
+                    onKeyDown={e => moveListFocus(e)}
+                    style={{ borderBottom: '1px solid var(--color-slate-200)' }}
+                  >
+                    <div id="vtf-registry-keys" style={{
                       padding: '0.5rem 0.75rem', fontSize: '0.75rem', fontWeight: 600,
                       color: 'var(--color-slate-500)', background: 'var(--color-slate-50)',
                     }}>
-                      📁 Klíče ({filteredKeys.length})
+                      📁 {t('registry.keys')} ({filteredKeys.length})
                     </div>
                     {filteredKeys.map((key, idx) => (
                       <div
                         key={idx}
+                        role="option"
+                        aria-selected={selectedKey === key}
+                        tabIndex={selectedKey === key || (!filteredKeys.includes(selectedKey) && idx === 0) ? 0 : -1}
+                        data-nav-item
+                        className="vtf-focus-inset"
                         onDoubleClick={() => handleNavigateKey(key)}
                         onClick={() => setSelectedKey(key)}
+                        onKeyDown={e => handleKeyRowKeyDown(e, key)}
                         style={{
                           display: 'flex', alignItems: 'center', gap: '0.5rem',
                           padding: '0.375rem 0.75rem', cursor: 'pointer',
@@ -243,12 +316,13 @@ export default function RegistryBrowser({ analysisId }: RegistryBrowserProps) {
                         onMouseEnter={e => { if (selectedKey !== key) (e.currentTarget as HTMLElement).style.background = 'var(--color-slate-50)'; }}
                         onMouseLeave={e => { if (selectedKey !== key) (e.currentTarget as HTMLElement).style.background = 'transparent'; }}
                       >
-                        <span>📁</span>
+                        <span aria-hidden="true">📁</span>
                         <span style={{ fontWeight: 500 }}>{key.Name || key.name}</span>
                         <span style={{ fontSize: '0.6875rem', color: 'var(--color-slate-400)', marginLeft: 'auto' }}>
-                          {key['Last Write Time'] ? new Date(key['Last Write Time']).toLocaleString('cs-CZ') : ''}
+                          {key['Last Write Time'] ? formatDateTime(key['Last Write Time']) : ''}
                         </span>
                         <span
+                          aria-hidden="true"
                           onClick={(e) => { e.stopPropagation(); handleNavigateKey(key); }}
                           style={{ cursor: 'pointer', color: 'var(--color-primary)', fontSize: '0.75rem' }}
                         >
@@ -266,21 +340,29 @@ export default function RegistryBrowser({ analysisId }: RegistryBrowserProps) {
                       padding: '0.5rem 0.75rem', fontSize: '0.75rem', fontWeight: 600,
                       color: 'var(--color-slate-500)', background: 'var(--color-slate-50)',
                     }}>
-                      📄 Hodnoty ({filteredValues.length})
+                      📄 {t('registry.values')} ({filteredValues.length})
                     </div>
-                    <table style={{ width: '100%', fontSize: '0.75rem', borderCollapse: 'collapse', fontFamily: 'var(--font-mono)' }}>
+                    <table aria-label={t('registry.values')} style={{ width: '100%', fontSize: '0.75rem', borderCollapse: 'collapse', fontFamily: 'var(--font-mono)' }}>
                       <thead>
                         <tr style={{ background: 'var(--color-slate-50)' }}>
-                          <th style={{ textAlign: 'left', padding: '0.375rem 0.75rem', fontWeight: 600, borderBottom: '1px solid var(--color-slate-200)' }}>Název</th>
-                          <th style={{ textAlign: 'left', padding: '0.375rem 0.75rem', fontWeight: 600, borderBottom: '1px solid var(--color-slate-200)' }}>Typ</th>
+                          <th style={{ textAlign: 'left', padding: '0.375rem 0.75rem', fontWeight: 600, borderBottom: '1px solid var(--color-slate-200)' }}>{t('registry.column.name')}</th>
+                          <th style={{ textAlign: 'left', padding: '0.375rem 0.75rem', fontWeight: 600, borderBottom: '1px solid var(--color-slate-200)' }}>{t('registry.column.type')}</th>
                           <th style={{ textAlign: 'left', padding: '0.375rem 0.75rem', fontWeight: 600, borderBottom: '1px solid var(--color-slate-200)' }}>Data</th>
-                          <th style={{ textAlign: 'left', padding: '0.375rem 0.75rem', fontWeight: 600, borderBottom: '1px solid var(--color-slate-200)' }}>Čas</th>
+                          <th style={{ textAlign: 'left', padding: '0.375rem 0.75rem', fontWeight: 600, borderBottom: '1px solid var(--color-slate-200)' }}>{t('registry.column.time')}</th>
                         </tr>
                       </thead>
-                      <tbody>
+                      <tbody onKeyDown={e => moveListFocus(e)}>
                         {filteredValues.map((val, idx) => (
                           <tr key={idx}
+                            tabIndex={selectedKey === val || (!filteredValues.includes(selectedKey) && idx === 0) ? 0 : -1}
+                            data-nav-item
+                            className="vtf-focus-inset"
                             onClick={() => setSelectedKey(val)}
+                            onKeyDown={e => {
+                              if (!isActivationKey(e)) return;
+                              e.preventDefault();
+                              setSelectedKey(val);
+                            }}
                             style={{
                               cursor: 'pointer', borderBottom: '1px solid var(--color-slate-50)',
                               background: selectedKey === val ? 'var(--color-primary-50, #eff6ff)' : 'transparent',
@@ -301,7 +383,7 @@ export default function RegistryBrowser({ analysisId }: RegistryBrowserProps) {
                               {String(val.Data || val.data || '').substring(0, 200)}
                             </td>
                             <td style={{ padding: '0.375rem 0.75rem', color: 'var(--color-slate-400)', whiteSpace: 'nowrap' }}>
-                              {val['Last Write Time'] ? new Date(val['Last Write Time']).toLocaleString('cs-CZ') : '—'}
+                              {val['Last Write Time'] ? formatDateTime(val['Last Write Time']) : '—'}
                             </td>
                           </tr>
                         ))}
@@ -312,7 +394,7 @@ export default function RegistryBrowser({ analysisId }: RegistryBrowserProps) {
 
                 {filteredKeys.length === 0 && filteredValues.length === 0 && (
                   <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--color-slate-500)' }}>
-                    {searchTerm ? 'Žádné výsledky pro hledaný výraz.' : 'Tento klíč neobsahuje žádné podklíče ani hodnoty.'}
+                    {searchTerm ? t('registry.noMatches') : t('registry.emptyKey')}
                   </div>
                 )}
               </div>
@@ -328,13 +410,13 @@ export default function RegistryBrowser({ analysisId }: RegistryBrowserProps) {
                   <h4 style={{ fontSize: '0.8125rem', fontWeight: 600, margin: 0 }}>
                     Detail: {selectedKey.Name || selectedKey.name}
                   </h4>
-                  <button onClick={() => setSelectedKey(null)} style={{
+                  <button onClick={() => setSelectedKey(null)} aria-label={t('common.close')} title={t('common.close')} style={{
                     background: 'none', border: 'none', cursor: 'pointer', color: 'var(--color-slate-400)',
                   }}>✕</button>
                 </div>
                 <pre style={{
                   fontSize: '0.6875rem', fontFamily: 'var(--font-mono)',
-                  background: 'white', padding: '0.5rem', borderRadius: 'var(--radius-md)',
+                  background: 'var(--color-surface)', padding: '0.5rem', borderRadius: 'var(--radius-md)',
                   border: '1px solid var(--color-slate-200)', margin: 0, overflowX: 'auto',
                   whiteSpace: 'pre-wrap', wordBreak: 'break-all',
                 }}>
@@ -0,0 +1,130 @@
+// Buňka gridu výsledků - zobrazení podle typu sloupce (viz columnTypes.ts), u stromových
+// výsledků v prvním sloupci s odsazením a rozbalovacím tlačítkem (viz resultTree.ts)
+import type { CustomCellRendererProps } from 'ag-grid-react';
+import { parseHex, toDate } from '../columnTypes';
+import type { ColumnType } from '../columnTypes';
+import { TREE_INFO } from '../resultTree';
+import type { ResultGridContext, TreeRow } from '../resultTree';
+import { annotationTagStyle } from '../annotations';
+import { useInvestigation } from '../context/InvestigationContext';
+import { useI18n } from '../hooks/useI18n';
+
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+/** Adresa / offset - hex v monospace, desítková hodnota v tooltipu */
+function HexCell({ value }: CustomCellRendererProps) {
+  const { t } = useI18n();
+  const parsed = parseHex(value);
+  if (parsed === null) return <span>{value == null ? '' : String(value)}</span>;
+  return (
+    <span className="vtf-cell-mono" title={t('grid.cell.decimal', { value: parsed.toString() })}>
+      0x{parsed.toString(16)}
+    </span>
+  );
+}
+
+/** Čas v místním formátu, původní hodnota (s časovou zónou) v tooltipu */
+function DateTimeCell({ value }: CustomCellRendererProps) {
+  const { formatDateTime } = useI18n();
+  const date = toDate(value);
+  if (!date) return <span>{value == null ? '' : String(value)}</span>;
+  return (
+    <span title={String(value)} style={{ fontVariantNumeric: 'tabular-nums' }}>
+      {formatDateTime(date, { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+    </span>
+  );
+}
+
+function BooleanCell({ value }: CustomCellRendererProps<unknown, boolean | null>) {
+  const { t } = useI18n();
+  if (value == null) return null;
+  return (
+    <span className={`vtf-badge ${value ? 'vtf-badge-success' : 'vtf-badge-slate'}`} style={{ fontSize: '0.6875rem' }}>
+      {value ? `✓ ${t('grid.cell.true')}` : `✗ ${t('grid.cell.false')}`}
+    </span>
+  );
+}
+
+/** Velikost v čitelných jednotkách, přesný počet bajtů v tooltipu */
+function BytesCell({ value }: CustomCellRendererProps<unknown, number | null>) {
+  const { t, formatNumber } = useI18n();
+  if (value == null) return null;
+  const unit = value > 0 ? Math.min(Math.floor(Math.log(Math.abs(value)) / Math.log(1024)), BYTE_UNITS.length - 1) : 0;
+  return (
+    <span title={t('grid.cell.bytes', { count: value })} style={{ fontVariantNumeric: 'tabular-nums' }}>
+      {formatNumber(value / Math.pow(1024, unit), { maximumFractionDigits: unit === 0 ? 0 : 2 })} {BYTE_UNITS[unit]}
+    </span>
+  );
+}
+
+function IpCell({ value }: CustomCellRendererProps) {
+  return <span className="vtf-cell-mono">{value == null ? '' : String(value)}</span>;
+}
+
+/** PID - klikem se otevře korelace, sledovaný proces má hvězdičku */
+function PidCell({ value }: CustomCellRendererProps<unknown, number | null>) {
+  const { t } = useI18n();
+  const { isTracked } = useInvestigation();
+  if (value == null) return null;
+  return (
+    <span className="vtf-cell-pid" title={t('grid.cell.pidHint')}>
+      {isTracked(value) && <span aria-label={t('grid.tracked')}>⭐ </span>}
+      {value}
+    </span>
+  );
+}
+
+/** Štítek anotace řádku, poznámka v tooltipu */
+function AnnotationCell({ data, context }: CustomCellRendererProps<TreeRow, unknown, ResultGridContext>) {
+  const annotation = context.getAnnotation(data);
+  if (!annotation) return null;
+  return (
+    <span className="vtf-badge" style={{ ...annotationTagStyle(annotation.tag), fontSize: '0.6875rem' }} title={annotation.note || undefined}>
+      {annotation.tag}{annotation.note ? ' 📝' : ''}
+    </span>
+  );
+}
+
+export interface ResultCellParams {
+  /** annotation = sloupec se štítkem anotace (viz annotations.ts) */
+  type: ColumnType | 'annotation';
+  /** Sloupec nese strukturu stromu */
+  tree?: boolean;
+}
+
+function CellValue(props: CustomCellRendererProps & ResultCellParams) {
+  switch (props.type) {
+    case 'annotation': return <AnnotationCell {...props} />;
+    case 'hex': return <HexCell {...props} />;
+    case 'datetime': return <DateTimeCell {...props} />;
+    case 'boolean': return <BooleanCell {...props} />;
+    case 'bytes': return <BytesCell {...props} />;
+    case 'ip': return <IpCell {...props} />;
+    case 'pid': return <PidCell {...props} />;
+    default: return <>{props.valueFormatted ?? props.value}</>;
+  }
+}
+
+export default function ResultCell(props: CustomCellRendererProps<TreeRow, unknown, ResultGridContext> & ResultCellParams) {
+  const { t } = useI18n();
+  const info = props.tree ? props.data?.[TREE_INFO] : undefined;
+  if (!info) return <CellValue {...props} />;
+  return (
+    <span className="vtf-tree-cell" style={{ paddingLeft: `${info.depth * 1.25}rem` }}>
+      {info.hasChildren ? (
+        <button
+          type="button"
+          className="vtf-tree-toggle"
+          aria-expanded={info.expanded}
+          aria-label={t(info.expanded ? 'grid.tree.collapse' : 'grid.tree.expand')}
+          onClick={() => props.context.toggleTreeRow(info.id)}
+        >
+          {info.expanded ? '▼' : '▶'}
+        </button>
+      ) : (
+        <span className="vtf-tree-toggle" aria-hidden="true" />
+      )}
+      <CellValue {...props} />
+    </span>
+  );
+}
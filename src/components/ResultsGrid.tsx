@@ -1,10 +1,28 @@
 import { AgGridReact } from 'ag-grid-react';
-import type { ColDef, CellClickedEvent, RowClassParams } from 'ag-grid-community';
+import type { ColDef, CellClickedEvent, CellContextMenuEvent, FilterChangedEvent, FilterModel, GetRowIdParams, GridStateKey, IDatasource, IRowNode, PostSortRowsParams, RowClassParams, RowSelectionOptions, SelectionChangedEvent, StateUpdatedEvent } from 'ag-grid-community';
 import { ModuleRegistry, AllCommunityModule } from 'ag-grid-community';
-import { useMemo, useState, useCallback } from 'react';
-import { getExportUrl, correlateByPid } from '../api/vtfApi';
-import type { CorrelationResponse } from '../api/vtfApi';
+import { useMemo, useState, useCallback, useEffect, useRef } from 'react';
+import { addAnnotation, correlateByPid, deleteAnnotation, getAnnotations, getPluginResultsPage } from '../api/vtfApi';
+import type { Annotation, CorrelationResponse, PluginResultsSource, ResultRow } from '../api/vtfApi';
+import { queryKeys } from '../api/queryCache';
+import { useCachedQuery } from '../hooks/useCachedQuery';
 import { useInvestigation } from '../context/InvestigationContext';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme } from '../hooks/useTheme';
+import { loadWorkspaceState, saveGridState } from '../workspaceSession';
+import { getDefaultGridView, GRID_VIEW_STATE_KEYS, pickGridViewState } from '../gridViews';
+import type { GridViewState } from '../gridViews';
+import { createExportFile, downloadFile, EXPORT_FORMATS, exportFileName } from '../resultExport';
+import type { ExportColumn, ExportFormat } from '../resultExport';
+import { notify, reportError } from '../notifications';
+import { compareDates, compareDateToFilter, compareHex, compareIps, createFilterMatcher, formatHex, inferColumns, toBoolean, toNumber } from '../columnTypes';
+import type { ColumnInfo, ColumnType } from '../columnTypes';
+import { ANNOTATION_COLUMN, getPluginAnnotations } from '../annotations';
+import { buildResultTree, filterTree, getExpandableIds, getKeptAncestorIds, getTreeRows, hasTreeData, orderAsTree, TREE_INFO } from '../resultTree';
+import type { ResultGridContext, TreeRow } from '../resultTree';
+import ResultCell from './ResultCells';
+import GridViewBar from './GridViewBar';
+import AnnotationMenu from './AnnotationMenu';
 import 'ag-grid-community/styles/ag-grid.css';
 import 'ag-grid-community/styles/ag-theme-alpine.css';
 
@@ -12,34 +30,260 @@ import 'ag-grid-community/styles/ag-theme-alpine.css';
 ModuleRegistry.registerModules([AllCommunityModule]);
 
 interface ResultsGridProps {
-  data: any[];
+  /** Celé výsledky, nebo stránkovaný zdroj pro velké výstupy (viz loadPluginResults) */
+  source: PluginResultsSource;
   analysisId: string;
   pluginName: string;
+  /** Řádek (row_index anotace), na který grid skočí - odkaz z přehledu anotací */
+  focusRow?: number;
   onBackToUpload: () => void;
 }
 
-export default function ResultsGrid({ data, analysisId, pluginName, onBackToUpload }: ResultsGridProps) {
+// Velikost bloku načítaného ze serveru v režimu stránkování (násobek velikosti stránky)
+const SERVER_BLOCK_SIZE = 200;
+// Export stránkovaných výsledků stahuje vyfiltrované řádky ze serveru po větších blocích
+const EXPORT_PAGE_SIZE = 5000;
+const NO_ROWS: ResultRow[] = [];
+
+// Minimální šířka sloupce podle typu - text se roztahuje víc než krátké hodnoty
+const MIN_WIDTHS: Record<ColumnType, number> = {
+  pid: 90, boolean: 90, number: 100, bytes: 110, ip: 140, hex: 150, datetime: 180, text: 150,
+};
+
+// Stromové řádky filtruje ResultsGrid sám (shody i s předky, viz filterTree) - filtr
+// sloupce v gridu jen drží model a nabízí své UI
+const passTreeFilter = () => true;
+
+// Po seřazení se řádky vrátí pod své rodiče
+function keepTreeOrder({ nodes }: PostSortRowsParams<TreeRow>) {
+  orderAsTree(nodes, node => node.data?.[TREE_INFO]).forEach((node, index) => {
+    nodes[index] = node;
+  });
+}
+
+// Volba filtru štítků podle modelu filtru sloupce anotací
+function tagFilterFromModel(model: FilterModel | null | undefined): string {
+  const filter = model?.[ANNOTATION_COLUMN] as { type?: string; filter?: string } | undefined;
+  if (filter?.type === 'notBlank') return ANY_TAG;
+  return filter?.type === 'equals' ? filter.filter ?? '' : '';
+}
+
+const getTreeRowId = ({ data }: GetRowIdParams<TreeRow>) => data[TREE_INFO]?.id ?? '';
+
+// Volba filtru štítků "jen anotované řádky"
+const ANY_TAG = '*';
+
+const EXPORT_LABELS: Record<ExportFormat, string> = { csv: '📊 CSV', xlsx: '📗 Excel', json: '📄 JSON', md: '📝 Markdown' };
+
+/**
+ * Zobrazení, filtr a řazení sloupce podle typu. Stránkované výsledky filtruje a řadí
+ * server (umí jen textové filtry), lokálně se použije filtr odpovídající typu.
+ */
+function typeColumnDef(key: string, type: ColumnType, isPaged: boolean, t: ReturnType<typeof useI18n>['t']): ColDef {
+  const base: ColDef = {
+    cellDataType: false,
+    minWidth: MIN_WIDTHS[type],
+    flex: type === 'text' ? 2 : 1,
+    filter: 'agTextColumnFilter',
+    ...(type !== 'text' && type !== 'number' ? { cellRenderer: ResultCell, cellRendererParams: { type } } : {}),
+  };
+  if (isPaged) return base;
+
+  switch (type) {
+    case 'hex':
+      return {
+        ...base,
+        comparator: compareHex,
+        // Filtr hledá v zobrazeném hex tvaru i u adres, které přišly jako čísla
+        filterValueGetter: ({ data }) => formatHex(data?.[key]),
+      };
+    case 'datetime':
+      return {
+        ...base,
+        comparator: compareDates,
+        filter: 'agDateColumnFilter',
+        filterParams: { comparator: compareDateToFilter, defaultOption: 'inRange', inRangeInclusive: true },
+      };
+    case 'boolean':
+      return {
+        ...base,
+        valueGetter: ({ data }) => toBoolean(data?.[key]),
+        filterParams: {
+          maxNumConditions: 1,
+          debounceMs: 0,
+          filterOptions: [
+            'empty',
+            { displayKey: 'true', displayName: t('grid.cell.true'), predicate: (_: unknown, value: unknown) => value === true, numberOfInputs: 0 },
+            { displayKey: 'false', displayName: t('grid.cell.false'), predicate: (_: unknown, value: unknown) => value === false, numberOfInputs: 0 },
+          ],
+        },
+      };
+    case 'ip':
+      return { ...base, comparator: compareIps };
+    case 'bytes':
+    case 'pid':
+    case 'number':
+      return { ...base, valueGetter: ({ data }) => toNumber(data?.[key]), filter: 'agNumberColumnFilter' };
+    default:
+      return base;
+  }
+}
+
+export default function ResultsGrid({ source, analysisId, pluginName, focusRow, onBackToUpload }: ResultsGridProps) {
+  const isPaged = source.kind === 'paged';
+  const data = source.kind === 'rows' ? source.rows : NO_ROWS;
+  const totalRows = source.kind === 'rows' ? source.rows.length : source.summary.total_rows;
   const [correlation, setCorrelation] = useState<CorrelationResponse | null>(null);
   const [isLoadingCorrelation, setIsLoadingCorrelation] = useState(false);
   const { isTracked, addTrackedPid, removeTrackedPid, trackedPids } = useInvestigation();
+  const { t } = useI18n();
+  const { resolved: resolvedTheme } = useTheme();
+  // Sloupce, filtry a řazení z minulé práce na projektu, jinak výchozí pohled pluginu -
+  // grid je čte jen při vytvoření
+  const [initialView] = useState(() => {
+    const saved = loadWorkspaceState(analysisId).grids?.[pluginName];
+    if (saved) return { state: saved, viewId: undefined };
+    const view = getDefaultGridView(pluginName);
+    return { state: view?.state, viewId: view?.id };
+  });
+  const initialGridState = initialView.state;
+  const gridRef = useRef<AgGridReact>(null);
+  const [selectedCount, setSelectedCount] = useState(0);
+  const [selectedOnly, setSelectedOnly] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>(
+    () => initialGridState?.columnVisibility?.hiddenColIds ?? []
+  );
 
-  // Automaticky vygenerujeme sloupce na základě klíčů prvního řádku dat
-  const columnDefs: ColDef[] = useMemo(() => {
-    if (!data || data.length === 0) return [];
+  // Vnořené výsledky (__children) - grid zobrazí strom s odsazením a rozbalováním
+  const tree = useMemo(
+    () => source.kind === 'rows' && hasTreeData(source.rows) ? buildResultTree(source.rows) : null,
+    [source]
+  );
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  const [treeFilterModel, setTreeFilterModel] = useState<FilterModel | null>(
+    () => initialGridState?.filter?.filterModel ?? null
+  );
+
+  // Sloupce ze summary (stránkovaný režim, typ jen podle názvu), jinak ze všech řádků dat
+  const columns = useMemo(() => {
+    if (source.kind === 'paged') return inferColumns([], source.summary.columns);
+    return inferColumns(tree ? tree.nodes.map(node => node.row) : source.rows);
+  }, [source, tree]);
 
-    const firstRow = data[0];
-    return Object.keys(firstRow)
-      .filter(key => key !== '__children')  // Filter out Volatility internal field
-      .map((key) => ({
+  // Anotace řádků - stránkované výsledky řadí a filtrují na serveru, pořadí řádku tam
+  // neznáme, takže anotace jsou jen u výsledků načtených celé
+  const { data: annotationsData, error: annotationsError } = useCachedQuery(
+    isPaged ? null : queryKeys.annotations(analysisId),
+    signal => getAnnotations(analysisId, undefined, signal)
+  );
+  useEffect(() => {
+    if (annotationsError) reportError(t('annotations.loadFailed'), annotationsError, undefined, `annotations:${analysisId}`);
+  }, [annotationsError, analysisId, t]);
+  const annotations = useMemo(
+    () => getPluginAnnotations(annotationsData?.annotations, pluginName),
+    [annotationsData, pluginName]
+  );
+  const tagOptions = useMemo(
+    () => Array.from(new Set(Array.from(annotations.values(), a => a.tag))).sort(),
+    [annotations]
+  );
+  const [tagFilter, setTagFilter] = useState(() => tagFilterFromModel(initialGridState?.filter?.filterModel));
+
+  // Pořadí řádku ve výsledcích (row_index) - u stromu pořadí průchodu do hloubky
+  const rowIndexes = useMemo(
+    () => new Map<ResultRow, number>((tree ? tree.nodes.map(node => node.row) : data).map((row, index) => [row, index])),
+    [tree, data]
+  );
+  const getRowIndex = useCallback(
+    (row: TreeRow | undefined) => (row ? row[TREE_INFO]?.index ?? rowIndexes.get(row) : undefined),
+    [rowIndexes]
+  );
+  const getAnnotation = useCallback((row: TreeRow | undefined): Annotation | undefined => {
+    const index = getRowIndex(row);
+    return index === undefined ? undefined : annotations.get(index);
+  }, [getRowIndex, annotations]);
+
+  // Filtr stromu pracuje i se sloupcem štítků, který v datech pluginu není
+  const createTreeMatcher = useCallback((model: FilterModel | null) => {
+    const filterColumns: ColumnInfo[] = [...columns, { key: ANNOTATION_COLUMN, type: 'text' }];
+    return createFilterMatcher(model, filterColumns, (row, key) => (key === ANNOTATION_COLUMN ? getAnnotation(row)?.tag ?? '' : row[key]));
+  }, [columns, getAnnotation]);
+
+  const columnDefs: ColDef[] = useMemo(() => {
+    const annotationColumn: ColDef<TreeRow> = {
+      colId: ANNOTATION_COLUMN,
+      headerName: t('annotations.column'),
+      headerTooltip: t('annotations.menuHint'),
+      pinned: 'left',
+      width: 130,
+      minWidth: 100,
+      sortable: true,
+      resizable: true,
+      valueGetter: ({ data, context }) => (context as ResultGridContext).getAnnotation(data)?.tag ?? '',
+      cellRenderer: ResultCell,
+      cellRendererParams: { type: 'annotation' },
+      filter: tree ? { component: 'agTextColumnFilter', doesFilterPass: passTreeFilter } : 'agTextColumnFilter',
+    };
+    const dataColumns = columns.map(({ key, type }, index) => {
+      const def = typeColumnDef(key, type, isPaged, t);
+      return {
         field: key,
         headerName: key.charAt(0).toUpperCase() + key.slice(1).replace(/_/g, ' '),
         sortable: true,
-        filter: true,
         resizable: true,
-        flex: 1,
-        minWidth: 150,
-      }));
-  }, [data]);
+        ...def,
+        ...(tree ? { filter: { component: def.filter, doesFilterPass: passTreeFilter } } : {}),
+        // První sloupec nese strukturu stromu
+        ...(tree && index === 0
+          ? { cellRenderer: ResultCell, cellRendererParams: { type, tree: true }, minWidth: (def.minWidth ?? 150) + 80 }
+          : {}),
+      };
+    });
+    return isPaged ? dataColumns : [annotationColumn as ColDef, ...dataColumns];
+  }, [columns, isPaged, tree, t]);
+
+  const treeRows = useMemo(() => {
+    if (!tree) return NO_ROWS;
+    const kept = filterTree(tree, createTreeMatcher(treeFilterModel));
+    return getTreeRows(tree, collapsed, kept);
+  }, [tree, treeFilterModel, createTreeMatcher, collapsed]);
+
+  // Buňky čtou anotace přes kontext - ref drží aktuální anotace bez nového kontextu gridu
+  const getAnnotationRef = useRef(getAnnotation);
+  useEffect(() => {
+    getAnnotationRef.current = getAnnotation;
+    const api = gridRef.current?.api;
+    if (!api || isPaged) return;
+    api.refreshCells({ columns: [ANNOTATION_COLUMN], force: true });
+    // Filtr podle štítku se po změně anotací vyhodnotí znovu (strom filtruje sám přes treeRows)
+    if (!tree && api.getFilterModel()[ANNOTATION_COLUMN]) api.onFilterChanged();
+  }, [getAnnotation, isPaged, tree]);
+
+  const gridContext = useMemo<ResultGridContext>(() => ({
+    toggleTreeRow: id => setCollapsed(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    }),
+    getAnnotation: row => getAnnotationRef.current(row),
+  }), []);
+
+  const handleFilterChanged = useCallback((event: FilterChangedEvent) => {
+    const model = event.api.getFilterModel();
+    setTagFilter(tagFilterFromModel(model));
+    if (!tree) return;
+    setTreeFilterModel(model);
+    // Sbalení předci by shody schovali - rozbalí se
+    const kept = filterTree(tree, createTreeMatcher(model));
+    if (!kept) return;
+    const ancestors = getKeptAncestorIds(tree, kept);
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      for (const id of ancestors) next.delete(id);
+      return next.size === prev.size ? prev : next;
+    });
+  }, [tree, createTreeMatcher]);
 
   const defaultColDef = useMemo<ColDef>(() => ({
     sortable: true,
@@ -47,18 +291,60 @@ export default function ResultsGrid({ data, analysisId, pluginName, onBackToUplo
     resizable: true,
   }), []);
 
-  // Check if data has PID column for correlation
-  const hasPidColumn = useMemo(() => {
-    if (!data || data.length === 0) return false;
-    return 'PID' in data[0] || 'Pid' in data[0] || 'pid' in data[0];
-  }, [data]);
+  // Sloupce s PID (i PPID) - klik na hodnotu otevře korelaci
+  const pidColumns = useMemo(
+    () => new Set(columns.filter(c => c.type === 'pid').map(c => c.key)),
+    [columns]
+  );
+  const hasPidColumn = pidColumns.size > 0;
+
+  // Requesty na stránky se zruší při opuštění výsledků
+  const pageAbortRef = useRef<AbortController | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    pageAbortRef.current = controller;
+    return () => controller.abort();
+  }, [analysisId, pluginName]);
+
+  // Infinite row model - řazení a filtrování dělá server, grid drží jen načtené bloky
+  const datasource = useMemo<IDatasource | undefined>(() => {
+    if (!isPaged) return undefined;
+    return {
+      getRows: params => {
+        getPluginResultsPage(
+          analysisId,
+          pluginName,
+          {
+            offset: params.startRow,
+            limit: params.endRow - params.startRow,
+            sort: params.sortModel.map(s => ({ column: s.colId, direction: s.sort })),
+            filter: params.filterModel as Record<string, unknown> | undefined,
+          },
+          pageAbortRef.current?.signal
+        )
+          .then(page => params.successCallback(page.rows, page.total_rows))
+          .catch(err => {
+            params.failCallback();
+            // Jeden toast pro všechny neúspěšné bloky; retry načte bloky znovu
+            reportError(
+              t('grid.pageLoadFailed', { plugin: pluginName.split('.').pop()! }),
+              err,
+              () => gridRef.current?.api.refreshInfiniteCache(),
+              `results-page:${analysisId}:${pluginName}`
+            );
+          });
+      },
+    };
+  }, [isPaged, analysisId, pluginName, t]);
 
   const handleCellClicked = useCallback(async (event: CellClickedEvent) => {
     const field = event.colDef.field;
     if (!field) return;
+    // Klik na rozbalení řádku stromu
+    if (event.event?.target instanceof Element && event.event.target.closest('.vtf-tree-toggle')) return;
     
     // If user clicks on a PID cell, show correlation
-    if (['PID', 'Pid', 'pid'].includes(field) && event.value != null) {
+    if (pidColumns.has(field) && event.value != null) {
       setIsLoadingCorrelation(true);
       try {
         const result = await correlateByPid(analysisId, Number(event.value));
@@ -70,7 +356,200 @@ export default function ResultsGrid({ data, analysisId, pluginName, onBackToUplo
         setIsLoadingCorrelation(false);
       }
     }
-  }, [analysisId]);
+  }, [analysisId, pidColumns]);
+
+  const handleStateUpdated = useCallback((event: StateUpdatedEvent) => {
+    saveGridState(analysisId, pluginName, pickGridViewState(event.state));
+    const hidden = event.state.columnVisibility?.hiddenColIds ?? [];
+    setHiddenColumns(prev => (prev.join('\n') === hidden.join('\n') ? prev : hidden));
+  }, [analysisId, pluginName]);
+
+  const getCurrentViewState = useCallback(
+    (): GridViewState => {
+      const api = gridRef.current?.api;
+      return api ? pickGridViewState(api.getState()) : {};
+    },
+    []
+  );
+
+  // Pohled přepíše jen sloupce, řazení a filtry - stránka a scroll zůstanou
+  const handleApplyView = useCallback((state: GridViewState | undefined) => {
+    const api = gridRef.current?.api;
+    if (!api) return;
+    const ignored = (Object.keys(api.getState()) as GridStateKey[])
+      .filter(key => !(GRID_VIEW_STATE_KEYS as GridStateKey[]).includes(key));
+    api.setState(state ?? {}, ignored);
+  }, []);
+
+  const handleToggleColumn = useCallback((colId: string, visible: boolean) => {
+    gridRef.current?.api.setColumnsVisible([colId], visible);
+  }, []);
+
+  // Výběr řádků pro export - v stránkovaném režimu jen z načtených bloků
+  const rowSelection = useMemo<RowSelectionOptions>(() => ({
+    mode: 'multiRow',
+    checkboxes: true,
+    headerCheckbox: !isPaged,
+    selectAll: 'filtered',
+    enableClickSelection: false,
+  }), [isPaged]);
+
+  const handleSelectionChanged = useCallback((event: SelectionChangedEvent) => {
+    const count = event.api.getSelectedNodes().length;
+    setSelectedCount(count);
+    if (count === 0) setSelectedOnly(false);
+  }, []);
+
+  // Řádky v pořadí gridu - po filtru a řazení, u vybraných jen ty, které jsou vidět
+  const collectExportRows = useCallback(async (): Promise<ResultRow[]> => {
+    const api = gridRef.current?.api;
+    if (!api) return [];
+    if (selectedOnly && isPaged) {
+      return api.getSelectedNodes()
+        .sort((a, b) => (a.rowIndex ?? 0) - (b.rowIndex ?? 0))
+        .flatMap(node => (node.data ? [node.data as ResultRow] : []));
+    }
+    if (!isPaged) {
+      const rows: ResultRow[] = [];
+      api.forEachNodeAfterFilterAndSort(node => {
+        if (node.data && (!selectedOnly || node.isSelected())) rows.push(node.data);
+      });
+      return rows;
+    }
+    // Stránkované výsledky - grid má jen část řádků, filtr a řazení použije server
+    const sort = api.getState().sort?.sortModel.map(s => ({ column: s.colId, direction: s.sort })) ?? [];
+    const filter = api.getFilterModel() as Record<string, unknown>;
+    const rows: ResultRow[] = [];
+    for (let total = Infinity; rows.length < total;) {
+      const page = await getPluginResultsPage(
+        analysisId, pluginName,
+        { offset: rows.length, limit: EXPORT_PAGE_SIZE, sort, filter },
+        pageAbortRef.current?.signal
+      );
+      rows.push(...page.rows);
+      total = page.rows.length > 0 ? page.total_rows : rows.length;
+    }
+    return rows;
+  }, [analysisId, pluginName, isPaged, selectedOnly]);
+
+  const handleExport = useCallback(async (format: ExportFormat) => {
+    const api = gridRef.current?.api;
+    if (!api || exportingFormat) return;
+    const types = new Map(columns.map(c => [c.key, c.type]));
+    const exportColumns: ExportColumn[] = api.getAllDisplayedColumns()
+      .map(column => column.getColDef())
+      .filter(def => def.field && types.has(def.field))
+      .map(def => ({ key: def.field!, header: def.headerName ?? def.field!, type: types.get(def.field!)! }));
+    setExportingFormat(format);
+    try {
+      const rows = await collectExportRows();
+      if (rows.length === 0) {
+        notify({ level: 'warning', title: t('export.empty') });
+        return;
+      }
+      const shortName = pluginName.split('.').pop()!;
+      downloadFile(createExportFile(format, exportColumns, rows, shortName), exportFileName(pluginName, format));
+    } catch (err) {
+      reportError(t('export.failed', { plugin: pluginName }), err);
+    } finally {
+      setExportingFormat(null);
+    }
+  }, [columns, collectExportRows, exportingFormat, pluginName, t]);
+
+  // Kontextové menu řádku - štítek a poznámka
+  const [annotationMenu, setAnnotationMenu] = useState<{ x: number; y: number; rowIndex: number } | null>(null);
+  const closeAnnotationMenu = useCallback(() => setAnnotationMenu(null), []);
+
+  const handleCellContextMenu = useCallback((event: CellContextMenuEvent<TreeRow>) => {
+    const rowIndex = getRowIndex(event.data);
+    if (isPaged || rowIndex === undefined) return;
+    const mouse = event.event instanceof MouseEvent ? event.event : null;
+    // Klávesa menu nemá pozici kurzoru - menu se otevře u buňky
+    const rect = event.event?.target instanceof Element ? event.event.target.getBoundingClientRect() : null;
+    const x = mouse && (mouse.clientX || mouse.clientY) ? mouse.clientX : rect?.left ?? 0;
+    const y = mouse && (mouse.clientX || mouse.clientY) ? mouse.clientY : rect?.bottom ?? 0;
+    setAnnotationMenu({ x, y, rowIndex });
+  }, [getRowIndex, isPaged]);
+
+  const handleSaveAnnotation = useCallback(async (tag: string, note: string) => {
+    if (!annotationMenu) return;
+    try {
+      await addAnnotation(analysisId, { plugin: pluginName, row_index: annotationMenu.rowIndex, tag, ...(note && { note }) });
+      setAnnotationMenu(null);
+    } catch (err) {
+      reportError(t('annotations.saveFailed'), err);
+    }
+  }, [analysisId, pluginName, annotationMenu, t]);
+
+  const handleDeleteAnnotation = useCallback(async () => {
+    if (!annotationMenu) return;
+    try {
+      await deleteAnnotation(analysisId, pluginName, annotationMenu.rowIndex);
+      setAnnotationMenu(null);
+    } catch (err) {
+      reportError(t('annotations.deleteFailed'), err);
+    }
+  }, [analysisId, pluginName, annotationMenu, t]);
+
+  const handleTagFilterChange = useCallback((value: string) => {
+    const api = gridRef.current?.api;
+    if (!api) return;
+    const model = value === ANY_TAG
+      ? { filterType: 'text', type: 'notBlank' }
+      : value ? { filterType: 'text', type: 'equals', filter: value } : null;
+    api.setColumnFilterModel(ANNOTATION_COLUMN, model).then(() => api.onFilterChanged());
+  }, []);
+
+  // Skok na anotovaný řádek (odkaz z přehledu anotací) - stránka gridu, scroll, fokus a zvýraznění
+  const focusedRowRef = useRef<number | undefined>(undefined);
+  const focusAnnotatedRow = useCallback(() => {
+    // Po odchodu z řádku jde na stejný řádek skočit znovu
+    if (focusRow === undefined) focusedRowRef.current = undefined;
+    const api = gridRef.current?.api;
+    if (!api || isPaged || focusRow === undefined || focusedRowRef.current === focusRow || totalRows === 0) return;
+    if (focusRow >= rowIndexes.size) {
+      focusedRowRef.current = focusRow;
+      notify({ level: 'warning', title: t('annotations.rowMissing', { row: focusRow + 1 }) });
+      return;
+    }
+    let node: IRowNode | undefined;
+    if (tree) {
+      const treeNode = tree.nodes[focusRow];
+      // Sbalení předci řádek schovávají - rozbalí se a skok proběhne po překreslení
+      const collapsedAncestors: string[] = [];
+      for (let id = treeNode.parentId; id !== null; id = tree.byId.get(id)?.parentId ?? null) {
+        if (collapsed.has(id)) collapsedAncestors.push(id);
+      }
+      if (collapsedAncestors.length > 0) {
+        setCollapsed(prev => new Set(Array.from(prev).filter(id => !collapsedAncestors.includes(id))));
+        return;
+      }
+      node = api.getRowNode(treeNode.id);
+    } else {
+      api.forEachNode(candidate => {
+        if (candidate.data === data[focusRow]) node = candidate;
+      });
+    }
+    focusedRowRef.current = focusRow;
+    if (!node || node.rowIndex == null) {
+      notify({ level: 'warning', title: t('annotations.rowHidden') });
+      return;
+    }
+    api.paginationGoToPage(Math.floor(node.rowIndex / api.paginationGetPageSize()));
+    api.ensureNodeVisible(node, 'middle');
+    const firstColumn = api.getAllDisplayedColumns()[0];
+    if (firstColumn) api.setFocusedCell(node.rowIndex, firstColumn);
+    api.flashCells({ rowNodes: [node] });
+  }, [isPaged, focusRow, totalRows, tree, collapsed, data, rowIndexes, t]);
+
+  useEffect(() => {
+    focusAnnotatedRow();
+  }, [focusAnnotatedRow, treeRows]);
+
+  const viewColumns = useMemo(
+    () => columnDefs.map(def => ({ colId: def.colId ?? def.field!, headerName: def.headerName ?? def.field! })),
+    [columnDefs]
+  );
 
   // Track/untrack PID handler
   const handleTrackPid = useCallback(async (pid: number, processName?: string) => {
@@ -91,61 +570,116 @@ export default function ResultsGrid({ data, analysisId, pluginName, onBackToUplo
     if (!params.data) return undefined;
     const pid = params.data.PID ?? params.data.Pid ?? params.data.pid;
     if (pid != null && isTracked(Number(pid))) {
-      return { background: 'rgba(250, 204, 21, 0.1)', borderLeft: '3px solid #f59e0b' };
+      return { background: 'var(--color-tracked-bg)', borderLeft: '3px solid var(--color-warning)' };
     }
     return undefined;
   }, [isTracked, trackedPids]);
 
   return (
     <div style={{ height: '100%', display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+      {totalRows > 0 && (
+        <GridViewBar
+          key={pluginName}
+          pluginName={pluginName}
+          initialViewId={initialView.viewId}
+          columns={viewColumns}
+          hiddenColumns={hiddenColumns}
+          getCurrentState={getCurrentViewState}
+          onApplyView={handleApplyView}
+          onToggleColumn={handleToggleColumn}
+        />
+      )}
+
       {/* Export toolbar */}
       <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', justifyContent: 'flex-end' }}>
         {hasPidColumn && (
           <span style={{ fontSize: '0.8125rem', color: 'var(--color-slate-500)', marginRight: 'auto' }}>
-            💡 Tip: Klikněte na PID pro cross-plugin korelaci
+            💡 {t('grid.correlationTip')}
             {correlation && (
               <button
                 onClick={() => handleTrackPid(correlation.pid)}
                 style={{
                   marginLeft: '0.75rem', padding: '0.25rem 0.625rem', fontSize: '0.75rem',
-                  border: '1px solid #f59e0b', borderRadius: 'var(--radius-md)',
-                  background: isTracked(correlation.pid) ? '#fef3c7' : 'white',
-                  color: '#b45309', cursor: 'pointer', fontWeight: 500,
+                  border: '1px solid var(--color-warning)', borderRadius: 'var(--radius-md)',
+                  background: isTracked(correlation.pid) ? 'var(--color-warning-100)' : 'var(--color-surface)',
+                  color: 'var(--color-warning-700)', cursor: 'pointer', fontWeight: 500,
                 }}
               >
-                {isTracked(correlation.pid) ? '⭐ Sledován' : '☆ Sledovat PID ' + correlation.pid}
+                {isTracked(correlation.pid) ? `⭐ ${t('grid.tracked')}` : `☆ ${t('grid.trackPid', { pid: String(correlation.pid) })}`}
               </button>
             )}
           </span>
         )}
-        <a
-          href={getExportUrl(analysisId, pluginName, 'csv')}
-          className="vtf-btn"
-          style={{ 
-            padding: '0.5rem 1rem',
-            fontSize: '0.875rem',
-            background: 'var(--color-success)',
-            color: 'white',
-            textDecoration: 'none'
-          }}
-          download
-        >
-          📊 Export CSV
-        </a>
-        <a
-          href={getExportUrl(analysisId, pluginName, 'json')}
-          className="vtf-btn vtf-btn-primary"
-          style={{ 
-            padding: '0.5rem 1rem',
-            fontSize: '0.875rem'
-          }}
-          download
-        >
-          📄 Export JSON
-        </a>
+        {tree && (
+          <div style={{ display: 'flex', gap: '0.5rem', marginRight: hasPidColumn ? undefined : 'auto' }}>
+            <button onClick={() => setCollapsed(new Set())} className="vtf-btn vtf-btn-secondary" style={{ padding: '0.375rem 0.625rem', fontSize: '0.75rem' }}>
+              {t('tree.expandAll')}
+            </button>
+            <button onClick={() => setCollapsed(getExpandableIds(tree))} className="vtf-btn vtf-btn-secondary" style={{ padding: '0.375rem 0.625rem', fontSize: '0.75rem' }}>
+              {t('tree.collapseAll')}
+            </button>
+          </div>
+        )}
+        {!isPaged && (tagOptions.length > 0 || tagFilter) && (
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', fontSize: '0.8125rem', color: 'var(--color-slate-600)' }}>
+            🏷️ {t('annotations.filter')}
+            <select
+              value={tagFilter}
+              onChange={e => handleTagFilterChange(e.target.value)}
+              style={{
+                padding: '0.375rem 0.625rem', border: '1px solid var(--color-slate-300)', borderRadius: 'var(--radius-md)',
+                fontSize: '0.8125rem', background: 'var(--color-surface)', color: 'var(--color-slate-900)',
+              }}
+            >
+              <option value="">{t('annotations.filterAll')}</option>
+              <option value={ANY_TAG}>{t('annotations.filterAny')}</option>
+              {tagOptions.map(tag => (
+                <option key={tag} value={tag}>{tag}</option>
+              ))}
+              {/* Filtr na štítek, který už žádný řádek nemá */}
+              {tagFilter && tagFilter !== ANY_TAG && !tagOptions.includes(tagFilter) && (
+                <option value={tagFilter}>{tagFilter}</option>
+              )}
+            </select>
+          </label>
+        )}
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', fontSize: '0.8125rem', color: 'var(--color-slate-600)' }}>
+          <input
+            type="checkbox"
+            checked={selectedOnly}
+            disabled={selectedCount === 0}
+            onChange={e => setSelectedOnly(e.target.checked)}
+          />
+          {t('export.selectedOnly', { count: selectedCount })}
+        </label>
+        <div role="group" aria-label={t('export.label')} title={t('export.hint')} style={{ display: 'flex', gap: '0.5rem' }}>
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={exportingFormat !== null || totalRows === 0}
+              aria-busy={exportingFormat === format}
+              className={format === 'csv' ? 'vtf-btn vtf-btn-primary' : 'vtf-btn vtf-btn-secondary'}
+              style={{ padding: '0.5rem 0.875rem', fontSize: '0.875rem' }}
+            >
+              {exportingFormat === format ? `⏳ ${t('export.running')}` : EXPORT_LABELS[format]}
+            </button>
+          ))}
+        </div>
       </div>
 
-      {!data || data.length === 0 ? (
+      {isPaged && (
+        <div className="vtf-alert vtf-alert-info" style={{ padding: '0.625rem 1rem' }}>
+          <span className="vtf-alert-icon">📚</span>
+          <div className="vtf-alert-content">
+            <div className="vtf-alert-description">
+              {t('grid.pagedNotice', { count: totalRows })}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {totalRows === 0 ? (
         <div className="vtf-card" style={{ 
           flex: 1, 
           display: 'flex', 
@@ -155,9 +689,9 @@ export default function ResultsGrid({ data, analysisId, pluginName, onBackToUplo
         }}>
           <div className="vtf-empty-state">
             <div className="vtf-empty-state-icon">📊</div>
-            <h3 className="vtf-empty-state-title">Žádná data k zobrazení</h3>
+            <h3 className="vtf-empty-state-title">{t('grid.empty.title')}</h3>
             <p className="vtf-empty-state-description">
-              Analýza nevrátila žádné výsledky
+              {t('grid.empty.description')}
             </p>
           </div>
         </div>
@@ -165,9 +699,9 @@ export default function ResultsGrid({ data, analysisId, pluginName, onBackToUplo
         <div style={{ display: 'flex', flex: 1, gap: '1rem', minHeight: 0 }}>
           {/* Main grid */}
           <div 
-            className={`ag-theme-alpine ${correlation ? '' : ''}`} 
+            className={resolvedTheme === 'dark' ? 'ag-theme-alpine-dark' : 'ag-theme-alpine'}
             style={{ 
-              flex: correlation ? '1' : '1',
+              flex: '1',
               height: '100%',
               borderRadius: 'var(--radius-lg)',
               overflow: 'hidden',
@@ -176,7 +710,15 @@ export default function ResultsGrid({ data, analysisId, pluginName, onBackToUplo
             }}
           >
             <AgGridReact
-              rowData={data}
+              key={tree ? 'tree' : source.kind}
+              ref={gridRef}
+              theme="legacy"
+              {...(datasource
+                ? { rowModelType: 'infinite' as const, datasource, cacheBlockSize: SERVER_BLOCK_SIZE, maxBlocksInCache: 50 }
+                : tree
+                  ? { rowData: treeRows, getRowId: getTreeRowId, postSortRows: keepTreeOrder, enableFilterHandlers: true }
+                  : { rowData: data })}
+              context={gridContext}
               columnDefs={columnDefs}
               defaultColDef={defaultColDef}
               pagination={true}
@@ -184,6 +726,14 @@ export default function ResultsGrid({ data, analysisId, pluginName, onBackToUplo
               animateRows={true}
               onCellClicked={handleCellClicked}
               getRowStyle={getRowStyle}
+              initialState={initialGridState}
+              onStateUpdated={handleStateUpdated}
+              onFilterChanged={handleFilterChanged}
+              rowSelection={rowSelection}
+              onSelectionChanged={handleSelectionChanged}
+              preventDefaultOnContextMenu={!isPaged}
+              onCellContextMenu={handleCellContextMenu}
+              onFirstDataRendered={focusAnnotatedRow}
             />
           </div>
 
@@ -200,7 +750,7 @@ export default function ResultsGrid({ data, analysisId, pluginName, onBackToUplo
               <div className="vtf-loading">
                 <div className="vtf-spinner"></div>
                 <p style={{ color: 'var(--color-slate-600)', marginTop: '1rem', fontSize: '0.875rem' }}>
-                  Načítám korelaci...
+                  {t('grid.correlationLoading')}
                 </p>
               </div>
             </div>
@@ -226,6 +776,7 @@ export default function ResultsGrid({ data, analysisId, pluginName, onBackToUplo
                   </h4>
                   <button
                     onClick={() => setCorrelation(null)}
+                    aria-label={t('common.close')}
                     style={{
                       background: 'transparent',
                       border: 'none',
@@ -240,7 +791,7 @@ export default function ResultsGrid({ data, analysisId, pluginName, onBackToUplo
                   </button>
                 </div>
                 <p style={{ fontSize: '0.8125rem', color: 'var(--color-slate-500)' }}>
-                  Cross-plugin korelace
+                  {t('grid.correlationTitle')}
                 </p>
               </div>
               
@@ -258,7 +809,7 @@ export default function ResultsGrid({ data, analysisId, pluginName, onBackToUplo
                     }}>
                       <span>{label}</span>
                       <span className="vtf-badge vtf-badge-slate" style={{ fontSize: '0.6875rem' }}>
-                        {info.count} {info.count === 1 ? 'záznam' : info.count < 5 ? 'záznamy' : 'záznamů'}
+                        {t('grid.records', { count: info.count })}
                       </span>
                     </h5>
                     <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', maxHeight: '200px', overflowY: 'auto' }}>
@@ -266,7 +817,7 @@ export default function ResultsGrid({ data, analysisId, pluginName, onBackToUplo
                         <pre key={idx} style={{ 
                           fontSize: '0.75rem',
                           fontFamily: 'var(--font-mono)',
-                          background: 'white',
+                          background: 'var(--color-surface)',
                           padding: '0.625rem',
                           borderRadius: 'var(--radius-md)',
                           overflowX: 'auto',
@@ -279,7 +830,7 @@ export default function ResultsGrid({ data, analysisId, pluginName, onBackToUplo
                       ))}
                       {info.count > 10 && (
                         <p style={{ fontSize: '0.75rem', color: 'var(--color-slate-400)', textAlign: 'center', marginTop: '0.25rem' }}>
-                          ... a dalších {info.count - 10}
+                          {t('grid.more', { count: info.count - 10 })}
                         </p>
                       )}
                     </div>
@@ -290,6 +841,19 @@ export default function ResultsGrid({ data, analysisId, pluginName, onBackToUplo
           )}
         </div>
       )}
+
+      {annotationMenu && (
+        <AnnotationMenu
+          key={annotationMenu.rowIndex}
+          x={annotationMenu.x}
+          y={annotationMenu.y}
+          rowLabel={t('annotations.row', { row: annotationMenu.rowIndex + 1 })}
+          annotation={annotations.get(annotationMenu.rowIndex)}
+          onSave={handleSaveAnnotation}
+          onDelete={handleDeleteAnnotation}
+          onClose={closeAnnotationMenu}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,186 @@
+import { useCachedQuery } from '../hooks/useCachedQuery';
+import { getResultsHistory } from '../api/vtfApi';
+import type { PluginRunRecord } from '../api/vtfApi';
+import { queryKeys } from '../api/queryCache';
+import { useI18n } from '../hooks/useI18n';
+import { t } from '../i18n/i18n';
+import type { MessageKey } from '../i18n/cs';
+
+interface ResultsHistoryProps {
+  analysisId: string;
+  onOpenResults: (plugin: string) => void;
+  onNavigateToPlugins: () => void;
+}
+
+const STATUS_BADGES: Record<PluginRunRecord['status'], { icon: string; label: MessageKey; className: string }> = {
+  completed: { icon: '✓', label: 'history.status.completed', className: 'vtf-badge-success' },
+  running: { icon: '●', label: 'history.status.running', className: 'vtf-badge-primary' },
+  failed: { icon: '✗', label: 'history.status.failed', className: 'vtf-badge-danger' },
+  cancelled: { icon: '⊘', label: 'history.status.cancelled', className: 'vtf-badge-slate' },
+  not_started: { icon: '', label: 'history.status.notStarted', className: 'vtf-badge-slate' },
+};
+
+const thStyle = {
+  padding: '0.875rem 1.25rem',
+  textAlign: 'left' as const,
+  fontSize: '0.75rem',
+  fontWeight: 600,
+  color: 'var(--color-slate-700)',
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+};
+
+const tdStyle = {
+  padding: '0.875rem 1.25rem',
+  fontSize: '0.875rem',
+  color: 'var(--color-slate-900)',
+  verticalAlign: 'top' as const,
+};
+
+function formatDuration(run: PluginRunRecord): string | null {
+  if (!run.started_at || !run.finished_at) return null;
+  const seconds = Math.round((Date.parse(run.finished_at) - Date.parse(run.started_at)) / 1000);
+  if (!Number.isFinite(seconds) || seconds < 0) return null;
+  if (seconds < 60) return t('history.duration.seconds', { s: seconds });
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60
+    ? t('history.duration.minutes', { m: minutes, s: seconds % 60 })
+    : t('history.duration.hours', { h: Math.floor(minutes / 60), m: minutes % 60 });
+}
+
+// Nejnovější běhy nahoře, pluginy bez času běhu na konci
+function byStartDesc(a: PluginRunRecord, b: PluginRunRecord): number {
+  return (b.started_at ?? '').localeCompare(a.started_at ?? '') || a.plugin.localeCompare(b.plugin);
+}
+
+/**
+ * Přehled pluginů, které v projektu běžely - jedním klikem otevře výsledky
+ */
+export default function ResultsHistory({ analysisId, onOpenResults, onNavigateToPlugins }: ResultsHistoryProps) {
+  // staleTime 0 - pluginy mezitím doběhly na pozadí, při každém otevření se přehled ověří
+  const { data, error, isLoading, isValidating, refetch } = useCachedQuery(
+    queryKeys.resultsHistory(analysisId),
+    signal => getResultsHistory(analysisId, signal),
+    { staleTime: 0 }
+  );
+  const { t, formatNumber, formatDateTime } = useI18n();
+  const runs = data ? [...data].sort(byStartDesc) : [];
+
+  return (
+    <div className="vtf-card" style={{ padding: '2rem' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginBottom: '1.5rem' }}>
+        <h3 style={{ fontSize: '1.25rem', fontWeight: 600, color: 'var(--color-slate-900)', marginRight: 'auto' }}>
+          {t('history.title')}
+        </h3>
+        {data && (
+          <span className="vtf-badge vtf-badge-slate" style={{ fontSize: '0.875rem', padding: '0.5rem 1rem' }}>
+            {t('history.completedCount', { count: runs.filter(r => r.status === 'completed').length })}
+          </span>
+        )}
+        <button onClick={refetch} disabled={isValidating} className="vtf-btn vtf-btn-secondary" style={{ padding: '0.375rem 0.75rem', fontSize: '0.8125rem' }}>
+          {isValidating ? t('common.refreshing') : `↻ ${t('common.refresh')}`}
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="vtf-loading" style={{ minHeight: '300px' }}>
+          <div className="vtf-spinner"></div>
+          <p style={{ color: 'var(--color-slate-600)', marginTop: '1rem' }}>{t('history.loading')}</p>
+        </div>
+      ) : error && !data ? (
+        <div className="vtf-alert vtf-alert-danger" role="alert">
+          <span className="vtf-alert-icon">⚠️</span>
+          <div className="vtf-alert-content">
+            <div className="vtf-alert-title">{t('history.loadFailed')}</div>
+            <div className="vtf-alert-description">{error.message}</div>
+          </div>
+        </div>
+      ) : runs.length === 0 ? (
+        <div className="vtf-empty-state">
+          <div className="vtf-empty-state-icon">📋</div>
+          <h3 className="vtf-empty-state-title">{t('history.empty.title')}</h3>
+          <p className="vtf-empty-state-description" style={{ marginBottom: '1.5rem' }}>
+            {t('history.empty.description')}
+          </p>
+          <button onClick={onNavigateToPlugins} className="vtf-btn vtf-btn-primary">
+            {t('app.error.choosePlugin')}
+          </button>
+        </div>
+      ) : (
+        <div style={{ overflowX: 'auto' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ background: 'var(--color-slate-50)', borderBottom: '2px solid var(--color-slate-200)' }}>
+                <th style={thStyle}>Plugin</th>
+                <th style={thStyle}>{t('history.column.status')}</th>
+                <th style={{ ...thStyle, textAlign: 'right' }}>{t('history.column.rows')}</th>
+                <th style={thStyle}>{t('history.column.started')}</th>
+                <th style={thStyle}>{t('history.column.duration')}</th>
+                <th style={thStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map(run => {
+                const badge = STATUS_BADGES[run.status];
+                const canOpen = run.status === 'completed';
+                const duration = formatDuration(run);
+                return (
+                  <tr
+                    key={run.plugin}
+                    className={canOpen ? 'vtf-history-row-openable' : undefined}
+                    style={{ borderBottom: '1px solid var(--color-slate-200)' }}
+                    onClick={canOpen ? () => onOpenResults(run.plugin) : undefined}
+                  >
+                    <td style={tdStyle}>
+                      <div style={{ fontWeight: 600 }}>{run.plugin.split('.').pop()}</div>
+                      <div style={{ fontSize: '0.75rem', fontFamily: 'var(--font-mono)', color: 'var(--color-slate-500)' }}>
+                        {run.plugin}
+                      </div>
+                      {run.error && run.status === 'failed' && (
+                        <div style={{ marginTop: '0.375rem', fontSize: '0.8125rem', color: 'var(--color-danger)', whiteSpace: 'pre-wrap' }}>
+                          {run.error}
+                        </div>
+                      )}
+                    </td>
+                    <td style={tdStyle}>
+                      <span className={`vtf-badge ${badge.className}`} style={{ fontSize: '0.75rem' }}>
+                        {badge.icon && `${badge.icon} `}{t(badge.label)}
+                      </span>
+                    </td>
+                    <td style={{ ...tdStyle, textAlign: 'right', fontVariantNumeric: 'tabular-nums' }}>
+                      {typeof run.row_count === 'number'
+                        ? formatNumber(run.row_count)
+                        : <span style={{ color: 'var(--color-slate-400)' }}>–</span>}
+                    </td>
+                    <td style={{ ...tdStyle, color: 'var(--color-slate-600)' }}>
+                      {run.started_at
+                        ? formatDateTime(run.started_at, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+                        : <span style={{ color: 'var(--color-slate-400)' }}>–</span>}
+                    </td>
+                    <td style={{ ...tdStyle, color: 'var(--color-slate-600)' }}>
+                      {duration ?? <span style={{ color: 'var(--color-slate-400)' }}>–</span>}
+                    </td>
+                    <td style={{ ...tdStyle, textAlign: 'right' }}>
+                      {canOpen && (
+                        <button
+                          onClick={e => {
+                            e.stopPropagation();
+                            onOpenResults(run.plugin);
+                          }}
+                          className="vtf-btn vtf-btn-primary"
+                          style={{ padding: '0.375rem 0.875rem', fontSize: '0.8125rem', whiteSpace: 'nowrap' }}
+                        >
+                          {t('common.open')} →
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import type { DragEvent } from 'react';
+import ResultsGrid from './ResultsGrid';
+import type { PluginResultsSource } from '../api/vtfApi';
+import {
+  activateTab,
+  getPaneTabs,
+  getTabId,
+  getWorkspaceSnapshot,
+  mergePanes,
+  moveTab,
+  subscribeWorkspace,
+} from '../workspace';
+import type { ResultsTab, WorkspacePane } from '../workspace';
+import { useI18n } from '../hooks/useI18n';
+import { moveListFocus } from '../a11y';
+
+interface ResultsWorkspaceProps {
+  analysisId: string;
+  /** Plugin z URL - jeho záložka má fokus (null mimo výsledky) */
+  activePlugin: string | null;
+  /** Řádek z URL, na který skočí grid záložky s fokusem */
+  focusRow?: number;
+  /** Načtené výsledky podle ID záložky */
+  sources: Record<string, PluginResultsSource>;
+  onSelectTab: (plugin: string) => void;
+  onCloseTab: (tab: ResultsTab) => void;
+  onOpenPlugins: () => void;
+  onBackToUpload: () => void;
+}
+
+const PANES: WorkspacePane[] = ['left', 'right'];
+
+const tabButtonStyle = {
+  background: 'none',
+  border: 'none',
+  padding: '0 0.125rem',
+  color: 'var(--color-slate-400)',
+  fontSize: '0.75rem',
+  cursor: 'pointer',
+  lineHeight: 1,
+};
+
+/**
+ * Záložky s výsledky pluginů, volitelně rozdělené do dvou panelů vedle sebe.
+ * Gridy zůstávají připojené i na skrytých záložkách, takže si drží filtry, řazení i scroll.
+ */
+export default function ResultsWorkspace({
+  analysisId,
+  activePlugin,
+  focusRow,
+  sources,
+  onSelectTab,
+  onCloseTab,
+  onOpenPlugins,
+  onBackToUpload,
+}: ResultsWorkspaceProps) {
+  const { tabs, activeTabs } = useSyncExternalStore(subscribeWorkspace, getWorkspaceSnapshot);
+  // Přetahovaná záložka (přeuspořádání a přesun mezi panely)
+  const [draggedTab, setDraggedTab] = useState<ResultsTab | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  const focusedTabId = activePlugin ? getTabId(analysisId, activePlugin) : null;
+  const projectTabs = tabs.filter(tab => tab.projectId === analysisId);
+  const isSplit = projectTabs.some(tab => tab.pane === 'right');
+
+  // Záložka z URL (i po Zpět v prohlížeči) se stane aktivní ve svém panelu
+  useEffect(() => {
+    if (focusedTabId) activateTab(focusedTabId);
+  }, [focusedTabId]);
+
+  if (projectTabs.length === 0) return null;
+
+  const activeIn = (pane: WorkspacePane): string | null => {
+    const paneTabs = getPaneTabs(tabs, analysisId, pane);
+    const active = paneTabs.find(tab => tab.id === focusedTabId)
+      ?? paneTabs.find(tab => tab.id === activeTabs[pane])
+      ?? paneTabs[0];
+    return active?.id ?? null;
+  };
+  const visibleTabIds = new Set(PANES.map(activeIn));
+
+  const selectTab = (tab: ResultsTab) => {
+    activateTab(tab.id);
+    onSelectTab(tab.plugin);
+  };
+
+  const moveTo = (tab: ResultsTab, pane: WorkspacePane, beforeId: string | null = null) => {
+    moveTab(tab.id, pane, beforeId);
+    onSelectTab(tab.plugin);
+  };
+
+  const handleDragOver = (event: DragEvent, targetId: string) => {
+    if (!draggedTab) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    setDropTarget(targetId);
+  };
+
+  const handleDrop = (event: DragEvent, pane: WorkspacePane, beforeId: string | null) => {
+    event.preventDefault();
+    event.stopPropagation();
+    if (draggedTab) moveTo(draggedTab, pane, beforeId);
+    setDraggedTab(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div
+      className="vtf-workspace"
+      style={{ gridTemplateColumns: isSplit ? 'minmax(0, 1fr) minmax(0, 1fr)' : 'minmax(0, 1fr)' }}
+    >
+      {PANES.filter(pane => pane === 'left' || isSplit).map(pane => {
+        const paneTabs = getPaneTabs(tabs, analysisId, pane);
+        const otherPane: WorkspacePane = pane === 'left' ? 'right' : 'left';
+        return (
+          <div
+            key={pane}
+            role="tablist"
+            aria-label={pane === 'left' ? t('workspace.leftPane') : t('workspace.rightPane')}
+            className={`vtf-tab-bar ${dropTarget === `${pane}:end` ? 'vtf-tab-drop-target' : ''}`}
+            style={{ gridColumn: pane === 'left' ? 1 : 2, gridRow: 1 }}
+            onKeyDown={e => moveListFocus(e, 'horizontal')}
+            onDragOver={e => handleDragOver(e, `${pane}:end`)}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={e => handleDrop(e, pane, null)}
+          >
+            {paneTabs.map(tab => {
+              const isActive = activeIn(pane) === tab.id;
+              // Jediná záložka bez rozdělení nemá kam odejít
+              const canMove = pane === 'right' || paneTabs.length > 1;
+              return (
+                <div
+                  key={tab.id}
+                  role="tab"
+                  aria-selected={isActive}
+                  tabIndex={isActive ? 0 : -1}
+                  data-nav-item
+                  draggable
+                  title={tab.plugin}
+                  className={[
+                    'vtf-tab',
+                    isActive ? 'active' : '',
+                    tab.id === focusedTabId ? 'focused' : '',
+                    draggedTab?.id === tab.id ? 'vtf-tab-dragging' : '',
+                    dropTarget === tab.id ? 'vtf-tab-drop-target' : '',
+                  ].join(' ')}
+                  onClick={() => selectTab(tab)}
+                  onKeyDown={e => {
+                    if (e.target !== e.currentTarget) return;
+                    if (e.key === 'Enter' || e.key === ' ') {
+                      e.preventDefault();
+                      selectTab(tab);
+                    } else if (e.key === 'Delete') {
+                      e.preventDefault();
+                      onCloseTab(tab);
+                    }
+                  }}
+                  onDragStart={e => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', tab.plugin);
+                    setDraggedTab(tab);
+                  }}
+                  onDragEnd={() => {
+                    setDraggedTab(null);
+                    setDropTarget(null);
+                  }}
+                  onDragOver={e => {
+                    e.stopPropagation();
+                    handleDragOver(e, tab.id);
+                  }}
+                  onDrop={e => handleDrop(e, pane, tab.id)}
+                >
+                  <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>{tab.plugin.split('.').pop()}</span>
+                  {canMove && (
+                    <button
+                      onClick={e => {
+                        e.stopPropagation();
+                        moveTo(tab, otherPane);
+                      }}
+                      title={pane === 'left' ? t('workspace.openRight') : t('workspace.moveLeft')}
+                      aria-label={pane === 'left' ? t('workspace.openRight') : t('workspace.moveLeft')}
+                      style={tabButtonStyle}
+                    >
+                      {pane === 'left' ? '⇥' : '⇤'}
+                    </button>
+                  )}
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      onCloseTab(tab);
+                    }}
+                    title={t('workspace.closeTab')}
+                    aria-label={t('workspace.closeTabNamed', { plugin: tab.plugin })}
+                    style={tabButtonStyle}
+                  >
+                    ✕
+                  </button>
+                </div>
+              );
+            })}
+
+            {/* Přetažením sem se plocha rozdělí */}
+            {pane === 'left' && !isSplit && draggedTab && paneTabs.length > 1 && (
+              <div
+                className={`vtf-tab-split-zone ${dropTarget === 'right:end' ? 'vtf-tab-drop-target' : ''}`}
+                onDragOver={e => {
+                  e.stopPropagation();
+                  handleDragOver(e, 'right:end');
+                }}
+                onDrop={e => handleDrop(e, 'right', null)}
+              >
+                {t('workspace.splitZone')}
+              </div>
+            )}
+
+            <div style={{ marginLeft: 'auto', display: 'flex', gap: '0.25rem', flexShrink: 0 }}>
+              {pane === 'left' && (
+                <button onClick={onOpenPlugins} className="vtf-tab-action" title={t('workspace.runAnother')}>
+                  + Plugin
+                </button>
+              )}
+              {pane === 'right' && (
+                <button onClick={() => mergePanes(analysisId)} className="vtf-tab-action" title={t('workspace.mergeHint')}>
+                  {t('workspace.merge')}
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {/* Všechny záložky v jednom rodiči - přesun mezi panely grid nepřipojuje znovu */}
+      {projectTabs.map(tab => {
+        const source = sources[tab.id];
+        const isVisible = visibleTabIds.has(tab.id);
+        return (
+          <div
+            key={tab.id}
+            role="tabpanel"
+            aria-label={tab.plugin}
+            className={`vtf-workspace-pane ${isSplit && tab.id === focusedTabId ? 'focused' : ''}`}
+            style={{ gridColumn: tab.pane === 'left' ? 1 : 2, gridRow: 2, display: isVisible ? 'flex' : 'none' }}
+          >
+            {source ? (
+              <ResultsGrid
+                source={source}
+                analysisId={analysisId}
+                pluginName={tab.plugin}
+                focusRow={tab.id === focusedTabId ? focusRow : undefined}
+                onBackToUpload={onBackToUpload}
+              />
+            ) : isVisible && (
+              <div className="vtf-empty-state" style={{ margin: 'auto' }}>
+                <div className="vtf-empty-state-icon">📋</div>
+                <p className="vtf-empty-state-description" style={{ marginBottom: '1rem' }}>
+                  {t('workspace.notLoaded', { plugin: tab.plugin.split('.').pop() ?? tab.plugin })}
+                </p>
+                <button onClick={() => selectTab(tab)} className="vtf-btn vtf-btn-primary">
+                  {t('workspace.load')}
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
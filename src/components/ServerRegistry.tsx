@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import type { FormEvent } from 'react';
+import { checkServerHealth } from '../api/vtfApi';
+import type { BackendServer, ServerHealth } from '../api/vtfApi';
+import {
+  addServer,
+  getServersSnapshot,
+  normalizeServerUrl,
+  removeServer,
+  setActiveServer,
+  subscribeServers,
+} from '../api/servers';
+import { useI18n } from '../hooks/useI18n';
+
+interface ServerRegistryProps {
+  /** Volá se po přepnutí aktivního serveru - projekt z předchozího serveru už neplatí */
+  onActiveServerChange: () => void;
+}
+
+type HealthState = ServerHealth | 'checking';
+
+const inputStyle = {
+  display: 'block',
+  width: '100%',
+  padding: '0.625rem 0.875rem',
+  border: '1px solid var(--color-slate-300)',
+  borderRadius: 'var(--radius-md)',
+  fontSize: '0.875rem',
+};
+
+function HealthBadge({ health }: { health?: HealthState }) {
+  const { t } = useI18n();
+  if (!health) return <span className="vtf-status-badge vtf-status-pending">{t('servers.health.unchecked')}</span>;
+  if (health === 'checking') return <span className="vtf-status-badge vtf-status-running">{t('servers.health.checking')}</span>;
+  if (health.status === 'online') {
+    return (
+      <span className="vtf-status-badge vtf-status-completed" title={health.message}>
+        ● Online{health.latency_ms !== undefined && ` · ${health.latency_ms} ms`}
+      </span>
+    );
+  }
+  if (health.status === 'incompatible') {
+    return <span className="vtf-status-badge vtf-status-pending" title={health.message}>⚠ {t('servers.health.incompatible')}</span>;
+  }
+  return <span className="vtf-status-badge vtf-status-failed" title={health.message}>● {t('servers.health.offline')}</span>;
+}
+
+/**
+ * Správa backend serverů - přidání, test dostupnosti a přepnutí aktivního serveru
+ */
+export default function ServerRegistry({ onActiveServerChange }: ServerRegistryProps) {
+  const { servers, active } = useSyncExternalStore(subscribeServers, getServersSnapshot);
+  const [health, setHealth] = useState<Record<string, HealthState>>({});
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [formHealth, setFormHealth] = useState<HealthState | undefined>();
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  const runCheck = useCallback(async (server: BackendServer, signal?: AbortSignal) => {
+    let previous: HealthState | undefined;
+    setHealth(prev => {
+      previous = prev[server.id];
+      return { ...prev, [server.id]: 'checking' };
+    });
+    try {
+      const result = await checkServerHealth(server.url, signal);
+      setHealth(prev => ({ ...prev, [server.id]: result }));
+    } catch {
+      // checkServerHealth selže jen při zrušení - vrátíme poslední známý stav
+      setHealth(prev => {
+        const next = { ...prev };
+        if (previous === undefined) delete next[server.id];
+        else next[server.id] = previous;
+        return next;
+      });
+    }
+  }, []);
+
+  // Při otevření ověříme všechny servery v registru
+  useEffect(() => {
+    const controller = new AbortController();
+    getServersSnapshot().servers.forEach(server => runCheck(server, controller.signal));
+    return () => controller.abort();
+  }, [runCheck]);
+
+  const handleTestNew = async () => {
+    setError(null);
+    let normalized: string;
+    try {
+      normalized = normalizeServerUrl(url);
+    } catch (err) {
+      setError(err instanceof TypeError ? t('servers.invalidUrl') : (err as Error).message);
+      return;
+    }
+    setFormHealth('checking');
+    setFormHealth(await checkServerHealth(normalized));
+  };
+
+  const handleAdd = (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      const server = addServer(name, url);
+      setName('');
+      setUrl('');
+      setFormHealth(undefined);
+      runCheck(server);
+    } catch (err) {
+      setError(err instanceof TypeError ? t('servers.invalidUrl') : (err as Error).message);
+    }
+  };
+
+  const handleActivate = (server: BackendServer) => {
+    setActiveServer(server.id);
+    onActiveServerChange();
+  };
+
+  const handleRemove = (server: BackendServer) => {
+    if (!confirm(t('servers.confirmRemove', { name: server.name }))) return;
+    const wasActive = server.id === active.id;
+    removeServer(server.id);
+    if (wasActive) onActiveServerChange();
+  };
+
+  return (
+    <div>
+      <div className="vtf-card" style={{ padding: '1.5rem', marginBottom: '1.5rem' }}>
+        <h2 style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: '0.25rem', color: 'var(--color-slate-900)' }}>
+          {t('servers.title')}
+        </h2>
+        <p style={{ fontSize: '0.875rem', color: 'var(--color-slate-500)', marginBottom: '1.25rem' }}>
+          {t('servers.description')}
+        </p>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          {servers.map(server => {
+            const isActive = server.id === active.id;
+            const serverHealth = health[server.id];
+            return (
+              <div
+                key={server.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '1rem',
+                  padding: '1rem',
+                  borderRadius: 'var(--radius-md)',
+                  border: `1px solid ${isActive ? 'var(--color-primary-300)' : 'var(--color-slate-200)'}`,
+                  background: isActive ? 'var(--color-primary-50)' : 'var(--color-surface)',
+                }}
+              >
+                <span style={{ fontSize: '1.5rem' }}>🖥️</span>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontWeight: 600, color: 'var(--color-slate-900)' }}>
+                    {server.name}
+                    {isActive && <span className="vtf-badge vtf-badge-primary">{t('servers.active')}</span>}
+                  </div>
+                  <div style={{ fontSize: '0.8125rem', fontFamily: 'var(--font-mono)', color: 'var(--color-slate-500)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {server.url}
+                  </div>
+                  {serverHealth && serverHealth !== 'checking' && (serverHealth.api_version || serverHealth.message) && (
+                    <div style={{ fontSize: '0.75rem', color: 'var(--color-slate-500)', marginTop: '0.25rem' }}>
+                      {serverHealth.api_version && `API ${serverHealth.api_version}`}
+                      {serverHealth.backend_version && ` · backend ${serverHealth.backend_version}`}
+                      {serverHealth.message && `${serverHealth.api_version ? ' · ' : ''}${serverHealth.message}`}
+                    </div>
+                  )}
+                </div>
+                <HealthBadge health={serverHealth} />
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                  <button
+                    onClick={() => runCheck(server)}
+                    className="vtf-btn vtf-btn-secondary"
+                    disabled={serverHealth === 'checking'}
+                    style={{ fontSize: '0.8125rem', padding: '0.375rem 0.75rem' }}
+                  >
+                    {t('servers.test')}
+                  </button>
+                  {!isActive && (
+                    <button
+                      onClick={() => handleActivate(server)}
+                      className="vtf-btn vtf-btn-primary"
+                      style={{ fontSize: '0.8125rem', padding: '0.375rem 0.75rem' }}
+                    >
+                      {t('servers.use')}
+                    </button>
+                  )}
+                  {!server.builtin && (
+                    <button
+                      onClick={() => handleRemove(server)}
+                      className="vtf-btn vtf-btn-secondary"
+                      title={t('servers.remove')}
+                      style={{ fontSize: '0.8125rem', padding: '0.375rem 0.75rem', color: 'var(--color-danger)' }}
+                    >
+                      🗑️
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <form onSubmit={handleAdd} className="vtf-card" style={{ padding: '1.5rem' }}>
+        <h3 style={{ fontSize: '1.0625rem', fontWeight: 600, marginBottom: '1rem', color: 'var(--color-slate-900)' }}>
+          {t('servers.add.title')}
+        </h3>
+
+        {error && (
+          <div className="vtf-alert vtf-alert-danger" style={{ marginBottom: '1rem' }} role="alert">
+            <span className="vtf-alert-icon">❌</span>
+            <div className="vtf-alert-content">
+              <div className="vtf-alert-description">{error}</div>
+            </div>
+          </div>
+        )}
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: '1rem', marginBottom: '1rem' }}>
+          <div>
+            <label htmlFor="vtf-server-name" style={{ display: 'block', fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.375rem', color: 'var(--color-slate-700)' }}>
+              {t('servers.add.name')}
+            </label>
+            <input
+              id="vtf-server-name"
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder={t('servers.add.namePlaceholder')}
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label htmlFor="vtf-server-url" style={{ display: 'block', fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.375rem', color: 'var(--color-slate-700)' }}>
+              URL
+            </label>
+            <input
+              id="vtf-server-url"
+              type="url"
+              value={url}
+              onChange={e => { setUrl(e.target.value); setFormHealth(undefined); }}
+              placeholder="http://10.0.12.5:8000"
+              style={inputStyle}
+              required
+            />
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+          <button
+            type="button"
+            onClick={handleTestNew}
+            className="vtf-btn vtf-btn-secondary"
+            disabled={!url.trim() || formHealth === 'checking'}
+          >
+            {t('servers.add.test')}
+          </button>
+          <button type="submit" className="vtf-btn vtf-btn-primary" disabled={!url.trim()}>
+            + {t('servers.add.submit')}
+          </button>
+          {formHealth && <HealthBadge health={formHealth} />}
+          {formHealth && formHealth !== 'checking' && formHealth.message && (
+            <span style={{ fontSize: '0.8125rem', color: 'var(--color-slate-500)' }}>{formHealth.message}</span>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,31 +1,45 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { getSymbols, uploadISF, deleteSymbol, type SymbolInfo } from '../api/vtfApi';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../i18n/cs';
+import { reportError } from '../notifications';
+
+interface SymbolError {
+  title: MessageKey;
+  cause: unknown;
+  retry: () => void;
+}
 
 export default function SymbolManager() {
+  const { t, formatNumber, formatDateTime } = useI18n();
   const [symbols, setSymbols] = useState<SymbolInfo[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // Klíč titulku - po přepnutí jazyka se oznámení nahradí přeloženým
+  const [error, setError] = useState<SymbolError | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadFile, setUploadFile] = useState<File | null>(null);
   const [kernelVersion, setKernelVersion] = useState('');
 
-  const loadSymbols = async () => {
+  // Stabilní reference - retry v oznámení volá stejnou funkci
+  const loadSymbols = useCallback(async () => {
     setIsLoading(true);
-    setError(null);
     try {
       const data = await getSymbols();
       setSymbols(data);
     } catch (err) {
-      setError('Nepodařilo se načíst symboly');
-      console.error(err);
+      setError({ title: 'symbols.error.load', cause: err, retry: loadSymbols });
     } finally {
       setIsLoading(false);
     }
-  };
+  }, []);
 
   useEffect(() => {
     loadSymbols();
-  }, []);
+  }, [loadSymbols]);
+
+  useEffect(() => {
+    if (error) reportError(t(error.title), error.cause, error.retry, 'symbols');
+  }, [error, t]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
@@ -37,7 +51,6 @@ export default function SymbolManager() {
     if (!uploadFile) return;
 
     setIsUploading(true);
-    setError(null);
 
     try {
       await uploadISF(uploadFile, kernelVersion || undefined);
@@ -45,24 +58,26 @@ export default function SymbolManager() {
       setKernelVersion('');
       await loadSymbols();
     } catch (err) {
-      setError('Nepodařilo se nahrát ISF soubor');
-      console.error(err);
+      setError({ title: 'symbols.error.upload', cause: err, retry: handleUpload });
     } finally {
       setIsUploading(false);
     }
   };
 
   const handleDelete = async (symbolId: string) => {
-    if (!confirm('Opravdu chcete smazat tento symbol file?')) {
+    if (!confirm(t('symbols.confirmDelete'))) {
       return;
     }
+    await removeSymbol(symbolId);
+  };
 
+  // Retry po chybě už potvrzení nevyžaduje
+  const removeSymbol = async (symbolId: string) => {
     try {
       await deleteSymbol(symbolId);
       await loadSymbols();
     } catch (err) {
-      setError('Nepodařilo se smazat symbol');
-      console.error(err);
+      setError({ title: 'symbols.error.delete', cause: err, retry: () => removeSymbol(symbolId) });
     }
   };
 
@@ -84,36 +99,26 @@ export default function SymbolManager() {
           ⚙️
         </div>
         <h2 style={{ fontSize: '1.875rem', fontWeight: 700, color: 'var(--color-slate-900)', marginBottom: '0.5rem' }}>
-          Správa symbolů
+          {t('nav.symbols')}
         </h2>
         <p style={{ color: 'var(--color-slate-600)', fontSize: '1rem' }}>
-          Správa ISF symbol souborů pro analýzu Linux memory dumpů
+          {t('symbols.description')}
         </p>
       </div>
 
-      {error && (
-        <div className="vtf-alert vtf-alert-danger" style={{ marginBottom: '1.5rem' }}>
-          <span className="vtf-alert-icon">⚠️</span>
-          <div className="vtf-alert-content">
-            <div className="vtf-alert-title">Chyba</div>
-            <div className="vtf-alert-description">{error}</div>
-          </div>
-        </div>
-      )}
-
       {/* Upload Section */}
       <div className="vtf-card" style={{ padding: '2rem', marginBottom: '2rem' }}>
         <h3 style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: '0.75rem', color: 'var(--color-slate-900)' }}>
-          Nahrát ISF symbol file
+          {t('symbols.upload.title')}
         </h3>
         <p style={{ fontSize: '0.875rem', color: 'var(--color-slate-600)', marginBottom: '1.5rem' }}>
-          Pokud již máte vygenerovaný ISF soubor, můžete ho nahrát přímo zde.
+          {t('symbols.upload.description')}
         </p>
 
         <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))', gap: '1rem', marginBottom: '1.5rem' }}>
           <div>
             <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem', color: 'var(--color-slate-700)' }}>
-              ISF soubor (.json)
+              {t('symbols.upload.file')}
             </label>
             <input
               type="file"
@@ -127,7 +132,7 @@ export default function SymbolManager() {
                 border: '1px solid var(--color-slate-300)',
                 borderRadius: 'var(--radius-md)',
                 cursor: 'pointer',
-                background: 'white',
+                background: 'var(--color-surface)',
                 padding: '0.625rem'
               }}
             />
@@ -135,7 +140,7 @@ export default function SymbolManager() {
               <div className="vtf-alert vtf-alert-info" style={{ marginTop: '0.75rem' }}>
                 <span className="vtf-alert-icon">📄</span>
                 <div className="vtf-alert-content" style={{ fontSize: '0.8125rem' }}>
-                  {uploadFile.name} ({(uploadFile.size / 1024 / 1024).toFixed(2)} MB)
+                  {uploadFile.name} ({formatNumber(uploadFile.size / 1024 / 1024, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} MB)
                 </div>
               </div>
             )}
@@ -143,13 +148,13 @@ export default function SymbolManager() {
 
           <div>
             <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem', color: 'var(--color-slate-700)' }}>
-              Kernel verze (volitelné)
+              {t('symbols.upload.kernel')}
             </label>
             <input
               type="text"
               value={kernelVersion}
               onChange={(e) => setKernelVersion(e.target.value)}
-              placeholder="např. 5.15.0-76-generic"
+              placeholder={t('symbols.upload.kernelPlaceholder')}
               disabled={isUploading}
               style={{
                 display: 'block',
@@ -179,10 +184,10 @@ export default function SymbolManager() {
                 borderRadius: '50%',
                 animation: 'spin 0.8s linear infinite'
               }}></div>
-              Nahrávám...
+              {t('symbols.upload.uploading')}
             </>
           ) : (
-            <>⬆️ Nahrát ISF</>
+            <>⬆️ {t('symbols.upload.submit')}</>
           )}
         </button>
       </div>
@@ -191,24 +196,24 @@ export default function SymbolManager() {
       <div className="vtf-card" style={{ padding: '2rem' }}>
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1.5rem' }}>
           <h3 style={{ fontSize: '1.25rem', fontWeight: 600, color: 'var(--color-slate-900)' }}>
-            Dostupné symboly
+            {t('symbols.list.title')}
           </h3>
           <span className="vtf-badge vtf-badge-slate" style={{ fontSize: '0.875rem', padding: '0.5rem 1rem' }}>
-            {symbols.length} {symbols.length === 1 ? 'symbol' : symbols.length < 5 ? 'symboly' : 'symbolů'}
+            {t('symbols.count', { count: symbols.length })}
           </span>
         </div>
 
         {isLoading ? (
           <div className="vtf-loading" style={{ minHeight: '300px' }}>
             <div className="vtf-spinner"></div>
-            <p style={{ color: 'var(--color-slate-600)', marginTop: '1rem' }}>Načítám symboly...</p>
+            <p style={{ color: 'var(--color-slate-600)', marginTop: '1rem' }}>{t('symbols.list.loading')}</p>
           </div>
         ) : symbols.length === 0 ? (
           <div className="vtf-empty-state">
             <div className="vtf-empty-state-icon">⚙️</div>
-            <h3 className="vtf-empty-state-title">Žádné symboly nenalezeny</h3>
+            <h3 className="vtf-empty-state-title">{t('symbols.empty.title')}</h3>
             <p className="vtf-empty-state-description">
-              Nahrajte vmlinux při uploadu Linux dumpu nebo nahrajte ISF soubor výše.
+              {t('symbols.empty.description')}
             </p>
           </div>
         ) : (
@@ -217,19 +222,19 @@ export default function SymbolManager() {
               <thead>
                 <tr style={{ background: 'var(--color-slate-50)', borderBottom: '2px solid var(--color-slate-200)' }}>
                   <th style={{ padding: '1rem 1.5rem', textAlign: 'left', fontSize: '0.75rem', fontWeight: 600, color: 'var(--color-slate-700)', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
-                    Symbol ID
+                    {t('symbols.column.id')}
                   </th>
                   <th style={{ padding: '1rem 1.5rem', textAlign: 'left', fontSize: '0.75rem', fontWeight: 600, color: 'var(--color-slate-700)', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
-                    Kernel Verze
+                    {t('symbols.column.kernel')}
                   </th>
                   <th style={{ padding: '1rem 1.5rem', textAlign: 'left', fontSize: '0.75rem', fontWeight: 600, color: 'var(--color-slate-700)', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
-                    Velikost
+                    {t('symbols.column.size')}
                   </th>
                   <th style={{ padding: '1rem 1.5rem', textAlign: 'left', fontSize: '0.75rem', fontWeight: 600, color: 'var(--color-slate-700)', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
-                    Vytvořeno
+                    {t('symbols.column.created')}
                   </th>
                   <th style={{ padding: '1rem 1.5rem', textAlign: 'left', fontSize: '0.75rem', fontWeight: 600, color: 'var(--color-slate-700)', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
-                    Akce
+                    {t('symbols.column.actions')}
                   </th>
                 </tr>
               </thead>
@@ -240,7 +245,7 @@ export default function SymbolManager() {
                     transition: 'background var(--transition-fast)'
                   }}
                   onMouseEnter={(e) => e.currentTarget.style.background = 'var(--color-slate-50)'}
-                  onMouseLeave={(e) => e.currentTarget.style.background = 'white'}
+                  onMouseLeave={(e) => e.currentTarget.style.background = 'var(--color-surface)'}
                   >
                     <td style={{ padding: '1rem 1.5rem', fontSize: '0.875rem', fontFamily: 'var(--font-mono)', color: 'var(--color-slate-900)' }}>
                       <span className="vtf-badge vtf-badge-slate" style={{ fontSize: '0.75rem', fontFamily: 'var(--font-mono)' }}>
@@ -252,11 +257,11 @@ export default function SymbolManager() {
                     </td>
                     <td style={{ padding: '1rem 1.5rem', fontSize: '0.875rem', color: 'var(--color-slate-900)' }}>
                       <span className="vtf-badge vtf-badge-primary" style={{ fontSize: '0.75rem' }}>
-                        {symbol.size_mb.toFixed(2)} MB
+                        {formatNumber(symbol.size_mb, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} MB
                       </span>
                     </td>
                     <td style={{ padding: '1rem 1.5rem', fontSize: '0.875rem', color: 'var(--color-slate-600)' }}>
-                      {new Date(symbol.created_at).toLocaleString('cs-CZ', {
+                      {formatDateTime(symbol.created_at, {
                         year: 'numeric',
                         month: 'short',
                         day: 'numeric',
@@ -275,7 +280,7 @@ export default function SymbolManager() {
                           color: 'white'
                         }}
                       >
-                        🗑️ Smazat
+                        🗑️ {t('symbols.delete')}
                       </button>
                     </td>
                   </tr>
@@ -0,0 +1,92 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  getNotificationsSnapshot,
+  hideToast,
+  retryNotification,
+  subscribeNotifications,
+} from '../notifications';
+import type { AppNotification, NotificationLevel } from '../notifications';
+import { useI18n } from '../hooks/useI18n';
+
+const MAX_TOASTS = 4;
+
+// Chyby zůstávají déle, aby šlo stihnout „Zkusit znovu“
+const TOAST_DURATION_MS: Record<NotificationLevel, number> = {
+  error: 10_000,
+  warning: 8_000,
+  success: 4_000,
+  info: 5_000,
+};
+
+const LEVEL_ICONS: Record<NotificationLevel, string> = {
+  error: '⚠️',
+  warning: '⚠️',
+  success: '✅',
+  info: 'ℹ️',
+};
+
+const LEVEL_ALERTS: Record<NotificationLevel, string> = {
+  error: 'vtf-alert-danger',
+  warning: 'vtf-alert-warning',
+  success: 'vtf-alert-success',
+  info: 'vtf-alert-info',
+};
+
+function Toast({ notification }: { notification: AppNotification }) {
+  const { id, level } = notification;
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const timer = setTimeout(() => hideToast(id), TOAST_DURATION_MS[level]);
+    return () => clearTimeout(timer);
+  }, [id, level]);
+
+  return (
+    <div
+      className={`vtf-alert ${LEVEL_ALERTS[level]} vtf-toast`}
+      role={level === 'error' ? 'alert' : 'status'}
+    >
+      <span className="vtf-alert-icon" aria-hidden="true">{LEVEL_ICONS[level]}</span>
+      <div className="vtf-alert-content" style={{ minWidth: 0 }}>
+        <div className="vtf-alert-title">{notification.title}</div>
+        {notification.message && (
+          <div className="vtf-alert-description" style={{ overflowWrap: 'anywhere' }}>{notification.message}</div>
+        )}
+        {notification.retry && (
+          <button
+            onClick={() => { void retryNotification(id); }}
+            className="vtf-btn vtf-btn-secondary"
+            style={{ marginTop: '0.5rem', padding: '0.25rem 0.75rem', fontSize: '0.8125rem' }}
+          >
+            ↻ {t('common.retry')}
+          </button>
+        )}
+      </div>
+      <button
+        onClick={() => hideToast(id)}
+        aria-label={t('notifications.close')}
+        style={{ alignSelf: 'flex-start', background: 'none', border: 'none', color: 'inherit', opacity: 0.6, cursor: 'pointer', fontSize: '1rem', lineHeight: 1 }}
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Toasty v pravém dolním rohu - nejnovější oznámení, dokud je uživatel nezavře nebo nevyprší
+ */
+export default function ToastStack() {
+  const notifications = useSyncExternalStore(subscribeNotifications, getNotificationsSnapshot);
+  const toasts = notifications.filter(n => n.toast).slice(0, MAX_TOASTS);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="vtf-toast-stack" aria-live="polite">
+      {toasts.map(notification => (
+        <Toast key={notification.id} notification={notification} />
+      ))}
+    </div>
+  );
+}
@@ -1,18 +1,24 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import type { FormEvent } from 'react';
 import type { UploadResponse, DetectOSResponse } from '../api/vtfApi';
+import type { ChunkedUpload, ChunkedUploadProgress } from '../api/chunkedUpload';
+import { useI18n } from '../hooks/useI18n';
 
 interface UploadFormProps {
   onUploadSuccess: (analysisId: string) => void;
-  onError: (error: string) => void;
+  /** Nahlášení chyby; retry zopakuje neúspěšný krok */
+  onError: (title: string, error: unknown, retry?: () => unknown) => void;
   onBack?: () => void;
 }
 
 export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadFormProps) {
+  const { t, formatNumber } = useI18n();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [projectName, setProjectName] = useState<string>('');
-  const [isUploading, setIsUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<ChunkedUploadProgress | null>(null);
   const [uploadResponse, setUploadResponse] = useState<UploadResponse | null>(null);
+  const uploadRef = useRef<ChunkedUpload | null>(null);
+  const isUploading = uploadProgress?.state === 'uploading' || uploadProgress?.state === 'finalizing';
   
   // OS detection state
   const [selectedOS, setSelectedOS] = useState<'windows' | 'linux'>('windows');
@@ -24,10 +30,23 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
   const [isUploadingSymbols, setIsUploadingSymbols] = useState(false);
   const [symbolJobId, setSymbolJobId] = useState<string | null>(null);
   const [symbolStatus, setSymbolStatus] = useState<string>('');
+  const symbolJobAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => symbolJobAbortRef.current?.abort(), []);
+  // Při opuštění formuláře upload jen pozastavíme - session na serveru zůstává
+  // a po opětovném výběru stejného souboru se naváže
+  useEffect(() => () => uploadRef.current?.pause(), []);
+
+  const selectFile = (file: File) => {
+    uploadRef.current?.cancel();
+    uploadRef.current = null;
+    setUploadProgress(null);
+    setSelectedFile(file);
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      setSelectedFile(e.target.files[0]);
+      selectFile(e.target.files[0]);
       // Automaticky nastavíme název projektu podle jména souboru (bez přípony)
       if (!projectName) {
         const fileName = e.target.files[0].name;
@@ -47,23 +66,65 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
     e.preventDefault();
 
     if (!selectedFile) {
-      onError('Prosím vyberte soubor');
+      onError(t('upload.noFile.title'), t('upload.noFile.message'));
       return;
     }
 
-    setIsUploading(true);
+    // Po pauze nebo chybě pokračujeme ve stejném uploadu
+    if (uploadRef.current) {
+      uploadRef.current.start();
+      return;
+    }
 
     try {
-      const { uploadFile } = await import('../api/vtfApi');
-      const response = await uploadFile(selectedFile, projectName || undefined);
-      setUploadResponse(response);
+      const { createChunkedUpload } = await import('../api/chunkedUpload');
+      uploadRef.current = createChunkedUpload(selectedFile, {
+        projectName: projectName || undefined,
+        onProgress: setUploadProgress,
+        onComplete: response => {
+          uploadRef.current = null;
+          setUploadResponse(response);
+        },
+      });
+      uploadRef.current.start();
     } catch (error) {
-      onError(error instanceof Error ? error.message : 'Nahrávání selhalo');
-    } finally {
-      setIsUploading(false);
+      onError(t('upload.failed'), error);
     }
   };
 
+  const handlePauseUpload = () => {
+    uploadRef.current?.pause();
+  };
+
+  const formatBytes = (bytes: number) => {
+    const fixed = { minimumFractionDigits: 2, maximumFractionDigits: 2 };
+    if (bytes >= 1024 * 1024 * 1024) return `${formatNumber(bytes / 1024 / 1024 / 1024, fixed)} GB`;
+    return `${formatNumber(bytes / 1024 / 1024, fixed)} MB`;
+  };
+
+  const formatEta = (seconds: number | null) => {
+    if (seconds === null) return '–';
+    const s = Math.ceil(seconds);
+    if (s < 60) return `${s} s`;
+    if (s < 3600) return `${Math.floor(s / 60)} min ${s % 60} s`;
+    return `${Math.floor(s / 3600)} h ${Math.floor((s % 3600) / 60)} min`;
+  };
+
+  const renderProgressBar = (label: string, done: number, total: number, color: string) => {
+    const percent = total > 0 ? Math.min(100, (done / total) * 100) : 0;
+    return (
+      <div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.8125rem', marginBottom: '0.25rem', color: 'var(--color-slate-700)' }}>
+          <span style={{ fontWeight: 500 }}>{label}</span>
+          <span>{percent.toFixed(1)} %</span>
+        </div>
+        <div style={{ height: '8px', background: 'var(--color-slate-200)', borderRadius: '9999px', overflow: 'hidden' }}>
+          <div style={{ width: `${percent}%`, height: '100%', background: color, transition: 'width var(--transition-fast)' }}></div>
+        </div>
+      </div>
+    );
+  };
+
   const handleDetectOS = async () => {
     if (!uploadResponse) return;
     
@@ -80,7 +141,7 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
         setSelectedOS(result.os_type as 'windows' | 'linux');
       }
     } catch (error) {
-      onError(error instanceof Error ? error.message : 'Detekce OS selhala');
+      onError(t('upload.detect.failed'), error, handleDetectOS);
     } finally {
       setIsDetecting(false);
     }
@@ -90,45 +151,64 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
     if (!vmlinuxFile || !uploadResponse) return;
 
     setIsUploadingSymbols(true);
-    setSymbolStatus('Uploading vmlinux...');
+    setSymbolStatus(t('upload.symbols.uploading'));
 
     try {
-      const { uploadVmlinux, getSymbolJobStatus } = await import('../api/vtfApi');
+      const { uploadVmlinux, subscribeSymbolJob } = await import('../api/vtfApi');
+      const { trackSymbolJob } = await import('../api/jobs');
       const kernelVersion = detectionResult?.kernel_version;
       const job = await uploadVmlinux(vmlinuxFile, undefined, kernelVersion);
+      trackSymbolJob(job);
       setSymbolJobId(job.job_id);
-      setSymbolStatus(`Generování ISF symbolů... (${job.status})`);
+      setSymbolStatus(t('upload.symbols.generating', { status: job.status }));
 
-      // Poll for status
-      const pollInterval = setInterval(async () => {
-        try {
-          const status = await getSymbolJobStatus(job.job_id);
-          setSymbolStatus(`Stav: ${status.status}${status.error ? ` - ${status.error}` : ''}`);
-          
-          if (status.status === 'completed') {
-            clearInterval(pollInterval);
-            setSymbolStatus('Symboly úspěšně vygenerovány!');
-            setTimeout(() => {
-              onUploadSuccess(uploadResponse.analysis_id);
-            }, 1500);
-          } else if (status.status === 'failed') {
-            clearInterval(pollInterval);
-            setSymbolStatus(`Chyba: ${status.error}`);
-            setIsUploadingSymbols(false);
-          }
-        } catch (error) {
-          clearInterval(pollInterval);
-          setSymbolStatus('Chyba při kontrole statusu');
+      // Sledování stavu jobu (push ze serveru, fallback polling)
+      symbolJobAbortRef.current?.abort();
+      symbolJobAbortRef.current = new AbortController();
+      const unsubscribe = subscribeSymbolJob(job.job_id, status => {
+        setSymbolStatus(t('upload.symbols.status', { status: status.status }) + (status.error ? ` - ${status.error}` : ''));
+
+        if (status.status === 'completed') {
+          unsubscribe();
+          setSymbolStatus(t('upload.symbols.done'));
+          setTimeout(() => {
+            onUploadSuccess(uploadResponse.analysis_id);
+          }, 1500);
+        } else if (status.status === 'failed') {
+          unsubscribe();
+          setSymbolStatus(t('upload.symbols.error', { error: status.error ?? t('common.unknownError') }));
           setIsUploadingSymbols(false);
         }
-      }, 3000);
+      }, {
+        signal: symbolJobAbortRef.current.signal,
+        onError: () => {
+          unsubscribe();
+          setSymbolStatus(t('upload.symbols.statusError'));
+          setIsUploadingSymbols(false);
+        },
+      });
 
     } catch (error) {
-      onError(error instanceof Error ? error.message : 'Nepodařilo se nahrát vmlinux');
+      onError(t('upload.symbols.uploadFailed'), error, handleVmlinuxUpload);
       setIsUploadingSymbols(false);
     }
   };
 
+  const handleOSChange = async (newOS: 'windows' | 'linux') => {
+    if (!uploadResponse) return;
+    const previousOS = selectedOS;
+    setSelectedOS(newOS);
+
+    try {
+      const { updateProject } = await import('../api/vtfApi');
+      await updateProject(uploadResponse.analysis_id, { osType: newOS });
+    } catch (error) {
+      // Výběr ukazuje, co je opravdu uložené v projektu
+      setSelectedOS(previousOS);
+      onError(t('upload.os.saveFailed'), error, () => handleOSChange(newOS));
+    }
+  };
+
   const handleContinue = async () => {
     if (!uploadResponse) return;
     
@@ -140,7 +220,7 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
       // Pokračujeme dál
       onUploadSuccess(uploadResponse.analysis_id);
     } catch (error) {
-      onError(error instanceof Error ? error.message : 'Nepodařilo se aktualizovat OS');
+      onError(t('upload.os.saveFailed'), error, handleContinue);
     }
   };
   
@@ -155,7 +235,7 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
       // Pokračujeme dál
       onUploadSuccess(uploadResponse.analysis_id);
     } catch (error) {
-      onError(error instanceof Error ? error.message : 'Nepodařilo se aktualizovat OS');
+      onError(t('upload.os.saveFailed'), error, handleLinuxContinueWithoutSymbols);
     }
   };
 
@@ -179,20 +259,20 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
             ⬆️
           </div>
           <h2 style={{ fontSize: '1.875rem', fontWeight: 700, color: 'var(--color-slate-900)' }}>
-            Nahrát Memory Dump
+            {t('app.title.upload')}
           </h2>
         </div>
         
         <form onSubmit={handleSubmit} className="vtf-card" style={{ padding: '2rem' }}>
           <div style={{ marginBottom: '1.5rem' }}>
             <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem', color: 'var(--color-slate-700)' }}>
-              Název projektu
+              {t('upload.projectName')}
             </label>
             <input
               type="text"
               value={projectName}
               onChange={(e) => setProjectName(e.target.value)}
-              placeholder="např. Windows10_Investigation"
+              placeholder={t('upload.projectNamePlaceholder')}
               style={{
                 display: 'block',
                 width: '100%',
@@ -206,13 +286,13 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
               onBlur={(e) => e.target.style.borderColor = 'var(--color-slate-300)'}
             />
             <p style={{ marginTop: '0.375rem', fontSize: '0.8125rem', color: 'var(--color-slate-500)' }}>
-              Pokud nevyplníte, použije se název souboru
+              {t('upload.projectNameHint')}
             </p>
           </div>
 
           <div style={{ marginBottom: '1.5rem' }}>
             <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem', color: 'var(--color-slate-700)' }}>
-              Vyberte soubor memory dumpu
+              {t('upload.chooseFile')}
             </label>
             <div style={{
               position: 'relative',
@@ -239,7 +319,7 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
               e.currentTarget.style.background = 'var(--color-slate-50)';
               if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
                 const file = e.dataTransfer.files[0];
-                setSelectedFile(file);
+                selectFile(file);
                 if (!projectName) {
                   const fileName = file.name;
                   const nameWithoutExt = fileName.replace(/\.(vmem|raw|mem|dmp)$/i, '');
@@ -249,10 +329,10 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
             }}>
               <div style={{ fontSize: '3rem', marginBottom: '0.75rem' }}>📁</div>
               <p style={{ fontSize: '0.9375rem', color: 'var(--color-slate-700)', marginBottom: '0.5rem' }}>
-                <strong>Přetáhněte soubor sem</strong> nebo klikněte pro výběr
+                <strong>{t('upload.dropHere')}</strong> {t('upload.orClick')}
               </p>
               <p style={{ fontSize: '0.8125rem', color: 'var(--color-slate-500)' }}>
-                Podporované formáty: .vmem, .raw, .mem, .dmp
+                {t('upload.formats', { formats: '.vmem, .raw, .mem, .dmp' })}
               </p>
               <input
                 type="file"
@@ -275,36 +355,89 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
                 <div className="vtf-alert-content">
                   <div className="vtf-alert-title">{selectedFile.name}</div>
                   <div style={{ fontSize: '0.8125rem' }}>
-                    Velikost: {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                    {t('upload.size')} {formatBytes(selectedFile.size)}
                   </div>
                 </div>
               </div>
             )}
           </div>
 
-          <div style={{ display: 'flex', gap: '1rem' }}>
-            <button
-              type="submit"
-              disabled={!selectedFile || isUploading}
-              className="vtf-btn vtf-btn-primary"
-              style={{ flex: 1, padding: '0.875rem 1.5rem', fontSize: '1rem' }}
-            >
-              {isUploading ? (
-                <>
-                  <div style={{ 
-                    width: '16px', 
-                    height: '16px', 
-                    border: '2px solid white', 
-                    borderTopColor: 'transparent',
-                    borderRadius: '50%',
-                    animation: 'spin 0.8s linear infinite'
-                  }}></div>
-                  Nahrávám...
-                </>
-              ) : (
-                <>⬆️ Nahrát</>
+          {/* Průběh chunked uploadu */}
+          {uploadProgress && (
+            <div style={{ marginBottom: '1.5rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+              {renderProgressBar(
+                t('upload.progress.uploaded', { done: formatBytes(uploadProgress.uploadedBytes), total: formatBytes(uploadProgress.totalBytes) }),
+                uploadProgress.uploadedBytes,
+                uploadProgress.totalBytes,
+                'var(--color-primary-500)'
               )}
-            </button>
+              {renderProgressBar(
+                t('upload.progress.hash'),
+                uploadProgress.hashedBytes,
+                uploadProgress.totalBytes,
+                'var(--color-accent-500)'
+              )}
+              {uploadProgress.state === 'uploading' && (
+                <p style={{ fontSize: '0.8125rem', color: 'var(--color-slate-500)' }}>
+                  {t('upload.progress.speed', { speed: formatBytes(uploadProgress.bytesPerSecond), eta: formatEta(uploadProgress.etaSeconds) })}
+                </p>
+              )}
+              {uploadProgress.state === 'finalizing' && (
+                <p style={{ fontSize: '0.8125rem', color: 'var(--color-slate-500)' }}>
+                  {t('upload.progress.finalizing')}
+                </p>
+              )}
+              {uploadProgress.state === 'paused' && (
+                <p style={{ fontSize: '0.8125rem', color: 'var(--color-slate-500)' }}>
+                  {t('upload.progress.paused')}
+                </p>
+              )}
+              {uploadProgress.state === 'failed' && (
+                <div className="vtf-alert vtf-alert-danger">
+                  <span className="vtf-alert-icon">⚠️</span>
+                  <div className="vtf-alert-content">
+                    <div className="vtf-alert-title">{t('upload.failed')}</div>
+                    <div className="vtf-alert-description">{uploadProgress.error}</div>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: '1rem' }}>
+            {isUploading ? (
+              <button
+                type="button"
+                onClick={handlePauseUpload}
+                className="vtf-btn vtf-btn-secondary"
+                style={{ flex: 1, padding: '0.875rem 1.5rem', fontSize: '1rem' }}
+              >
+                <div style={{ 
+                  width: '16px', 
+                  height: '16px', 
+                  border: '2px solid currentColor', 
+                  borderTopColor: 'transparent',
+                  borderRadius: '50%',
+                  animation: 'spin 0.8s linear infinite'
+                }}></div>
+                ⏸ {t('upload.pause')}
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!selectedFile}
+                className="vtf-btn vtf-btn-primary"
+                style={{ flex: 1, padding: '0.875rem 1.5rem', fontSize: '1rem' }}
+              >
+                {uploadProgress?.state === 'paused' ? (
+                  <>▶️ {t('upload.resume')}</>
+                ) : uploadProgress?.state === 'failed' ? (
+                  <>🔄 {t('common.retry')}</>
+                ) : (
+                  <>⬆️ {t('upload.submit')}</>
+                )}
+              </button>
+            )}
             
             {onBack && (
               <button
@@ -313,7 +446,7 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
                 className="vtf-btn vtf-btn-secondary"
                 style={{ padding: '0.875rem 1.5rem' }}
               >
-                ← Zpět
+                ← {t('common.back')}
               </button>
             )}
           </div>
@@ -328,7 +461,7 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
       <div style={{ maxWidth: '600px', margin: '0 auto' }}>
         <div style={{ textAlign: 'center', marginBottom: '2rem' }}>
           <h2 style={{ fontSize: '1.875rem', fontWeight: 700, color: 'var(--color-slate-900)' }}>
-            Generování Symbolů
+            {t('upload.symbols.title')}
           </h2>
         </div>
         
@@ -345,7 +478,7 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
             <span className="vtf-alert-icon">⏱️</span>
             <div className="vtf-alert-content">
               <div className="vtf-alert-description">
-                Generování ISF symbolů může trvat několik minut...
+                {t('upload.symbols.hint')}
               </div>
             </div>
           </div>
@@ -373,7 +506,7 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
           ⚙️
         </div>
         <h2 style={{ fontSize: '1.875rem', fontWeight: 700, color: 'var(--color-slate-900)' }}>
-          Konfigurace Projektu
+          {t('upload.config.title')}
         </h2>
       </div>
       
@@ -382,34 +515,29 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
           {/* Info o nahraném souboru */}
           <div style={{ padding: '1.25rem', background: 'var(--color-slate-50)', borderRadius: 'var(--radius-lg)', border: '1px solid var(--color-slate-200)' }}>
             <h3 style={{ fontSize: '1rem', fontWeight: 600, marginBottom: '0.75rem', color: 'var(--color-slate-900)' }}>
-              ✓ Nahraný soubor
+              ✓ {t('upload.config.uploadedFile')}
             </h3>
             <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem', fontSize: '0.875rem', color: 'var(--color-slate-700)' }}>
-              <p><span style={{ fontWeight: 500 }}>Název:</span> {uploadResponse.filename}</p>
-              <p><span style={{ fontWeight: 500 }}>Velikost:</span> {(uploadResponse.size_bytes / 1024 / 1024).toFixed(2)} MB</p>
+              <p><span style={{ fontWeight: 500 }}>{t('upload.config.name')}</span> {uploadResponse.filename}</p>
+              <p><span style={{ fontWeight: 500 }}>{t('upload.size')}</span> {formatBytes(uploadResponse.size_bytes)}</p>
+              {uploadResponse.sha256 && (
+                <p>
+                  <span style={{ fontWeight: 500 }}>SHA-256:</span>{' '}
+                  <code style={{ fontFamily: 'var(--font-mono)', fontSize: '0.8125rem', wordBreak: 'break-all' }}>{uploadResponse.sha256}</code>
+                  {' '}<span style={{ color: 'var(--color-success)' }}>({t('upload.config.verified')})</span>
+                </p>
+              )}
             </div>
           </div>
 
           {/* Výběr OS */}
           <div>
             <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem', color: 'var(--color-slate-700)' }}>
-              Operační systém
+              {t('upload.os.label')}
             </label>
             <select
               value={selectedOS}
-              onChange={async (e) => {
-                const newOS = e.target.value as 'windows' | 'linux';
-                setSelectedOS(newOS);
-                
-                if (uploadResponse) {
-                  try {
-                    const { updateProject } = await import('../api/vtfApi');
-                    await updateProject(uploadResponse.analysis_id, { osType: newOS });
-                  } catch (error) {
-                    console.error('Nepodařilo se aktualizovat OS:', error);
-                  }
-                }
-              }}
+              onChange={e => handleOSChange(e.target.value as 'windows' | 'linux')}
               style={{
                 display: 'block',
                 width: '100%',
@@ -417,14 +545,14 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
                 border: '1px solid var(--color-slate-300)',
                 borderRadius: 'var(--radius-md)',
                 fontSize: '0.9375rem',
-                background: 'white'
+                background: 'var(--color-surface)'
               }}
             >
               <option value="windows">🪟 Windows</option>
               <option value="linux">🐧 Linux</option>
             </select>
             <p style={{ marginTop: '0.375rem', fontSize: '0.8125rem', color: 'var(--color-slate-500)' }}>
-              OS se automaticky uloží do projektu
+              {t('upload.os.hint')}
             </p>
           </div>
 
@@ -446,14 +574,14 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
                     borderRadius: '50%',
                     animation: 'spin 0.8s linear infinite'
                   }}></div>
-                  Detekovám...
+                  {t('upload.detect.running')}
                 </>
               ) : (
-                <>🔍 Spustit Banners Plugin</>
+                <>🔍 {t('upload.detect.run')}</>
               )}
             </button>
             <p style={{ marginTop: '0.5rem', fontSize: '0.8125rem', color: 'var(--color-slate-500)', textAlign: 'center' }}>
-              Použije Volatility plugin pro automatickou detekci OS
+              {t('upload.detect.hint')}
             </p>
           </div>
 
@@ -463,7 +591,7 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
               <span className="vtf-alert-icon">{detectionResult.success ? '✅' : '⚠️'}</span>
               <div className="vtf-alert-content">
                 <div className="vtf-alert-title">
-                  {detectionResult.success ? 'Detekce úspěšná' : 'Detekce selhala'}
+                  {detectionResult.success ? t('upload.detect.success') : t('upload.detect.failed')}
                 </div>
                 
                 {detectionResult.success ? (
@@ -473,7 +601,7 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
                       <p><span style={{ fontWeight: 500 }}>Kernel:</span> {detectionResult.kernel_version}</p>
                     )}
                     {detectionResult.architecture && (
-                      <p><span style={{ fontWeight: 500 }}>Architektura:</span> {detectionResult.architecture}</p>
+                      <p><span style={{ fontWeight: 500 }}>{t('upload.detect.architecture')}</span> {detectionResult.architecture}</p>
                     )}
                   </div>
                 ) : (
@@ -483,9 +611,9 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
                 {detectionResult.banners_output && detectionResult.banners_output.length > 0 && (
                   <details style={{ marginTop: '0.75rem' }}>
                     <summary style={{ cursor: 'pointer', fontSize: '0.875rem', fontWeight: 500, color: 'var(--color-slate-700)' }}>
-                      Zobrazit výstup z Banners plugin
+                      {t('upload.detect.showOutput')}
                     </summary>
-                    <div style={{ marginTop: '0.5rem', padding: '0.75rem', background: 'white', borderRadius: 'var(--radius-md)', border: '1px solid var(--color-slate-200)', maxHeight: '160px', overflowY: 'auto' }}>
+                    <div style={{ marginTop: '0.5rem', padding: '0.75rem', background: 'var(--color-surface)', borderRadius: 'var(--radius-md)', border: '1px solid var(--color-slate-200)', maxHeight: '160px', overflowY: 'auto' }}>
                       <pre style={{ fontSize: '0.75rem', color: 'var(--color-slate-800)', whiteSpace: 'pre-wrap', fontFamily: 'var(--font-mono)' }}>
                         {detectionResult.banners_output.map((item, idx) => (
                           <div key={idx}>{item.Banner}</div>
@@ -503,15 +631,15 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
             <div className="vtf-alert vtf-alert-info">
               <span className="vtf-alert-icon">⚙️</span>
               <div className="vtf-alert-content">
-                <div className="vtf-alert-title">Linux - Symboly</div>
+                <div className="vtf-alert-title">{t('upload.linux.title')}</div>
                 <p style={{ fontSize: '0.875rem', marginTop: '0.5rem', marginBottom: '1rem' }}>
-                  Pro analýzu Linux dumpů jsou potřeba ISF symbol soubory. Nahrajte vmlinux soubor pro automatické generování symbolů.
+                  {t('upload.linux.description')}
                 </p>
                 
                 <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
                   <div>
                     <label style={{ display: 'block', fontSize: '0.8125rem', fontWeight: 600, marginBottom: '0.375rem', color: 'var(--color-slate-700)' }}>
-                      Nahrát vmlinux soubor
+                      {t('upload.linux.vmlinuxLabel')}
                     </label>
                     <input
                       type="file"
@@ -523,7 +651,7 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
                         border: '1px solid var(--color-slate-300)',
                         borderRadius: 'var(--radius-md)',
                         cursor: 'pointer',
-                        background: 'white',
+                        background: 'var(--color-surface)',
                         padding: '0.5rem'
                       }}
                     />
@@ -535,7 +663,7 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
                     className="vtf-btn vtf-btn-primary"
                     style={{ fontSize: '0.875rem' }}
                   >
-                    Nahrát vmlinux a generovat symboly
+                    {t('upload.linux.uploadVmlinux')}
                   </button>
                   
                   <button
@@ -543,7 +671,7 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
                     className="vtf-btn vtf-btn-secondary"
                     style={{ fontSize: '0.875rem' }}
                   >
-                    Pokračovat bez symbolů (omezená funkcionalita)
+                    {t('upload.linux.continueWithout')}
                   </button>
                 </div>
               </div>
@@ -557,7 +685,7 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
               <div className="vtf-alert-content">
                 <div className="vtf-alert-title">Windows</div>
                 <p style={{ fontSize: '0.875rem', marginTop: '0.5rem', marginBottom: '1rem' }}>
-                  Windows dumpy nepotřebují dodatečné symboly. Můžete pokračovat k analýze.
+                  {t('upload.windows.description')}
                 </p>
                 
                 <button
@@ -565,7 +693,7 @@ export default function UploadForm({ onUploadSuccess, onError, onBack }: UploadF
                   className="vtf-btn vtf-btn-primary"
                   style={{ fontSize: '0.875rem' }}
                 >
-                  Pokračovat k analýze →
+                  {t('upload.windows.continue')} →
                 </button>
               </div>
             </div>
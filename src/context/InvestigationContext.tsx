@@ -1,6 +1,8 @@
 import { createContext, useContext, useState, useCallback, useEffect, type ReactNode } from 'react';
 import type { TrackedProcess } from '../api/vtfApi';
 import { getTrackedPids, trackPid, untrackPid, updateTrackedPid } from '../api/vtfApi';
+import { reportError } from '../notifications';
+import { t } from '../i18n/i18n';
 
 interface InvestigationContextType {
   // State
@@ -41,8 +43,9 @@ export function InvestigationProvider({ children }: { children: ReactNode }) {
     try {
       const response = await getTrackedPids(analysisId);
       setTrackedPids(response.tracked_pids);
-    } catch {
-      // Keep current list on error
+    } catch (err) {
+      // Seznam necháme, jak je - chyba jde do oznámení s možností zopakovat
+      reportError(t('investigation.error.load'), err, refreshTrackedPids, `tracked-pids:${analysisId}`);
     } finally {
       setIsLoading(false);
     }
@@ -67,20 +70,41 @@ export function InvestigationProvider({ children }: { children: ReactNode }) {
     notes?: string;
   }) => {
     if (!analysisId) return;
-    await trackPid(analysisId, data);
-    await refreshTrackedPids();
+    const track = async () => {
+      await trackPid(analysisId, data);
+      await refreshTrackedPids();
+    };
+    try {
+      await track();
+    } catch (err) {
+      reportError(t('investigation.error.track', { pid: String(data.pid) }), err, track);
+    }
   }, [analysisId, refreshTrackedPids]);
 
   const removeTrackedPid = useCallback(async (pid: number) => {
     if (!analysisId) return;
-    await untrackPid(analysisId, pid);
-    await refreshTrackedPids();
+    const untrack = async () => {
+      await untrackPid(analysisId, pid);
+      await refreshTrackedPids();
+    };
+    try {
+      await untrack();
+    } catch (err) {
+      reportError(t('investigation.error.untrack', { pid: String(pid) }), err, untrack);
+    }
   }, [analysisId, refreshTrackedPids]);
 
   const updatePidFn = useCallback(async (pid: number, updates: { reason?: string; tags?: string[]; notes?: string }) => {
     if (!analysisId) return;
-    await updateTrackedPid(analysisId, pid, updates);
-    await refreshTrackedPids();
+    const update = async () => {
+      await updateTrackedPid(analysisId, pid, updates);
+      await refreshTrackedPids();
+    };
+    try {
+      await update();
+    } catch (err) {
+      reportError(t('investigation.error.update', { pid: String(pid) }), err, update);
+    }
   }, [analysisId, refreshTrackedPids]);
 
   const isTracked = useCallback((pid: number) => {
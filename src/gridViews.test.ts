@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { GridState } from 'ag-grid-community';
+import {
+  exportGridViews,
+  getDefaultGridView,
+  getGridViewsSnapshot,
+  getPluginGridViews,
+  importGridViews,
+  pickGridViewState,
+  saveGridView,
+  setDefaultGridView,
+} from './gridViews';
+import { endSession, startSession } from './api/session';
+import { t } from './i18n/i18n';
+
+const PSLIST = 'windows.pslist.PsList';
+const NETSCAN = 'windows.netscan.NetScan';
+
+const nonSystemPaths: GridState = {
+  sort: { sortModel: [{ colId: 'PID', sort: 'asc' }] },
+  filter: { filterModel: { Path: { filterType: 'text', type: 'notContains', filter: 'System32' } } },
+  columnVisibility: { hiddenColIds: ['Offset(V)'] },
+  scroll: { top: 1200, left: 0 },
+};
+
+function login(username: string) {
+  startSession({
+    access_token: `local.${username}`,
+    user: { username, display_name: username, roles: ['analyst'] },
+    provider: 'local',
+  });
+}
+
+const exportFile = (version: number, views: unknown[]) => JSON.stringify({ format: 'vtf-grid-views', version, views });
+
+describe('gridViews', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    login('analyst');
+  });
+
+  afterEach(() => {
+    endSession('logout');
+  });
+
+  it('pohled si pamatuje jen sloupce, řazení a filtry', () => {
+    expect(pickGridViewState(nonSystemPaths)).toEqual({
+      sort: nonSystemPaths.sort,
+      filter: nonSystemPaths.filter,
+      columnVisibility: nonSystemPaths.columnVisibility,
+    });
+  });
+
+  it('pohled se stejným názvem přepíše původní', () => {
+    const first = saveGridView(PSLIST, 'Nesystémové cesty', nonSystemPaths);
+    const second = saveGridView(PSLIST, '  nesystémové CESTY ', { sort: { sortModel: [] } });
+    expect(second.id).toBe(first.id);
+    expect(getPluginGridViews(getGridViewsSnapshot(), PSLIST).views).toHaveLength(1);
+    expect(() => saveGridView(PSLIST, '   ', {})).toThrow(t('gridViews.nameRequired'));
+  });
+
+  it('výchozí pohled patří přihlášenému uživateli', () => {
+    const view = saveGridView(PSLIST, 'Nesystémové cesty', nonSystemPaths);
+    setDefaultGridView(PSLIST, view.id);
+    expect(getDefaultGridView(PSLIST)?.id).toBe(view.id);
+
+    login('admin');
+    expect(getDefaultGridView(PSLIST)).toBeUndefined();
+    expect(getGridViewsSnapshot()).toEqual({});
+
+    login('analyst');
+    expect(getDefaultGridView(PSLIST)?.name).toBe('Nesystémové cesty');
+  });
+
+  it('export a import přenese pohledy i výchozí pohled', () => {
+    const view = saveGridView(PSLIST, 'Nesystémové cesty', nonSystemPaths);
+    setDefaultGridView(PSLIST, view.id);
+    const json = exportGridViews(PSLIST);
+
+    login('admin');
+    expect(importGridViews(json)).toBe(1);
+    expect(getDefaultGridView(PSLIST)).toMatchObject({ name: 'Nesystémové cesty', state: pickGridViewState(nonSystemPaths) });
+  });
+
+  it('import načte pohledy více pluginů a přeskočí neplatné položky', () => {
+    const count = importGridViews(exportFile(1, [
+      { plugin: PSLIST, name: 'Nesystémové cesty', state: {} },
+      { plugin: NETSCAN, name: 'Naslouchající porty', state: {}, default: true },
+      { plugin: NETSCAN, name: 'Bez stavu' },
+      { name: 'Bez pluginu', state: {} },
+    ]));
+    expect(count).toBe(2);
+    expect(getDefaultGridView(NETSCAN)?.name).toBe('Naslouchající porty');
+    expect(getDefaultGridView(PSLIST)).toBeUndefined();
+  });
+
+  it('import odmítne poškozený JSON, cizí formát a novější verzi', () => {
+    expect(() => importGridViews('{"format": "vtf-grid-views",')).toThrow(t('gridViews.importInvalid'));
+    expect(() => importGridViews(JSON.stringify({ format: 'ag-grid-state', version: 1, views: [] }))).toThrow(t('gridViews.importInvalid'));
+    expect(() => importGridViews(JSON.stringify({ format: 'vtf-grid-views', version: '1', views: [] }))).toThrow(t('gridViews.importInvalid'));
+    expect(() => importGridViews(exportFile(1, []))).toThrow(t('gridViews.importInvalid'));
+    expect(() => importGridViews(exportFile(2, [{ plugin: PSLIST, name: 'Nový', state: {} }]))).toThrow(t('gridViews.importNewer'));
+    expect(getGridViewsSnapshot()).toEqual({});
+  });
+});
@@ -0,0 +1,165 @@
+// Pojmenované pohledy gridu výsledků - pořadí, viditelnost a šířky sloupců, řazení a filtry
+// pro každý plugin (např. „pslist – nesystémové cesty“). Pamatují se v prohlížeči pro
+// přihlášeného uživatele, výchozí pohled pluginu se použije při otevření výsledků.
+// Export a import v JSONu slouží ke sdílení triážních filtrů v týmu.
+import type { GridState } from 'ag-grid-community';
+import { getSessionSnapshot, subscribeSession } from './api/session';
+import { t } from './i18n/i18n';
+
+/** Část stavu AG Grid, kterou si pamatuje pohled i pracovní plocha projektu */
+export type GridViewState = Pick<GridState, 'columnOrder' | 'columnVisibility' | 'columnSizing' | 'sort' | 'filter'>;
+
+export const GRID_VIEW_STATE_KEYS: (keyof GridViewState)[] = ['columnOrder', 'columnVisibility', 'columnSizing', 'sort', 'filter'];
+
+export interface GridView {
+  id: string;
+  name: string;
+  state: GridViewState;
+  updatedAt: string;
+}
+
+export interface PluginGridViews {
+  views: GridView[];
+  /** Pohled, který se použije při otevření výsledků pluginu */
+  defaultViewId?: string;
+}
+
+type GridViewsSnapshot = Record<string, PluginGridViews>;
+
+// Formát sdíleného souboru - import jiné JSONy odmítne
+const EXPORT_FORMAT = 'vtf-grid-views';
+const EXPORT_VERSION = 1;
+const STORAGE_PREFIX = 'vtf-grid-views:';
+const NO_VIEWS: PluginGridViews = { views: [] };
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+function storageKey(): string | null {
+  const username = getSessionSnapshot().session?.user.username;
+  return username ? `${STORAGE_PREFIX}${username}` : null;
+}
+
+function load(key: string | null): GridViewsSnapshot {
+  if (!key) return {};
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) ?? '{}');
+    return parsed && typeof parsed === 'object' ? parsed as GridViewsSnapshot : {};
+  } catch {
+    return {};
+  }
+}
+
+let loadedKey = storageKey();
+let snapshot = load(loadedKey);
+
+// Po přepnutí uživatele se načtou jeho pohledy
+subscribeSession(() => {
+  const key = storageKey();
+  if (key === loadedKey) return;
+  loadedKey = key;
+  snapshot = load(key);
+  listeners.forEach(l => l());
+});
+
+function update(plugin: string, views: PluginGridViews) {
+  snapshot = { ...snapshot, [plugin]: views };
+  if (loadedKey) localStorage.setItem(loadedKey, JSON.stringify(snapshot));
+  listeners.forEach(l => l());
+}
+
+/** Jen klíče pohledu - stav gridu nese i scroll, stránku a další */
+export function pickGridViewState(state: GridState): GridViewState {
+  const picked: GridViewState = {};
+  for (const key of GRID_VIEW_STATE_KEYS) {
+    if (state[key] !== undefined) Object.assign(picked, { [key]: state[key] });
+  }
+  return picked;
+}
+
+export function getGridViewsSnapshot(): GridViewsSnapshot {
+  return snapshot;
+}
+
+export function subscribeGridViews(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getPluginGridViews(views: GridViewsSnapshot, plugin: string): PluginGridViews {
+  return views[plugin] ?? NO_VIEWS;
+}
+
+export function getDefaultGridView(plugin: string): GridView | undefined {
+  const { views, defaultViewId } = getPluginGridViews(snapshot, plugin);
+  return views.find(v => v.id === defaultViewId);
+}
+
+/** Uloží pohled; pohled se stejným názvem se přepíše */
+export function saveGridView(plugin: string, name: string, state: GridViewState): GridView {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error(t('gridViews.nameRequired'));
+  const current = getPluginGridViews(snapshot, plugin);
+  const existing = current.views.find(v => v.name.toLowerCase() === trimmed.toLowerCase());
+  const view: GridView = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name: trimmed,
+    state: pickGridViewState(state),
+    updatedAt: new Date().toISOString(),
+  };
+  const views = existing ? current.views.map(v => (v.id === existing.id ? view : v)) : [...current.views, view];
+  update(plugin, { ...current, views });
+  return view;
+}
+
+export function deleteGridView(plugin: string, viewId: string) {
+  const current = getPluginGridViews(snapshot, plugin);
+  update(plugin, {
+    views: current.views.filter(v => v.id !== viewId),
+    defaultViewId: current.defaultViewId === viewId ? undefined : current.defaultViewId,
+  });
+}
+
+/** Nastaví výchozí pohled pluginu (null = bez výchozího pohledu) */
+export function setDefaultGridView(plugin: string, viewId: string | null) {
+  const current = getPluginGridViews(snapshot, plugin);
+  update(plugin, { ...current, defaultViewId: viewId ?? undefined });
+}
+
+/** Pohledy pluginu jako JSON ke sdílení */
+export function exportGridViews(plugin: string): string {
+  const { views, defaultViewId } = getPluginGridViews(snapshot, plugin);
+  return JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    views: views.map(v => ({ plugin, name: v.name, state: v.state, default: v.id === defaultViewId })),
+  }, null, 2);
+}
+
+/**
+ * Načte sdílené pohledy (i pro více pluginů); pohledy se stejným názvem se přepíšou.
+ * Vrací počet importovaných pohledů, neplatný soubor vyhodí chybu.
+ */
+export function importGridViews(json: string): number {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(t('gridViews.importInvalid'));
+  }
+  const file = parsed as { format?: unknown; version?: unknown; views?: unknown };
+  if (!file || file.format !== EXPORT_FORMAT || typeof file.version !== 'number' || !Array.isArray(file.views)) {
+    throw new Error(t('gridViews.importInvalid'));
+  }
+  if (file.version > EXPORT_VERSION) throw new Error(t('gridViews.importNewer'));
+
+  let count = 0;
+  for (const item of file.views as { plugin?: unknown; name?: unknown; state?: unknown; default?: unknown }[]) {
+    if (typeof item?.plugin !== 'string' || typeof item.name !== 'string' || !item.state || typeof item.state !== 'object') continue;
+    const view = saveGridView(item.plugin, item.name, item.state as GridState);
+    if (item.default === true) setDefaultGridView(item.plugin, view.id);
+    count++;
+  }
+  if (count === 0) throw new Error(t('gridViews.importInvalid'));
+  return count;
+}
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { getQueryState, invalidateQueries, revalidateQuery, subscribeQuery } from '../api/queryCache';
+import type { QueryState } from '../api/queryCache';
+
+/**
+ * Načte data přes sdílenou query cache (stale-while-revalidate).
+ * Při návratu do view se okamžitě zobrazí data z cache a na pozadí se ověří.
+ * key = null dotaz vypne.
+ */
+export function useCachedQuery<T>(
+  key: string | null,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  options: { staleTime?: number } = {}
+) {
+  const { staleTime } = options;
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) => (key ? subscribeQuery(key, listener) : () => {}),
+    [key]
+  );
+  const getSnapshot = useCallback(
+    () => (key ? getQueryState<T>(key) : undefined),
+    [key]
+  );
+  const state: QueryState<T> | undefined = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (!key) return;
+    revalidateQuery(key, signal => fetcherRef.current(signal), staleTime);
+  }, [key, staleTime]);
+
+  const refetch = useCallback(() => {
+    if (key) invalidateQueries(key);
+  }, [key]);
+
+  return {
+    data: state?.data,
+    error: state?.error,
+    // Loading jen pokud nemáme nic k zobrazení - revalidace na pozadí UI neblokuje
+    isLoading: !!key && state?.data === undefined && !state?.error,
+    isValidating: !!state?.isFetching,
+    refetch,
+  };
+}
@@ -0,0 +1,18 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { formatDateTime, formatNumber, formatTime, getLocale, setLocale, subscribeLocale, t } from '../i18n/i18n';
+
+/**
+ * Aktuální jazyk a překladové funkce - komponenta se po přepnutí jazyka překreslí.
+ * Funkce jsou nové pro každý jazyk, takže useMemo/useCallback závislé na t se přepočítají.
+ */
+export function useI18n() {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  return useMemo(() => ({
+    locale,
+    setLocale,
+    t: (...args: Parameters<typeof t>) => t(...args),
+    formatNumber: (...args: Parameters<typeof formatNumber>) => formatNumber(...args),
+    formatDateTime: (...args: Parameters<typeof formatDateTime>) => formatDateTime(...args),
+    formatTime: (...args: Parameters<typeof formatTime>) => formatTime(...args),
+  }), [locale]);
+}
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { getThemeSnapshot, setThemePreference, subscribeTheme } from '../theme';
+
+/**
+ * Zvolený a výsledný barevný motiv - komponenta se po přepnutí překreslí
+ */
+export function useTheme() {
+  const { preference, resolved } = useSyncExternalStore(subscribeTheme, getThemeSnapshot);
+  return { preference, resolved, setPreference: setThemePreference };
+}
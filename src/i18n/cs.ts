@@ -0,0 +1,499 @@
+// Český katalog - výchozí jazyk a zdroj klíčů (en.ts musí mít všechny klíče odsud).
+import type { Message } from './i18n';
+
+const cs = {
+  // ---------- Společné ----------
+  'common.loading': 'Načítám...',
+  'common.error': 'Chyba',
+  'common.unknownError': 'Neznámá chyba',
+  'common.retry': 'Zkusit znovu',
+  'common.refresh': 'Obnovit',
+  'common.refreshing': 'Obnovuji…',
+  'common.run': 'Spustit',
+  'common.hide': 'Skrýt',
+  'common.close': 'Zavřít',
+  'common.cancel': 'Zrušit',
+  'common.save': 'Uložit',
+  'common.remove': 'Odebrat',
+  'common.back': 'Zpět',
+  'common.open': 'Otevřít',
+
+  // ---------- Navigace a hlavní layout ----------
+  'nav.main': 'Hlavní navigace',
+  'nav.projects': 'Projekty',
+  'nav.dashboard': 'Dashboard',
+  'nav.analysis': 'Analýza',
+  'nav.results': 'Výsledky',
+  'nav.investigation': 'Vyšetřování',
+  'nav.registry': 'Registry',
+  'nav.symbols': 'Správa symbolů',
+  'nav.servers': 'Servery',
+
+  'app.confirmUnknownServer': 'Odkaz vede na server {url}, který není v seznamu. Přidat ho a přepnout se na něj?',
+  'app.error.loadProjects': 'Projekty se nepodařilo načíst',
+  'app.error.loadPlugins': 'Seznam pluginů se nepodařilo načíst',
+  'app.error.statusCheck': 'Chyba při kontrole stavu',
+  'app.error.apiVersion': 'Verzi API backendu se nepodařilo ověřit',
+  'app.error.loadResults': 'Výsledky {plugin} se nepodařilo načíst',
+  'app.error.pluginFailed': 'Plugin {plugin} selhal: {error}',
+  'app.error.runPlugin': 'Plugin {plugin} se nepodařilo spustit',
+  'app.error.runBatch': 'Batch analýzu se nepodařilo spustit',
+  'app.error.cancel': 'Nepodařilo se zrušit {plugins}',
+  'app.error.choosePlugin': 'Vybrat plugin',
+  'app.error.backToProjects': 'Zpět na projekty',
+  'app.logout': 'Odhlásit',
+  'app.logoutTitle': 'Odhlásit se',
+  'app.mockTitle': 'Data jsou ukázková a žijí jen v paměti prohlížeče',
+  'app.mockDisable': 'Vypnout',
+  'app.language': 'Jazyk',
+  'app.version': 'Verze {version}',
+  'app.title.upload': 'Nahrát Memory Dump',
+  'app.title.plugins': 'Vybrat Plugin',
+  'app.title.processing': 'Probíhá Analýza',
+  'app.title.results': 'Výsledky: {plugin}',
+  'app.title.symbols': 'Správa Symbolů',
+  'app.title.registry': 'Prohlížeč Registrů',
+  'app.paletteTitle': 'Paleta příkazů (Ctrl+K)',
+  'app.search': 'Hledat',
+  'app.started.title': 'Spuštěno na pozadí: {plugins}',
+  'app.started.description': 'Průběh sledujte v panelu Úlohy v sidebaru, dokončenou úlohu z něj otevřete kliknutím.',
+  'app.started.follow': 'Sledovat průběh',
+  'app.processing.title': 'Probíhá analýza...',
+  'app.processing.plugin': 'Plugin:',
+  'app.processing.description': 'Analýza běží na pozadí - mezitím můžete pracovat jinde, dokončení uvidíte v panelu Úlohy.',
+  'app.processing.cancel': 'Zrušit analýzu',
+  'app.processing.cancelling': 'Ruším analýzu…',
+  'app.switchingServer': 'Přepínám na server {url}...',
+  'app.loadingResults': 'Načítám výsledky...',
+  'app.notStarted.before': 'Plugin ',
+  'app.notStarted.after': ' v tomto projektu zatím neběžel.',
+  'app.notStarted.other': 'Vybrat jiný plugin',
+
+  // ---------- Přihlášení ----------
+  'login.unsupported': 'Backend nepodporuje přihlášení - pro vývoj nastavte VITE_AUTH_PROVIDER=local',
+  'login.invalidCredentials': 'Neplatné jméno nebo heslo',
+  'login.failed': 'Přihlášení selhalo',
+  'login.title': 'Přihlášení',
+  'login.titleExpired': 'Přihlaste se znovu',
+  'login.expired': 'Platnost přihlášení vypršela. Rozpracovaná práce zůstala zachovaná a po přihlášení se nedokončené požadavky zopakují.',
+  'login.username': 'Uživatelské jméno',
+  'login.password': 'Heslo',
+  'login.submit': 'Přihlásit se',
+  'login.submitting': 'Přihlašuji…',
+  'login.localProvider': 'Lokální vývojový provider - účty {accounts} (heslo = jméno)',
+
+  // ---------- Contract diagnostika ----------
+  'contract.title': 'Nesoulad kontraktu backendu ({count})',
+  'contract.description': 'Backend vrátil data v jiném tvaru, než frontend očekává. Zobrazené údaje mohou být neúplné - zkontrolujte, že verze backendu odpovídá verzi frontendu.',
+  'contract.field': 'pole',
+  'contract.expected': 'očekáváno {expected}, přišlo {received}',
+
+  // ---------- Úlohy ----------
+  'jobs.status.queued': 'Čeká',
+  'jobs.status.running': 'Běží…',
+  'jobs.status.completed': 'Dokončeno',
+  'jobs.status.failed': 'Selhalo',
+  'jobs.status.cancelled': 'Zrušeno',
+  'jobs.symbolTitle': 'Generování symbolů',
+  'jobs.isfFromVmlinux': 'ISF z vmlinux',
+  'jobs.project': 'projekt {id}',
+  'jobs.openResults': 'Otevřít výsledky',
+  'jobs.cancelling': 'Ruším…',
+  'jobs.cancelFailed': 'Zrušení selhalo',
+  'jobs.otherServer': 'jiný server',
+  'jobs.cancelJob': 'Zrušit úlohu',
+  'jobs.removeFromList': 'Odebrat ze seznamu',
+  'jobs.title': 'Úlohy',
+  'jobs.runningCount': '{count} běží',
+  'jobs.unseen': 'Nově dokončené úlohy',
+  'jobs.batchProgress': 'Batch · {done} / {total} dokončeno',
+  'jobs.cancelBatch': 'Zrušit batch',
+  'jobs.clearFinished': 'Vymazat dokončené',
+
+  // ---------- Oznámení ----------
+  'notifications.title': 'Oznámení',
+  'notifications.unread': 'Nepřečtená oznámení',
+  'notifications.retry': 'Zopakovat akci',
+  'notifications.clearAll': 'Vymazat vše',
+  'notifications.close': 'Zavřít oznámení',
+
+  // ---------- Projekty ----------
+  'projects.tagline': 'Profesionální nástroj pro forensickou analýzu memory dumpů',
+  'projects.create': 'Vytvořit nový projekt',
+  'projects.unavailableServers': 'Některé servery nejsou dostupné',
+  'projects.loading': 'Načítám projekty...',
+  'projects.empty.title': 'Zatím žádné projekty',
+  'projects.empty.description': 'Vytvořte nový projekt nahráním memory dump souboru',
+  'projects.mine': 'Moje projekty',
+  'projects.count': { one: '{count} projekt', few: '{count} projekty', many: '{count} projektu', other: '{count} projektů' },
+
+  // ---------- Výběr pluginu ----------
+  'plugins.confirmNoSymbols': '⚠️ Nemáte nahrané žádné symboly. Analýza pravděpodobně selže.\n\nOpravdu pokračovat?',
+  'plugins.loadingProject': 'Načítám informace o projektu...',
+  'plugins.error.loadProject': 'Informace o projektu se nepodařilo načíst',
+  'plugins.detectedOs': 'Detekovaný operační systém',
+  'plugins.symbolsAvailable': 'Symboly dostupné',
+  'plugins.symbolsMissing': 'Chybí symboly',
+  'plugins.noSymbols.title': 'Chybí symbol soubory',
+  'plugins.noSymbols.description': 'Pro analýzu Linux memory dumpů jsou vyžadovány custom symboly (ISF soubory). Bez nich analýza pravděpodobně selže. Nahrajte vmlinux s debug info nebo ISF soubor přes "Správa symbolů".',
+  'plugins.batchMode': 'Batch režim (vybrat více pluginů)',
+  'plugins.selectedCount': { one: '{count} plugin vybrán', few: '{count} pluginy vybrány', many: '{count} pluginu vybráno', other: '{count} pluginů vybráno' },
+  'plugins.presets': 'Rychlé presety:',
+  'plugins.filterByCategory': 'Filtrovat podle kategorie:',
+  'plugins.allCategories': 'Všechny',
+  'plugins.shownFor': 'Zobrazeny pluginy pro:',
+  'plugins.shownCount': '{shown} z {total}',
+  'plugins.empty.title': 'Žádné pluginy v této kategorii',
+  'plugins.empty.description': 'Vyberte jinou kategorii nebo zkuste režim "Všechny"',
+  'plugins.listLabel': 'Dostupné pluginy',
+  'plugins.done': 'Hotovo',
+  'plugins.selectedPlugins': 'Vybrané pluginy ({count}):',
+  'plugins.selectedPlugin': 'Vybraný plugin:',
+  'plugins.starting': 'Spouštím...',
+  'plugins.runBatch': 'Spustit batch analýzu',
+  'plugins.run': 'Spustit analýzu',
+
+  // ---------- Nahrání dumpu ----------
+  'upload.noFile.title': 'Soubor není vybraný',
+  'upload.noFile.message': 'Prosím vyberte soubor',
+  'upload.failed': 'Nahrávání selhalo',
+  'upload.projectName': 'Název projektu',
+  'upload.projectNamePlaceholder': 'např. Windows10_Investigation',
+  'upload.projectNameHint': 'Pokud nevyplníte, použije se název souboru',
+  'upload.chooseFile': 'Vyberte soubor memory dumpu',
+  'upload.dropHere': 'Přetáhněte soubor sem',
+  'upload.orClick': 'nebo klikněte pro výběr',
+  'upload.formats': 'Podporované formáty: {formats}',
+  'upload.size': 'Velikost:',
+  'upload.progress.uploaded': 'Nahráno {done} z {total}',
+  'upload.progress.hash': 'Výpočet SHA-256',
+  'upload.progress.speed': 'Rychlost: {speed}/s · Zbývá: {eta}',
+  'upload.progress.finalizing': 'Čekám na dokončení hashe a ověření integrity na serveru...',
+  'upload.progress.paused': 'Upload je pozastaven, po obnovení naváže na poslední nahraný blok',
+  'upload.pause': 'Pozastavit',
+  'upload.resume': 'Pokračovat v nahrávání',
+  'upload.submit': 'Nahrát',
+  'upload.symbols.title': 'Generování Symbolů',
+  'upload.symbols.uploading': 'Nahrávám vmlinux...',
+  'upload.symbols.generating': 'Generování ISF symbolů... ({status})',
+  'upload.symbols.status': 'Stav: {status}',
+  'upload.symbols.done': 'Symboly úspěšně vygenerovány!',
+  'upload.symbols.error': 'Chyba: {error}',
+  'upload.symbols.statusError': 'Chyba při kontrole statusu',
+  'upload.symbols.uploadFailed': 'Nepodařilo se nahrát vmlinux',
+  'upload.symbols.hint': 'Generování ISF symbolů může trvat několik minut...',
+  'upload.config.title': 'Konfigurace Projektu',
+  'upload.config.uploadedFile': 'Nahraný soubor',
+  'upload.config.name': 'Název:',
+  'upload.config.verified': 'ověřeno serverem',
+  'upload.os.label': 'Operační systém',
+  'upload.os.hint': 'OS se automaticky uloží do projektu',
+  'upload.os.saveFailed': 'Nepodařilo se uložit OS projektu',
+  'upload.detect.running': 'Detekovám...',
+  'upload.detect.run': 'Spustit Banners Plugin',
+  'upload.detect.hint': 'Použije Volatility plugin pro automatickou detekci OS',
+  'upload.detect.success': 'Detekce úspěšná',
+  'upload.detect.failed': 'Detekce OS selhala',
+  'upload.detect.architecture': 'Architektura:',
+  'upload.detect.showOutput': 'Zobrazit výstup z Banners plugin',
+  'upload.linux.title': 'Linux - Symboly',
+  'upload.linux.description': 'Pro analýzu Linux dumpů jsou potřeba ISF symbol soubory. Nahrajte vmlinux soubor pro automatické generování symbolů.',
+  'upload.linux.vmlinuxLabel': 'Nahrát vmlinux soubor',
+  'upload.linux.uploadVmlinux': 'Nahrát vmlinux a generovat symboly',
+  'upload.linux.continueWithout': 'Pokračovat bez symbolů (omezená funkcionalita)',
+  'upload.windows.description': 'Windows dumpy nepotřebují dodatečné symboly. Můžete pokračovat k analýze.',
+  'upload.windows.continue': 'Pokračovat k analýze',
+
+  // ---------- Servery ----------
+  'servers.health.unchecked': 'Neověřeno',
+  'servers.health.checking': 'Ověřuji…',
+  'servers.health.incompatible': 'Nekompatibilní',
+  'servers.health.offline': 'Nedostupný',
+  'servers.health.noVersionInfo': 'Server nevrací informace o verzi API',
+  'servers.health.noVersion': 'Server nehlásí verzi API',
+  'servers.health.authRequired': 'Server vyžaduje přihlášení',
+  'servers.invalidUrl': 'Neplatná adresa serveru',
+  'servers.defaultName': 'Výchozí server',
+  'servers.invalidProtocol': 'Adresa serveru musí začínat http:// nebo https://',
+  'servers.duplicate': 'Server s touto adresou už je v seznamu',
+  'servers.unknown': 'Server {id} není v seznamu',
+  'servers.confirmRemove': 'Odebrat server {name} ze seznamu?',
+  'servers.title': 'Analytické servery',
+  'servers.description': 'Aktivní server se použije pro nové projekty a analýzy. Volba se pamatuje v tomto prohlížeči.',
+  'servers.active': 'Aktivní',
+  'servers.test': 'Otestovat',
+  'servers.use': 'Použít',
+  'servers.remove': 'Odebrat server',
+  'servers.add.title': 'Přidat server',
+  'servers.add.name': 'Název',
+  'servers.add.namePlaceholder': 'např. Tým Incident Response',
+  'servers.add.test': 'Otestovat připojení',
+  'servers.add.submit': 'Přidat',
+
+  // ---------- Symboly ----------
+  'symbols.error.load': 'Nepodařilo se načíst symboly',
+  'symbols.error.upload': 'Nepodařilo se nahrát ISF soubor',
+  'symbols.error.delete': 'Nepodařilo se smazat symbol',
+  'symbols.confirmDelete': 'Opravdu chcete smazat tento symbol file?',
+  'symbols.description': 'Správa ISF symbol souborů pro analýzu Linux memory dumpů',
+  'symbols.upload.title': 'Nahrát ISF symbol file',
+  'symbols.upload.description': 'Pokud již máte vygenerovaný ISF soubor, můžete ho nahrát přímo zde.',
+  'symbols.upload.file': 'ISF soubor (.json)',
+  'symbols.upload.kernel': 'Kernel verze (volitelné)',
+  'symbols.upload.kernelPlaceholder': 'např. 5.15.0-76-generic',
+  'symbols.upload.uploading': 'Nahrávám...',
+  'symbols.upload.submit': 'Nahrát ISF',
+  'symbols.list.title': 'Dostupné symboly',
+  'symbols.count': { one: '{count} symbol', few: '{count} symboly', many: '{count} symbolu', other: '{count} symbolů' },
+  'symbols.list.loading': 'Načítám symboly...',
+  'symbols.empty.title': 'Žádné symboly nenalezeny',
+  'symbols.empty.description': 'Nahrajte vmlinux při uploadu Linux dumpu nebo nahrajte ISF soubor výše.',
+  'symbols.column.id': 'Symbol ID',
+  'symbols.column.kernel': 'Kernel Verze',
+  'symbols.column.size': 'Velikost',
+  'symbols.column.created': 'Vytvořeno',
+  'symbols.column.actions': 'Akce',
+  'symbols.delete': 'Smazat',
+
+  // ---------- Dashboard ----------
+  'dashboard.error': 'Dashboard se nepodařilo načíst',
+  'dashboard.loading': 'Načítám dashboard...',
+  'dashboard.noData': 'Dashboard zatím nemá dostatek dat.',
+  'dashboard.stat.processes': 'Procesy',
+  'dashboard.stat.uniqueNames': { one: '{count} unikátní', few: '{count} unikátní', many: '{count} unikátního', other: '{count} unikátních' },
+  'dashboard.stat.connections': 'Síťová spojení',
+  'dashboard.stat.foreignAddresses': { one: '{count} ext. adresa', few: '{count} ext. adresy', many: '{count} ext. adresy', other: '{count} ext. adres' },
+  'dashboard.stat.malfind': 'Malfind detekce',
+  'dashboard.stat.suspiciousPids': { one: '{count} podezřelý PID', few: '{count} podezřelé PID', many: '{count} podezřelého PID', other: '{count} podezřelých PID' },
+  'dashboard.stat.tracked': 'Sledované PID',
+  'dashboard.stat.suspicious': { one: '{count} podezřelý', few: '{count} podezřelé', many: '{count} podezřelého', other: '{count} podezřelých' },
+  'dashboard.stat.files': 'Soubory v paměti',
+  'dashboard.stat.completedPlugins': 'Dokončené pluginy',
+  'dashboard.stat.failedPlugins': { one: '{count} selhal', few: '{count} selhaly', many: '{count} selhalo', other: '{count} selhalo' },
+  'dashboard.topProcesses': 'Nejčastější procesy',
+  'dashboard.tracked.title': 'Sledované procesy',
+  'dashboard.tracked.open': 'Otevřít investigaci',
+  'dashboard.tracked.empty': 'Zatím žádné sledované procesy. Přejděte do investigačního režimu.',
+  'dashboard.foreignAddresses': 'Externí IP adresy',
+
+  // ---------- Časová osa ----------
+  'timeline.loadFailed': 'Nepodařilo se načíst timeline.',
+  'timeline.loading': 'Načítám timeline...',
+  'timeline.title': 'Časová osa procesů',
+  'timeline.filter.all': 'Vše',
+  'timeline.filter.tracked': 'Sledované',
+  'timeline.legend.normal': 'Normální',
+  'timeline.legend.tracked': 'Sledovaný',
+  'timeline.created': 'Vytvořen',
+  'timeline.exited': 'Ukončen',
+
+  // ---------- Historie výsledků ----------
+  'history.status.completed': 'Dokončeno',
+  'history.status.running': 'Běží',
+  'history.status.failed': 'Selhalo',
+  'history.status.cancelled': 'Zrušeno',
+  'history.status.notStarted': 'Nespuštěno',
+  'history.duration.seconds': '{s} s',
+  'history.duration.minutes': '{m} min {s} s',
+  'history.duration.hours': '{h} h {m} min',
+  'history.title': 'Výsledky projektu',
+  'history.completedCount': '{count} dokončeno',
+  'history.loading': 'Načítám přehled výsledků...',
+  'history.loadFailed': 'Přehled výsledků se nepodařilo načíst',
+  'history.empty.title': 'V projektu zatím nic neběželo',
+  'history.empty.description': 'Spusťte první plugin a jeho výsledky se objeví tady.',
+  'history.column.status': 'Stav',
+  'history.column.rows': 'Řádků',
+  'history.column.started': 'Spuštěno',
+  'history.column.duration': 'Doba běhu',
+
+  // ---------- Záložky výsledků ----------
+  'workspace.leftPane': 'Výsledky',
+  'workspace.rightPane': 'Výsledky - pravý panel',
+  'workspace.openRight': 'Otevřít v pravém panelu',
+  'workspace.moveLeft': 'Přesunout do levého panelu',
+  'workspace.closeTab': 'Zavřít záložku',
+  'workspace.closeTabNamed': 'Zavřít {plugin}',
+  'workspace.splitZone': 'Pustit sem = rozdělit vedle sebe',
+  'workspace.runAnother': 'Spustit další plugin',
+  'workspace.mergeHint': 'Vrátit záložky do jednoho panelu',
+  'workspace.merge': 'Sloučit panely',
+  'workspace.notLoaded': 'Výsledky pluginu {plugin} zatím nejsou načtené.',
+  'workspace.load': 'Načíst výsledky',
+  'workspace.resetLayout': 'Obnovit rozložení',
+  'workspace.resetLayoutHint': 'Zavře záložky a zapomene uložené filtry, rozbalení a poslední view projektu',
+  'workspace.resetLayoutConfirm': 'Obnovit výchozí rozložení projektu? Zavřou se záložky výsledků a zapomenou se uložené filtry, hledání i poslední view.',
+
+  // ---------- Paleta příkazů ----------
+  'palette.group.navigation': 'Navigace',
+  'palette.group.plugins': 'Pluginy',
+  'palette.group.tracked': 'Sledované PID',
+  'palette.group.processes': 'Procesy',
+  'palette.group.registry': 'Registry',
+  'palette.group.projects': 'Projekty',
+  'palette.group.actions': 'Akce',
+  'palette.nav.plugins': 'Analýza - výběr pluginu',
+  'palette.nav.upload': 'Nahrát memory dump',
+  'palette.openPid': 'Otevřít PID {pid}',
+  'palette.runForPid': 'Spustit {plugin} pro PID {pid}',
+  'palette.openPath': 'Otevřít {path}',
+  'palette.registryRoot': 'kořen',
+  'palette.actionFailed': 'Akce selhala',
+  'palette.placeholder': 'Plugin, proces, PID, HKLM\\Software\\…, projekt…',
+  'palette.placeholderGlobal': 'Projekt nebo stránka…',
+  'palette.empty': 'Nic nenalezeno',
+  'palette.footer': '↑↓ výběr · Enter otevřít · Esc zavřít',
+  'palette.title': 'Paleta příkazů',
+
+  // ---------- Strom procesů ----------
+  'tree.loadFailed': 'Nepodařilo se načíst strom procesů.',
+  'tree.loading': 'Načítám strom procesů...',
+  'tree.hint': 'Spusťte plugin PsTree, PsList nebo PsScan.',
+  'tree.title': 'Strom procesů',
+  'tree.search': 'Hledat PID nebo jméno...',
+  'tree.expandAll': 'Rozbalit vše',
+  'tree.collapseAll': 'Sbalit vše',
+  'tree.count': { one: '{count} proces', few: '{count} procesy', many: '{count} procesu', other: '{count} procesů' },
+  'tree.untrack': 'Odebrat ze sledovaných',
+  'tree.track': 'Sledovat proces',
+
+  // ---------- Registry ----------
+  'registry.loadFailed': 'Nepodařilo se načíst registry hivy. Spusťte HiveList plugin.',
+  'registry.loading': 'Načítám registry hivy...',
+  'registry.hint': 'Spusťte pluginy HiveList a PrintKey.',
+  'registry.hives': 'Registry Hivy',
+  'registry.selectHive': 'Vyberte hive',
+  'registry.selectHiveHint': 'Klikněte na hive vlevo pro procházení registrů.',
+  'registry.breadcrumbs': 'Cesta v registrech',
+  'registry.filter': 'Filtrovat klíče a hodnoty...',
+  'registry.keys': 'Klíče',
+  'registry.values': 'Hodnoty',
+  'registry.column.name': 'Název',
+  'registry.column.type': 'Typ',
+  'registry.column.time': 'Čas',
+  'registry.noMatches': 'Žádné výsledky pro hledaný výraz.',
+  'registry.emptyKey': 'Tento klíč neobsahuje žádné podklíče ani hodnoty.',
+
+  // ---------- Výsledky ----------
+  'grid.correlationTip': 'Tip: Klikněte na PID pro cross-plugin korelaci',
+  'grid.tracked': 'Sledován',
+  'grid.trackPid': 'Sledovat PID {pid}',
+  'grid.pagedNotice': { one: 'Velký výstup – {count} řádek. Data se načítají po blocích, řazení a filtrování probíhá na serveru.', few: 'Velký výstup – {count} řádky. Data se načítají po blocích, řazení a filtrování probíhá na serveru.', many: 'Velký výstup – {count} řádku. Data se načítají po blocích, řazení a filtrování probíhá na serveru.', other: 'Velký výstup – {count} řádků. Data se načítají po blocích, řazení a filtrování probíhá na serveru.' },
+  'grid.pageLoadFailed': 'Stránku výsledků {plugin} se nepodařilo načíst',
+  'grid.empty.title': 'Žádná data k zobrazení',
+  'grid.empty.description': 'Analýza nevrátila žádné výsledky',
+  'grid.correlationLoading': 'Načítám korelaci...',
+  'grid.correlationTitle': 'Cross-plugin korelace',
+  'grid.records': { one: '{count} záznam', few: '{count} záznamy', many: '{count} záznamu', other: '{count} záznamů' },
+  'grid.more': '... a dalších {count}',
+  'grid.cell.decimal': 'Desítkově: {value}',
+  'grid.cell.true': 'Ano',
+  'grid.cell.false': 'Ne',
+  'grid.cell.bytes': { one: '{count} bajt', few: '{count} bajty', many: '{count} bajtu', other: '{count} bajtů' },
+  'grid.cell.pidHint': 'Klikněte pro korelaci PID napříč pluginy',
+  'grid.tree.expand': 'Rozbalit',
+  'grid.tree.collapse': 'Sbalit',
+
+  // ---------- Vyšetřování ----------
+  'investigation.startFailed': 'Spuštění selhalo',
+  'investigation.detailTabs': 'Výsledky procesu',
+  'investigation.tab.timeline': 'Časová osa',
+  'investigation.tab.correlation': 'Korelace',
+  'investigation.process': 'Proces',
+  'investigation.track': 'Sledovat',
+  'investigation.watchlist.empty': 'Žádné sledované procesy',
+  'investigation.watchlist.hint': 'Klikněte na ☆ u procesu ve stromu pro přidání do sledovaných.',
+  'investigation.watchlist.source': 'Zdroj',
+  'investigation.watchlist.added': 'Přidáno',
+  'investigation.correlation.empty': 'Žádná korelační data. Spusťte více pluginů pro lepší přehled.',
+  'investigation.pid.title': '{plugin} pro PID {pid}',
+  'investigation.pid.notAvailable': 'Výsledky ještě nejsou k dispozici.',
+  'investigation.pid.run': 'Spustit {plugin}',
+  'investigation.pid.running': 'Spouštím {plugin} pro PID {pid}...',
+  'investigation.pid.cancelled': 'Běh {plugin} pro PID {pid} byl zrušen.',
+  'investigation.pid.runAgain': 'Spustit znovu',
+  'investigation.pid.failed': 'Plugin selhal.',
+  'investigation.pid.noData': 'Plugin nevrátil žádná data pro PID {pid}.',
+  'investigation.pid.showInGrid': 'Zobrazit v tabulce',
+  'investigation.pid.truncated': 'Zobrazeno {shown} z {count} záznamů. Klikněte "Zobrazit v tabulce" pro celý dataset.',
+  'investigation.error.load': 'Sledované PID se nepodařilo načíst',
+  'investigation.error.track': 'PID {pid} se nepodařilo přidat ke sledovaným',
+  'investigation.error.untrack': 'PID {pid} se nepodařilo odebrat ze sledovaných',
+  'investigation.error.update': 'Sledovaný PID {pid} se nepodařilo upravit',
+
+  // ---------- API ----------
+  'api.cancelled': 'Požadavek byl zrušen',
+  'api.noResponse': 'Backend neodpovídá - zkontrolujte připojení k serveru',
+  'api.httpError': 'Požadavek selhal (HTTP {status})',
+  'api.uploadFailed': 'Nahrávání selhalo',
+  'api.uploadPaused': 'Upload byl pozastaven',
+  'api.hashFailed': 'Výpočet hashe selhal',
+  'api.invalidCredentials': 'Neplatné jméno nebo heslo',
+  'api.contractMismatch': 'Nesoulad kontraktu backendu: {endpoint} – pole "{field}" (očekáváno {expected}, přišlo {received})',
+  'api.version.notReported': 'Backend nehlásí verzi API',
+  'api.version.mismatch': 'Backend používá API {server}, frontend očekává {client}',
+  'api.version.tooOld': 'Backend vyžaduje frontend s API alespoň {required} (aktuální {client})',
+
+  // ---------- Motiv ----------
+  'theme.label': 'Barevný motiv',
+  'theme.system': 'Podle systému',
+  'theme.light': 'Světlý',
+  'theme.dark': 'Tmavý',
+
+  // ---------- Pohledy gridu ----------
+  'gridViews.label': 'Pohled',
+  'gridViews.defaultLayout': 'Výchozí rozložení',
+  'gridViews.save': 'Uložit pohled',
+  'gridViews.namePlaceholder': 'Název pohledu, např. pslist – nesystémové cesty',
+  'gridViews.nameRequired': 'Zadejte název pohledu',
+  'gridViews.setDefault': 'Nastavit jako výchozí',
+  'gridViews.unsetDefault': 'Výchozí pohled',
+  'gridViews.delete': 'Smazat pohled',
+  'gridViews.confirmDelete': 'Smazat pohled „{name}“?',
+  'gridViews.columns': 'Sloupce ({visible}/{total})',
+  'gridViews.export': 'Export pohledů',
+  'gridViews.import': 'Import pohledů',
+  'gridViews.imported': { one: 'Importován {count} pohled', few: 'Importovány {count} pohledy', many: 'Importováno {count} pohledu', other: 'Importováno {count} pohledů' },
+  'gridViews.importFailed': 'Pohledy se nepodařilo importovat',
+  'gridViews.importInvalid': 'Soubor neobsahuje pohledy gridu VTF',
+  'gridViews.importNewer': 'Soubor pochází z novější verze aplikace',
+
+  // ---------- Export výsledků ----------
+  'export.label': 'Export',
+  'export.hint': 'Exportuje vyfiltrované a seřazené řádky s viditelnými sloupci',
+  'export.selectedOnly': { one: 'Jen vybraný řádek ({count})', few: 'Jen vybrané řádky ({count})', many: 'Jen vybrané řádky ({count})', other: 'Jen vybrané řádky ({count})' },
+  'export.running': 'Exportuji…',
+  'export.empty': 'Žádné řádky k exportu',
+  'export.failed': 'Export výsledků {plugin} selhal',
+
+  // ---------- Anotace ----------
+  'annotations.title': 'Anotace',
+  'annotations.description': 'Štítky a poznámky k řádkům výsledků - kliknutím skočíte na řádek v jeho pluginu',
+  'annotations.column': 'Štítek',
+  'annotations.row': 'Řádek {row}',
+  'annotations.menuTitle': 'Anotace - {row}',
+  'annotations.quickTag': 'Označit štítkem {tag}',
+  'annotations.tag': 'Štítek',
+  'annotations.tagPlaceholder': 'Vlastní štítek',
+  'annotations.note': 'Poznámka',
+  'annotations.notePlaceholder': 'Poznámka k řádku (nepovinná)',
+  'annotations.save': 'Uložit',
+  'annotations.delete': 'Odebrat',
+  'annotations.filter': 'Štítek',
+  'annotations.filterAll': 'Všechny řádky',
+  'annotations.filterAny': 'Jen anotované',
+  'annotations.menuHint': 'Pravým tlačítkem na řádku přidáte štítek a poznámku',
+  'annotations.saveFailed': 'Anotaci se nepodařilo uložit',
+  'annotations.deleteFailed': 'Anotaci se nepodařilo odebrat',
+  'annotations.loadFailed': 'Anotace se nepodařilo načíst',
+  'annotations.rowHidden': 'Anotovaný řádek skrývá filtr',
+  'annotations.rowMissing': 'Řádek {row} ve výsledcích pluginu není',
+  'annotations.empty': 'Zatím žádné anotace. Řádek ve výsledcích označíte pravým tlačítkem.',
+  'annotations.count': { one: '{count} anotace', few: '{count} anotace', many: '{count} anotace', other: '{count} anotací' },
+  'annotations.allTags': 'Všechny štítky',
+  'annotations.created': 'Vytvořeno',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof cs;
+
+export default cs;
@@ -0,0 +1,498 @@
+// English catalog - keys come from cs.ts.
+import type { Message } from './i18n';
+import type { MessageKey } from './cs';
+
+const en: Record<MessageKey, Message> = {
+  // ---------- Common ----------
+  'common.loading': 'Loading...',
+  'common.error': 'Error',
+  'common.unknownError': 'Unknown error',
+  'common.retry': 'Try again',
+  'common.refresh': 'Refresh',
+  'common.refreshing': 'Refreshing…',
+  'common.run': 'Run',
+  'common.hide': 'Hide',
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.remove': 'Remove',
+  'common.back': 'Back',
+  'common.open': 'Open',
+
+  // ---------- Navigation and main layout ----------
+  'nav.main': 'Main navigation',
+  'nav.projects': 'Projects',
+  'nav.dashboard': 'Dashboard',
+  'nav.analysis': 'Analysis',
+  'nav.results': 'Results',
+  'nav.investigation': 'Investigation',
+  'nav.registry': 'Registry',
+  'nav.symbols': 'Symbol management',
+  'nav.servers': 'Servers',
+
+  'app.confirmUnknownServer': 'The link points to server {url}, which is not in your list. Add it and switch to it?',
+  'app.error.loadProjects': 'Could not load projects',
+  'app.error.loadPlugins': 'Could not load the plugin list',
+  'app.error.statusCheck': 'Status check failed',
+  'app.error.apiVersion': 'Could not verify the backend API version',
+  'app.error.loadResults': 'Could not load {plugin} results',
+  'app.error.pluginFailed': 'Plugin {plugin} failed: {error}',
+  'app.error.runPlugin': 'Could not start plugin {plugin}',
+  'app.error.runBatch': 'Could not start the batch analysis',
+  'app.error.cancel': 'Could not cancel {plugins}',
+  'app.error.choosePlugin': 'Choose a plugin',
+  'app.error.backToProjects': 'Back to projects',
+  'app.logout': 'Log out',
+  'app.logoutTitle': 'Log out',
+  'app.mockTitle': 'Sample data that lives only in browser memory',
+  'app.mockDisable': 'Turn off',
+  'app.language': 'Language',
+  'app.version': 'Version {version}',
+  'app.title.upload': 'Upload Memory Dump',
+  'app.title.plugins': 'Choose Plugin',
+  'app.title.processing': 'Analysis in Progress',
+  'app.title.results': 'Results: {plugin}',
+  'app.title.symbols': 'Symbol Management',
+  'app.title.registry': 'Registry Browser',
+  'app.paletteTitle': 'Command palette (Ctrl+K)',
+  'app.search': 'Search',
+  'app.started.title': 'Running in the background: {plugins}',
+  'app.started.description': 'Follow progress in the Jobs panel in the sidebar; click a finished job to open it.',
+  'app.started.follow': 'Follow progress',
+  'app.processing.title': 'Analysis in progress...',
+  'app.processing.plugin': 'Plugin:',
+  'app.processing.description': 'The analysis runs in the background - feel free to work elsewhere, the Jobs panel shows when it finishes.',
+  'app.processing.cancel': 'Cancel analysis',
+  'app.processing.cancelling': 'Cancelling analysis…',
+  'app.switchingServer': 'Switching to server {url}...',
+  'app.loadingResults': 'Loading results...',
+  'app.notStarted.before': 'Plugin ',
+  'app.notStarted.after': ' has not run in this project yet.',
+  'app.notStarted.other': 'Choose another plugin',
+
+  // ---------- Login ----------
+  'login.unsupported': 'The backend does not support login - for development set VITE_AUTH_PROVIDER=local',
+  'login.invalidCredentials': 'Invalid username or password',
+  'login.failed': 'Login failed',
+  'login.title': 'Sign in',
+  'login.titleExpired': 'Sign in again',
+  'login.expired': 'Your session has expired. Your work in progress has been kept and unfinished requests will be retried after you sign in.',
+  'login.username': 'Username',
+  'login.password': 'Password',
+  'login.submit': 'Sign in',
+  'login.submitting': 'Signing in…',
+  'login.localProvider': 'Local development provider - accounts {accounts} (password = username)',
+
+  // ---------- Contract diagnostics ----------
+  'contract.title': 'Backend contract mismatch ({count})',
+  'contract.description': 'The backend returned data in a different shape than the frontend expects. The displayed data may be incomplete - check that the backend version matches the frontend version.',
+  'contract.field': 'field',
+  'contract.expected': 'expected {expected}, received {received}',
+
+  // ---------- Jobs ----------
+  'jobs.status.queued': 'Queued',
+  'jobs.status.running': 'Running…',
+  'jobs.status.completed': 'Completed',
+  'jobs.status.failed': 'Failed',
+  'jobs.status.cancelled': 'Cancelled',
+  'jobs.symbolTitle': 'Symbol generation',
+  'jobs.isfFromVmlinux': 'ISF from vmlinux',
+  'jobs.project': 'project {id}',
+  'jobs.openResults': 'Open results',
+  'jobs.cancelling': 'Cancelling…',
+  'jobs.cancelFailed': 'Cancellation failed',
+  'jobs.otherServer': 'other server',
+  'jobs.cancelJob': 'Cancel job',
+  'jobs.removeFromList': 'Remove from list',
+  'jobs.title': 'Jobs',
+  'jobs.runningCount': '{count} running',
+  'jobs.unseen': 'Newly finished jobs',
+  'jobs.batchProgress': 'Batch · {done} / {total} completed',
+  'jobs.cancelBatch': 'Cancel batch',
+  'jobs.clearFinished': 'Clear finished',
+
+  // ---------- Notifications ----------
+  'notifications.title': 'Notifications',
+  'notifications.unread': 'Unread notifications',
+  'notifications.retry': 'Retry action',
+  'notifications.clearAll': 'Clear all',
+  'notifications.close': 'Close notification',
+
+  // ---------- Projects ----------
+  'projects.tagline': 'Professional tool for forensic analysis of memory dumps',
+  'projects.create': 'Create new project',
+  'projects.unavailableServers': 'Some servers are unavailable',
+  'projects.loading': 'Loading projects...',
+  'projects.empty.title': 'No projects yet',
+  'projects.empty.description': 'Create a new project by uploading a memory dump file',
+  'projects.mine': 'My projects',
+  'projects.count': { one: '{count} project', other: '{count} projects' },
+
+  // ---------- Plugin selection ----------
+  'plugins.confirmNoSymbols': '⚠️ No symbols have been uploaded. The analysis will probably fail.\n\nContinue anyway?',
+  'plugins.loadingProject': 'Loading project information...',
+  'plugins.error.loadProject': 'Could not load the project details',
+  'plugins.detectedOs': 'Detected operating system',
+  'plugins.symbolsAvailable': 'Symbols available',
+  'plugins.symbolsMissing': 'Symbols missing',
+  'plugins.noSymbols.title': 'Symbol files missing',
+  'plugins.noSymbols.description': 'Analysing Linux memory dumps requires custom symbols (ISF files). Without them the analysis will probably fail. Upload a vmlinux with debug info or an ISF file in "Symbol management".',
+  'plugins.batchMode': 'Batch mode (select multiple plugins)',
+  'plugins.selectedCount': { one: '{count} plugin selected', other: '{count} plugins selected' },
+  'plugins.presets': 'Quick presets:',
+  'plugins.filterByCategory': 'Filter by category:',
+  'plugins.allCategories': 'All',
+  'plugins.shownFor': 'Showing plugins for:',
+  'plugins.shownCount': '{shown} of {total}',
+  'plugins.empty.title': 'No plugins in this category',
+  'plugins.empty.description': 'Choose another category or try "All"',
+  'plugins.listLabel': 'Available plugins',
+  'plugins.done': 'Done',
+  'plugins.selectedPlugins': 'Selected plugins ({count}):',
+  'plugins.selectedPlugin': 'Selected plugin:',
+  'plugins.starting': 'Starting...',
+  'plugins.runBatch': 'Run batch analysis',
+  'plugins.run': 'Run analysis',
+
+  // ---------- Dump upload ----------
+  'upload.noFile.title': 'No file selected',
+  'upload.noFile.message': 'Please choose a file',
+  'upload.failed': 'Upload failed',
+  'upload.projectName': 'Project name',
+  'upload.projectNamePlaceholder': 'e.g. Windows10_Investigation',
+  'upload.projectNameHint': 'If left empty, the file name is used',
+  'upload.chooseFile': 'Choose a memory dump file',
+  'upload.dropHere': 'Drop the file here',
+  'upload.orClick': 'or click to browse',
+  'upload.formats': 'Supported formats: {formats}',
+  'upload.size': 'Size:',
+  'upload.progress.uploaded': 'Uploaded {done} of {total}',
+  'upload.progress.hash': 'Computing SHA-256',
+  'upload.progress.speed': 'Speed: {speed}/s · Remaining: {eta}',
+  'upload.progress.finalizing': 'Waiting for the hash to finish and the server to verify integrity...',
+  'upload.progress.paused': 'The upload is paused; resuming continues from the last uploaded block',
+  'upload.pause': 'Pause',
+  'upload.resume': 'Resume upload',
+  'upload.submit': 'Upload',
+  'upload.symbols.title': 'Symbol Generation',
+  'upload.symbols.uploading': 'Uploading vmlinux...',
+  'upload.symbols.generating': 'Generating ISF symbols... ({status})',
+  'upload.symbols.status': 'Status: {status}',
+  'upload.symbols.done': 'Symbols generated successfully!',
+  'upload.symbols.error': 'Error: {error}',
+  'upload.symbols.statusError': 'Status check failed',
+  'upload.symbols.uploadFailed': 'Could not upload vmlinux',
+  'upload.symbols.hint': 'Generating ISF symbols can take several minutes...',
+  'upload.config.title': 'Project Configuration',
+  'upload.config.uploadedFile': 'Uploaded file',
+  'upload.config.name': 'Name:',
+  'upload.config.verified': 'verified by server',
+  'upload.os.label': 'Operating system',
+  'upload.os.hint': 'The OS is saved to the project automatically',
+  'upload.os.saveFailed': 'Could not save the project OS',
+  'upload.detect.running': 'Detecting...',
+  'upload.detect.run': 'Run Banners Plugin',
+  'upload.detect.hint': 'Uses a Volatility plugin to detect the OS automatically',
+  'upload.detect.success': 'Detection succeeded',
+  'upload.detect.failed': 'OS detection failed',
+  'upload.detect.architecture': 'Architecture:',
+  'upload.detect.showOutput': 'Show Banners plugin output',
+  'upload.linux.title': 'Linux - Symbols',
+  'upload.linux.description': 'Analysing Linux dumps requires ISF symbol files. Upload a vmlinux file to generate symbols automatically.',
+  'upload.linux.vmlinuxLabel': 'Upload vmlinux file',
+  'upload.linux.uploadVmlinux': 'Upload vmlinux and generate symbols',
+  'upload.linux.continueWithout': 'Continue without symbols (limited functionality)',
+  'upload.windows.description': 'Windows dumps need no additional symbols. You can continue to the analysis.',
+  'upload.windows.continue': 'Continue to analysis',
+
+  // ---------- Servers ----------
+  'servers.health.unchecked': 'Not checked',
+  'servers.health.checking': 'Checking…',
+  'servers.health.incompatible': 'Incompatible',
+  'servers.health.offline': 'Unavailable',
+  'servers.health.noVersionInfo': 'The server does not return API version information',
+  'servers.health.noVersion': 'The server does not report its API version',
+  'servers.health.authRequired': 'The server requires sign-in',
+  'servers.invalidUrl': 'Invalid server address',
+  'servers.defaultName': 'Default server',
+  'servers.invalidProtocol': 'The server address must start with http:// or https://',
+  'servers.duplicate': 'A server with this address is already in the list',
+  'servers.unknown': 'Server {id} is not in the list',
+  'servers.confirmRemove': 'Remove server {name} from the list?',
+  'servers.title': 'Analysis servers',
+  'servers.description': 'The active server is used for new projects and analyses. The choice is remembered in this browser.',
+  'servers.active': 'Active',
+  'servers.test': 'Test',
+  'servers.use': 'Use',
+  'servers.remove': 'Remove server',
+  'servers.add.title': 'Add server',
+  'servers.add.name': 'Name',
+  'servers.add.namePlaceholder': 'e.g. Incident Response team',
+  'servers.add.test': 'Test connection',
+  'servers.add.submit': 'Add',
+
+  // ---------- Symbols ----------
+  'symbols.error.load': 'Could not load symbols',
+  'symbols.error.upload': 'Could not upload the ISF file',
+  'symbols.error.delete': 'Could not delete the symbol',
+  'symbols.confirmDelete': 'Do you really want to delete this symbol file?',
+  'symbols.description': 'Manage ISF symbol files for analysing Linux memory dumps',
+  'symbols.upload.title': 'Upload ISF symbol file',
+  'symbols.upload.description': 'If you already have a generated ISF file, you can upload it here.',
+  'symbols.upload.file': 'ISF file (.json)',
+  'symbols.upload.kernel': 'Kernel version (optional)',
+  'symbols.upload.kernelPlaceholder': 'e.g. 5.15.0-76-generic',
+  'symbols.upload.uploading': 'Uploading...',
+  'symbols.upload.submit': 'Upload ISF',
+  'symbols.list.title': 'Available symbols',
+  'symbols.count': { one: '{count} symbol', other: '{count} symbols' },
+  'symbols.list.loading': 'Loading symbols...',
+  'symbols.empty.title': 'No symbols found',
+  'symbols.empty.description': 'Upload a vmlinux when uploading a Linux dump, or upload an ISF file above.',
+  'symbols.column.id': 'Symbol ID',
+  'symbols.column.kernel': 'Kernel Version',
+  'symbols.column.size': 'Size',
+  'symbols.column.created': 'Created',
+  'symbols.column.actions': 'Actions',
+  'symbols.delete': 'Delete',
+
+  // ---------- Dashboard ----------
+  'dashboard.error': 'Could not load the dashboard',
+  'dashboard.loading': 'Loading dashboard...',
+  'dashboard.noData': 'The dashboard does not have enough data yet.',
+  'dashboard.stat.processes': 'Processes',
+  'dashboard.stat.uniqueNames': { other: '{count} unique' },
+  'dashboard.stat.connections': 'Network connections',
+  'dashboard.stat.foreignAddresses': { one: '{count} ext. address', other: '{count} ext. addresses' },
+  'dashboard.stat.malfind': 'Malfind detections',
+  'dashboard.stat.suspiciousPids': { one: '{count} suspicious PID', other: '{count} suspicious PIDs' },
+  'dashboard.stat.tracked': 'Tracked PIDs',
+  'dashboard.stat.suspicious': { other: '{count} suspicious' },
+  'dashboard.stat.files': 'Files in memory',
+  'dashboard.stat.completedPlugins': 'Completed plugins',
+  'dashboard.stat.failedPlugins': { other: '{count} failed' },
+  'dashboard.topProcesses': 'Most common processes',
+  'dashboard.tracked.title': 'Tracked processes',
+  'dashboard.tracked.open': 'Open investigation',
+  'dashboard.tracked.empty': 'No tracked processes yet. Switch to the investigation view.',
+  'dashboard.foreignAddresses': 'External IP addresses',
+
+  // ---------- Timeline ----------
+  'timeline.loadFailed': 'Could not load the timeline.',
+  'timeline.loading': 'Loading timeline...',
+  'timeline.title': 'Process timeline',
+  'timeline.filter.all': 'All',
+  'timeline.filter.tracked': 'Tracked',
+  'timeline.legend.normal': 'Normal',
+  'timeline.legend.tracked': 'Tracked',
+  'timeline.created': 'Created',
+  'timeline.exited': 'Exited',
+
+  // ---------- Results history ----------
+  'history.status.completed': 'Completed',
+  'history.status.running': 'Running',
+  'history.status.failed': 'Failed',
+  'history.status.cancelled': 'Cancelled',
+  'history.status.notStarted': 'Not started',
+  'history.duration.seconds': '{s} s',
+  'history.duration.minutes': '{m} min {s} s',
+  'history.duration.hours': '{h} h {m} min',
+  'history.title': 'Project results',
+  'history.completedCount': '{count} completed',
+  'history.loading': 'Loading results overview...',
+  'history.loadFailed': 'Could not load the results overview',
+  'history.empty.title': 'Nothing has run in this project yet',
+  'history.empty.description': 'Run the first plugin and its results will show up here.',
+  'history.column.status': 'Status',
+  'history.column.rows': 'Rows',
+  'history.column.started': 'Started',
+  'history.column.duration': 'Duration',
+
+  // ---------- Results workspace ----------
+  'workspace.leftPane': 'Results',
+  'workspace.rightPane': 'Results - right pane',
+  'workspace.openRight': 'Open in the right pane',
+  'workspace.moveLeft': 'Move to the left pane',
+  'workspace.closeTab': 'Close tab',
+  'workspace.closeTabNamed': 'Close {plugin}',
+  'workspace.splitZone': 'Drop here to split side by side',
+  'workspace.runAnother': 'Run another plugin',
+  'workspace.mergeHint': 'Move all tabs back into one pane',
+  'workspace.merge': 'Merge panes',
+  'workspace.notLoaded': 'Results of {plugin} are not loaded yet.',
+  'workspace.load': 'Load results',
+  'workspace.resetLayout': 'Reset layout',
+  'workspace.resetLayoutHint': 'Closes tabs and forgets the saved filters, expanded nodes and last view of the project',
+  'workspace.resetLayoutConfirm': 'Reset the project layout? Result tabs will close and saved filters, searches and the last view will be forgotten.',
+
+  // ---------- Command palette ----------
+  'palette.group.navigation': 'Navigation',
+  'palette.group.plugins': 'Plugins',
+  'palette.group.tracked': 'Tracked PIDs',
+  'palette.group.processes': 'Processes',
+  'palette.group.registry': 'Registry',
+  'palette.group.projects': 'Projects',
+  'palette.group.actions': 'Actions',
+  'palette.nav.plugins': 'Analysis - choose a plugin',
+  'palette.nav.upload': 'Upload a memory dump',
+  'palette.openPid': 'Open PID {pid}',
+  'palette.runForPid': 'Run {plugin} for PID {pid}',
+  'palette.openPath': 'Open {path}',
+  'palette.registryRoot': 'root',
+  'palette.actionFailed': 'Action failed',
+  'palette.placeholder': 'Plugin, process, PID, HKLM\\Software\\…, project…',
+  'palette.placeholderGlobal': 'Project or page…',
+  'palette.empty': 'No matches',
+  'palette.footer': '↑↓ select · Enter open · Esc close',
+  'palette.title': 'Command palette',
+
+  // ---------- Process tree ----------
+  'tree.loadFailed': 'Could not load the process tree.',
+  'tree.loading': 'Loading process tree...',
+  'tree.hint': 'Run the PsTree, PsList or PsScan plugin.',
+  'tree.title': 'Process tree',
+  'tree.search': 'Search PID or name...',
+  'tree.expandAll': 'Expand all',
+  'tree.collapseAll': 'Collapse all',
+  'tree.count': { one: '{count} process', other: '{count} processes' },
+  'tree.untrack': 'Stop tracking',
+  'tree.track': 'Track process',
+
+  // ---------- Registry ----------
+  'registry.loadFailed': 'Could not load registry hives. Run the HiveList plugin.',
+  'registry.loading': 'Loading registry hives...',
+  'registry.hint': 'Run the HiveList and PrintKey plugins.',
+  'registry.hives': 'Registry hives',
+  'registry.selectHive': 'Select a hive',
+  'registry.selectHiveHint': 'Click a hive on the left to browse the registry.',
+  'registry.breadcrumbs': 'Registry path',
+  'registry.filter': 'Filter keys and values...',
+  'registry.keys': 'Keys',
+  'registry.values': 'Values',
+  'registry.column.name': 'Name',
+  'registry.column.type': 'Type',
+  'registry.column.time': 'Time',
+  'registry.noMatches': 'No results for this search.',
+  'registry.emptyKey': 'This key has no subkeys or values.',
+
+  // ---------- Results grid ----------
+  'grid.correlationTip': 'Tip: click a PID for cross-plugin correlation',
+  'grid.tracked': 'Tracked',
+  'grid.trackPid': 'Track PID {pid}',
+  'grid.pagedNotice': { one: 'Large output – {count} row. Data loads in blocks; sorting and filtering run on the server.', other: 'Large output – {count} rows. Data loads in blocks; sorting and filtering run on the server.' },
+  'grid.pageLoadFailed': 'Could not load a page of {plugin} results',
+  'grid.empty.title': 'No data to display',
+  'grid.empty.description': 'The analysis returned no results',
+  'grid.correlationLoading': 'Loading correlation...',
+  'grid.correlationTitle': 'Cross-plugin correlation',
+  'grid.records': { one: '{count} record', other: '{count} records' },
+  'grid.more': '... and {count} more',
+  'grid.cell.decimal': 'Decimal: {value}',
+  'grid.cell.true': 'Yes',
+  'grid.cell.false': 'No',
+  'grid.cell.bytes': { one: '{count} byte', other: '{count} bytes' },
+  'grid.cell.pidHint': 'Click to correlate this PID across plugins',
+  'grid.tree.expand': 'Expand',
+  'grid.tree.collapse': 'Collapse',
+
+  // ---------- Investigation ----------
+  'investigation.startFailed': 'Failed to start',
+  'investigation.detailTabs': 'Process results',
+  'investigation.tab.timeline': 'Timeline',
+  'investigation.tab.correlation': 'Correlation',
+  'investigation.process': 'Process',
+  'investigation.track': 'Track',
+  'investigation.watchlist.empty': 'No tracked processes',
+  'investigation.watchlist.hint': 'Click ☆ next to a process in the tree to track it.',
+  'investigation.watchlist.source': 'Source',
+  'investigation.watchlist.added': 'Added',
+  'investigation.correlation.empty': 'No correlation data. Run more plugins for a better overview.',
+  'investigation.pid.title': '{plugin} for PID {pid}',
+  'investigation.pid.notAvailable': 'Results are not available yet.',
+  'investigation.pid.run': 'Run {plugin}',
+  'investigation.pid.running': 'Running {plugin} for PID {pid}...',
+  'investigation.pid.cancelled': 'The {plugin} run for PID {pid} was cancelled.',
+  'investigation.pid.runAgain': 'Run again',
+  'investigation.pid.failed': 'The plugin failed.',
+  'investigation.pid.noData': 'The plugin returned no data for PID {pid}.',
+  'investigation.pid.showInGrid': 'Show in table',
+  'investigation.pid.truncated': 'Showing {shown} of {count} records. Click "Show in table" for the full dataset.',
+  'investigation.error.load': 'Could not load tracked PIDs',
+  'investigation.error.track': 'Could not start tracking PID {pid}',
+  'investigation.error.untrack': 'Could not stop tracking PID {pid}',
+  'investigation.error.update': 'Could not update tracked PID {pid}',
+
+  // ---------- API ----------
+  'api.cancelled': 'The request was cancelled',
+  'api.noResponse': 'The backend is not responding - check the server connection',
+  'api.httpError': 'Request failed (HTTP {status})',
+  'api.uploadFailed': 'Upload failed',
+  'api.uploadPaused': 'Upload paused',
+  'api.hashFailed': 'Hash calculation failed',
+  'api.invalidCredentials': 'Invalid username or password',
+  'api.contractMismatch': 'Backend contract mismatch: {endpoint} – field "{field}" (expected {expected}, got {received})',
+  'api.version.notReported': 'The backend does not report its API version',
+  'api.version.mismatch': 'The backend uses API {server}, the frontend expects {client}',
+  'api.version.tooOld': 'The backend requires a frontend with API {required} or newer (current {client})',
+
+  // ---------- Theme ----------
+  'theme.label': 'Colour theme',
+  'theme.system': 'Match system',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+
+  // ---------- Grid views ----------
+  'gridViews.label': 'View',
+  'gridViews.defaultLayout': 'Default layout',
+  'gridViews.save': 'Save view',
+  'gridViews.namePlaceholder': 'View name, e.g. pslist – non-system paths',
+  'gridViews.nameRequired': 'Enter a view name',
+  'gridViews.setDefault': 'Set as default',
+  'gridViews.unsetDefault': 'Default view',
+  'gridViews.delete': 'Delete view',
+  'gridViews.confirmDelete': 'Delete view "{name}"?',
+  'gridViews.columns': 'Columns ({visible}/{total})',
+  'gridViews.export': 'Export views',
+  'gridViews.import': 'Import views',
+  'gridViews.imported': { one: 'Imported {count} view', other: 'Imported {count} views' },
+  'gridViews.importFailed': 'Could not import views',
+  'gridViews.importInvalid': 'The file does not contain VTF grid views',
+  'gridViews.importNewer': 'The file comes from a newer version of the app',
+
+  // ---------- Results export ----------
+  'export.label': 'Export',
+  'export.hint': 'Exports the filtered and sorted rows with the visible columns',
+  'export.selectedOnly': { one: 'Selected row only ({count})', other: 'Selected rows only ({count})' },
+  'export.running': 'Exporting…',
+  'export.empty': 'No rows to export',
+  'export.failed': 'Export of {plugin} results failed',
+
+  // ---------- Annotations ----------
+  'annotations.title': 'Annotations',
+  'annotations.description': 'Tags and notes on result rows - click to jump to the row in its plugin',
+  'annotations.column': 'Tag',
+  'annotations.row': 'Row {row}',
+  'annotations.menuTitle': 'Annotation - {row}',
+  'annotations.quickTag': 'Tag as {tag}',
+  'annotations.tag': 'Tag',
+  'annotations.tagPlaceholder': 'Custom tag',
+  'annotations.note': 'Note',
+  'annotations.notePlaceholder': 'Note on the row (optional)',
+  'annotations.save': 'Save',
+  'annotations.delete': 'Remove',
+  'annotations.filter': 'Tag',
+  'annotations.filterAll': 'All rows',
+  'annotations.filterAny': 'Annotated only',
+  'annotations.menuHint': 'Right-click a row to add a tag and a note',
+  'annotations.saveFailed': 'Could not save the annotation',
+  'annotations.deleteFailed': 'Could not remove the annotation',
+  'annotations.loadFailed': 'Could not load annotations',
+  'annotations.rowHidden': 'The annotated row is hidden by a filter',
+  'annotations.rowMissing': 'Row {row} is not in the plugin results',
+  'annotations.empty': 'No annotations yet. Right-click a row in the results to tag it.',
+  'annotations.count': { one: '{count} annotation', other: '{count} annotations' },
+  'annotations.allTags': 'All tags',
+  'annotations.created': 'Created',
+};
+
+export default en;
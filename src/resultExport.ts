@@ -0,0 +1,108 @@
+// Export výsledků tak, jak je analytik vidí v gridu - vyfiltrované a seřazené řádky, jen
+// viditelné sloupce v zobrazeném pořadí. Soubor se sestaví v prohlížeči (CSV, XLSX, JSON,
+// Markdown tabulka do poznámek k případu).
+import type { ResultRow } from './api/vtfApi';
+import { formatHex, toBoolean, toNumber } from './columnTypes';
+import type { ColumnType } from './columnTypes';
+import { createXlsx } from './xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'md';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json', 'md'];
+
+export interface ExportColumn {
+  key: string;
+  /** Název sloupce v gridu */
+  header: string;
+  type: ColumnType;
+}
+
+const MIME_TYPES: Record<Exclude<ExportFormat, 'xlsx'>, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  md: 'text/markdown;charset=utf-8',
+};
+
+// Hodnota buňky jako v gridu - adresy v hex, čísla jako čísla
+function cellValue(column: ExportColumn, row: ResultRow): string | number | null {
+  const value = row[column.key];
+  switch (column.type) {
+    case 'hex': return formatHex(value);
+    case 'boolean': {
+      const flag = toBoolean(value);
+      return flag === null ? null : String(flag);
+    }
+    case 'bytes':
+    case 'pid':
+    case 'number': return toNumber(value) ?? (value == null ? null : String(value));
+  }
+  if (value == null) return null;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toCsv(columns: ExportColumn[], rows: ResultRow[]): string {
+  const escape = (value: string | number | null) => {
+    if (value === null) return '';
+    let text = String(value);
+    // Řetězce z paměti jsou data útočníka - tabulkový procesor je nesmí spustit jako vzorec
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && !/^[-+]?[\d.]*$/.test(text)) text = `'${text}`;
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [
+    columns.map(c => escape(c.header)).join(','),
+    ...rows.map(row => columns.map(c => escape(cellValue(c, row))).join(',')),
+  ];
+  // BOM - Excel jinak čte UTF-8 jako ANSI
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+function toMarkdown(columns: ExportColumn[], rows: ResultRow[]): string {
+  // HTML v datech se nesmí vykreslit v náhledu poznámek
+  const escape = (value: string | number | null) =>
+    value === null ? '' : String(value)
+      .replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r?\n/g, '<br>');
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  return [
+    line(columns.map(c => escape(c.header))),
+    // Čísla zarovnaná doprava
+    line(columns.map(c => (c.type === 'bytes' || c.type === 'pid' || c.type === 'number' ? '---:' : '---'))),
+    ...rows.map(row => line(columns.map(c => escape(cellValue(c, row))))),
+  ].join('\n') + '\n';
+}
+
+// JSON drží původní hodnoty (bez převodu na text), jen viditelné sloupce
+function toJson(columns: ExportColumn[], rows: ResultRow[]): string {
+  return JSON.stringify(
+    rows.map(row => Object.fromEntries(columns.map(c => [c.key, row[c.key] ?? null]))),
+    null,
+    2
+  );
+}
+
+/** Soubor s exportem řádků; sheetName pojmenuje list v XLSX */
+export function createExportFile(format: ExportFormat, columns: ExportColumn[], rows: ResultRow[], sheetName: string): Blob {
+  switch (format) {
+    case 'csv': return new Blob([toCsv(columns, rows)], { type: MIME_TYPES.csv });
+    case 'md': return new Blob([toMarkdown(columns, rows)], { type: MIME_TYPES.md });
+    case 'json': return new Blob([toJson(columns, rows)], { type: MIME_TYPES.json });
+    case 'xlsx':
+      return createXlsx(sheetName, columns.map(c => c.header), rows.map(row => columns.map(c => cellValue(c, row))));
+  }
+}
+
+/** Název souboru, např. windows.pslist-2026-10-19.csv */
+export function exportFileName(plugin: string, format: ExportFormat, date = new Date()): string {
+  const day = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  return `${plugin}-${day}.${format}`;
+}
+
+/** Stáhne soubor vytvořený v prohlížeči */
+export function downloadFile(file: Blob, fileName: string) {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Stahování začne až po návratu do event loopu
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
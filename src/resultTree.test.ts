@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildResultTree,
+  filterTree,
+  getExpandableIds,
+  getKeptAncestorIds,
+  getTreeRows,
+  hasTreeData,
+  orderAsTree,
+  TREE_INFO,
+} from './resultTree';
+import type { TreeRow } from './resultTree';
+
+// System → (smss → csrss), Registry; explorer samostatně
+const rows = [
+  {
+    PID: 4, Name: 'System', __children: [
+      { PID: 300, Name: 'smss.exe', __children: [{ PID: 400, Name: 'csrss.exe' }] },
+      { PID: 88, Name: 'Registry', __children: [] },
+    ],
+  },
+  { PID: 2000, Name: 'explorer.exe' },
+];
+
+const pids = (treeRows: TreeRow[]) => treeRows.map(r => r.PID);
+
+describe('resultTree', () => {
+  it('pozná vnořené výsledky', () => {
+    expect(hasTreeData(rows)).toBe(true);
+    expect(hasTreeData([{ PID: 1, __children: [] }])).toBe(false);
+  });
+
+  it('zploští strom v pořadí průchodu do hloubky bez pole __children', () => {
+    const tree = buildResultTree(rows);
+    expect(tree.nodes.map(n => [n.id, n.parentId, n.depth])).toEqual([
+      ['0', null, 0],
+      ['0.0', '0', 1],
+      ['0.0.0', '0.0', 2],
+      ['0.1', '0', 1],
+      ['1', null, 0],
+    ]);
+    expect(tree.nodes.every(n => !('__children' in n.row))).toBe(true);
+    expect(getExpandableIds(tree)).toEqual(new Set(['0', '0.0']));
+  });
+
+  it('hluboký strom nepřeteče zásobník', () => {
+    let deep: Record<string, unknown> = { PID: 0 };
+    for (let i = 1; i < 5_000; i++) deep = { PID: i, __children: [deep] };
+    expect(buildResultTree([deep]).nodes).toHaveLength(5_000);
+  });
+
+  it('sbalené uzly skryjí potomky, index zůstane podle celého stromu', () => {
+    const tree = buildResultTree(rows);
+    const visible = getTreeRows(tree, new Set(['0.0']), null);
+    expect(pids(visible)).toEqual([4, 300, 88, 2000]);
+    expect(visible.map(r => r[TREE_INFO]!.index)).toEqual([0, 1, 3, 4]);
+    expect(visible[1][TREE_INFO]).toMatchObject({ hasChildren: true, expanded: false });
+    expect(pids(getTreeRows(tree, new Set(['0']), null))).toEqual([4, 2000]);
+  });
+
+  it('filtr ponechá předky shod', () => {
+    const tree = buildResultTree(rows);
+    const kept = filterTree(tree, row => row.Name === 'csrss.exe')!;
+    expect(kept).toEqual(new Set(['0.0.0', '0.0', '0']));
+    expect(pids(getTreeRows(tree, new Set(), kept))).toEqual([4, 300, 400]);
+    expect(getKeptAncestorIds(tree, kept).sort()).toEqual(['0', '0.0']);
+    expect(filterTree(tree, null)).toBeNull();
+  });
+
+  it('seřazené řádky vrátí pod rodiče', () => {
+    const treeRows = getTreeRows(buildResultTree(rows), new Set(), null);
+    const byPidDesc = [...treeRows].sort((a, b) => Number(b.PID) - Number(a.PID));
+    expect(pids(orderAsTree(byPidDesc, r => r[TREE_INFO]))).toEqual([2000, 4, 300, 400, 88]);
+  });
+});
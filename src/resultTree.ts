@@ -0,0 +1,150 @@
+// Stromové výsledky pluginů - Volatility vnořuje potomky do pole __children (pstree,
+// mftscan, některé pluginy registrů). Strom se zploští do řádků gridu v pořadí průchodu
+// do hloubky; každý řádek nese pod symbolem TREE_INFO svou pozici ve stromu.
+import type { Annotation, ResultRow } from './api/vtfApi';
+import { CHILDREN_FIELD } from './columnTypes';
+
+// Symbol se nedostane do JSONu, exportu ani do klíčů sloupců
+export const TREE_INFO = Symbol('tree');
+
+export interface TreeInfo {
+  /** Cesta indexů od kořene, např. "0.2.1" - stabilní ID řádku */
+  id: string;
+  /** Pořadí v průchodu do hloubky - row_index anotací */
+  index: number;
+  parentId: string | null;
+  depth: number;
+  hasChildren: boolean;
+  expanded: boolean;
+}
+
+export type TreeRow = ResultRow & { [TREE_INFO]?: TreeInfo };
+
+/** Kontext gridu výsledků - buňka stromu přes něj rozbaluje a sbaluje řádky */
+export interface ResultGridContext {
+  toggleTreeRow: (id: string) => void;
+  /** Anotace řádku (štítek a poznámka) */
+  getAnnotation: (row: TreeRow | undefined) => Annotation | undefined;
+}
+
+interface TreeNode {
+  id: string;
+  parentId: string | null;
+  depth: number;
+  childIds: string[];
+  /** Řádek bez pole __children */
+  row: ResultRow;
+}
+
+export interface ResultTree {
+  /** Uzly v pořadí průchodu do hloubky */
+  nodes: TreeNode[];
+  byId: Map<string, TreeNode>;
+}
+
+function childrenOf(row: ResultRow): ResultRow[] {
+  const children = row[CHILDREN_FIELD];
+  return Array.isArray(children) ? children : [];
+}
+
+/** Výsledky mají vnořené řádky - grid je zobrazí jako strom */
+export function hasTreeData(rows: ResultRow[]): boolean {
+  return rows.some(row => childrenOf(row).length > 0);
+}
+
+export function buildResultTree(rows: ResultRow[]): ResultTree {
+  const nodes: TreeNode[] = [];
+  const byId = new Map<string, TreeNode>();
+  // Zásobník místo rekurze - hluboké stromy (mftscan) by přetekly volací zásobník
+  const stack = rows.map((row, index) => ({ row, id: String(index), parentId: null as string | null, depth: 0 })).reverse();
+  while (stack.length > 0) {
+    const { row, id, parentId, depth } = stack.pop()!;
+    const children = childrenOf(row);
+    const plain = { ...row };
+    delete plain[CHILDREN_FIELD];
+    const node: TreeNode = { id, parentId, depth, childIds: children.map((_, i) => `${id}.${i}`), row: plain };
+    nodes.push(node);
+    byId.set(id, node);
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push({ row: children[i], id: `${id}.${i}`, parentId: id, depth: depth + 1 });
+    }
+  }
+  return { nodes, byId };
+}
+
+/** ID uzlů, které mají potomky (pro "sbalit vše") */
+export function getExpandableIds(tree: ResultTree): Set<string> {
+  return new Set(tree.nodes.filter(n => n.childIds.length > 0).map(n => n.id));
+}
+
+/**
+ * Řádky, které odpovídají filtru, a všichni jejich předci - strom zůstane čitelný
+ * i při filtrování. Bez filtru vrací null (zobrazí se vše).
+ */
+export function filterTree(tree: ResultTree, matches: ((row: ResultRow) => boolean) | null): Set<string> | null {
+  if (!matches) return null;
+  const kept = new Set<string>();
+  for (const node of tree.nodes) {
+    if (!matches(node.row)) continue;
+    let id: string | null = node.id;
+    while (id !== null && !kept.has(id)) {
+      kept.add(id);
+      id = tree.byId.get(id)?.parentId ?? null;
+    }
+  }
+  return kept;
+}
+
+/** Předci ponechaných řádků - po změně filtru se rozbalí, aby shody byly vidět */
+export function getKeptAncestorIds(tree: ResultTree, kept: Set<string>): string[] {
+  return Array.from(kept).filter(id => tree.byId.get(id)?.childIds.some(child => kept.has(child)));
+}
+
+/**
+ * Viditelné řádky - potomci sbalených uzlů a řádky mimo filtr se vynechají.
+ * Pamatují se sbalené uzly, takže nové výsledky (znovuspuštění pluginu) jsou rozbalené.
+ */
+export function getTreeRows(tree: ResultTree, collapsed: Set<string>, kept: Set<string> | null): TreeRow[] {
+  const rows: TreeRow[] = [];
+  const hidden = new Set<string>();
+  for (const [index, node] of tree.nodes.entries()) {
+    const parentHidden = node.parentId !== null && (hidden.has(node.parentId) || collapsed.has(node.parentId));
+    if (parentHidden || (kept && !kept.has(node.id))) {
+      hidden.add(node.id);
+      continue;
+    }
+    const hasChildren = node.childIds.length > 0;
+    rows.push({
+      ...node.row,
+      [TREE_INFO]: { id: node.id, index, parentId: node.parentId, depth: node.depth, hasChildren, expanded: hasChildren && !collapsed.has(node.id) },
+    });
+  }
+  return rows;
+}
+
+/**
+ * Seřazené řádky vrátí do stromového pořadí - sourozenci zůstanou v pořadí řazení,
+ * potomci hned pod rodičem
+ */
+export function orderAsTree<T>(items: T[], getInfo: (item: T) => TreeInfo | undefined): T[] {
+  const children = new Map<string | null, T[]>();
+  const ids = new Set(items.map(item => getInfo(item)?.id));
+  for (const item of items) {
+    const parentId = getInfo(item)?.parentId ?? null;
+    // Rodič mimo zobrazené řádky (nemělo by nastat) - řádek se zařadí mezi kořeny
+    const key = parentId !== null && ids.has(parentId) ? parentId : null;
+    const siblings = children.get(key);
+    if (siblings) siblings.push(item);
+    else children.set(key, [item]);
+  }
+  const ordered: T[] = [];
+  const stack = [...(children.get(null) ?? [])].reverse();
+  while (stack.length > 0) {
+    const item = stack.pop()!;
+    ordered.push(item);
+    const id = getInfo(item)?.id;
+    const nested = id !== undefined ? children.get(id) : undefined;
+    if (nested) for (let i = nested.length - 1; i >= 0; i--) stack.push(nested[i]);
+  }
+  return ordered;
+}
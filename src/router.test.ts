@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { parseLocation, routeToPath } from './router';
+import type { Route } from './router';
+
+function roundTrip(route: Route): Route {
+  const [pathname, query = ''] = routeToPath(route).split('?');
+  return parseLocation(pathname, query ? `?${query}` : '').route;
+}
+
+describe('router', () => {
+  it.each<Route>([
+    { view: 'projects' },
+    { view: 'upload' },
+    { view: 'symbols' },
+    { view: 'servers' },
+    { view: 'plugins', projectId: 'p1' },
+    { view: 'dashboard', projectId: 'p1' },
+    { view: 'history', projectId: 'p1' },
+    { view: 'results', projectId: 'p1', plugin: 'windows.pslist.PsList' },
+    { view: 'results', projectId: 'p1', plugin: 'windows.pslist.PsList', batch: ['windows.pslist.PsList', 'windows.netscan.NetScan'], row: 12 },
+    { view: 'investigation', projectId: 'p1' },
+    { view: 'investigation', projectId: 'p1', pid: 4242 },
+    { view: 'registry', projectId: 'p1' },
+    { view: 'registry', projectId: 'p1', hive: 0xf8a000024000, keyPath: ['Software', 'Microsoft', 'Windows NT'] },
+  ])('round-trip $view', route => {
+    expect(roundTrip(route)).toEqual(route);
+  });
+
+  it('kóduje segmenty cesty', () => {
+    const route: Route = { view: 'registry', projectId: 'p 1', hive: 16, keyPath: ['a/b', 'c%d'] };
+    expect(routeToPath(route)).toBe('/projects/p%201/registry/0x10/a%2Fb/c%25d');
+    expect(roundTrip(route)).toEqual(route);
+  });
+
+  it('čárky v seznamu pluginů zůstanou čitelné', () => {
+    expect(routeToPath({ view: 'results', projectId: 'p1', plugin: 'a', batch: ['a', 'b'] }))
+      .toBe('/projects/p1/results/a?batch=a,b');
+  });
+
+  it('neplatná čísla zahodí', () => {
+    expect(parseLocation('/projects/p1/results/a', '?row=-1').route).toEqual({ view: 'results', projectId: 'p1', plugin: 'a' });
+    expect(parseLocation('/projects/p1/investigation/pid/abc', '').route).toEqual({ view: 'investigation', projectId: 'p1', pid: undefined });
+  });
+
+  it('neznámé a poškozené adresy vedou na seznam projektů', () => {
+    expect(parseLocation('/nothing', '').route).toEqual({ view: 'projects' });
+    expect(parseLocation('/projects/%E0%A4%A', '').route).toEqual({ view: 'projects' });
+    expect(parseLocation('/projects/p1/unknown', '').route).toEqual({ view: 'plugins', projectId: 'p1' });
+  });
+
+  it('server z odkazu patří jen projektovým routám', () => {
+    expect(parseLocation('/projects/p1/dashboard', '?server=http://team:8000/').server).toBe('http://team:8000');
+    expect(parseLocation('/upload', '?server=http://team:8000').server).toBeNull();
+    expect(parseLocation('/projects/p1/dashboard', '?server=not a url').server).toBeNull();
+  });
+});
@@ -0,0 +1,183 @@
+// Routování přes History API - každé view má vlastní URL, aby šel odkaz poslat kolegovi
+// a refresh prohlížeče vrátil analytika tam, kde skončil.
+import { getActiveServer, normalizeServerUrl } from './api/servers';
+
+export type Route =
+  | { view: 'projects' }
+  | { view: 'upload' }
+  | { view: 'symbols' }
+  | { view: 'servers' }
+  | { view: 'plugins'; projectId: string }
+  | { view: 'dashboard'; projectId: string }
+  /** Přehled všech doběhlých pluginů projektu */
+  | { view: 'history'; projectId: string }
+  /**
+   * batch = úspěšné pluginy z batch běhu, mezi kterými jde přepínat;
+   * row = řádek výsledků (row_index anotace), na který grid skočí
+   */
+  | { view: 'results'; projectId: string; plugin: string; batch?: string[]; row?: number }
+  | { view: 'investigation'; projectId: string; pid?: number }
+  /** keyPath = segmenty cesty klíče (v registrech oddělené zpětným lomítkem) */
+  | { view: 'registry'; projectId: string; hive?: number; keyPath?: string[] };
+
+export interface RouteLocation {
+  route: Route;
+  /** URL serveru, kterému patří projekt z odkazu (chybí u výchozího serveru) */
+  server: string | null;
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+function parseList(value: string | null): string[] {
+  return value ? value.split(',').filter(Boolean) : [];
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Převede URL na route; neznámé adresy vedou na seznam projektů
+ */
+export function parseLocation(pathname: string, search: string): RouteLocation {
+  const params = new URLSearchParams(search);
+  let server: string | null = null;
+  try {
+    server = params.has('server') ? normalizeServerUrl(params.get('server')!) : null;
+  } catch {
+    // Neplatná adresa serveru v odkazu - projekt hledáme na výchozím serveru
+  }
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Poškozené procentové kódování v ručně upravené adrese
+    return { route: { view: 'projects' }, server: null };
+  }
+  const [root, projectId, view, ...rest] = segments;
+  const located = (route: Route): RouteLocation => ({ route, server: projectId ? server : null });
+
+  if (root === 'upload') return located({ view: 'upload' });
+  if (root === 'symbols') return located({ view: 'symbols' });
+  if (root === 'servers') return located({ view: 'servers' });
+  if (root !== 'projects' || !projectId) return located({ view: 'projects' });
+
+  switch (view) {
+    case 'dashboard':
+      return located({ view: 'dashboard', projectId });
+    case 'results': {
+      if (!rest[0]) return located({ view: 'history', projectId });
+      const batch = parseList(params.get('batch'));
+      const row = parseNumber(params.get('row') ?? undefined);
+      return located({
+        view: 'results', projectId, plugin: rest[0],
+        ...(batch.length > 0 && { batch }),
+        ...(row !== undefined && { row }),
+      });
+    }
+    case 'investigation':
+      return located({ view: 'investigation', projectId, pid: rest[0] === 'pid' ? parseNumber(rest[1]) : undefined });
+    case 'registry': {
+      const [hive, ...keyPath] = rest;
+      return located({
+        view: 'registry',
+        projectId,
+        hive: parseNumber(hive),
+        ...(keyPath.length > 0 && { keyPath }),
+      });
+    }
+    default:
+      return located({ view: 'plugins', projectId });
+  }
+}
+
+/**
+ * Sestaví URL pro route. Projektové routy nesou i adresu serveru, pokud není výchozí.
+ */
+export function routeToPath(route: Route): string {
+  const encode = (...segments: string[]) => '/' + segments.map(encodeURIComponent).join('/');
+  const params = new URLSearchParams();
+  let path: string;
+
+  switch (route.view) {
+    case 'projects': return '/';
+    case 'upload': return '/upload';
+    case 'symbols': return '/symbols';
+    case 'servers': return '/servers';
+    case 'plugins':
+      path = encode('projects', route.projectId, 'plugins');
+      break;
+    case 'dashboard':
+      path = encode('projects', route.projectId, 'dashboard');
+      break;
+    case 'history':
+      path = encode('projects', route.projectId, 'results');
+      break;
+    case 'results':
+      path = encode('projects', route.projectId, 'results', route.plugin);
+      if (route.batch) params.set('batch', route.batch.join(','));
+      if (route.row !== undefined) params.set('row', String(route.row));
+      break;
+    case 'investigation':
+      path = route.pid !== undefined
+        ? encode('projects', route.projectId, 'investigation', 'pid', String(route.pid))
+        : encode('projects', route.projectId, 'investigation');
+      break;
+    case 'registry':
+      path = encode(
+        'projects', route.projectId, 'registry',
+        ...(route.hive !== undefined ? [`0x${route.hive.toString(16)}`, ...(route.keyPath ?? [])] : [])
+      );
+      break;
+  }
+
+  const server = getActiveServer();
+  if (!server.builtin) params.set('server', server.url);
+  // Čárky v seznamech pluginů necháme čitelné
+  const query = params.toString().replace(/%2C/g, ',');
+  return query ? `${path}?${query}` : path;
+}
+
+let snapshot = parseLocation(window.location.pathname, window.location.search);
+
+function refresh() {
+  const next = parseLocation(window.location.pathname, window.location.search);
+  // Stejná URL = stejný snapshot, aby useSyncExternalStore zbytečně nepřekresloval
+  if (JSON.stringify(next) === JSON.stringify(snapshot)) return;
+  snapshot = next;
+  listeners.forEach(l => l());
+}
+
+window.addEventListener('popstate', refresh);
+
+export function getLocationSnapshot(): RouteLocation {
+  return snapshot;
+}
+
+export function subscribeLocation(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Přejde na route. replace = nahradí aktuální záznam v historii
+ * (přesměrování, která nemají jít vrátit tlačítkem Zpět).
+ */
+export function navigate(route: Route, options: { replace?: boolean } = {}) {
+  const path = routeToPath(route);
+  if (path === window.location.pathname + window.location.search) return;
+  if (options.replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  refresh();
+}
+
+/** ID projektu z route (null u globálních view) */
+export function getRouteProjectId(route: Route): string | null {
+  return 'projectId' in route ? route.projectId : null;
+}
@@ -0,0 +1,71 @@
+// Barevný motiv - světlý, tmavý nebo podle systému. Volba se pamatuje v prohlížeči,
+// výsledný motiv je v atributu data-theme na <html> a CSS proměnné se podle něj přepnou.
+
+export type ThemePreference = 'light' | 'dark' | 'system';
+export type ResolvedTheme = 'light' | 'dark';
+
+export interface ThemeSnapshot {
+  preference: ThemePreference;
+  /** Skutečně použitý motiv (u 'system' podle prefers-color-scheme) */
+  resolved: ResolvedTheme;
+}
+
+export const THEME_PREFERENCES: ThemePreference[] = ['system', 'light', 'dark'];
+
+const STORAGE_KEY = 'vtf-theme';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const darkQuery = typeof window !== 'undefined' && window.matchMedia
+  ? window.matchMedia('(prefers-color-scheme: dark)')
+  : null;
+
+function loadPreference(): ThemePreference {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return stored === 'light' || stored === 'dark' ? stored : 'system';
+}
+
+function resolve(preference: ThemePreference): ResolvedTheme {
+  if (preference !== 'system') return preference;
+  return darkQuery?.matches ? 'dark' : 'light';
+}
+
+function applyToDocument(theme: ResolvedTheme) {
+  if (typeof document !== 'undefined') document.documentElement.dataset.theme = theme;
+}
+
+let snapshot: ThemeSnapshot = (() => {
+  const preference = loadPreference();
+  return { preference, resolved: resolve(preference) };
+})();
+applyToDocument(snapshot.resolved);
+
+function update(preference: ThemePreference) {
+  const resolved = resolve(preference);
+  if (preference === snapshot.preference && resolved === snapshot.resolved) return;
+  snapshot = { preference, resolved };
+  applyToDocument(resolved);
+  listeners.forEach(l => l());
+}
+
+// Změna motivu v systému (např. automatický přechod na noc) se projeví hned
+darkQuery?.addEventListener('change', () => update(snapshot.preference));
+
+export function getThemeSnapshot(): ThemeSnapshot {
+  return snapshot;
+}
+
+export function subscribeTheme(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function setThemePreference(preference: ThemePreference) {
+  if (preference === 'system') {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, preference);
+  }
+  update(preference);
+}
@@ -0,0 +1,122 @@
+// Web Worker pro výpočet SHA-256 velkých souborů po částech.
+// crypto.subtle.digest neumí inkrementální hashování, multi-GB dump se ale
+// do paměti nevejde - proto vlastní streamovací implementace.
+
+export interface HashWorkerRequest {
+  file: File;
+}
+
+export type HashWorkerMessage =
+  | { type: 'progress'; hashedBytes: number }
+  | { type: 'done'; sha256: string }
+  // Worker nezná jazyk aplikace - text chyby doplní chunkedUpload přes t()
+  | { type: 'error'; detail?: string };
+
+const READ_CHUNK_SIZE = 8 * 1024 * 1024;
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+function createSha256() {
+  const h = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+  const block = new Uint8Array(64);
+  let blockLength = 0;
+  let totalBytes = 0;
+
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  const processBlock = (data: Uint8Array, offset: number) => {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let a = h[0], b = h[1], c = h[2], d = h[3], e = h[4], f = h[5], g = h[6], hh = h[7];
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (hh + S1 + ch + K[i] + w[i]) | 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) | 0;
+      hh = g; g = f; f = e; e = (d + t1) | 0;
+      d = c; c = b; b = a; a = (t1 + t2) | 0;
+    }
+
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d;
+    h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  };
+
+  return {
+    update(data: Uint8Array) {
+      totalBytes += data.length;
+      let offset = 0;
+
+      if (blockLength > 0) {
+        const take = Math.min(64 - blockLength, data.length);
+        block.set(data.subarray(0, take), blockLength);
+        blockLength += take;
+        offset = take;
+        if (blockLength < 64) return;
+        processBlock(block, 0);
+        blockLength = 0;
+      }
+
+      for (; offset + 64 <= data.length; offset += 64) {
+        processBlock(data, offset);
+      }
+
+      if (offset < data.length) {
+        block.set(data.subarray(offset), 0);
+        blockLength = data.length - offset;
+      }
+    },
+
+    digest(): string {
+      // Padding: 0x80, nuly, délka zprávy v bitech (64 bit big-endian)
+      const bitLength = totalBytes * 8;
+      const padLength = blockLength < 56 ? 56 - blockLength : 120 - blockLength;
+      const padding = new Uint8Array(padLength + 8);
+      padding[0] = 0x80;
+      const view = new DataView(padding.buffer);
+      view.setUint32(padLength, Math.floor(bitLength / 0x100000000));
+      view.setUint32(padLength + 4, bitLength >>> 0);
+      this.update(padding);
+
+      return Array.from(h, x => x.toString(16).padStart(8, '0')).join('');
+    },
+  };
+}
+
+self.onmessage = async (e: MessageEvent<HashWorkerRequest>) => {
+  const { file } = e.data;
+  const post = (msg: HashWorkerMessage) => self.postMessage(msg);
+
+  try {
+    const hasher = createSha256();
+    for (let offset = 0; offset < file.size; offset += READ_CHUNK_SIZE) {
+      const buffer = await file.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer();
+      hasher.update(new Uint8Array(buffer));
+      post({ type: 'progress', hashedBytes: Math.min(offset + READ_CHUNK_SIZE, file.size) });
+    }
+    post({ type: 'done', sha256: hasher.digest() });
+  } catch (err) {
+    post({ type: 'error', detail: err instanceof Error ? err.message : undefined });
+  }
+};
@@ -0,0 +1,178 @@
+// Pracovní plocha výsledků - otevřené záložky pluginů a jejich rozložení do dvou panelů.
+// Aktivní záložka fokusovaného panelu odpovídá URL (results/:plugin), druhý panel si
+// aktivní záložku pamatuje sám.
+import { getSessionSnapshot, subscribeSession } from './api/session';
+
+export type WorkspacePane = 'left' | 'right';
+
+export interface ResultsTab {
+  /** `${projectId}:${plugin}` - stejný klíč jako načtené výsledky v App */
+  id: string;
+  projectId: string;
+  plugin: string;
+  pane: WorkspacePane;
+}
+
+export interface WorkspaceSnapshot {
+  /** Pořadí záložek napříč panely; panel zobrazuje své záložky v tomto pořadí */
+  tabs: ResultsTab[];
+  activeTabs: Record<WorkspacePane, string | null>;
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+let snapshot: WorkspaceSnapshot = { tabs: [], activeTabs: { left: null, right: null } };
+
+function update(next: WorkspaceSnapshot) {
+  snapshot = next;
+  listeners.forEach(l => l());
+}
+
+// Prázdný levý panel převezme záložky pravého - rozdělení bez levé strany nedává smysl
+function withoutEmptyLeftPane(next: WorkspaceSnapshot, projectId: string): WorkspaceSnapshot {
+  const projectTabs = next.tabs.filter(t => t.projectId === projectId);
+  if (projectTabs.length === 0 || projectTabs.some(t => t.pane === 'left')) return next;
+  return {
+    tabs: next.tabs.map(t => (t.projectId === projectId ? { ...t, pane: 'left' } : t)),
+    activeTabs: { left: next.activeTabs.right, right: null },
+  };
+}
+
+// Po odhlášení patří záložky předchozímu uživateli
+subscribeSession(() => {
+  const { session, endReason } = getSessionSnapshot();
+  if (!session && endReason === 'logout' && snapshot.tabs.length > 0) {
+    update({ tabs: [], activeTabs: { left: null, right: null } });
+  }
+});
+
+export function getWorkspaceSnapshot(): WorkspaceSnapshot {
+  return snapshot;
+}
+
+export function subscribeWorkspace(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getTabId(projectId: string, plugin: string): string {
+  return `${projectId}:${plugin}`;
+}
+
+/** Záložky projektu v daném panelu (v pořadí zobrazení) */
+export function getPaneTabs(tabs: ResultsTab[], projectId: string, pane: WorkspacePane): ResultsTab[] {
+  return tabs.filter(t => t.projectId === projectId && t.pane === pane);
+}
+
+/**
+ * Otevře pluginy jako záložky (už otevřené zůstanou, kde jsou). Nové záložky jdou
+ * do levého panelu; první z pluginů se v panelu aktivuje.
+ */
+export function openResultsTabs(projectId: string, plugins: string[]) {
+  if (plugins.length === 0) return;
+  const added = plugins
+    .filter(plugin => !snapshot.tabs.some(t => t.id === getTabId(projectId, plugin)))
+    .map((plugin): ResultsTab => ({ id: getTabId(projectId, plugin), projectId, plugin, pane: 'left' }));
+  const tabs = [...snapshot.tabs, ...added];
+  const first = tabs.find(t => t.id === getTabId(projectId, plugins[0]))!;
+  update({ tabs, activeTabs: { ...snapshot.activeTabs, [first.pane]: first.id } });
+}
+
+export function activateTab(tabId: string) {
+  const tab = snapshot.tabs.find(t => t.id === tabId);
+  if (!tab || snapshot.activeTabs[tab.pane] === tabId) return;
+  update({ ...snapshot, activeTabs: { ...snapshot.activeTabs, [tab.pane]: tabId } });
+}
+
+/**
+ * Přesune záložku před jinou záložku (beforeId) nebo na konec panelu.
+ * Přesun do druhého panelu = rozdělení plochy, přesunutá záložka se v něm aktivuje.
+ */
+export function moveTab(tabId: string, pane: WorkspacePane, beforeId: string | null = null) {
+  const tab = snapshot.tabs.find(t => t.id === tabId);
+  if (!tab || tabId === beforeId) return;
+  const moved = { ...tab, pane };
+  const rest = snapshot.tabs.filter(t => t.id !== tabId);
+  const beforeIndex = beforeId ? rest.findIndex(t => t.id === beforeId) : -1;
+  const tabs = beforeIndex >= 0
+    ? [...rest.slice(0, beforeIndex), moved, ...rest.slice(beforeIndex)]
+    : [...rest, moved];
+
+  const activeTabs = { ...snapshot.activeTabs, [pane]: tabId };
+  if (tab.pane !== pane && snapshot.activeTabs[tab.pane] === tabId) {
+    activeTabs[tab.pane] = nextTabInPane(rest, tab)?.id ?? null;
+  }
+  update(withoutEmptyLeftPane({ tabs, activeTabs }, tab.projectId));
+}
+
+// Soused zavřené/přesunuté záložky ve stejném panelu a projektu - nejdřív vpravo, pak vlevo
+function nextTabInPane(rest: ResultsTab[], removed: ResultsTab): ResultsTab | undefined {
+  const paneTabs = snapshot.tabs.filter(t => t.projectId === removed.projectId && t.pane === removed.pane);
+  const index = paneTabs.findIndex(t => t.id === removed.id);
+  const candidates = [...paneTabs.slice(index + 1), ...paneTabs.slice(0, index).reverse()];
+  return candidates.find(t => rest.some(r => r.id === t.id));
+}
+
+/**
+ * Zavře záložku. Vrací záložku, která má převzít fokus (soused ve stejném panelu,
+ * jinak aktivní záložka druhého panelu), nebo null, pokud v projektu žádná nezbyla.
+ */
+export function closeTab(tabId: string): ResultsTab | null {
+  const tab = snapshot.tabs.find(t => t.id === tabId);
+  if (!tab) return null;
+  const tabs = snapshot.tabs.filter(t => t.id !== tabId);
+  const neighbour = nextTabInPane(tabs, tab);
+  const activeTabs = { ...snapshot.activeTabs };
+  if (activeTabs[tab.pane] === tabId) activeTabs[tab.pane] = neighbour?.id ?? null;
+  update(withoutEmptyLeftPane({ tabs, activeTabs }, tab.projectId));
+
+  if (neighbour) return snapshot.tabs.find(t => t.id === neighbour.id)!;
+  const projectTabs = snapshot.tabs.filter(t => t.projectId === tab.projectId);
+  const { left, right } = snapshot.activeTabs;
+  return projectTabs.find(t => t.id === left || t.id === right) ?? projectTabs[0] ?? null;
+}
+
+/** Zruší rozdělení - záložky pravého panelu se připojí za levé */
+export function mergePanes(projectId: string) {
+  const right = getPaneTabs(snapshot.tabs, projectId, 'right');
+  if (right.length === 0) return;
+  const others = snapshot.tabs.filter(t => !right.includes(t));
+  update({
+    tabs: [...others, ...right.map(t => ({ ...t, pane: 'left' as const }))],
+    activeTabs: { left: snapshot.activeTabs.left ?? snapshot.activeTabs.right, right: null },
+  });
+}
+
+/**
+ * Obnoví uložené záložky projektu (po reloadu nebo znovuotevření projektu).
+ * Projekt, který už záložky má, se nemění.
+ */
+export function restoreProjectTabs(
+  projectId: string,
+  saved: { plugin: string; pane: WorkspacePane }[],
+  active: Partial<Record<WorkspacePane, string>> = {}
+) {
+  if (saved.length === 0 || snapshot.tabs.some(t => t.projectId === projectId)) return;
+  const restored = saved.map((t): ResultsTab => ({ id: getTabId(projectId, t.plugin), projectId, plugin: t.plugin, pane: t.pane }));
+  const activeTabs = { ...snapshot.activeTabs };
+  for (const pane of ['left', 'right'] as const) {
+    const plugin = active[pane];
+    if (plugin && restored.some(t => t.plugin === plugin && t.pane === pane)) activeTabs[pane] = getTabId(projectId, plugin);
+  }
+  update(withoutEmptyLeftPane({ tabs: [...snapshot.tabs, ...restored], activeTabs }, projectId));
+}
+
+/** Zavře všechny záložky projektu (reset rozložení) */
+export function closeProjectTabs(projectId: string) {
+  const tabs = snapshot.tabs.filter(t => t.projectId !== projectId);
+  if (tabs.length === snapshot.tabs.length) return;
+  const isOpen = (id: string | null) => id !== null && tabs.some(t => t.id === id);
+  update({
+    tabs,
+    activeTabs: {
+      left: isOpen(snapshot.activeTabs.left) ? snapshot.activeTabs.left : null,
+      right: isOpen(snapshot.activeTabs.right) ? snapshot.activeTabs.right : null,
+    },
+  });
+}
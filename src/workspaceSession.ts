@@ -0,0 +1,153 @@
+// Uložená pracovní plocha projektu - poslední view, záložky výsledků, stav vyšetřování,
+// stromu procesů a registrů a filtry gridů. Ukládá se do localStorage zvlášť pro každého
+// uživatele, server a projekt, takže reload i znovuotevření projektu vrátí analytika tam,
+// kde skončil. Reset rozložení uložený stav projektu zahodí.
+import { getSessionSnapshot } from './api/session';
+import { getActiveServer } from './api/servers';
+import { getRouteProjectId, navigate } from './router';
+import type { Route } from './router';
+import type { GridViewState } from './gridViews';
+import { closeProjectTabs, getPaneTabs, getWorkspaceSnapshot, restoreProjectTabs, subscribeWorkspace } from './workspace';
+import type { WorkspacePane, WorkspaceSnapshot } from './workspace';
+
+export type InvestigationTab = 'tree' | 'timeline' | 'watchlist' | 'detail';
+
+export interface ProjectWorkspaceState {
+  /** Poslední view projektu - na něj se projekt znovu otevře */
+  route?: Route;
+  /** Otevřené záložky výsledků v pořadí zobrazení */
+  tabs?: { plugin: string; pane: WorkspacePane }[];
+  /** Aktivní plugin v každém panelu */
+  activeTabs?: Partial<Record<WorkspacePane, string>>;
+  investigationTab?: InvestigationTab;
+  /** Naposledy vybraný proces ve vyšetřování */
+  investigationPid?: number;
+  processTree?: { search: string; expanded: number[] };
+  /** Poslední otevřený hive a klíč (drobečková navigace) */
+  registry?: { hive?: number; keyPath?: string[] };
+  /** Sloupce, filtry a řazení podle pluginu */
+  grids?: Record<string, GridViewState>;
+}
+
+const STORAGE_PREFIX = 'vtf-workspace:';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+// Zvýší se při resetu rozložení - view se podle něj namountují znovu s výchozím stavem
+let resetCount = 0;
+
+// Klíč patří přihlášenému uživateli a aktivnímu serveru (ID projektu jsou unikátní jen v rámci serveru)
+function storageKey(projectId: string): string | null {
+  const username = getSessionSnapshot().session?.user.username;
+  if (!username) return null;
+  return `${STORAGE_PREFIX}${username}@${getActiveServer().url}/${projectId}`;
+}
+
+export function loadWorkspaceState(projectId: string): ProjectWorkspaceState {
+  const key = storageKey(projectId);
+  if (!key) return {};
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) ?? '{}');
+    return parsed && typeof parsed === 'object' ? parsed as ProjectWorkspaceState : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Přepíše uložené části stavu projektu, ostatní zůstanou */
+export function saveWorkspaceState(projectId: string, patch: ProjectWorkspaceState) {
+  const key = storageKey(projectId);
+  if (!key) return;
+  const current = loadWorkspaceState(projectId);
+  const next = JSON.stringify({ ...current, ...patch });
+  // Grid hlásí změnu stavu i při scrollu - zápis jen při skutečné změně
+  if (next !== JSON.stringify(current)) localStorage.setItem(key, next);
+}
+
+export function saveGridState(projectId: string, plugin: string, state: GridViewState) {
+  const { grids = {} } = loadWorkspaceState(projectId);
+  saveWorkspaceState(projectId, { grids: { ...grids, [plugin]: state } });
+}
+
+/**
+ * Zapamatuje si route projektu - poslední view, vybraný proces a otevřený klíč v registrech
+ */
+export function rememberRoute(route: Route) {
+  const projectId = getRouteProjectId(route);
+  if (!projectId) return;
+  // Batch je jednorázové otevření záložek, ty se ukládají samy
+  const patch: ProjectWorkspaceState = {
+    route: route.view === 'results' ? { view: 'results', projectId, plugin: route.plugin } : route,
+  };
+  if (route.view === 'investigation') patch.investigationPid = route.pid;
+  if (route.view === 'registry') patch.registry = { hive: route.hive, keyPath: route.keyPath };
+  saveWorkspaceState(projectId, patch);
+}
+
+/** Route, na kterou se projekt otevře - poslední view, jinak výběr pluginů */
+export function getLastRoute(projectId: string): Route {
+  const { route } = loadWorkspaceState(projectId);
+  return route && getRouteProjectId(route) === projectId ? route : { view: 'plugins', projectId };
+}
+
+/** Vyšetřování nebo registry s naposledy vybraným procesem / klíčem */
+export function getRestoredRoute(projectId: string, view: 'investigation' | 'registry'): Route {
+  const state = loadWorkspaceState(projectId);
+  return view === 'investigation'
+    ? { view, projectId, pid: state.investigationPid }
+    : { view, projectId, hive: state.registry?.hive, keyPath: state.registry?.keyPath };
+}
+
+/** Obnoví uložené záložky výsledků projektu (jen pokud žádné otevřené nemá) */
+export function restoreWorkspaceTabs(projectId: string) {
+  const { tabs = [], activeTabs } = loadWorkspaceState(projectId);
+  restoreProjectTabs(projectId, tabs, activeTabs);
+}
+
+function projectTabs(workspace: WorkspaceSnapshot, projectId: string): Pick<ProjectWorkspaceState, 'tabs' | 'activeTabs'> {
+  const tabs = workspace.tabs.filter(t => t.projectId === projectId);
+  const activeTabs: Partial<Record<WorkspacePane, string>> = {};
+  for (const pane of ['left', 'right'] as const) {
+    const active = getPaneTabs(tabs, projectId, pane).find(t => t.id === workspace.activeTabs[pane]);
+    if (active) activeTabs[pane] = active.plugin;
+  }
+  return { tabs: tabs.map(t => ({ plugin: t.plugin, pane: t.pane })), activeTabs };
+}
+
+// Záložky projektu se uloží, když se změní - po odhlášení (bez uživatele) ne,
+// aby zavření záložek odhlášením nepřepsalo uloženou plochu
+let lastWorkspace: WorkspaceSnapshot = getWorkspaceSnapshot();
+subscribeWorkspace(() => {
+  const previous = lastWorkspace;
+  const next = getWorkspaceSnapshot();
+  lastWorkspace = next;
+  const projectIds = new Set([...previous.tabs, ...next.tabs].map(t => t.projectId));
+  for (const projectId of projectIds) {
+    const saved = projectTabs(next, projectId);
+    if (JSON.stringify(saved) !== JSON.stringify(projectTabs(previous, projectId))) {
+      saveWorkspaceState(projectId, saved);
+    }
+  }
+});
+
+export function getWorkspaceResetCount(): number {
+  return resetCount;
+}
+
+export function subscribeWorkspaceReset(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Reset rozložení - zahodí uložený stav projektu, zavře jeho záložky a vrátí ho na výběr pluginů
+ */
+export function resetProjectLayout(projectId: string) {
+  closeProjectTabs(projectId);
+  const key = storageKey(projectId);
+  if (key) localStorage.removeItem(key);
+  resetCount++;
+  listeners.forEach(l => l());
+  navigate({ view: 'plugins', projectId });
+}
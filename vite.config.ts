@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
@@ -8,4 +9,8 @@ export default defineConfig({
     react(),
     tailwindcss()
   ],
+  test: {
+    // Moduly API sahají při načtení na localStorage a window.location
+    environment: 'jsdom',
+  },
 })